@@ -32,7 +32,7 @@ describe('App Component', () => {
     // Mock fetch for ballot list
     global.fetch = async () => ({
       ok: true,
-      json: async () => []
+      json: async () => ({ items: [], nextCursor: null })
     }) as Response
 
     document.documentElement.classList.remove('dark')
@@ -84,6 +84,13 @@ describe('App Component', () => {
     expect(document.querySelector('.min-h-screen')).toBeInTheDocument()
   })
 
+  test('should render a search box in the header', () => {
+    render(<App />)
+
+    const searchBox = screen.getByRole('searchbox', { name: /search ballots, attendance and dashboards/i })
+    expect(document.querySelector('header')).toContainElement(searchBox)
+  })
+
   test('should have backdrop blur effect on header', () => {
     render(<App />)
 
@@ -129,7 +136,7 @@ describe('App Component - Theme Integration', () => {
     // Mock fetch
     global.fetch = async () => ({
       ok: true,
-      json: async () => []
+      json: async () => ({ items: [], nextCursor: null })
     }) as Response
 
     document.documentElement.classList.remove('dark')
@@ -182,7 +189,7 @@ describe('App Component - Layout', () => {
     // Mock fetch
     global.fetch = async () => ({
       ok: true,
-      json: async () => []
+      json: async () => ({ items: [], nextCursor: null })
     }) as Response
   })
 
@@ -3,10 +3,12 @@ import { BallotList } from './components/BallotList'
 import { BallotDetailPage } from './components/BallotDetailPage'
 import { AdminPanel } from './components/AdminPanel'
 import { ThemeToggle } from './components/ThemeToggle'
+import { SearchBox } from './components/SearchBox'
 import { DashboardsPage } from './pages/DashboardsPage'
 import { DashboardDetailPage } from './pages/DashboardDetailPage'
 import { AttendanceListPage } from './pages/AttendanceListPage'
 import { AttendanceDetailPage } from './pages/AttendanceDetailPage'
+import { SearchPage } from './pages/SearchPage'
 
 function App() {
   return (
@@ -17,6 +19,7 @@ function App() {
             <a href="/" className="text-foreground hover:text-primary transition-colors text-sm font-medium">
               Ballots
             </a>
+            <SearchBox />
             <ThemeToggle />
           </div>
         </header>
@@ -27,6 +30,7 @@ function App() {
           <Route path="/dashboards/:id" element={<DashboardDetailPage />} />
           <Route path="/attendance" element={<AttendanceListPage />} />
           <Route path="/attendance/:id" element={<AttendanceDetailPage />} />
+          <Route path="/search" element={<SearchPage />} />
           <Route path="/ballot/:id" element={<BallotDetailPage />} />
           <Route path="/:id" element={<BallotDetailPage />} />
         </Routes>
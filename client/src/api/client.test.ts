@@ -0,0 +1,72 @@
+import { describe, test, expect, afterEach, mock } from 'bun:test'
+import { ApiError, MAX_CONFLICT_RETRIES, attendanceApi, withConflictRetry } from './client'
+
+const conflict = (currentVersion?: number) =>
+  new ApiError('Version conflict', 409, 'Conflict', 'VERSION_CONFLICT', currentVersion ? { currentVersion } : undefined)
+
+const jsonResponse = (status: number, body: unknown) => new Response(JSON.stringify(body), { status })
+
+describe('API client', () => {
+  describe('withConflictRetry', () => {
+    test('should re-apply after a conflict, passing the conflict along', async () => {
+      const seen: (ApiError | undefined)[] = []
+      const result = await withConflictRetry(async (previous) => {
+        seen.push(previous)
+        if (seen.length === 1) throw conflict(4)
+        return 'saved'
+      })
+
+      expect(result).toBe('saved')
+      expect(seen[0]).toBeUndefined()
+      expect(seen[1]?.details).toEqual({ currentVersion: 4 })
+    })
+
+    test('should give up after the last retry', async () => {
+      let attempts = 0
+      const failing = withConflictRetry(async () => {
+        attempts++
+        throw conflict()
+      })
+
+      await expect(failing).rejects.toThrow('Version conflict')
+      expect(attempts).toBe(MAX_CONFLICT_RETRIES + 1)
+    })
+
+    test('should not retry other errors', async () => {
+      let attempts = 0
+      const failing = withConflictRetry(async () => {
+        attempts++
+        throw new ApiError('Ballot is closed', 423, 'Locked', 'BALLOT_CLOSED')
+      })
+
+      await expect(failing).rejects.toThrow('Ballot is closed')
+      expect(attempts).toBe(1)
+    })
+  })
+
+  describe('attendanceApi.respond', () => {
+    const originalFetch = globalThis.fetch
+
+    afterEach(() => {
+      globalThis.fetch = originalFetch
+    })
+
+    test('should re-send the response against the version the conflict reported', async () => {
+      const bodies: unknown[] = []
+      globalThis.fetch = mock(async (_url: string, init?: RequestInit) => {
+        bodies.push(JSON.parse(init!.body as string))
+        return bodies.length === 1
+          ? jsonResponse(409, { error: { code: 'VERSION_CONFLICT', message: 'Version conflict', details: { currentVersion: 3 } } })
+          : jsonResponse(200, { id: 'a1', version: 4 })
+      }) as unknown as typeof fetch
+
+      const saved = await attendanceApi.respond('a1', 'Sam', true, 2)
+
+      expect(saved).toEqual({ id: 'a1', version: 4 } as never)
+      expect(bodies).toEqual([
+        { name: 'Sam', attending: true, version: 2 },
+        { name: 'Sam', attending: true, version: 3 }
+      ])
+    })
+  })
+})
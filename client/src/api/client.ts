@@ -1,35 +1,221 @@
-import type { Ballot, Vote, VoteColor, AdminBallot, Dashboard, Attendance } from 'shared/dist'
+import type { Ballot, BallotKind, Vote, VoteColor, VotePolicy, AdminBallot, AdminSession, Dashboard, DashboardEditorSummary, DashboardRole, Attendance, AttendanceQuery, AttendanceSeries, CalendarFeedQuery, Recurrence, ErrorCode, ExportFormat, ListQuery, Page, SearchHit, SearchResults, TrashItem, TrashType, AuditEntry, AuditQuery } from 'shared/dist'
+import { MAX_PAGE_SIZE, isApiErrorBody } from 'shared/dist'
+import { rateLimitMessage } from '../utils/ballot'
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'https://ballot-app-server.siener.workers.dev'
 
+// React to `code` rather than `status`: several codes share a status, e.g.
+// VERSION_CONFLICT and ALREADY_VOTED are both 409
 export class ApiError extends Error {
   constructor(
     message: string,
     public status: number,
-    public statusText: string
+    public statusText: string,
+    // From the error envelope; missing when the body wasn't one
+    public code?: ErrorCode,
+    public details?: Record<string, unknown>,
+    // From Retry-After on 429 responses
+    public retryAfterSeconds?: number
   ) {
     super(message)
     this.name = 'ApiError'
   }
 }
 
-async function handleResponse<T>(response: Response): Promise<T> {
-  if (!response.ok) {
-    const errorBody = await response.text()
-    throw new ApiError(
-      errorBody || response.statusText,
-      response.status,
-      response.statusText
-    )
+export interface NewBallotSettings {
+  closesAt?: string
+  kind?: BallotKind
+  options?: string[]  // Labels for 'choice', 'ranked' and 'approval' ballots
+  votePolicy?: VotePolicy
+}
+
+// The create response is the only place the owner token is ever sent
+export type CreatedBallot = Ballot & { ownerToken?: string }
+
+export type BallotOwnerUpdates = Partial<Pick<Ballot, 'question' | 'isPrivate'>>
+
+export type CreatedDashboard = Dashboard & { ownerToken?: string }
+
+export type DashboardItems = Partial<Pick<Dashboard, 'ballotIds' | 'attendanceIds'>>
+
+// A dashboard token kept in this browser, with what it was last known to allow
+export type DashboardAccess = { token: string; role: Exclude<DashboardRole, 'viewer'> }
+
+// A new editor's token is only in the response that created them
+export type CreatedDashboardEditor = DashboardEditorSummary & { token: string }
+
+// A new series comes with the polls created for its next few weeks
+export type CreatedAttendanceSeries = AttendanceSeries & { attendance: Attendance[] }
+
+// What a vote picks: one option value (a color on traffic-light ballots), or
+// the whole selection on ranked and approval ballots
+export type VoteSelection = string | Pick<Vote, 'ranking'> | Pick<Vote, 'approvals'>
+
+async function errorFrom(response: Response): Promise<ApiError> {
+  const text = await response.text()
+  let body: unknown
+  try {
+    body = JSON.parse(text)
+  } catch {
+    // Not JSON, e.g. a proxy's error page
+  }
+
+  if (response.status === 429) {
+    const retryAfter = Number(response.headers.get('Retry-After')) || undefined
+    return new ApiError(rateLimitMessage(retryAfter), response.status, response.statusText, 'RATE_LIMITED', undefined, retryAfter)
   }
+  if (isApiErrorBody(body)) {
+    const { code, message, details } = body.error
+    return new ApiError(message, response.status, response.statusText, code, details)
+  }
+  return new ApiError(text || response.statusText, response.status, response.statusText)
+}
+
+async function handleResponse<T>(response: Response): Promise<T> {
+  if (!response.ok) throw await errorFrom(response)
   return response.json()
 }
 
+/**
+ * What to tell the user when a request fails: the rate limit message when
+ * there is one, otherwise `fallback`.
+ */
+export function userMessage(error: unknown, fallback: string): string {
+  return error instanceof ApiError && error.code === 'RATE_LIMITED' ? error.message : fallback
+}
+
+// Operations that are safe to repeat are re-applied this many times after a
+// VERSION_CONFLICT before the error is passed on
+export const MAX_CONFLICT_RETRIES = 3
+const CONFLICT_RETRY_DELAY_MS = 100
+
+/**
+ * Runs `apply`, and on VERSION_CONFLICT runs it again with the conflict so it
+ * can start from the latest record. Only for operations whose result doesn't
+ * depend on what they overwrite, e.g. setting one person's response.
+ */
+export async function withConflictRetry<T>(apply: (conflict?: ApiError) => Promise<T>): Promise<T> {
+  let conflict: ApiError | undefined
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await apply(conflict)
+    } catch (error) {
+      if (!(error instanceof ApiError && error.code === 'VERSION_CONFLICT') || attempt >= MAX_CONFLICT_RETRIES) throw error
+      conflict = error
+      // Back off a little so the other writer can finish
+      await new Promise(resolve => setTimeout(resolve, CONFLICT_RETRY_DELAY_MS * (attempt + 1)))
+    }
+  }
+}
+
+// The version to retry with: the one the conflict reported, or else the
+// record's as it is now
+async function latestVersion(conflict: ApiError, refetch: () => Promise<{ version?: number }>): Promise<number> {
+  const reported = conflict.details?.currentVersion
+  return typeof reported === 'number' ? reported : (await refetch()).version ?? 1
+}
+
+// A downloaded export, for the browser to save
+export type ExportFile = { blob: Blob; filename: string }
+
+async function downloadExport(path: string, format: ExportFormat, headers: Record<string, string> = {}): Promise<ExportFile> {
+  const response = await fetch(`${API_BASE_URL}${path}?format=${format}`, { headers })
+  if (!response.ok) throw await errorFrom(response)
+  const filename = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] ?? `export.${format}`
+  return { blob: await response.blob(), filename }
+}
+
+// Query string for a list request; unset values are left out
+function listQueryString(query: ListQuery | CalendarFeedQuery): string {
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== '') params.set(key, String(value))
+  }
+  const text = params.toString()
+  return text ? `?${text}` : ''
+}
+
+// Every page of a list, for views that need all of it
+async function allPages<T>(getPage: (query: ListQuery) => Promise<Page<T>>): Promise<T[]> {
+  const items: T[] = []
+  let cursor: string | undefined
+  do {
+    const page = await getPage({ limit: MAX_PAGE_SIZE, cursor })
+    items.push(...page.items)
+    cursor = page.nextCursor ?? undefined
+  } while (cursor)
+  return items
+}
+
+const VOTER_TOKEN_KEY = 'voter-token'
+let pendingVoterToken: Promise<string | null> | null = null
+
+// Anonymous voter token, issued once by the server and kept in localStorage.
+// If one can't be had, requests go without it and the server treats the
+// voter as anonymous.
+async function voterTokenHeaders(): Promise<Record<string, string>> {
+  const stored = localStorage.getItem(VOTER_TOKEN_KEY)
+  if (stored) return { 'X-Voter-Token': stored }
+
+  pendingVoterToken ??= fetch(`${API_BASE_URL}/api/voter-token`, { method: 'POST' })
+    .then(response => handleResponse<{ token?: string }>(response))
+    .then(({ token }) => {
+      if (token) localStorage.setItem(VOTER_TOKEN_KEY, token)
+      return token ?? null
+    })
+    .catch(error => {
+      console.error('Error getting voter token:', error)
+      return null
+    })
+    .finally(() => {
+      pendingVoterToken = null
+    })
+
+  const token = await pendingVoterToken
+  return token ? { 'X-Voter-Token': token } : {}
+}
+
+// Tokens kept in localStorage under one key, by ballot or dashboard id
+function createTokenStore<T>(storageKey: string) {
+  const read = (): Record<string, T> => {
+    try {
+      return JSON.parse(localStorage.getItem(storageKey) ?? '{}')
+    } catch {
+      return {}
+    }
+  }
+
+  return {
+    get: (id: string): T | null => read()[id] ?? null,
+
+    save: (id: string, value: T) => {
+      localStorage.setItem(storageKey, JSON.stringify({ ...read(), [id]: value }))
+    },
+
+    forget: (id: string) => {
+      const tokens = read()
+      delete tokens[id]
+      localStorage.setItem(storageKey, JSON.stringify(tokens))
+    }
+  }
+}
+
+// Owner tokens for ballots created in this browser, or whose edit link was opened here
+export const ownerTokens = createTokenStore<string>('owner-tokens')
+
+// Owner and editor tokens for dashboards, kept the same way
+export const dashboardTokens = createTokenStore<DashboardAccess>('dashboard-tokens')
+
+function dashboardTokenHeaders(dashboardId: string, token = dashboardTokens.get(dashboardId)?.token): Record<string, string> {
+  return token ? { 'X-Dashboard-Token': token } : {}
+}
+
 // Ballot API
 export const ballotApi = {
-  getAll: async (): Promise<Ballot[]> => {
-    const response = await fetch(`${API_BASE_URL}/api/ballots`)
-    return handleResponse<Ballot[]>(response)
+  // Public ballots, newest first unless `query` says otherwise
+  getPage: async (query: ListQuery = {}): Promise<Page<Ballot>> => {
+    const response = await fetch(`${API_BASE_URL}/api/ballots${listQueryString(query)}`)
+    return handleResponse<Page<Ballot>>(response)
   },
 
   getById: async (id: string): Promise<Ballot> => {
@@ -37,121 +223,331 @@ export const ballotApi = {
     return handleResponse<Ballot>(response)
   },
 
-  create: async (question: string, isPrivate = false): Promise<Ballot> => {
+  create: async (question: string, isPrivate = false, settings: NewBallotSettings = {}): Promise<CreatedBallot> => {
     const response = await fetch(`${API_BASE_URL}/api/ballots`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ question, isPrivate })
+      body: JSON.stringify({ question, isPrivate, ...settings })
     })
-    return handleResponse<Ballot>(response)
+    const ballot = await handleResponse<CreatedBallot>(response)
+    if (ballot.ownerToken) ownerTokens.save(ballot.id, ballot.ownerToken)
+    return ballot
   },
 
-  addVote: async (ballot: Ballot, color: VoteColor, comment?: string): Promise<Ballot> => {
-    const newVote: Vote = {
-      color,
-      comment: comment?.trim() || undefined,
-      createdAt: new Date().toISOString()
-    }
-
-    const response = await fetch(`${API_BASE_URL}/api/ballots/${ballot.id}`, {
-      method: 'PUT',
-      headers: { 'Content-Type': 'application/json' },
+  // A vote that lost a race with another write wasn't counted, so it's sent again
+  addVote: (ballotId: string, selection: VoteSelection, comment?: string): Promise<Ballot> => withConflictRetry(async () => {
+    const response = await fetch(`${API_BASE_URL}/api/ballots/${ballotId}/votes`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...await voterTokenHeaders() },
       body: JSON.stringify({
-        ...ballot,
-        votes: [...ballot.votes, newVote]
+        ...(typeof selection === 'string' ? { choice: selection } : selection),
+        comment: comment?.trim() || undefined
       })
     })
+    // The server no longer accepts the stored token (e.g. its secret changed)
+    if (response.status === 401) localStorage.removeItem(VOTER_TOKEN_KEY)
     return handleResponse<Ballot>(response)
+  }),
+
+  // This browser's latest vote on the ballot, or null if it hasn't voted
+  getMyVote: async (ballotId: string): Promise<Vote | null> => {
+    const headers = await voterTokenHeaders()
+    if (!headers['X-Voter-Token']) return null
+    const response = await fetch(`${API_BASE_URL}/api/ballots/${ballotId}/my-vote`, { headers })
+    const { vote } = await handleResponse<{ vote: Vote | null }>(response)
+    return vote ?? null
   },
 
   getBatch: async (ids: string[]): Promise<Ballot[]> => {
     if (ids.length === 0) return []
     const response = await fetch(`${API_BASE_URL}/api/ballots/batch?ids=${ids.join(',')}`)
     return handleResponse<Ballot[]>(response)
-  }
+  },
+
+  // Results and votes; private ballots need this browser's owner token
+  export: (id: string, format: ExportFormat): Promise<ExportFile> => {
+    const ownerToken = ownerTokens.get(id)
+    return downloadExport(`/api/ballots/${id}/export`, format, ownerToken ? { 'X-Owner-Token': ownerToken } : {})
+  },
+
+  // Server-sent events, see useLiveUpdates
+  streamUrl: (id: string): string => `${API_BASE_URL}/api/ballots/${id}/stream`
 }
 
 // Dashboard API
+// Changes send this browser's token for the dashboard, if it has one
 export const dashboardApi = {
-  getAll: async (): Promise<Dashboard[]> => {
-    const response = await fetch(`${API_BASE_URL}/api/dashboards`)
-    return handleResponse<Dashboard[]>(response)
+  getPage: async (query: ListQuery = {}): Promise<Page<Dashboard>> => {
+    const response = await fetch(`${API_BASE_URL}/api/dashboards${listQueryString(query)}`)
+    return handleResponse<Page<Dashboard>>(response)
   },
 
+  getAll: (): Promise<Dashboard[]> => allPages(dashboardApi.getPage),
+
   getById: async (id: string): Promise<Dashboard> => {
     const response = await fetch(`${API_BASE_URL}/api/dashboards/${id}`)
     return handleResponse<Dashboard>(response)
   },
 
-  create: async (name: string): Promise<Dashboard> => {
+  create: async (name: string): Promise<CreatedDashboard> => {
     const response = await fetch(`${API_BASE_URL}/api/dashboards`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ name: name.trim() })
     })
-    return handleResponse<Dashboard>(response)
+    const dashboard = await handleResponse<CreatedDashboard>(response)
+    if (dashboard.ownerToken) dashboardTokens.save(dashboard.id, { token: dashboard.ownerToken, role: 'owner' })
+    return dashboard
   },
 
-  update: async (id: string, updates: Partial<Pick<Dashboard, 'name' | 'ballotIds' | 'attendanceIds'>>): Promise<Dashboard> => {
+  // Send the `version` the change was made against; a stale one gets VERSION_CONFLICT
+  update: async (id: string, updates: Partial<Pick<Dashboard, 'name' | 'ballotIds' | 'attendanceIds' | 'version'>>): Promise<Dashboard> => {
     const response = await fetch(`${API_BASE_URL}/api/dashboards/${id}`, {
       method: 'PUT',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...dashboardTokenHeaders(id) },
       body: JSON.stringify(updates)
     })
     return handleResponse<Dashboard>(response)
   },
 
+  // Adds or removes ballots and attendances. If someone else changed the
+  // dashboard first, `change` is re-applied to theirs.
+  changeItems: (dashboard: Dashboard, change: (current: Dashboard) => DashboardItems): Promise<Dashboard> =>
+    withConflictRetry(async (conflict) => {
+      const current = conflict ? await dashboardApi.getById(dashboard.id) : dashboard
+      return dashboardApi.update(dashboard.id, { ...change(current), version: current.version ?? 1 })
+    }),
+
   delete: async (id: string): Promise<{ message: string }> => {
     const response = await fetch(`${API_BASE_URL}/api/dashboards/${id}`, {
-      method: 'DELETE'
+      method: 'DELETE',
+      headers: dashboardTokenHeaders(id)
+    })
+    const result = await handleResponse<{ message: string }>(response)
+    dashboardTokens.forget(id)
+    return result
+  },
+
+  // What `token` (by default this browser's stored token) allows on the dashboard
+  getAccess: async (id: string, token?: string): Promise<DashboardRole> => {
+    const response = await fetch(`${API_BASE_URL}/api/dashboards/${id}/access`, {
+      headers: dashboardTokenHeaders(id, token)
+    })
+    const { role } = await handleResponse<{ role: DashboardRole }>(response)
+    return role
+  },
+
+  getEditors: async (id: string): Promise<DashboardEditorSummary[]> => {
+    const response = await fetch(`${API_BASE_URL}/api/dashboards/${id}/editors`, {
+      headers: dashboardTokenHeaders(id)
+    })
+    return handleResponse<DashboardEditorSummary[]>(response)
+  },
+
+  addEditor: async (id: string, name: string): Promise<CreatedDashboardEditor> => {
+    const response = await fetch(`${API_BASE_URL}/api/dashboards/${id}/editors`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...dashboardTokenHeaders(id) },
+      body: JSON.stringify({ name: name.trim() })
+    })
+    return handleResponse<CreatedDashboardEditor>(response)
+  },
+
+  removeEditor: async (id: string, editorId: string): Promise<{ message: string }> => {
+    const response = await fetch(`${API_BASE_URL}/api/dashboards/${id}/editors/${editorId}`, {
+      method: 'DELETE',
+      headers: dashboardTokenHeaders(id)
     })
     return handleResponse<{ message: string }>(response)
-  }
+  },
+
+  // Every ballot and attendance on the dashboard in one file. Private ballots are left out.
+  export: (id: string, format: ExportFormat): Promise<ExportFile> =>
+    downloadExport(`/api/dashboards/${id}/export`, format),
+
+  // Server-sent events for every ballot and attendance on the dashboard, see useLiveUpdates
+  streamUrl: (id: string): string => `${API_BASE_URL}/api/dashboards/${id}/stream`
 }
 
 // Admin API
+// `adminToken` is a session token from `login`, or an API key used directly
 export const adminApi = {
-  getBallots: async (adminKey: string): Promise<AdminBallot[]> => {
-    const response = await fetch(`${API_BASE_URL}/api/admin/ballots`, {
+  login: async (key: string): Promise<AdminSession> => {
+    const response = await fetch(`${API_BASE_URL}/api/admin/sessions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ key })
+    })
+    return handleResponse<AdminSession>(response)
+  },
+
+  logout: async (adminToken: string): Promise<{ message: string }> => {
+    const response = await fetch(`${API_BASE_URL}/api/admin/session`, {
+      method: 'DELETE',
+      headers: { 'Authorization': `Bearer ${adminToken}` }
+    })
+    return handleResponse<{ message: string }>(response)
+  },
+
+  // Every ballot, private ones included
+  getBallots: async (adminToken: string, query: ListQuery = {}): Promise<Page<AdminBallot>> => {
+    const response = await fetch(`${API_BASE_URL}/api/admin/ballots${listQueryString(query)}`, {
       headers: {
-        'Authorization': `Bearer ${adminKey}`,
+        'Authorization': `Bearer ${adminToken}`,
         'Content-Type': 'application/json'
       }
     })
-    return handleResponse<AdminBallot[]>(response)
+    return handleResponse<Page<AdminBallot>>(response)
   },
 
-  deleteBallot: async (adminKey: string, ballotId: string): Promise<{ message: string }> => {
+  deleteBallot: async (adminToken: string, ballotId: string): Promise<{ message: string }> => {
     const response = await fetch(`${API_BASE_URL}/api/admin/ballots/${ballotId}`, {
       method: 'DELETE',
       headers: {
-        'Authorization': `Bearer ${adminKey}`,
+        'Authorization': `Bearer ${adminToken}`,
         'Content-Type': 'application/json'
       }
     })
     return handleResponse<{ message: string }>(response)
   },
 
-  togglePrivacy: async (adminKey: string, ballotId: string, isPrivate: boolean): Promise<Ballot> => {
+  togglePrivacy: async (adminToken: string, ballotId: string, isPrivate: boolean): Promise<Ballot> => {
     const response = await fetch(`${API_BASE_URL}/api/admin/ballots/${ballotId}`, {
       method: 'PATCH',
       headers: {
-        'Authorization': `Bearer ${adminKey}`,
+        'Authorization': `Bearer ${adminToken}`,
         'Content-Type': 'application/json'
       },
       body: JSON.stringify({ isPrivate })
     })
     return handleResponse<Ballot>(response)
+  },
+
+  closeBallot: async (adminToken: string, ballotId: string): Promise<Ballot> => {
+    const response = await fetch(`${API_BASE_URL}/api/admin/ballots/${ballotId}/close`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${adminToken}`,
+        'Content-Type': 'application/json'
+      }
+    })
+    return handleResponse<Ballot>(response)
+  },
+
+  reopenBallot: async (adminToken: string, ballotId: string, closesAt?: string): Promise<Ballot> => {
+    const response = await fetch(`${API_BASE_URL}/api/admin/ballots/${ballotId}/reopen`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${adminToken}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ closesAt })
+    })
+    return handleResponse<Ballot>(response)
+  },
+
+  deleteDashboard: async (adminToken: string, dashboardId: string): Promise<{ message: string }> => {
+    const response = await fetch(`${API_BASE_URL}/api/admin/dashboards/${dashboardId}`, {
+      method: 'DELETE',
+      headers: {
+        'Authorization': `Bearer ${adminToken}`,
+        'Content-Type': 'application/json'
+      }
+    })
+    return handleResponse<{ message: string }>(response)
+  },
+
+  // Deleted ballots, dashboards and attendance, until the scheduled purge
+  getTrash: async (adminToken: string): Promise<TrashItem[]> => {
+    const response = await fetch(`${API_BASE_URL}/api/admin/trash`, {
+      headers: { 'Authorization': `Bearer ${adminToken}` }
+    })
+    return (await handleResponse<{ items: TrashItem[] }>(response)).items
+  },
+
+  restoreFromTrash: async (adminToken: string, type: TrashType, id: string): Promise<TrashItem> => {
+    const response = await fetch(`${API_BASE_URL}/api/admin/trash/${type}/${id}/restore`, {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${adminToken}` }
+    })
+    return (await handleResponse<{ restored: TrashItem }>(response)).restored
+  },
+
+  purgeFromTrash: async (adminToken: string, type: TrashType, id: string): Promise<{ message: string }> => {
+    const response = await fetch(`${API_BASE_URL}/api/admin/trash/${type}/${id}`, {
+      method: 'DELETE',
+      headers: { 'Authorization': `Bearer ${adminToken}` }
+    })
+    return handleResponse<{ message: string }>(response)
+  },
+
+  // Admin and owner actions and failed sign-ins, newest first (needs the full scope)
+  getAudit: async (adminToken: string, query: AuditQuery = {}): Promise<Page<AuditEntry>> => {
+    const response = await fetch(`${API_BASE_URL}/api/admin/audit${listQueryString(query)}`, {
+      headers: { 'Authorization': `Bearer ${adminToken}` }
+    })
+    return handleResponse<Page<AuditEntry>>(response)
+  }
+}
+
+// Owner API - a ballot's creator manages it with its owner token
+export const ownerApi = {
+  updateBallot: async (ownerToken: string, ballotId: string, updates: BallotOwnerUpdates): Promise<Ballot> => {
+    const response = await fetch(`${API_BASE_URL}/api/ballots/${ballotId}`, {
+      method: 'PATCH',
+      headers: {
+        'X-Owner-Token': ownerToken,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(updates)
+    })
+    return handleResponse<Ballot>(response)
+  },
+
+  closeBallot: async (ownerToken: string, ballotId: string): Promise<Ballot> => {
+    const response = await fetch(`${API_BASE_URL}/api/ballots/${ballotId}/close`, {
+      method: 'POST',
+      headers: {
+        'X-Owner-Token': ownerToken,
+        'Content-Type': 'application/json'
+      }
+    })
+    return handleResponse<Ballot>(response)
+  },
+
+  reopenBallot: async (ownerToken: string, ballotId: string): Promise<Ballot> => {
+    const response = await fetch(`${API_BASE_URL}/api/ballots/${ballotId}/reopen`, {
+      method: 'POST',
+      headers: {
+        'X-Owner-Token': ownerToken,
+        'Content-Type': 'application/json'
+      }
+    })
+    return handleResponse<Ballot>(response)
+  },
+
+  deleteBallot: async (ownerToken: string, ballotId: string): Promise<{ message: string }> => {
+    const response = await fetch(`${API_BASE_URL}/api/ballots/${ballotId}`, {
+      method: 'DELETE',
+      headers: {
+        'X-Owner-Token': ownerToken,
+        'Content-Type': 'application/json'
+      }
+    })
+    return handleResponse<{ message: string }>(response)
   }
 }
 
 // Attendance API
 export const attendanceApi = {
-  getAll: async (): Promise<Attendance[]> => {
-    const response = await fetch(`${API_BASE_URL}/api/attendance`)
-    return handleResponse<Attendance[]>(response)
+  // Latest event date first unless `query` says otherwise
+  getPage: async (query: AttendanceQuery = {}): Promise<Page<Attendance>> => {
+    const response = await fetch(`${API_BASE_URL}/api/attendance${listQueryString(query)}`)
+    return handleResponse<Page<Attendance>>(response)
   },
 
+  getAll: (): Promise<Attendance[]> => allPages(attendanceApi.getPage),
+
   getById: async (id: string): Promise<Attendance> => {
     const response = await fetch(`${API_BASE_URL}/api/attendance/${id}`)
     return handleResponse<Attendance>(response)
@@ -172,38 +568,90 @@ export const attendanceApi = {
     return handleResponse<Attendance>(response)
   },
 
-  respond: async (id: string, name: string, attending: boolean): Promise<Attendance> => {
-    const response = await fetch(`${API_BASE_URL}/api/attendance/${id}`, {
-      method: 'PUT',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ name, attending })
-    })
-    return handleResponse<Attendance>(response)
-  },
+  // Sets `name`'s response on the attendance as of `version`. A response
+  // replaces any earlier one by the same name, so on conflict it's re-sent
+  // against the latest version.
+  respond: (id: string, name: string, attending: boolean, version?: number): Promise<Attendance> =>
+    withConflictRetry(async (conflict) => {
+      const response = await fetch(`${API_BASE_URL}/api/attendance/${id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          attending,
+          version: conflict ? await latestVersion(conflict, () => attendanceApi.getById(id)) : version
+        })
+      })
+      return handleResponse<Attendance>(response)
+    }),
 
-  delete: async (adminKey: string, id: string): Promise<{ message: string }> => {
+  delete: async (adminToken: string, id: string): Promise<{ message: string }> => {
     const response = await fetch(`${API_BASE_URL}/api/attendance/${id}`, {
       method: 'DELETE',
       headers: {
-        'Authorization': `Bearer ${adminKey}`,
+        'Authorization': `Bearer ${adminToken}`,
         'Content-Type': 'application/json'
       }
     })
     return handleResponse<{ message: string }>(response)
   },
 
-  rename: async (adminKey: string, id: string, title: string): Promise<Attendance> => {
+  rename: async (adminToken: string, id: string, title: string): Promise<Attendance> => {
     const response = await fetch(`${API_BASE_URL}/api/attendance/${id}`, {
       method: 'PATCH',
       headers: {
-        'Authorization': `Bearer ${adminKey}`,
+        'Authorization': `Bearer ${adminToken}`,
         'Content-Type': 'application/json'
       },
       body: JSON.stringify({ title })
     })
     return handleResponse<Attendance>(response)
+  },
+
+  export: (id: string, format: ExportFormat): Promise<ExportFile> =>
+    downloadExport(`/api/attendance/${id}/export`, format),
+
+  // Server-sent events, see useLiveUpdates
+  streamUrl: (id: string): string => `${API_BASE_URL}/api/attendance/${id}/stream`,
+
+  // iCalendar files: one poll as an event, or a feed calendar apps can subscribe to
+  calendarUrl: (id: string): string => `${API_BASE_URL}/api/attendance/${id}.ics`,
+  feedUrl: (query: CalendarFeedQuery = {}): string => `${API_BASE_URL}/api/attendance/feed.ics${listQueryString(query)}`
+}
+
+// Attendance series - standing meetings with a poll per date
+export const attendanceSeriesApi = {
+  getPage: async (query: ListQuery = {}): Promise<Page<AttendanceSeries>> => {
+    const response = await fetch(`${API_BASE_URL}/api/attendance-series${listQueryString(query)}`)
+    return handleResponse<Page<AttendanceSeries>>(response)
+  },
+
+  getAll: (): Promise<AttendanceSeries[]> => allPages(attendanceSeriesApi.getPage),
+
+  create: async (titleTemplate: string, recurrence: Recurrence): Promise<CreatedAttendanceSeries> => {
+    const response = await fetch(`${API_BASE_URL}/api/attendance-series`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ titleTemplate: titleTemplate.trim(), recurrence })
+    })
+    return handleResponse<CreatedAttendanceSeries>(response)
+  },
+
+  // The poll for one of the series' dates, created if it doesn't exist yet
+  getOrCreateDate: async (id: string, date: string): Promise<Attendance> => {
+    const response = await fetch(`${API_BASE_URL}/api/attendance-series/${id}/dates/${date}`, { method: 'POST' })
+    return handleResponse<Attendance>(response)
+  }
+}
+
+// Search API
+export const searchApi = {
+  // Matching ballots, attendance and dashboards, best first within each
+  search: async (q: string): Promise<SearchResults> => {
+    const response = await fetch(`${API_BASE_URL}/api/search?q=${encodeURIComponent(q)}`)
+    return handleResponse<SearchResults>(response)
   }
 }
 
 // Re-export types for convenience
-export type { Ballot, Vote, VoteColor, AdminBallot, Dashboard, Attendance }
+export type { Ballot, BallotKind, Vote, VoteColor, VotePolicy, AdminBallot, AdminSession, Dashboard, DashboardEditorSummary, DashboardRole, Attendance, ExportFormat, ListQuery, Page, SearchHit, SearchResults, TrashItem, TrashType, AuditEntry, AuditQuery }
@@ -3,16 +3,27 @@ import { render, screen, fireEvent, waitFor } from '@testing-library/react'
 import { BrowserRouter } from 'react-router-dom'
 import { AdminPanel } from './AdminPanel'
 
-// Mock react-router-dom
-const mockSearchParams = new URLSearchParams()
-mock.module('react-router-dom', () => ({
-  ...require('react-router-dom'),
-  useSearchParams: () => [mockSearchParams]
-}))
-
-// Mock fetch
-const mockFetch = mock()
-global.fetch = mockFetch
+// Stands in for logging in with an API key
+const signIn = (token: string, scope = 'full') => {
+  sessionStorage.setItem('admin-session', JSON.stringify({
+    token,
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+    admin: { name: 'Test admin', scope }
+  }))
+}
+
+// Mock fetch, answering each request from `routes` by method and path
+type Route = (init?: RequestInit) => Response | Promise<Response>
+let routes: Record<string, Route>
+
+const mockFetch = mock(async (url: string, init?: RequestInit) => {
+  const route = routes[`${init?.method ?? 'GET'} ${new URL(url).pathname}`]
+  if (!route) throw new Error(`Unexpected request: ${init?.method ?? 'GET'} ${url}`)
+  return route(init)
+})
+global.fetch = mockFetch as unknown as typeof fetch
+
+const page = (items: unknown[]) => Response.json({ items, nextCursor: null })
 
 // Mock window methods
 const mockAlert = mock()
@@ -21,6 +32,9 @@ const mockOpen = mock()
 global.alert = mockAlert
 global.confirm = mockConfirm
 global.open = mockOpen
+window.alert = mockAlert
+window.confirm = mockConfirm
+window.open = mockOpen
 
 const mockAdminBallots = [
   {
@@ -61,62 +75,84 @@ describe('AdminPanel Component', () => {
     mockAlert.mockClear()
     mockConfirm.mockClear()
     mockOpen.mockClear()
-    mockSearchParams.clear()
+    sessionStorage.clear()
     
-    // Default successful fetch response
-    mockFetch.mockResolvedValue({
-      ok: true,
-      json: async () => mockAdminBallots
-    })
+    // Everything the panel loads, with no dashboards or attendance
+    routes = {
+      'GET /api/admin/ballots': () => page(mockAdminBallots),
+      'GET /api/dashboards': () => page([]),
+      'GET /api/attendance': () => page([])
+    }
   })
 
   describe('Authentication', () => {
-    test('should show access denied when no key provided', () => {
+    test('should show the login form when not signed in', () => {
       render(<AdminPanelWithRouter />)
       
-      expect(screen.getByText('Access Denied')).toBeInTheDocument()
-      expect(screen.getByText('Admin access requires a valid authentication key in the URL.')).toBeInTheDocument()
+      expect(screen.getByText('Admin Login')).toBeInTheDocument()
+      expect(screen.getByLabelText('API key')).toBeInTheDocument()
+    })
+
+    test('should log in with an API key', async () => {
+      routes['POST /api/admin/sessions'] = () =>
+        Response.json({ token: 'bs_session', expiresAt: '2099-01-01T00:00:00Z', admin: { name: 'Ops', scope: 'full' } })
+
+      render(<AdminPanelWithRouter />)
+      fireEvent.change(screen.getByLabelText('API key'), { target: { value: 'bk_key_secret' } })
+      fireEvent.click(screen.getByText('Log in'))
+
+      await waitFor(() => {
+        expect(screen.getByText('✓ Ops (full)')).toBeInTheDocument()
+      })
+    })
+
+    test('should hide delete buttons from moderators', async () => {
+      signIn('moderator-session', 'moderate')
+
+      render(<AdminPanelWithRouter />)
+
+      await waitFor(() => {
+        expect(screen.getAllByText('Close').length).toBeGreaterThan(0)
+      })
+      expect(screen.queryByText('Delete')).not.toBeInTheDocument()
     })
 
     test('should show loading when key is provided', () => {
-      mockSearchParams.set('key', 'test-admin-key')
+      signIn('test-admin-key')
       
       render(<AdminPanelWithRouter />)
       
       expect(screen.getByText('Loading admin panel...')).toBeInTheDocument()
     })
 
-    test('should show authentication failed for invalid key', async () => {
-      mockSearchParams.set('key', 'invalid-key')
-      mockFetch.mockResolvedValue({
-        status: 401,
-        ok: false
-      })
+    test('should return to the login form when the session has ended', async () => {
+      signIn('expired-session')
+      routes['GET /api/admin/ballots'] = () => new Response(null, { status: 401 })
       
       render(<AdminPanelWithRouter />)
       
       await waitFor(() => {
-        expect(screen.getByText('Authentication Failed')).toBeInTheDocument()
-        expect(screen.getByText('Invalid admin key')).toBeInTheDocument()
+        expect(screen.getByText('Admin Login')).toBeInTheDocument()
+        expect(screen.getByText('Your session has ended. Please log in again.')).toBeInTheDocument()
       })
     })
 
     test('should show admin panel for valid key', async () => {
-      mockSearchParams.set('key', 'valid-admin-key')
+      signIn('valid-admin-key')
       
       render(<AdminPanelWithRouter />)
       
       await waitFor(() => {
         expect(screen.getByText('Admin Panel')).toBeInTheDocument()
-        expect(screen.getByText('✓ Authenticated')).toBeInTheDocument()
-        expect(screen.getByText('2 ballots total')).toBeInTheDocument()
+        expect(screen.getByText('✓ Test admin (full)')).toBeInTheDocument()
+        expect(screen.getByText('2 ballots • 0 dashboards • 0 attendances')).toBeInTheDocument()
       })
     })
   })
 
   describe('Ballot Display', () => {
     beforeEach(() => {
-      mockSearchParams.set('key', 'valid-admin-key')
+      signIn('valid-admin-key')
     })
 
     test('should display all ballots with metadata', async () => {
@@ -165,10 +201,7 @@ describe('AdminPanel Component', () => {
     })
 
     test('should handle empty ballot list', async () => {
-      mockFetch.mockResolvedValue({
-        ok: true,
-        json: async () => []
-      })
+      routes['GET /api/admin/ballots'] = () => page([])
       
       render(<AdminPanelWithRouter />)
       
@@ -180,7 +213,7 @@ describe('AdminPanel Component', () => {
 
   describe('Ballot Actions', () => {
     beforeEach(() => {
-      mockSearchParams.set('key', 'valid-admin-key')
+      signIn('valid-admin-key')
     })
 
     test('should have view and delete buttons for each ballot', async () => {
@@ -203,13 +236,12 @@ describe('AdminPanel Component', () => {
         fireEvent.click(viewButton)
       })
       
-      expect(mockOpen).toHaveBeenCalledWith('/ballot/test-1', '_blank')
+      expect(mockOpen).toHaveBeenCalledWith('/test-1', '_blank')
     })
 
     test('should show confirmation dialog when delete clicked', async () => {
       mockConfirm.mockReturnValue(true)
-      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => mockAdminBallots })
-        .mockResolvedValueOnce({ ok: true, json: async () => ({ message: 'Deleted' }) })
+      routes['DELETE /api/admin/ballots/test-1'] = () => Response.json({ message: 'Deleted' })
       
       render(<AdminPanelWithRouter />)
       
@@ -234,14 +266,13 @@ describe('AdminPanel Component', () => {
       })
       
       expect(mockConfirm).toHaveBeenCalled()
-      expect(mockFetch).toHaveBeenCalledTimes(1) // Only initial fetch, no delete request
+      // No delete request
+      expect(mockFetch.mock.calls.some(([, init]) => init?.method === 'DELETE')).toBe(false)
     })
 
     test('should make delete request when confirmed', async () => {
       mockConfirm.mockReturnValue(true)
-      mockFetch
-        .mockResolvedValueOnce({ ok: true, json: async () => mockAdminBallots })
-        .mockResolvedValueOnce({ ok: true, json: async () => ({ message: 'Deleted' }) })
+      routes['DELETE /api/admin/ballots/test-1'] = () => Response.json({ message: 'Deleted' })
       
       render(<AdminPanelWithRouter />)
       
@@ -267,12 +298,10 @@ describe('AdminPanel Component', () => {
       mockConfirm.mockReturnValue(true)
       
       // Make delete request hang to test loading state
-      let resolveDelete: (value: any) => void
-      const deletePromise = new Promise(resolve => { resolveDelete = resolve })
+      let resolveDelete: (value: Response) => void
+      const deletePromise = new Promise<Response>(resolve => { resolveDelete = resolve })
       
-      mockFetch
-        .mockResolvedValueOnce({ ok: true, json: async () => mockAdminBallots })
-        .mockReturnValueOnce(deletePromise)
+      routes['DELETE /api/admin/ballots/test-1'] = () => deletePromise
       
       render(<AdminPanelWithRouter />)
       
@@ -286,14 +315,12 @@ describe('AdminPanel Component', () => {
       })
       
       // Resolve the delete request
-      resolveDelete!({ ok: true, json: async () => ({ message: 'Deleted' }) })
+      resolveDelete!(Response.json({ message: 'Deleted' }))
     })
 
     test('should handle delete error gracefully', async () => {
       mockConfirm.mockReturnValue(true)
-      mockFetch
-        .mockResolvedValueOnce({ ok: true, json: async () => mockAdminBallots })
-        .mockResolvedValueOnce({ ok: false })
+      routes['DELETE /api/admin/ballots/test-1'] = () => new Response(null, { status: 500 })
       
       render(<AdminPanelWithRouter />)
       
@@ -331,7 +358,7 @@ describe('AdminPanel Component', () => {
 
   describe('Security Features', () => {
     test('should include authorization header in API requests', async () => {
-      mockSearchParams.set('key', 'test-admin-key-123')
+      signIn('test-admin-key-123')
       
       render(<AdminPanelWithRouter />)
       
@@ -348,7 +375,7 @@ describe('AdminPanel Component', () => {
     })
 
     test('should show security warning in footer', async () => {
-      mockSearchParams.set('key', 'valid-admin-key')
+      signIn('valid-admin-key')
       
       render(<AdminPanelWithRouter />)
       
@@ -360,11 +387,11 @@ describe('AdminPanel Component', () => {
 
   describe('Error Handling', () => {
     beforeEach(() => {
-      mockSearchParams.set('key', 'valid-admin-key')
+      signIn('valid-admin-key')
     })
 
     test('should handle network errors', async () => {
-      mockFetch.mockRejectedValue(new Error('Network error'))
+      routes['GET /api/admin/ballots'] = () => { throw new Error('Network error') }
       
       render(<AdminPanelWithRouter />)
       
@@ -375,10 +402,7 @@ describe('AdminPanel Component', () => {
     })
 
     test('should handle 500 server errors', async () => {
-      mockFetch.mockResolvedValue({
-        ok: false,
-        status: 500
-      })
+      routes['GET /api/admin/ballots'] = () => new Response(null, { status: 500 })
       
       render(<AdminPanelWithRouter />)
       
@@ -1,13 +1,37 @@
-import { useState, useEffect, useMemo } from 'react'
-import { useSearchParams } from 'react-router-dom'
+import React, { useState, useEffect, useMemo, useCallback } from 'react'
 import { Button } from "./ui/button"
-import { Trash2, AlertTriangle, Shield, Eye, MessageSquare, Lock, Unlock, Users, Calendar, Pencil } from 'lucide-react'
-import { adminApi, dashboardApi, attendanceApi, ApiError, type AdminBallot, type Dashboard, type Attendance } from '../api/client'
-import { countVotes, countAttendanceResponses } from '../utils/ballot'
+import { Input } from "./ui/input"
+import { Trash2, AlertTriangle, Shield, Eye, MessageSquare, Lock, Unlock, Users, Calendar, Pencil, CircleX, CirclePlay, LogOut, ScrollText } from 'lucide-react'
+import { TRASH_RETENTION_DAYS, hasAdminScope, isBallotOpen } from 'shared/dist'
+import { adminApi, dashboardApi, attendanceApi, ApiError, type AdminBallot, type AdminSession, type Dashboard, type Attendance, type TrashType } from '../api/client'
+import { countAllVotes, countAttendanceResponses } from '../utils/ballot'
+import { VoteCounts } from './VoteCounts'
+import { AuditLog } from './AuditLog'
+
+// Deletes go to the trash, so their toast offers to take them back
+type Toast = { message: string; undo?: { type: TrashType; id: string } }
+
+// Per tab, so closing the tab logs out
+const SESSION_STORAGE_KEY = 'admin-session'
+
+function loadSession(): AdminSession | null {
+  const stored = sessionStorage.getItem(SESSION_STORAGE_KEY)
+  if (!stored) return null
+  const session = JSON.parse(stored) as AdminSession
+  return Date.parse(session.expiresAt) > Date.now() ? session : null
+}
 
 export function AdminPanel() {
-  const [searchParams] = useSearchParams()
+  const [session, setSession] = useState<AdminSession | null>(loadSession)
+  const [loginKey, setLoginKey] = useState('')
+  const [loggingIn, setLoggingIn] = useState(false)
   const [ballots, setBallots] = useState<AdminBallot[]>([])
+  // Where the next page of ballots starts; null once they're all loaded
+  const [ballotsCursor, setBallotsCursor] = useState<string | null>(null)
+  const [ballotSearch, setBallotSearch] = useState('')
+  // The search last submitted, which the ballot list shows
+  const [ballotQuery, setBallotQuery] = useState('')
+  const [loadingMoreBallots, setLoadingMoreBallots] = useState(false)
   const [dashboards, setDashboards] = useState<Dashboard[]>([])
   const [attendances, setAttendances] = useState<Attendance[]>([])
   const [loading, setLoading] = useState(true)
@@ -18,59 +42,121 @@ export function AdminPanel() {
   const [renamingAttendance, setRenamingAttendance] = useState<string | null>(null)
   const [renameValue, setRenameValue] = useState<string>('')
   const [error, setError] = useState<string | null>(null)
-  const [toast, setToast] = useState<string | null>(null)
+  const [toast, setToast] = useState<Toast | null>(null)
+  const [tab, setTab] = useState<'manage' | 'audit'>('manage')
+
+  const adminToken = session?.token ?? null
+  const canModerate = !!session && hasAdminScope(session.admin.scope, 'moderate')
+  const canDelete = !!session && hasAdminScope(session.admin.scope, 'full')
+
+  const endSession = useCallback(() => {
+    sessionStorage.removeItem(SESSION_STORAGE_KEY)
+    setSession(null)
+    setAuthenticated(false)
+  }, [])
+
+  // The first page of ballots matching the search, or the next page with `cursor`
+  const fetchAdminBallots = useCallback(async (cursor?: string) => {
+    if (!adminToken) return
 
-  const adminKey = searchParams.get('key')
+    try {
+      const page = await adminApi.getBallots(adminToken, { q: ballotQuery.trim() || undefined, cursor })
+      setBallots(prev => cursor ? [...prev, ...page.items] : page.items)
+      setBallotsCursor(page.nextCursor)
+      setAuthenticated(true)
+      setError(null)
+    } catch (error) {
+      console.error('Error fetching admin ballots:', error)
+      if (error instanceof ApiError && error.status === 401) {
+        // Expired, or its key was revoked - back to the login form
+        endSession()
+        setError('Your session has ended. Please log in again.')
+      } else {
+        setError('Failed to load admin data')
+        setAuthenticated(false)
+      }
+    } finally {
+      setLoading(false)
+    }
+  }, [adminToken, ballotQuery, endSession])
 
   useEffect(() => {
-    if (!adminKey) {
+    if (!adminToken) {
       setLoading(false)
       return
     }
 
-    fetchAdminBallots()
+    setLoading(true)
     fetchDashboards()
     fetchAttendances()
-  }, [adminKey])
+  }, [adminToken])
+
+  // The first page of ballots, on signing in and whenever a new search is submitted
+  useEffect(() => {
+    fetchAdminBallots()
+  }, [fetchAdminBallots])
 
   useEffect(() => {
     document.title = 'Ballot Admin'
   }, [])
 
-  // Auto-dismiss toast with proper cleanup
+  // Auto-dismiss toast with proper cleanup, leaving longer to undo a delete
   useEffect(() => {
     if (!toast) return
-    const timer = setTimeout(() => setToast(null), 3000)
+    const timer = setTimeout(() => setToast(null), toast.undo ? 8000 : 3000)
     return () => clearTimeout(timer)
   }, [toast])
 
-  const fetchAdminBallots = async () => {
-    if (!adminKey) return
+  const loadMoreBallots = async () => {
+    if (!ballotsCursor) return
+    setLoadingMoreBallots(true)
+    await fetchAdminBallots(ballotsCursor)
+    setLoadingMoreBallots(false)
+  }
+
+  const searchBallots = (e: React.FormEvent) => {
+    e.preventDefault()
+    // Submitting the same search again reloads it
+    if (ballotSearch === ballotQuery) fetchAdminBallots()
+    else setBallotQuery(ballotSearch)
+  }
+
+  const handleLogin = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!loginKey.trim()) return
 
+    setLoggingIn(true)
     try {
-      const data = await adminApi.getBallots(adminKey)
-      setBallots(data)
-      setAuthenticated(true)
+      const newSession = await adminApi.login(loginKey.trim())
+      sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(newSession))
+      setSession(newSession)
+      setLoginKey('')
       setError(null)
     } catch (error) {
-      console.error('Error fetching admin ballots:', error)
-      if (error instanceof ApiError && error.status === 401) {
-        setAuthenticated(false)
-        setError('Invalid admin key')
-      } else {
-        setError('Failed to load admin data')
-        setAuthenticated(false)
-      }
+      console.error('Error logging in:', error)
+      setError(error instanceof ApiError && error.status === 401 ? 'Invalid API key' : 'Login failed. Please try again.')
     } finally {
-      setLoading(false)
+      setLoggingIn(false)
     }
   }
 
+  const handleLogout = async () => {
+    if (adminToken) {
+      try {
+        await adminApi.logout(adminToken)
+      } catch (error) {
+        // The session is dropped locally either way
+        console.error('Error logging out:', error)
+      }
+    }
+    endSession()
+  }
+
   const handleDeleteBallot = async (ballotId: string, ballotQuestion: string) => {
-    if (!adminKey) return
+    if (!adminToken) return
 
     const confirmDelete = window.confirm(
-      `Are you sure you want to delete this ballot?\n\n"${ballotQuestion}"\n\nThis action cannot be undone.`
+      `Are you sure you want to delete this ballot?\n\n"${ballotQuestion}"\n\nIt stays in the trash for ${TRASH_RETENTION_DAYS} days.`
     )
 
     if (!confirmDelete) return
@@ -78,11 +164,11 @@ export function AdminPanel() {
     setDeleting(ballotId)
 
     try {
-      await adminApi.deleteBallot(adminKey, ballotId)
+      await adminApi.deleteBallot(adminToken, ballotId)
 
       // Remove from local state
       setBallots(prev => prev.filter(ballot => ballot.id !== ballotId))
-      setToast('Ballot deleted successfully')
+      setToast({ message: 'Ballot moved to the trash', undo: { type: 'ballot', id: ballotId } })
     } catch (error) {
       console.error('Error deleting ballot:', error)
       alert('Failed to delete ballot. Please try again.')
@@ -92,10 +178,10 @@ export function AdminPanel() {
   }
 
   const handleTogglePrivacy = async (ballotId: string, currentPrivacy: boolean) => {
-    if (!adminKey) return
+    if (!adminToken) return
 
     try {
-      const updatedBallot = await adminApi.togglePrivacy(adminKey, ballotId, !currentPrivacy)
+      const updatedBallot = await adminApi.togglePrivacy(adminToken, ballotId, !currentPrivacy)
 
       // Update local state
       setBallots(prev =>
@@ -112,6 +198,27 @@ export function AdminPanel() {
     }
   }
 
+  const handleToggleClosed = async (ballotId: string, currentlyOpen: boolean) => {
+    if (!adminToken) return
+
+    try {
+      const updatedBallot = currentlyOpen
+        ? await adminApi.closeBallot(adminToken, ballotId)
+        : await adminApi.reopenBallot(adminToken, ballotId)
+
+      setBallots(prev =>
+        prev.map(ballot =>
+          ballot.id === ballotId
+            ? { ...ballot, status: updatedBallot.status, closesAt: updatedBallot.closesAt, closedAt: updatedBallot.closedAt }
+            : ballot
+        )
+      )
+    } catch (error) {
+      console.error('Error changing ballot status:', error)
+      alert('Failed to update ballot status. Please try again.')
+    }
+  }
+
   const fetchDashboards = async () => {
     try {
       const data = await dashboardApi.getAll()
@@ -131,10 +238,10 @@ export function AdminPanel() {
   }
 
   const handleDeleteDashboard = async (dashboardId: string, dashboardName: string) => {
-    if (!adminKey) return
+    if (!adminToken) return
 
     const confirmDelete = window.confirm(
-      `Are you sure you want to delete the dashboard "${dashboardName}"?\n\nThis action cannot be undone.`
+      `Are you sure you want to delete the dashboard "${dashboardName}"?\n\nIt stays in the trash for ${TRASH_RETENTION_DAYS} days.`
     )
 
     if (!confirmDelete) return
@@ -142,11 +249,11 @@ export function AdminPanel() {
     setDeletingDashboard(dashboardId)
 
     try {
-      await dashboardApi.delete(dashboardId)
+      await adminApi.deleteDashboard(adminToken, dashboardId)
 
       // Remove from local state
       setDashboards(prev => prev.filter(dashboard => dashboard.id !== dashboardId))
-      setToast('Dashboard deleted successfully')
+      setToast({ message: 'Dashboard moved to the trash', undo: { type: 'dashboard', id: dashboardId } })
     } catch (error) {
       console.error('Error deleting dashboard:', error)
       alert('Failed to delete dashboard. Please try again.')
@@ -156,10 +263,10 @@ export function AdminPanel() {
   }
 
   const handleDeleteAttendance = async (attendanceId: string, attendanceTitle: string) => {
-    if (!adminKey) return
+    if (!adminToken) return
 
     const confirmDelete = window.confirm(
-      `Are you sure you want to delete the attendance "${attendanceTitle}"?\n\nThis action cannot be undone.`
+      `Are you sure you want to delete the attendance "${attendanceTitle}"?\n\nIt stays in the trash for ${TRASH_RETENTION_DAYS} days.`
     )
 
     if (!confirmDelete) return
@@ -167,11 +274,11 @@ export function AdminPanel() {
     setDeletingAttendance(attendanceId)
 
     try {
-      await attendanceApi.delete(adminKey, attendanceId)
+      await attendanceApi.delete(adminToken, attendanceId)
 
       // Remove from local state
       setAttendances(prev => prev.filter(attendance => attendance.id !== attendanceId))
-      setToast('Attendance deleted successfully')
+      setToast({ message: 'Attendance moved to the trash', undo: { type: 'attendance', id: attendanceId } })
     } catch (error) {
       console.error('Error deleting attendance:', error)
       alert('Failed to delete attendance. Please try again.')
@@ -180,11 +287,30 @@ export function AdminPanel() {
     }
   }
 
+  const handleUndoDelete = async () => {
+    if (!adminToken || !toast?.undo) return
+    const { type, id } = toast.undo
+    setToast(null)
+
+    try {
+      await adminApi.restoreFromTrash(adminToken, type, id)
+
+      // Reload the list it goes back into
+      if (type === 'ballot') fetchAdminBallots()
+      else if (type === 'dashboard') fetchDashboards()
+      else fetchAttendances()
+      setToast({ message: 'Restored from the trash' })
+    } catch (error) {
+      console.error('Error restoring from the trash:', error)
+      alert('Failed to undo the delete. Please try again.')
+    }
+  }
+
   const handleRenameAttendance = async (attendanceId: string) => {
-    if (!adminKey || !renameValue.trim()) return
+    if (!adminToken || !renameValue.trim()) return
 
     try {
-      const updatedAttendance = await attendanceApi.rename(adminKey, attendanceId, renameValue.trim())
+      const updatedAttendance = await attendanceApi.rename(adminToken, attendanceId, renameValue.trim())
 
       // Update local state
       setAttendances(prev =>
@@ -194,7 +320,7 @@ export function AdminPanel() {
             : attendance
         )
       )
-      setToast('Attendance renamed successfully')
+      setToast({ message: 'Attendance renamed successfully' })
       setRenamingAttendance(null)
       setRenameValue('')
     } catch (error) {
@@ -218,9 +344,7 @@ export function AdminPanel() {
     return new Map(ballots.map(ballot => [
       ballot.id,
       {
-        green: countVotes(ballot as any, 'green'),
-        yellow: countVotes(ballot as any, 'yellow'),
-        red: countVotes(ballot as any, 'red')
+        counts: countAllVotes(ballot)
       }
     ]))
   }, [ballots])
@@ -254,19 +378,30 @@ export function AdminPanel() {
     )
   }
 
-  if (!adminKey) {
+  if (!adminToken) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
-        <div className="text-center max-w-md mx-auto p-6">
-          <AlertTriangle className="w-16 h-16 mx-auto mb-4 text-red-500 dark:text-red-400" />
-          <h1 className="text-2xl font-bold text-foreground mb-2">Access Denied</h1>
-          <p className="text-muted-foreground mb-4">
-            Admin access requires a valid authentication key in the URL.
-          </p>
-          <p className="text-sm text-muted-foreground">
-            Contact the administrator for access credentials.
-          </p>
-        </div>
+        <form onSubmit={handleLogin} className="w-full max-w-md mx-auto p-6 space-y-4">
+          <div className="text-center">
+            <Shield className="w-16 h-16 mx-auto mb-4 text-primary" />
+            <h1 className="text-2xl font-bold text-foreground mb-2">Admin Login</h1>
+            <p className="text-sm text-muted-foreground">
+              Enter your admin API key. Contact the administrator if you don't have one.
+            </p>
+          </div>
+          <Input
+            type="password"
+            value={loginKey}
+            onChange={(e) => setLoginKey(e.target.value)}
+            placeholder="API key"
+            aria-label="API key"
+            autoComplete="current-password"
+          />
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+          <Button type="submit" className="w-full" disabled={loggingIn || !loginKey.trim()}>
+            {loggingIn ? 'Logging in...' : 'Log in'}
+          </Button>
+        </form>
       </div>
     )
   }
@@ -290,8 +425,13 @@ export function AdminPanel() {
     <div className="min-h-screen bg-background">
       {/* Toast notification */}
       {toast && (
-        <div className="fixed top-4 right-4 bg-green-500 text-white px-4 py-2 rounded shadow-lg z-50">
-          {toast}
+        <div className="fixed top-4 right-4 bg-green-500 text-white px-4 py-2 rounded shadow-lg z-50 flex items-center gap-3">
+          {toast.message}
+          {toast.undo && (
+            <button type="button" onClick={handleUndoDelete} className="font-semibold underline">
+              Undo
+            </button>
+          )}
         </div>
       )}
       <div className="container mx-auto p-4 max-w-6xl">
@@ -306,289 +446,359 @@ export function AdminPanel() {
               </div>
             </div>
             <div className="text-right">
-              <p className="text-sm text-green-600 dark:text-green-400 font-medium">✓ Authenticated</p>
-              <p className="text-xs text-muted-foreground">{ballots.length} ballots • {dashboards.length} dashboards • {attendances.length} attendances</p>
+              <p className="text-sm text-green-600 dark:text-green-400 font-medium">
+                ✓ {session?.admin.name} ({session?.admin.scope})
+              </p>
+              <p className="text-xs text-muted-foreground">{ballots.length}{ballotsCursor ? '+' : ''} ballots • {dashboards.length} dashboards • {attendances.length} attendances</p>
+              <Button variant="ghost" size="sm" onClick={handleLogout} className="mt-1 gap-1">
+                <LogOut className="w-4 h-4" />
+                Log out
+              </Button>
             </div>
           </div>
         </div>
 
-        {/* Ballots Section */}
-        <h2 className="text-xl font-bold text-foreground mb-4">Ballots</h2>
-        <div className="space-y-4 mb-8">
-          {ballots.length === 0 ? (
-            <div className="bg-card text-card-foreground rounded-lg shadow-sm p-8 text-center border border-border">
-              <p className="text-muted-foreground">No ballots found</p>
+        {canDelete && (
+          <div className="flex gap-2 mb-6" role="tablist">
+            <Button variant={tab === 'manage' ? 'default' : 'outline'} role="tab" aria-selected={tab === 'manage'} onClick={() => setTab('manage')}>
+              Manage
+            </Button>
+            <Button variant={tab === 'audit' ? 'default' : 'outline'} role="tab" aria-selected={tab === 'audit'} onClick={() => setTab('audit')} className="gap-1">
+              <ScrollText className="w-4 h-4" />
+              Audit
+            </Button>
+          </div>
+        )}
+
+        {tab === 'audit' && adminToken ? (
+          <AuditLog adminToken={adminToken} />
+        ) : (
+          <>
+            {/* Ballots Section */}
+            <div className="flex items-center justify-between gap-4 mb-4">
+              <h2 className="text-xl font-bold text-foreground">Ballots</h2>
+              <form onSubmit={searchBallots} className="flex gap-2">
+                <Input
+                  type="search"
+                  value={ballotSearch}
+                  onChange={(e) => setBallotSearch(e.target.value)}
+                  placeholder="Search questions"
+                  aria-label="Search ballots"
+                />
+                <Button type="submit" variant="outline">Search</Button>
+              </form>
             </div>
-          ) : (
-            ballots.map(ballot => (
-              <div key={ballot.id} className="bg-card text-card-foreground rounded-lg shadow-sm p-6 border border-border">
-                <div className="flex items-start justify-between">
-                  <div className="flex-grow">
-                    <div className="flex items-center gap-2 mb-2">
-                      <h3 className="text-lg font-semibold text-foreground">
-                        {ballot.question}
-                      </h3>
-                      {ballot.isPrivate && (
-                        <div className="flex items-center gap-1 px-2 py-1 bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300 rounded text-xs font-medium">
-                          <Lock className="w-3 h-3" />
-                          <span>Private</span>
+            <div className="space-y-4 mb-8">
+              {ballots.length === 0 ? (
+                <div className="bg-card text-card-foreground rounded-lg shadow-sm p-8 text-center border border-border">
+                  <p className="text-muted-foreground">No ballots found</p>
+                </div>
+              ) : (
+                ballots.map(ballot => (
+                  <div key={ballot.id} className="bg-card text-card-foreground rounded-lg shadow-sm p-6 border border-border">
+                    <div className="flex items-start justify-between">
+                      <div className="flex-grow">
+                        <div className="flex items-center gap-2 mb-2">
+                          <h3 className="text-lg font-semibold text-foreground">
+                            {ballot.question}
+                          </h3>
+                          {ballot.isPrivate && (
+                            <div className="flex items-center gap-1 px-2 py-1 bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300 rounded text-xs font-medium">
+                              <Lock className="w-3 h-3" />
+                              <span>Private</span>
+                            </div>
+                          )}
+                          {!isBallotOpen(ballot) && (
+                            <div className="flex items-center gap-1 px-2 py-1 bg-muted text-muted-foreground rounded text-xs font-medium">
+                              <CircleX className="w-3 h-3" />
+                              <span>Closed</span>
+                            </div>
+                          )}
                         </div>
-                      )}
-                    </div>
 
-                    <div className="flex items-center gap-6 text-sm text-muted-foreground mb-4">
-                      <div className="flex items-center gap-1">
-                        <Eye className="w-4 h-4" />
-                        <span>{ballot.voteCount} votes</span>
-                      </div>
-                      <div className="flex items-center gap-1">
-                        <MessageSquare className="w-4 h-4" />
-                        <span>{ballot.commentCount} comments</span>
-                      </div>
-                      <div>
-                        Created {new Date(ballot.createdAt).toLocaleDateString()}
-                      </div>
-                      {ballot.lastVote && (
-                        <div>
-                          Last vote {new Date(ballot.lastVote).toLocaleDateString()}
+                        <div className="flex items-center gap-6 text-sm text-muted-foreground mb-4">
+                          <div className="flex items-center gap-1">
+                            <Eye className="w-4 h-4" />
+                            <span>{ballot.voteCount} votes</span>
+                          </div>
+                          <div className="flex items-center gap-1">
+                            <MessageSquare className="w-4 h-4" />
+                            <span>{ballot.commentCount} comments</span>
+                          </div>
+                          <div>
+                            Created {new Date(ballot.createdAt).toLocaleDateString()}
+                          </div>
+                          {ballot.lastVote && (
+                            <div>
+                              Last vote {new Date(ballot.lastVote).toLocaleDateString()}
+                            </div>
+                          )}
                         </div>
-                      )}
-                    </div>
 
-                    {/* Vote breakdown */}
-                    <div className="flex items-center gap-4 mb-4">
-                      <div className="flex items-center gap-1">
-                        <span>✅</span>
-                        <span className="text-sm">{ballotStats.get(ballot.id)?.green ?? 0}</span>
-                      </div>
-                      <div className="flex items-center gap-1">
-                        <span>⚠️</span>
-                        <span className="text-sm">{ballotStats.get(ballot.id)?.yellow ?? 0}</span>
-                      </div>
-                      <div className="flex items-center gap-1">
-                        <span>❌</span>
-                        <span className="text-sm">{ballotStats.get(ballot.id)?.red ?? 0}</span>
-                      </div>
-                    </div>
+                        {/* Vote breakdown */}
+                        <VoteCounts
+                          ballot={ballot}
+                          counts={ballotStats.get(ballot.id)?.counts}
+                          className="mb-4"
+                          countClassName="text-sm"
+                        />
 
-                    <p className="text-xs text-muted-foreground font-mono">ID: {ballot.id}</p>
-                  </div>
+                        <p className="text-xs text-muted-foreground font-mono">ID: {ballot.id}</p>
+                      </div>
 
-                  <div className="flex items-center gap-2 ml-4">
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => handleTogglePrivacy(ballot.id, ballot.isPrivate || false)}
-                      className="flex items-center gap-1"
-                      title={ballot.isPrivate ? 'Make public' : 'Make private'}
-                    >
-                      {ballot.isPrivate ? (
+                      <div className="flex items-center gap-2 ml-4">
+                        {canModerate && (
                         <>
-                          <Unlock className="w-4 h-4" />
-                          Make Public
-                        </>
-                      ) : (
-                        <>
-                          <Lock className="w-4 h-4" />
-                          Make Private
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleTogglePrivacy(ballot.id, ballot.isPrivate || false)}
+                          className="flex items-center gap-1"
+                          title={ballot.isPrivate ? 'Make public' : 'Make private'}
+                        >
+                          {ballot.isPrivate ? (
+                            <>
+                              <Unlock className="w-4 h-4" />
+                              Make Public
+                            </>
+                          ) : (
+                            <>
+                              <Lock className="w-4 h-4" />
+                              Make Private
+                            </>
+                          )}
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleToggleClosed(ballot.id, isBallotOpen(ballot))}
+                          className="flex items-center gap-1"
+                          title={isBallotOpen(ballot) ? 'Stop accepting votes' : 'Accept votes again'}
+                        >
+                          {isBallotOpen(ballot) ? (
+                            <>
+                              <CircleX className="w-4 h-4" />
+                              Close
+                            </>
+                          ) : (
+                            <>
+                              <CirclePlay className="w-4 h-4" />
+                              Reopen
+                            </>
+                          )}
+                        </Button>
                         </>
-                      )}
-                    </Button>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => window.open(`/${ballot.id}`, '_blank')}
-                      className="text-primary"
-                    >
-                      View
-                    </Button>
-                    <Button
-                      variant="destructive"
-                      size="sm"
-                      onClick={() => handleDeleteBallot(ballot.id, ballot.question)}
-                      disabled={deleting === ballot.id}
-                      className="flex items-center gap-1"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                      {deleting === ballot.id ? 'Deleting...' : 'Delete'}
-                    </Button>
-                  </div>
-                </div>
-              </div>
-            ))
-          )}
-        </div>
-
-        {/* Dashboards Section */}
-        <h2 className="text-xl font-bold text-foreground mb-4">Dashboards</h2>
-        <div className="space-y-4 mb-8">
-          {dashboards.length === 0 ? (
-            <div className="bg-card text-card-foreground rounded-lg shadow-sm p-8 text-center border border-border">
-              <p className="text-muted-foreground">No dashboards found</p>
-            </div>
-          ) : (
-            dashboards.map(dashboard => (
-              <div key={dashboard.id} className="bg-card text-card-foreground rounded-lg shadow-sm p-6 border border-border">
-                <div className="flex items-start justify-between">
-                  <div className="flex-grow">
-                    <h3 className="text-lg font-semibold text-foreground mb-2">
-                      {dashboard.name}
-                    </h3>
-                    <div className="flex items-center gap-6 text-sm text-muted-foreground mb-4">
-                      <div>
-                        {dashboard.ballotIds.length} ballot{dashboard.ballotIds.length !== 1 ? 's' : ''}
-                      </div>
-                      <div>
-                        Created {new Date(dashboard.createdAt).toLocaleDateString()}
-                      </div>
-                      <div>
-                        Updated {new Date(dashboard.updatedAt).toLocaleDateString()}
+                        )}
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => window.open(`/${ballot.id}`, '_blank')}
+                          className="text-primary"
+                        >
+                          View
+                        </Button>
+                        {canDelete && (
+                          <Button
+                            variant="destructive"
+                            size="sm"
+                            onClick={() => handleDeleteBallot(ballot.id, ballot.question)}
+                            disabled={deleting === ballot.id}
+                            className="flex items-center gap-1"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                            {deleting === ballot.id ? 'Deleting...' : 'Delete'}
+                          </Button>
+                        )}
                       </div>
                     </div>
-                    <p className="text-xs text-muted-foreground font-mono">ID: {dashboard.id}</p>
-                  </div>
-
-                  <div className="flex items-center gap-2 ml-4">
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => window.open(`/dashboards/${dashboard.id}`, '_blank')}
-                      className="text-primary"
-                    >
-                      View
-                    </Button>
-                    <Button
-                      variant="destructive"
-                      size="sm"
-                      onClick={() => handleDeleteDashboard(dashboard.id, dashboard.name)}
-                      disabled={deletingDashboard === dashboard.id}
-                      className="flex items-center gap-1"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                      {deletingDashboard === dashboard.id ? 'Deleting...' : 'Delete'}
-                    </Button>
                   </div>
+                ))
+              )}
+              {ballotsCursor && (
+                <div className="text-center">
+                  <Button variant="outline" onClick={loadMoreBallots} disabled={loadingMoreBallots}>
+                    {loadingMoreBallots ? 'Loading...' : 'Load more ballots'}
+                  </Button>
                 </div>
-              </div>
-            ))
-          )}
-        </div>
-
-        {/* Attendances Section */}
-        <h2 className="text-xl font-bold text-foreground mb-4">Attendances</h2>
-        <div className="space-y-4 mb-8">
-          {attendances.length === 0 ? (
-            <div className="bg-card text-card-foreground rounded-lg shadow-sm p-8 text-center border border-border">
-              <p className="text-muted-foreground">No attendances found</p>
+              )}
             </div>
-          ) : (
-            attendances.map(attendance => {
-              const counts = attendanceStatsMap.get(attendance.id)!
-              const isRenaming = renamingAttendance === attendance.id
-              return (
-                <div key={attendance.id} className="bg-card text-card-foreground rounded-lg shadow-sm p-6 border border-border">
-                  <div className="flex items-start justify-between">
-                    <div className="flex-grow">
-                      {isRenaming ? (
-                        <div className="flex items-center gap-2 mb-2">
-                          <input
-                            type="text"
-                            value={renameValue}
-                            onChange={(e) => setRenameValue(e.target.value)}
-                            className="flex-grow px-3 py-1.5 border border-border rounded-md bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
-                            autoFocus
-                            onKeyDown={(e) => {
-                              if (e.key === 'Enter') handleRenameAttendance(attendance.id)
-                              if (e.key === 'Escape') cancelRenaming()
-                            }}
-                          />
-                          <Button
-                            size="sm"
-                            onClick={() => handleRenameAttendance(attendance.id)}
-                            disabled={!renameValue.trim()}
-                          >
-                            Save
-                          </Button>
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={cancelRenaming}
-                          >
-                            Cancel
-                          </Button>
-                        </div>
-                      ) : (
+
+            {/* Dashboards Section */}
+            <h2 className="text-xl font-bold text-foreground mb-4">Dashboards</h2>
+            <div className="space-y-4 mb-8">
+              {dashboards.length === 0 ? (
+                <div className="bg-card text-card-foreground rounded-lg shadow-sm p-8 text-center border border-border">
+                  <p className="text-muted-foreground">No dashboards found</p>
+                </div>
+              ) : (
+                dashboards.map(dashboard => (
+                  <div key={dashboard.id} className="bg-card text-card-foreground rounded-lg shadow-sm p-6 border border-border">
+                    <div className="flex items-start justify-between">
+                      <div className="flex-grow">
                         <h3 className="text-lg font-semibold text-foreground mb-2">
-                          {attendance.title}
+                          {dashboard.name}
                         </h3>
-                      )}
-                      <div className="flex items-center gap-6 text-sm text-muted-foreground mb-4">
-                        <div className="flex items-center gap-1">
-                          <Calendar className="w-4 h-4" />
-                          <span>{formatDate(attendance.date)}</span>
-                        </div>
-                        <div className="flex items-center gap-1">
-                          <Users className="w-4 h-4" />
-                          <span>{counts.total} response{counts.total !== 1 ? 's' : ''}</span>
-                        </div>
-                        <div>
-                          Created {new Date(attendance.createdAt).toLocaleDateString()}
-                        </div>
-                      </div>
-
-                      {/* Response breakdown */}
-                      <div className="flex items-center gap-4 mb-4">
-                        <div className="flex items-center gap-1">
-                          <span className="text-green-600">✓</span>
-                          <span className="text-sm">{counts.yes} attending</span>
-                        </div>
-                        <div className="flex items-center gap-1">
-                          <span className="text-red-600">✗</span>
-                          <span className="text-sm">{counts.no} not attending</span>
+                        <div className="flex items-center gap-6 text-sm text-muted-foreground mb-4">
+                          <div>
+                            {dashboard.ballotIds.length} ballot{dashboard.ballotIds.length !== 1 ? 's' : ''}
+                          </div>
+                          <div>
+                            Created {new Date(dashboard.createdAt).toLocaleDateString()}
+                          </div>
+                          <div>
+                            Updated {new Date(dashboard.updatedAt).toLocaleDateString()}
+                          </div>
                         </div>
+                        <p className="text-xs text-muted-foreground font-mono">ID: {dashboard.id}</p>
                       </div>
 
-                      <p className="text-xs text-muted-foreground font-mono">ID: {attendance.id}</p>
-                    </div>
-
-                    <div className="flex items-center gap-2 ml-4">
-                      {!isRenaming && (
+                      <div className="flex items-center gap-2 ml-4">
                         <Button
                           variant="outline"
                           size="sm"
-                          onClick={() => startRenaming(attendance.id, attendance.title)}
-                          className="flex items-center gap-1"
-                          title="Rename attendance"
+                          onClick={() => window.open(`/dashboards/${dashboard.id}`, '_blank')}
+                          className="text-primary"
                         >
-                          <Pencil className="w-4 h-4" />
-                          Rename
+                          View
                         </Button>
-                      )}
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => window.open(`/attendance/${attendance.id}`, '_blank')}
-                        className="text-primary"
-                      >
-                        View
-                      </Button>
-                      <Button
-                        variant="destructive"
-                        size="sm"
-                        onClick={() => handleDeleteAttendance(attendance.id, attendance.title)}
-                        disabled={deletingAttendance === attendance.id}
-                        className="flex items-center gap-1"
-                      >
-                        <Trash2 className="w-4 h-4" />
-                        {deletingAttendance === attendance.id ? 'Deleting...' : 'Delete'}
-                      </Button>
+                        {canDelete && (
+                          <Button
+                            variant="destructive"
+                            size="sm"
+                            onClick={() => handleDeleteDashboard(dashboard.id, dashboard.name)}
+                            disabled={deletingDashboard === dashboard.id}
+                            className="flex items-center gap-1"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                            {deletingDashboard === dashboard.id ? 'Deleting...' : 'Delete'}
+                          </Button>
+                        )}
+                      </div>
                     </div>
                   </div>
+                ))
+              )}
+            </div>
+
+            {/* Attendances Section */}
+            <h2 className="text-xl font-bold text-foreground mb-4">Attendances</h2>
+            <div className="space-y-4 mb-8">
+              {attendances.length === 0 ? (
+                <div className="bg-card text-card-foreground rounded-lg shadow-sm p-8 text-center border border-border">
+                  <p className="text-muted-foreground">No attendances found</p>
                 </div>
-              )
-            })
-          )}
-        </div>
+              ) : (
+                attendances.map(attendance => {
+                  const counts = attendanceStatsMap.get(attendance.id)!
+                  const isRenaming = renamingAttendance === attendance.id
+                  return (
+                    <div key={attendance.id} className="bg-card text-card-foreground rounded-lg shadow-sm p-6 border border-border">
+                      <div className="flex items-start justify-between">
+                        <div className="flex-grow">
+                          {isRenaming ? (
+                            <div className="flex items-center gap-2 mb-2">
+                              <input
+                                type="text"
+                                value={renameValue}
+                                onChange={(e) => setRenameValue(e.target.value)}
+                                className="flex-grow px-3 py-1.5 border border-border rounded-md bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                                autoFocus
+                                onKeyDown={(e) => {
+                                  if (e.key === 'Enter') handleRenameAttendance(attendance.id)
+                                  if (e.key === 'Escape') cancelRenaming()
+                                }}
+                              />
+                              <Button
+                                size="sm"
+                                onClick={() => handleRenameAttendance(attendance.id)}
+                                disabled={!renameValue.trim()}
+                              >
+                                Save
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={cancelRenaming}
+                              >
+                                Cancel
+                              </Button>
+                            </div>
+                          ) : (
+                            <h3 className="text-lg font-semibold text-foreground mb-2">
+                              {attendance.title}
+                            </h3>
+                          )}
+                          <div className="flex items-center gap-6 text-sm text-muted-foreground mb-4">
+                            <div className="flex items-center gap-1">
+                              <Calendar className="w-4 h-4" />
+                              <span>{formatDate(attendance.date)}</span>
+                            </div>
+                            <div className="flex items-center gap-1">
+                              <Users className="w-4 h-4" />
+                              <span>{counts.total} response{counts.total !== 1 ? 's' : ''}</span>
+                            </div>
+                            <div>
+                              Created {new Date(attendance.createdAt).toLocaleDateString()}
+                            </div>
+                          </div>
+
+                          {/* Response breakdown */}
+                          <div className="flex items-center gap-4 mb-4">
+                            <div className="flex items-center gap-1">
+                              <span className="text-green-600">✓</span>
+                              <span className="text-sm">{counts.yes} attending</span>
+                            </div>
+                            <div className="flex items-center gap-1">
+                              <span className="text-red-600">✗</span>
+                              <span className="text-sm">{counts.no} not attending</span>
+                            </div>
+                          </div>
+
+                          <p className="text-xs text-muted-foreground font-mono">ID: {attendance.id}</p>
+                        </div>
+
+                        <div className="flex items-center gap-2 ml-4">
+                          {canModerate && !isRenaming && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => startRenaming(attendance.id, attendance.title)}
+                              className="flex items-center gap-1"
+                              title="Rename attendance"
+                            >
+                              <Pencil className="w-4 h-4" />
+                              Rename
+                            </Button>
+                          )}
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => window.open(`/attendance/${attendance.id}`, '_blank')}
+                            className="text-primary"
+                          >
+                            View
+                          </Button>
+                          {canDelete && (
+                            <Button
+                              variant="destructive"
+                              size="sm"
+                              onClick={() => handleDeleteAttendance(attendance.id, attendance.title)}
+                              disabled={deletingAttendance === attendance.id}
+                              className="flex items-center gap-1"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                              {deletingAttendance === attendance.id ? 'Deleting...' : 'Delete'}
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                  )
+                })
+              )}
+            </div>
+          </>
+        )}
 
         {/* Footer */}
         <div className="mt-8 text-center text-xs text-muted-foreground">
@@ -3,10 +3,12 @@ import { useNavigate } from 'react-router-dom'
 import { Button } from './ui/button'
 import { ChevronLeft, ChevronRight } from 'lucide-react'
 import { cn } from '../lib/utils'
-import type { Attendance } from 'shared/dist'
+import { seriesDates, type Attendance, type AttendanceSeries } from 'shared/dist'
+import { attendanceSeriesApi, userMessage } from '../api/client'
 
 interface AttendanceCalendarProps {
   attendances: Attendance[]
+  series?: AttendanceSeries[]  // Their dates show even before they have polls
   onCreateAttendance: (title: string, date: string) => Promise<Attendance>
 }
 
@@ -39,7 +41,7 @@ function isSameDay(d1: Date, d2: Date): boolean {
          d1.getDate() === d2.getDate()
 }
 
-export function AttendanceCalendar({ attendances, onCreateAttendance }: AttendanceCalendarProps) {
+export function AttendanceCalendar({ attendances, series = [], onCreateAttendance }: AttendanceCalendarProps) {
   const navigate = useNavigate()
   const [currentDate, setCurrentDate] = useState(() => new Date())
   const [isCreating, setIsCreating] = useState<string | null>(null)
@@ -106,6 +108,19 @@ export function AttendanceCalendar({ attendances, onCreateAttendance }: Attendan
     return days
   }, [currentDate])
 
+  // Series dates on the grid that have no poll yet: date string -> series
+  const seriesByDate = useMemo(() => {
+    const map = new Map<string, AttendanceSeries>()
+    const first = calendarDays[0]!.dateStr
+    const last = calendarDays[calendarDays.length - 1]!.dateStr
+    series.forEach(item => {
+      seriesDates(item.recurrence, first, last).forEach(date => {
+        if (!attendanceByDate.has(date) && !map.has(date)) map.set(date, item)
+      })
+    })
+    return map
+  }, [series, calendarDays, attendanceByDate])
+
   const handlePreviousMonth = () => {
     setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth() - 1, 1))
   }
@@ -121,12 +136,14 @@ export function AttendanceCalendar({ attendances, onCreateAttendance }: Attendan
     } else {
       setIsCreating(dateStr)
       try {
-        const title = formatAttendanceTitle(dateStr)
-        const newAttendance = await onCreateAttendance(title, dateStr)
+        const seriesForDay = seriesByDate.get(dateStr)
+        const newAttendance = seriesForDay
+          ? await attendanceSeriesApi.getOrCreateDate(seriesForDay.id, dateStr)
+          : await onCreateAttendance(formatAttendanceTitle(dateStr), dateStr)
         navigate(`/attendance/${newAttendance.id}`)
       } catch (error) {
         console.error('Failed to create attendance:', error)
-        alert('Failed to create attendance. Please try again.')
+        alert(userMessage(error, 'Failed to create attendance. Please try again.'))
       } finally {
         setIsCreating(null)
       }
@@ -173,6 +190,7 @@ export function AttendanceCalendar({ attendances, onCreateAttendance }: Attendan
       <div className="grid grid-cols-7 gap-1">
         {calendarDays.map((day) => {
           const hasAttendance = attendanceByDate.has(day.dateStr)
+          const isSeriesDay = seriesByDate.has(day.dateStr)
           const isCreatingThisDay = isCreating === day.dateStr
 
           return (
@@ -186,6 +204,7 @@ export function AttendanceCalendar({ attendances, onCreateAttendance }: Attendan
                 !day.isCurrentMonth && 'text-muted-foreground/50',
                 day.isToday && 'ring-2 ring-blue-500',
                 hasAttendance && 'bg-blue-100 dark:bg-blue-900/50 font-medium',
+                isSeriesDay && 'border border-dashed border-blue-400 dark:border-blue-500',
                 isCreatingThisDay && 'opacity-50 cursor-wait'
               )}
             >
@@ -207,6 +226,12 @@ export function AttendanceCalendar({ attendances, onCreateAttendance }: Attendan
           <span className="w-2 h-2 bg-blue-500 rounded-full" />
           <span>Has attendance</span>
         </div>
+        {seriesByDate.size > 0 && (
+          <div className="flex items-center gap-1">
+            <span className="w-4 h-4 border border-dashed border-blue-400 rounded" />
+            <span>Series date</span>
+          </div>
+        )}
         <div className="flex items-center gap-1">
           <span className="w-4 h-4 ring-2 ring-blue-500 rounded" />
           <span>Today</span>
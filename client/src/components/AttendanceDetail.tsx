@@ -1,8 +1,12 @@
 import { useState, useEffect } from 'react'
 import { Button } from "./ui/button"
 import { Input } from "./ui/input"
-import { Copy, Calendar, Users, Check, X } from 'lucide-react'
-import type { Attendance } from 'shared/dist'
+import { ExportButtons } from "./ExportButtons"
+import { Copy, Calendar, CalendarPlus, Users, Check, X } from 'lucide-react'
+import { attendanceResponseSchema, type Attendance } from 'shared/dist'
+import { attendanceApi, userMessage } from '../api/client'
+import { useLiveUpdates } from '../hooks/useLiveUpdates'
+import { newerRecord } from '../utils/ballot'
 
 const API_URL = import.meta.env.VITE_API_URL || 'https://ballot-app-server.siener.workers.dev'
 
@@ -22,6 +26,11 @@ export function AttendanceDetail({ attendanceId, onBack }: AttendanceDetailProps
     fetchAttendance()
   }, [attendanceId])
 
+  // Show other people's responses as they come in
+  useLiveUpdates(attendanceApi.streamUrl(attendanceId), {
+    onAttendance: (updated) => setAttendance(current => newerRecord(current, updated))
+  })
+
   const fetchAttendance = async () => {
     try {
       const response = await fetch(`${API_URL}/api/attendance/${attendanceId}`)
@@ -36,30 +45,22 @@ export function AttendanceDetail({ attendanceId, onBack }: AttendanceDetailProps
   }
 
   const handleResponse = async (attending: boolean) => {
-    if (!attendance || !name.trim()) {
-      alert('Please enter your name')
+    if (!attendance) return
+
+    const parsed = attendanceResponseSchema.parse({ name, attending })
+    if (!parsed.ok) {
+      alert(parsed.issues[0]!.message)
       return
     }
 
     setSubmitting(true)
     try {
-      const response = await fetch(`${API_URL}/api/attendance/${attendanceId}`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          name: name.trim(),
-          attending
-        }),
-      })
-      if (!response.ok) throw new Error('Failed to submit response')
-      const updatedAttendance = await response.json()
-      setAttendance(updatedAttendance)
+      const updatedAttendance = await attendanceApi.respond(attendanceId, parsed.value.name, attending, attendance.version)
+      setAttendance(current => newerRecord(current, updatedAttendance))
       setName('')
     } catch (error) {
       console.error('Error submitting response:', error)
-      alert('Failed to submit response. Please try again.')
+      alert(userMessage(error, 'Failed to submit response. Please try again.'))
     } finally {
       setSubmitting(false)
     }
@@ -148,6 +149,21 @@ export function AttendanceDetail({ attendanceId, onBack }: AttendanceDetailProps
               <Copy className="h-3 w-3" />
             </Button>
           </div>
+          <ExportButtons onExport={(format) => attendanceApi.export(attendance.id, format)} />
+          <div className="flex items-center gap-2 mt-2">
+            <CalendarPlus className="h-4 w-4 text-muted-foreground" aria-hidden />
+            <Button asChild variant="outline" size="sm" className="h-7 px-2 text-xs">
+              <a href={attendanceApi.calendarUrl(attendance.id)} download>Add to calendar</a>
+            </Button>
+            {attendance.seriesId && (
+              <Button asChild variant="outline" size="sm" className="h-7 px-2 text-xs">
+                {/* webcal: opens the calendar app, which keeps the series up to date */}
+                <a href={attendanceApi.feedUrl({ seriesId: attendance.seriesId }).replace(/^https?:/, 'webcal:')}>
+                  Subscribe to series
+                </a>
+              </Button>
+            )}
+          </div>
         </div>
 
         <div className="flex justify-center space-x-8 mb-8">
@@ -0,0 +1,103 @@
+import React, { useState } from 'react'
+import { AUDIT_ACTIONS, type AuditAction, type AuditSummary } from 'shared/dist'
+import { adminApi, type AuditEntry, type AuditQuery } from '../api/client'
+import { usePagedList } from '../hooks/usePagedList'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+
+type AuditLogProps = {
+  adminToken: string
+}
+
+const actionLabel = (action: AuditAction) => action.replace(/_/g, ' ')
+
+function formatSummary(summary: AuditSummary): string {
+  return Object.entries(summary).map(([key, value]) => `${key}: ${value}`).join(', ')
+}
+
+function actorLabel({ actor }: AuditEntry): string {
+  if (actor.kind === 'admin') return actor.name ?? 'Admin'
+  if (actor.kind === 'editor') return actor.name ? `Editor ${actor.name}` : 'Editor'
+  return actor.kind === 'owner' ? 'Owner' : 'Anonymous'
+}
+
+// The admin panel's Audit tab - who did what, newest first
+export function AuditLog({ adminToken }: AuditLogProps) {
+  const [action, setAction] = useState<AuditAction | ''>('')
+  const [search, setSearch] = useState('')
+  const [query, setQuery] = useState('')
+
+  const { items: entries, loading, loadingMore, error, hasMore, loadMore } = usePagedList<AuditEntry, AuditQuery>(
+    (pageQuery) => adminApi.getAudit(adminToken, pageQuery),
+    { action: action || undefined, q: query || undefined }
+  )
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault()
+    setQuery(search.trim())
+  }
+
+  return (
+    <div className="mb-8">
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <h2 className="text-xl font-bold text-foreground">Audit log</h2>
+        <form onSubmit={handleSearch} className="flex gap-2">
+          <select
+            value={action}
+            onChange={(e) => setAction(e.target.value as AuditAction | '')}
+            aria-label="Filter by action"
+            className="px-3 py-1.5 border border-border rounded-md bg-background text-foreground text-sm"
+          >
+            <option value="">All actions</option>
+            {AUDIT_ACTIONS.map(value => (
+              <option key={value} value={value}>{actionLabel(value)}</option>
+            ))}
+          </select>
+          <Input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search entries"
+            aria-label="Search the audit log"
+          />
+          <Button type="submit" variant="outline">Search</Button>
+        </form>
+      </div>
+
+      {error && <p className="text-red-600 dark:text-red-400 mb-4">Failed to load the audit log</p>}
+
+      <div className="bg-card text-card-foreground rounded-lg shadow-sm border border-border divide-y divide-border">
+        {loading ? (
+          <p className="p-8 text-center text-muted-foreground">Loading...</p>
+        ) : entries.length === 0 ? (
+          <p className="p-8 text-center text-muted-foreground">No entries found</p>
+        ) : (
+          entries.map(entry => (
+            <div key={entry.id} className="p-4 text-sm">
+              <div className="flex items-center justify-between gap-4">
+                <span className="font-medium text-foreground">
+                  {actorLabel(entry)} · {actionLabel(entry.action)}
+                  {entry.resource && <span className="font-mono text-muted-foreground"> {entry.resource.type} {entry.resource.id}</span>}
+                </span>
+                <span className="text-xs text-muted-foreground whitespace-nowrap">
+                  {new Date(entry.createdAt).toLocaleString()} · {entry.ip}
+                </span>
+              </div>
+              {entry.before && <p className="text-muted-foreground">Before: {formatSummary(entry.before)}</p>}
+              {entry.after && <p className="text-muted-foreground">After: {formatSummary(entry.after)}</p>}
+              {entry.details && <p className="text-muted-foreground">{formatSummary(entry.details)}</p>}
+            </div>
+          ))
+        )}
+      </div>
+
+      {hasMore && (
+        <div className="text-center mt-4">
+          <Button variant="outline" onClick={loadMore} disabled={loadingMore}>
+            {loadingMore ? 'Loading...' : 'Load more entries'}
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -230,9 +230,9 @@ describe('Voting Functionality', () => {
     
     await waitFor(() => {
       expect(mockFetch).toHaveBeenCalledWith(
-        'https://ballot-app-server.siener.workers.dev/api/ballots/test-1',
+        'https://ballot-app-server.siener.workers.dev/api/ballots/test-1/votes',
         expect.objectContaining({
-          method: 'PUT',
+          method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: expect.stringContaining('My new vote')
         })
@@ -2,7 +2,20 @@ import { useState, useEffect } from 'react'
 import { Button } from "./ui/button"
 import { Textarea } from "./ui/textarea"
 import { Copy } from 'lucide-react'
-import { ballotApi, type Ballot, type VoteColor } from '../api/client'
+import { ballotKind, ballotOptions, isBallotOpen, voteChoice, votePolicy, voteSchema } from 'shared/dist'
+import { ballotApi, ownerTokens, ApiError, type Ballot, type Vote, type VoteSelection } from '../api/client'
+import { useLiveUpdates } from '../hooks/useLiveUpdates'
+import { countAllVotes, newerRecord, optionIcon, ownerTokenFromHash, voteLabels } from '../utils/ballot'
+import { BallotResults } from './BallotResults'
+import { BallotOwnerControls } from './BallotOwnerControls'
+import { ExportButtons } from './ExportButtons'
+
+// Spelled out so Tailwind sees the class names
+const BUTTON_COLUMNS: Record<number, string> = {
+  2: 'grid-cols-2',
+  3: 'grid-cols-3',
+  5: 'grid-cols-5'
+}
 
 interface BallotDetailProps {
   ballotId: string
@@ -12,13 +25,32 @@ interface BallotDetailProps {
 export function BallotDetail({ ballotId, onBack }: BallotDetailProps) {
   const [ballot, setBallot] = useState<Ballot | null>(null)
   const [comment, setComment] = useState('')
+  // Option values picked so far on ranked (in order) and approval ballots
+  const [selection, setSelection] = useState<string[]>([])
+  const [myVote, setMyVote] = useState<Vote | null>(null)
+  const [changingVote, setChangingVote] = useState(false)
   const [loading, setLoading] = useState(true)
   const [copyPressed, setCopyPressed] = useState(false)
+  const [ownerToken, setOwnerToken] = useState<string | null>(null)
 
   useEffect(() => {
     fetchBallot()
+    fetchMyVote()
+
+    // Opening an edit link keeps its token, then drops it from the address bar
+    const linkToken = ownerTokenFromHash(window.location.hash)
+    if (linkToken) {
+      ownerTokens.save(ballotId, linkToken)
+      window.history.replaceState(null, '', window.location.pathname + window.location.search)
+    }
+    setOwnerToken(ownerTokens.get(ballotId))
   }, [ballotId])
 
+  // Keep the tally moving as other people vote
+  useLiveUpdates(ballotApi.streamUrl(ballotId), {
+    onBallot: (updated) => setBallot(current => newerRecord(current, updated))
+  })
+
   const fetchBallot = async () => {
     try {
       const data = await ballotApi.getById(ballotId)
@@ -30,22 +62,53 @@ export function BallotDetail({ ballotId, onBack }: BallotDetailProps) {
     }
   }
 
-  const handleVote = async (color: VoteColor) => {
+  const fetchMyVote = async () => {
+    try {
+      setMyVote(await ballotApi.getMyVote(ballotId))
+    } catch (error) {
+      console.error('Error fetching your vote:', error)
+    }
+  }
+
+  const handleVote = async (vote: VoteSelection) => {
     if (!ballot) return
 
+    // Checked against the same schema the server uses
+    const parsed = voteSchema.parse({ ...(typeof vote === 'string' ? { choice: vote } : vote), comment })
+    if (!parsed.ok) {
+      alert(parsed.issues[0]!.message)
+      return
+    }
+
     try {
-      const updatedBallot = await ballotApi.addVote(ballot, color, comment)
-      setBallot(updatedBallot)
+      const updatedBallot = await ballotApi.addVote(ballot.id, vote, parsed.value.comment)
+      setBallot(current => newerRecord(current, updatedBallot))
+      // The response is the ballot as this vote left it, so ours is the last one
+      setMyVote(updatedBallot.votes[updatedBallot.votes.length - 1] ?? null)
+      setChangingVote(false)
       setComment('')
+      setSelection([])
     } catch (error) {
       console.error('Error updating ballot:', error)
+      if (!(error instanceof ApiError)) return
+      switch (error.code) {
+        // Closed since it was loaded, or changed under us - show it as it is now
+        case 'BALLOT_CLOSED':
+        case 'VERSION_CONFLICT':
+          fetchBallot()
+          break
+        // Already voted, e.g. from another tab
+        case 'ALREADY_VOTED':
+          fetchMyVote()
+          break
+        // The message says how long to wait
+        case 'RATE_LIMITED':
+          alert(error.message)
+          break
+      }
     }
   }
 
-  const countVotes = (color: 'green' | 'yellow' | 'red') => {
-    return ballot?.votes.filter(v => v.color === color).length || 0
-  }
-
   if (loading) {
     return (
       <div className="container mx-auto p-4 max-w-3xl">
@@ -65,6 +128,24 @@ export function BallotDetail({ ballotId, onBack }: BallotDetailProps) {
     )
   }
 
+  const isOpen = isBallotOpen(ballot)
+  const kind = ballotKind(ballot)
+  const isTrafficLight = kind === 'traffic-light'
+  const options = ballotOptions(ballot)
+  const counts = countAllVotes(ballot)
+  const policy = votePolicy(ballot)
+  // Once a voter has voted on a limited ballot, the voting buttons stay hidden
+  // unless they ask to change their vote
+  const canVote = isOpen && (!myVote || policy === 'unlimited' || changingVote)
+
+  // Ranked: click options in preference order, click again to take one out.
+  // Approval: click to approve or unapprove.
+  const toggleSelected = (value: string) => {
+    setSelection(current =>
+      current.includes(value) ? current.filter(selected => selected !== value) : [...current, value]
+    )
+  }
+
   return (
     <div className="container mx-auto p-4 max-w-3xl">
       <div className="bg-card text-card-foreground shadow-md rounded-lg p-6 border border-border">
@@ -93,56 +174,169 @@ export function BallotDetail({ ballotId, onBack }: BallotDetailProps) {
             </Button>
           </div>
           <p>Created {new Date(ballot.createdAt).toLocaleDateString()}</p>
-        </div>
-
-        <div className="flex justify-center space-x-8 mb-8">
-          {['green', 'yellow', 'red'].map((color) => (
-            <div key={color} className="text-center">
-              <div className={`w-24 h-24 rounded-full border-4 ${color === 'green' ? 'border-green-500' : color === 'yellow' ? 'border-yellow-500' : 'border-red-500'} flex items-center justify-center`}>
-                <span className="text-4xl font-bold">{countVotes(color as 'green' | 'yellow' | 'red')}</span>
-              </div>
+          {isOpen && ballot.closesAt && (
+            <p>Voting closes {new Date(ballot.closesAt).toLocaleString()}</p>
+          )}
+          {/* Private ballots only export for their owner */}
+          {(!ballot.isPrivate || ownerToken) && (
+            <div className="mt-2">
+              <ExportButtons onExport={(format) => ballotApi.export(ballot.id, format)} />
             </div>
-          ))}
+          )}
         </div>
 
-        <div className="space-y-4 mb-8">
-          <Textarea
-            id="comment"
-            value={comment}
-            onChange={(e) => setComment(e.target.value)}
-            placeholder="Add an optional comment"
-            className="mb-2"
+        {ownerToken && (
+          <BallotOwnerControls
+            ballot={ballot}
+            ownerToken={ownerToken}
+            onUpdated={(updated) => setBallot(current => newerRecord(current, updated))}
+            onDeleted={() => {
+              ownerTokens.forget(ballot.id)
+              onBack()
+            }}
+            onTokenRejected={() => {
+              ownerTokens.forget(ballot.id)
+              setOwnerToken(null)
+            }}
           />
-          <div className="grid grid-cols-3 gap-3">
-            <Button
-              onClick={() => handleVote('green')}
-              className="w-full h-12 bg-green-500 hover:bg-green-600 text-white dark:bg-green-600 dark:hover:bg-green-700"
-            >
-              ✅ Vote Green
-            </Button>
-            <Button
-              onClick={() => handleVote('yellow')}
-              className="w-full h-12 bg-yellow-500 hover:bg-yellow-600 text-white dark:bg-yellow-600 dark:hover:bg-yellow-700"
-            >
-              ⚠️ Vote Yellow
-            </Button>
-            <Button
-              onClick={() => handleVote('red')}
-              className="w-full h-12 bg-red-500 hover:bg-red-600 text-white dark:bg-red-600 dark:hover:bg-red-700"
-            >
-              ❌ Vote Red
-            </Button>
+        )}
+
+        {!isOpen && (
+          <div className="mb-6 p-3 rounded bg-muted text-muted-foreground text-center">
+            Voting has closed{ballot.closedAt ? ` (${new Date(ballot.closedAt).toLocaleString()})` : ''}. Final results are shown below.
           </div>
-        </div>
+        )}
+
+        {isTrafficLight ? (
+          <div className="flex justify-center space-x-8 mb-8">
+            {['green', 'yellow', 'red'].map((color) => (
+              <div key={color} className="text-center">
+                <div className={`w-24 h-24 rounded-full border-4 ${color === 'green' ? 'border-green-500' : color === 'yellow' ? 'border-yellow-500' : 'border-red-500'} flex items-center justify-center`}>
+                  <span className="text-4xl font-bold">{counts[color]}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="flex justify-center flex-wrap gap-6 mb-8">
+            {options.map((option) => (
+              <div key={option.value} className="text-center">
+                <div className="w-20 h-20 mx-auto rounded-full border-4 border-primary flex items-center justify-center">
+                  <span className="text-3xl font-bold">{counts[option.value]}</span>
+                </div>
+                <p className="mt-2 text-sm text-muted-foreground">
+                  {optionIcon(ballot, option.value) ? `${optionIcon(ballot, option.value)} ` : ''}{option.label}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {(kind === 'ranked' || kind === 'approval') && <BallotResults ballot={ballot} />}
+
+        {myVote && (
+          <div className="mb-6 p-3 rounded bg-muted text-center">
+            You voted {optionIcon(ballot, voteChoice(myVote) ?? '') ? `${optionIcon(ballot, voteChoice(myVote) ?? '')} ` : ''}
+            {voteLabels(ballot, myVote).join(kind === 'ranked' ? ' > ' : ', ')}
+            {isOpen && policy === 'change' && !changingVote && (
+              <>
+                {' — '}
+                <button type="button" className="underline text-primary" onClick={() => setChangingVote(true)}>
+                  change?
+                </button>
+              </>
+            )}
+          </div>
+        )}
+
+        {canVote && (
+          <div className="space-y-4 mb-8">
+            <Textarea
+              id="comment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="Add an optional comment"
+              className="mb-2"
+            />
+            {isTrafficLight ? (
+              <div className="grid grid-cols-3 gap-3">
+                <Button
+                  onClick={() => handleVote('green')}
+                  className="w-full h-12 bg-green-500 hover:bg-green-600 text-white dark:bg-green-600 dark:hover:bg-green-700"
+                >
+                  ✅ Vote Green
+                </Button>
+                <Button
+                  onClick={() => handleVote('yellow')}
+                  className="w-full h-12 bg-yellow-500 hover:bg-yellow-600 text-white dark:bg-yellow-600 dark:hover:bg-yellow-700"
+                >
+                  ⚠️ Vote Yellow
+                </Button>
+                <Button
+                  onClick={() => handleVote('red')}
+                  className="w-full h-12 bg-red-500 hover:bg-red-600 text-white dark:bg-red-600 dark:hover:bg-red-700"
+                >
+                  ❌ Vote Red
+                </Button>
+              </div>
+            ) : kind === 'ranked' || kind === 'approval' ? (
+              <div className="space-y-3">
+                <p className="text-sm text-muted-foreground">
+                  {kind === 'ranked'
+                    ? 'Click options in order of preference. You don\'t have to rank them all.'
+                    : 'Click every option you approve of.'}
+                </p>
+                <div className={`grid gap-3 ${BUTTON_COLUMNS[options.length] ?? 'grid-cols-2 sm:grid-cols-3'}`}>
+                  {options.map((option) => {
+                    const position = selection.indexOf(option.value)
+                    return (
+                      <Button
+                        key={option.value}
+                        variant={position === -1 ? 'outline' : 'default'}
+                        onClick={() => toggleSelected(option.value)}
+                        className="w-full h-12"
+                      >
+                        {position !== -1 && (kind === 'ranked' ? `${position + 1}. ` : '✓ ')}{option.label}
+                      </Button>
+                    )
+                  })}
+                </div>
+                <div className="flex justify-end gap-3">
+                  <Button variant="outline" onClick={() => setSelection([])} disabled={selection.length === 0}>
+                    Clear
+                  </Button>
+                  <Button
+                    onClick={() => handleVote(kind === 'ranked' ? { ranking: selection } : { approvals: selection })}
+                    disabled={selection.length === 0}
+                  >
+                    {kind === 'ranked' ? 'Submit ranking' : 'Submit approvals'}
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div className={`grid gap-3 ${BUTTON_COLUMNS[options.length] ?? 'grid-cols-2 sm:grid-cols-3'}`}>
+                {options.map((option) => (
+                  <Button key={option.value} onClick={() => handleVote(option.value)} className="w-full h-12">
+                    {optionIcon(ballot, option.value) ? `${optionIcon(ballot, option.value)} ` : ''}{option.label}
+                  </Button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
 
         {ballot.votes.filter(v => v.comment).length > 0 && (
           <div className="space-y-4">
             <h2 className="text-xl font-semibold">Comments</h2>
             {ballot.votes.filter(v => v.comment).map((vote, index) => (
             <div key={index} className="flex items-start space-x-3 p-3 bg-muted rounded">
-              <span className="text-2xl mt-1">
-                {vote.color === 'green' ? '✅' : vote.color === 'yellow' ? '⚠️' : '❌'}
-              </span>
+              {optionIcon(ballot, voteChoice(vote) ?? '') ? (
+                <span className="text-2xl mt-1">{optionIcon(ballot, voteChoice(vote) ?? '')}</span>
+              ) : (
+                <span className="mt-1 px-2 py-0.5 rounded bg-background text-sm font-medium">
+                  {voteLabels(ballot, vote).join(kind === 'ranked' ? ' > ' : ', ')}
+                </span>
+              )}
               <div className="flex-grow">
                 <p className="text-foreground">{vote.comment}</p>
                 <p className="text-sm text-muted-foreground">
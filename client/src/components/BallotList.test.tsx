@@ -49,7 +49,7 @@ describe('BallotList Component', () => {
     // Default successful fetch response
     mockFetch.mockResolvedValue({
       ok: true,
-      json: async () => mockBallots
+      json: async () => ({ items: mockBallots, nextCursor: null })
     })
   })
 
@@ -107,7 +107,7 @@ describe('BallotList Component', () => {
   test('should handle empty ballot list', async () => {
     mockFetch.mockResolvedValue({
       ok: true,
-      json: async () => []
+      json: async () => ({ items: [], nextCursor: null })
     })
     
     render(<BallotListWithRouter />)
@@ -137,7 +137,7 @@ describe('Ballot Creation Form', () => {
     mockFetch.mockClear()
     mockFetch.mockResolvedValue({
       ok: true,
-      json: async () => mockBallots
+      json: async () => ({ items: mockBallots, nextCursor: null })
     })
   })
 
@@ -161,7 +161,7 @@ describe('Ballot Creation Form', () => {
 
     // Mock successful creation
     mockFetch
-      .mockResolvedValueOnce({ ok: true, json: async () => mockBallots }) // Initial fetch
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ items: mockBallots, nextCursor: null }) }) // Initial fetch
       .mockResolvedValueOnce({ ok: true, json: async () => newBallot }) // Create ballot
 
     render(<BallotListWithRouter />)
@@ -208,7 +208,7 @@ describe('Ballot Creation Form', () => {
     }
 
     mockFetch
-      .mockResolvedValueOnce({ ok: true, json: async () => mockBallots })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ items: mockBallots, nextCursor: null }) })
       .mockResolvedValueOnce({ ok: true, json: async () => newBallot })
 
     render(<BallotListWithRouter />)
@@ -2,44 +2,76 @@ import React, { useState, useEffect, useMemo } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { Button } from "./ui/button"
 import { Input } from "./ui/input"
-import { ballotApi, type Ballot } from '../api/client'
-import { countVotes, countComments } from '../utils/ballot'
+import { Textarea } from "./ui/textarea"
+import { Copy } from 'lucide-react'
+import { CUSTOM_OPTION_KINDS, ballotCreateSchema, isBallotOpen } from 'shared/dist'
+import { ballotApi, ApiError, type Ballot, type BallotKind, type VotePolicy } from '../api/client'
+import { countAllVotes, countComments, ownerEditLink } from '../utils/ballot'
+import { VoteCounts } from './VoteCounts'
+import { usePagedList } from '../hooks/usePagedList'
+
+const SEARCH_DELAY_MS = 300
 
 export function BallotList() {
   const navigate = useNavigate()
-  const [ballots, setBallots] = useState<Ballot[]>([])
-  const [loading, setLoading] = useState(true)
+  const [search, setSearch] = useState('')
+  // What's searched for, once typing pauses
+  const [query, setQuery] = useState('')
+  const { items: ballots, setItems: setBallots, loading, loadingMore, hasMore, loadMore } = usePagedList(ballotApi.getPage, { q: query || undefined })
   const [newBallotQuestion, setNewBallotQuestion] = useState('')
   const [isPrivate, setIsPrivate] = useState(false)
+  const [closesAt, setClosesAt] = useState('')
+  const [kind, setKind] = useState<BallotKind>('traffic-light')
+  const [votePolicy, setVotePolicy] = useState<VotePolicy>('unlimited')
+  const [choiceOptions, setChoiceOptions] = useState('')
+  const [formError, setFormError] = useState<string | null>(null)
+  // The ballot just created, with the edit link shown this one time
+  const [created, setCreated] = useState<{ ballot: Ballot; editLink: string | null } | null>(null)
 
   useEffect(() => {
-    fetchBallots()
-  }, [])
-
-  const fetchBallots = async () => {
-    try {
-      const data = await ballotApi.getAll()
-      setBallots(data)
-    } catch (error) {
-      console.error('Error fetching ballots:', error)
-      setBallots([])
-    } finally {
-      setLoading(false)
-    }
-  }
+    const timer = setTimeout(() => setQuery(search.trim()), SEARCH_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [search])
 
   const createBallot = async (e: React.FormEvent) => {
     e.preventDefault()
     if (!newBallotQuestion.trim()) return
 
+    // Checked against the same schema the server uses
+    const parsed = ballotCreateSchema.parse({
+      question: newBallotQuestion,
+      isPrivate,
+      // datetime-local has no timezone, so it's read as local time
+      closesAt: closesAt ? new Date(closesAt).toISOString() : undefined,
+      kind,
+      options: CUSTOM_OPTION_KINDS.includes(kind) ? choiceOptions.split('\n').filter(option => option.trim()) : undefined,
+      votePolicy
+    })
+    if (!parsed.ok) {
+      setFormError(parsed.issues[0]!.message)
+      return
+    }
+    setFormError(null)
+
     try {
-      const newBallot = await ballotApi.create(newBallotQuestion.trim(), isPrivate)
-      setBallots([newBallot, ...ballots])
+      const { question, closesAt: closesAtIso, options } = parsed.value
+      const { ownerToken, ...newBallot } = await ballotApi.create(question, isPrivate, { closesAt: closesAtIso, kind, options, votePolicy })
+      setBallots(prev => [newBallot, ...prev])
       setNewBallotQuestion('')
       setIsPrivate(false)
-      navigate(`/${newBallot.id}`)
+      setClosesAt('')
+      setKind('traffic-light')
+      setChoiceOptions('')
+      setVotePolicy('unlimited')
+      setCreated({
+        ballot: newBallot,
+        editLink: ownerToken ? ownerEditLink(window.location.origin, newBallot.id, ownerToken) : null
+      })
     } catch (error) {
       console.error('Error creating ballot:', error)
+      if (error instanceof ApiError && error.code === 'RATE_LIMITED') {
+        alert(error.message)
+      }
     }
   }
 
@@ -48,15 +80,14 @@ export function BallotList() {
     return new Map(ballots.map(ballot => [
       ballot.id,
       {
-        green: countVotes(ballot, 'green'),
-        yellow: countVotes(ballot, 'yellow'),
-        red: countVotes(ballot, 'red'),
+        counts: countAllVotes(ballot),
         comments: countComments(ballot)
       }
     ]))
   }, [ballots])
 
-  if (loading) {
+  // Searches keep the page up, so the search box keeps its focus
+  if (loading && !query) {
     return (
       <div className="container mx-auto p-4 max-w-3xl">
         <div className="text-center py-8">Loading...</div>
@@ -81,6 +112,47 @@ export function BallotList() {
               Create Ballot
             </Button>
           </div>
+          <div className="flex items-center gap-2">
+            <label htmlFor="ballot-kind" className="text-sm text-muted-foreground">
+              Answer with
+            </label>
+            <select
+              id="ballot-kind"
+              value={kind}
+              onChange={(e) => setKind(e.target.value as BallotKind)}
+              className="h-9 rounded-md border border-input bg-transparent px-2 text-sm"
+            >
+              <option value="traffic-light">Green / yellow / red</option>
+              <option value="yes-no">Yes / no</option>
+              <option value="scale">Fist of five (1–5)</option>
+              <option value="choice">Multiple choice</option>
+              <option value="ranked">Ranked choice</option>
+              <option value="approval">Approval</option>
+            </select>
+          </div>
+          {CUSTOM_OPTION_KINDS.includes(kind) && (
+            <Textarea
+              value={choiceOptions}
+              onChange={(e) => setChoiceOptions(e.target.value)}
+              placeholder="One option per line"
+              rows={3}
+            />
+          )}
+          <div className="flex items-center gap-2">
+            <label htmlFor="vote-policy" className="text-sm text-muted-foreground">
+              Votes per person
+            </label>
+            <select
+              id="vote-policy"
+              value={votePolicy}
+              onChange={(e) => setVotePolicy(e.target.value as VotePolicy)}
+              className="h-9 rounded-md border border-input bg-transparent px-2 text-sm"
+            >
+              <option value="unlimited">Unlimited</option>
+              <option value="once">One vote</option>
+              <option value="change">One vote, can be changed</option>
+            </select>
+          </div>
           <div className="flex items-center gap-2">
             <input
               type="checkbox"
@@ -93,9 +165,55 @@ export function BallotList() {
               Make this ballot private (accessible by link only, not listed publicly)
             </label>
           </div>
+          <div className="flex items-center gap-2">
+            <label htmlFor="closes-at" className="text-sm text-muted-foreground">
+              Stop accepting votes at (optional)
+            </label>
+            <Input
+              type="datetime-local"
+              id="closes-at"
+              value={closesAt}
+              onChange={(e) => setClosesAt(e.target.value)}
+              className="w-auto"
+            />
+          </div>
+          {formError && <p className="text-sm text-red-600 dark:text-red-400">{formError}</p>}
         </form>
       </div>
 
+      {created && (
+        <div className="mb-6 p-4 bg-card text-card-foreground rounded-md shadow-sm border border-primary space-y-3">
+          <p className="font-medium">"{created.ballot.question}" is ready.</p>
+          {created.editLink && (
+            <div className="space-y-1">
+              <p className="text-sm text-muted-foreground">
+                Keep this edit link to change, close or delete the ballot later. It is only shown now and saved in this browser - anyone with it can manage the ballot.
+              </p>
+              <div className="flex items-center gap-2">
+                <Input readOnly value={created.editLink} aria-label="Edit link" className="font-mono text-xs flex-grow" />
+                <Button variant="outline" size="sm" onClick={() => navigator.clipboard.writeText(created.editLink!)} className="gap-1">
+                  <Copy className="w-4 h-4" />
+                  Copy
+                </Button>
+              </div>
+            </div>
+          )}
+          <div className="flex gap-2">
+            <Button onClick={() => navigate(`/${created.ballot.id}`)}>Open ballot</Button>
+            <Button variant="outline" onClick={() => setCreated(null)}>Done</Button>
+          </div>
+        </div>
+      )}
+
+      <Input
+        type="search"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        placeholder="Search ballots"
+        aria-label="Search ballots"
+        className="mb-4"
+      />
+
       <div className="space-y-4">
         {ballots.map(ballot => {
           const stats = ballotStats.get(ballot.id)!
@@ -105,32 +223,32 @@ export function BallotList() {
               className="bg-card text-card-foreground border border-border rounded-md p-4 hover:shadow-md transition-shadow cursor-pointer"
               onClick={() => navigate(`/${ballot.id}`)}
             >
-              <h2 className="text-lg font-semibold text-primary mb-1">{ballot.question}</h2>
+              <div className="flex items-center gap-2 mb-1">
+                <h2 className="text-lg font-semibold text-primary">{ballot.question}</h2>
+                {!isBallotOpen(ballot) && (
+                  <span className="px-2 py-0.5 bg-muted text-muted-foreground rounded text-xs font-medium">Closed</span>
+                )}
+              </div>
               <p className="text-sm text-muted-foreground mb-2">
                 {ballot.votes.length} votes and {stats.comments} comments
               </p>
-              <div className="flex items-center space-x-4">
-                <div className="flex items-center">
-                  <span className="mr-1">✅</span>
-                  <span>{stats.green}</span>
-                </div>
-                <div className="flex items-center">
-                  <span className="mr-1">⚠️</span>
-                  <span>{stats.yellow}</span>
-                </div>
-                <div className="flex items-center">
-                  <span className="mr-1">❌</span>
-                  <span>{stats.red}</span>
-                </div>
-              </div>
+              <VoteCounts ballot={ballot} counts={stats.counts} />
             </div>
           )
         })}
       </div>
 
-      {ballots.length === 0 && (
+      {hasMore && (
+        <div className="text-center mt-4">
+          <Button variant="outline" onClick={loadMore} disabled={loadingMore}>
+            {loadingMore ? 'Loading...' : 'Load more'}
+          </Button>
+        </div>
+      )}
+
+      {ballots.length === 0 && !loading && (
         <div className="text-center text-muted-foreground mt-8 bg-card text-card-foreground p-8 rounded-md border border-border">
-          <p>No ballots created yet. Be the first to create one!</p>
+          <p>{query ? `No ballots match "${query}".` : 'No ballots created yet. Be the first to create one!'}</p>
         </div>
       )}
     </div>
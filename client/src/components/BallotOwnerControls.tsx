@@ -0,0 +1,135 @@
+import React, { useState } from 'react'
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+import { Copy, Lock, Unlock, Pencil, CircleX, CirclePlay, Trash2 } from 'lucide-react'
+import { ballotUpdateSchema, isBallotOpen } from 'shared/dist'
+import { ownerApi, ApiError, type Ballot } from '../api/client'
+import { ownerEditLink } from '../utils/ballot'
+
+interface BallotOwnerControlsProps {
+  ballot: Ballot
+  ownerToken: string
+  onUpdated: (ballot: Ballot) => void
+  onDeleted: () => void
+  // The server no longer accepts the token, e.g. the ballot was deleted elsewhere
+  onTokenRejected: () => void
+}
+
+/**
+ * Edit, close, hide and delete controls for whoever created the ballot.
+ */
+export function BallotOwnerControls({ ballot, ownerToken, onUpdated, onDeleted, onTokenRejected }: BallotOwnerControlsProps) {
+  const [editing, setEditing] = useState(false)
+  const [question, setQuestion] = useState(ballot.question)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const isOpen = isBallotOpen(ballot)
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true)
+    setError(null)
+    try {
+      await action()
+    } catch (error) {
+      console.error('Error managing ballot:', error)
+      if (error instanceof ApiError && error.code === 'UNAUTHORIZED') {
+        onTokenRejected()
+      } else if (error instanceof ApiError && error.code === 'VERSION_CONFLICT') {
+        setError('The ballot changed while you were editing. Please try again.')
+      } else {
+        setError('Something went wrong. Please try again.')
+      }
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const saveQuestion = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!question.trim()) return
+
+    const parsed = ballotUpdateSchema.parse({ question })
+    if (!parsed.ok) {
+      setError(parsed.issues[0]!.message)
+      return
+    }
+    run(async () => {
+      onUpdated(await ownerApi.updateBallot(ownerToken, ballot.id, parsed.value))
+      setEditing(false)
+    })
+  }
+
+  const deleteBallot = () => {
+    if (!confirm(`Delete "${ballot.question}" and all of its votes? This cannot be undone.`)) return
+    run(async () => {
+      await ownerApi.deleteBallot(ownerToken, ballot.id)
+      onDeleted()
+    })
+  }
+
+  return (
+    <div className="mb-6 p-4 rounded border border-border space-y-3">
+      <h2 className="text-sm font-semibold text-muted-foreground">You created this ballot</h2>
+
+      {editing ? (
+        <form onSubmit={saveQuestion} className="flex gap-2">
+          <Input
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            aria-label="Question"
+            className="flex-grow"
+            autoFocus
+          />
+          <Button type="submit" size="sm" disabled={busy || !question.trim()}>Save</Button>
+          <Button type="button" size="sm" variant="outline" onClick={() => { setEditing(false); setQuestion(ballot.question) }}>
+            Cancel
+          </Button>
+        </form>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={() => { setQuestion(ballot.question); setEditing(true) }} disabled={busy} className="gap-1">
+            <Pencil className="w-4 h-4" />
+            Edit question
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => run(async () => onUpdated(await (isOpen
+              ? ownerApi.closeBallot(ownerToken, ballot.id)
+              : ownerApi.reopenBallot(ownerToken, ballot.id))))}
+            disabled={busy}
+            className="gap-1"
+          >
+            {isOpen ? <CircleX className="w-4 h-4" /> : <CirclePlay className="w-4 h-4" />}
+            {isOpen ? 'Close voting' : 'Reopen voting'}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => run(async () => onUpdated(await ownerApi.updateBallot(ownerToken, ballot.id, { isPrivate: !ballot.isPrivate })))}
+            disabled={busy}
+            className="gap-1"
+          >
+            {ballot.isPrivate ? <Unlock className="w-4 h-4" /> : <Lock className="w-4 h-4" />}
+            {ballot.isPrivate ? 'Make public' : 'Make private'}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => navigator.clipboard.writeText(ownerEditLink(window.location.origin, ballot.id, ownerToken))}
+            className="gap-1"
+          >
+            <Copy className="w-4 h-4" />
+            Copy edit link
+          </Button>
+          <Button variant="destructive" size="sm" onClick={deleteBallot} disabled={busy} className="gap-1">
+            <Trash2 className="w-4 h-4" />
+            Delete
+          </Button>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  )
+}
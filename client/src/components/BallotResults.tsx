@@ -0,0 +1,89 @@
+import { ballotOptions, isBallotOpen, tallyBallot, type RunoffRound } from 'shared/dist'
+import type { Ballot } from '../api/client'
+
+interface BallotResultsProps {
+  ballot: Ballot
+}
+
+const TIE_BREAK_NOTES: Record<NonNullable<RunoffRound['tieBreak']>, string> = {
+  previous_rounds: 'tied for last - fewer votes in an earlier round',
+  option_order: 'tied for last in every round - listed last on the ballot'
+}
+
+/**
+ * Outcome of a ranked or approval ballot. Ranked ballots also show each
+ * instant-runoff round, so voters can see how their later preferences counted.
+ */
+export function BallotResults({ ballot }: BallotResultsProps) {
+  const results = tallyBallot(ballot)
+  if (results.ballotsCast === 0) return null
+
+  const options = ballotOptions(ballot)
+  const label = (value: string) => options.find(option => option.value === value)?.label ?? value
+  const isOpen = isBallotOpen(ballot)
+
+  let outcome = 'No winner'
+  if (results.winners.length === 1) {
+    outcome = `${isOpen ? 'Leading' : 'Winner'}: ${label(results.winners[0])}`
+  } else if (results.winners.length > 1) {
+    outcome = `Tied: ${results.winners.map(label).join(', ')}`
+  }
+
+  return (
+    <div className="mb-8 space-y-3">
+      <h2 className="text-xl font-semibold">Results</h2>
+      <p className="font-medium">{outcome}</p>
+
+      {results.method === 'instant-runoff' && (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-border text-left">
+                  <th className="py-2 pr-4 font-medium">Option</th>
+                  {results.rounds.map(round => (
+                    <th key={round.round} className="py-2 px-2 font-medium text-center">Round {round.round}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {options.map(option => (
+                  <tr key={option.value} className="border-b border-border">
+                    <td className="py-2 pr-4">{option.label}</td>
+                    {results.rounds.map(round => (
+                      <td
+                        key={round.round}
+                        className={`py-2 px-2 text-center ${round.eliminated.includes(option.value) ? 'line-through text-muted-foreground' : ''}`}
+                      >
+                        {round.counts[option.value] ?? '–'}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+                <tr className="text-muted-foreground">
+                  <td className="py-2 pr-4">Exhausted</td>
+                  {results.rounds.map(round => (
+                    <td key={round.round} className="py-2 px-2 text-center">{round.exhausted}</td>
+                  ))}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+
+          <ul className="text-sm text-muted-foreground space-y-1">
+            {results.rounds.filter(round => round.eliminated.length > 0).map(round => (
+              <li key={round.round}>
+                Round {round.round}: {round.eliminated.map(label).join(', ')} eliminated
+                {round.tieBreak ? ` (${TIE_BREAK_NOTES[round.tieBreak]})` : ''}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      <p className="text-sm text-muted-foreground">
+        {results.ballotsCast} {results.ballotsCast === 1 ? 'ballot' : 'ballots'} cast
+      </p>
+    </div>
+  )
+}
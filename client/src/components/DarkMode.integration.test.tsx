@@ -46,7 +46,7 @@ describe('Dark Mode Integration Tests', () => {
     // Mock fetch
     global.fetch = async () => ({
       ok: true,
-      json: async () => mockBallots
+      json: async () => ({ items: mockBallots, nextCursor: null })
     }) as Response
 
     document.documentElement.classList.remove('dark')
@@ -333,7 +333,7 @@ describe('Dark Mode Edge Cases', () => {
     // Mock fetch
     global.fetch = async () => ({
       ok: true,
-      json: async () => []
+      json: async () => ({ items: [], nextCursor: null })
     }) as Response
 
     document.documentElement.classList.remove('dark')
@@ -0,0 +1,142 @@
+import React, { useState, useEffect } from 'react'
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+import { Copy, UserPlus, X } from 'lucide-react'
+import { dashboardEditorSchema } from 'shared/dist'
+import { dashboardApi, dashboardTokens, userMessage, type DashboardEditorSummary, type DashboardRole } from '../api/client'
+import { dashboardEditLink } from '../utils/ballot'
+
+interface DashboardSharingProps {
+  dashboardId: string
+  role: DashboardRole
+}
+
+/**
+ * Sharing links for a dashboard. Anyone can copy the view-only link; owners
+ * also hand out and take back editor links here.
+ */
+export function DashboardSharing({ dashboardId, role }: DashboardSharingProps) {
+  const [editors, setEditors] = useState<DashboardEditorSummary[]>([])
+  const [editorName, setEditorName] = useState('')
+  const [adding, setAdding] = useState(false)
+  // The newest editor's link, shown until the owner dismisses it
+  const [newEditorLink, setNewEditorLink] = useState<{ name: string; link: string } | null>(null)
+  const origin = window.location.origin
+  const myToken = dashboardTokens.get(dashboardId)?.token
+
+  useEffect(() => {
+    if (role !== 'owner') return
+    dashboardApi.getEditors(dashboardId)
+      .then(setEditors)
+      .catch(error => console.error('Error fetching dashboard editors:', error))
+  }, [dashboardId, role])
+
+  const handleAddEditor = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!editorName.trim()) return
+
+    const parsed = dashboardEditorSchema.parse({ name: editorName })
+    if (!parsed.ok) {
+      alert(parsed.issues[0]!.message)
+      return
+    }
+
+    setAdding(true)
+    try {
+      const { token, ...editor } = await dashboardApi.addEditor(dashboardId, parsed.value.name)
+      setEditors(prev => [...prev, editor])
+      setNewEditorLink({ name: editor.name, link: dashboardEditLink(origin, dashboardId, token) })
+      setEditorName('')
+    } catch (error) {
+      console.error('Error adding dashboard editor:', error)
+      alert(userMessage(error, 'Failed to add editor. Please try again.'))
+    } finally {
+      setAdding(false)
+    }
+  }
+
+  const handleRemoveEditor = async (editor: DashboardEditorSummary) => {
+    if (!window.confirm(`Remove ${editor.name}? Their edit link will stop working.`)) return
+    try {
+      await dashboardApi.removeEditor(dashboardId, editor.id)
+      setEditors(prev => prev.filter(e => e.id !== editor.id))
+    } catch (error) {
+      console.error('Error removing dashboard editor:', error)
+      alert(userMessage(error, 'Failed to remove editor. Please try again.'))
+    }
+  }
+
+  return (
+    <div className="bg-card text-card-foreground border border-border rounded-lg p-4 mb-6 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <h2 className="text-lg font-semibold mr-auto">Share</h2>
+        <Button variant="outline" size="sm" onClick={() => navigator.clipboard.writeText(`${origin}/dashboards/${dashboardId}`)} className="gap-1">
+          <Copy className="h-4 w-4" />
+          Copy view-only link
+        </Button>
+        {role !== 'viewer' && myToken && (
+          <Button variant="outline" size="sm" onClick={() => navigator.clipboard.writeText(dashboardEditLink(origin, dashboardId, myToken))} className="gap-1">
+            <Copy className="h-4 w-4" />
+            Copy my {role} link
+          </Button>
+        )}
+      </div>
+
+      {role === 'owner' && (
+        <>
+          <p className="text-sm text-muted-foreground">
+            Editors can add and remove items and rename the dashboard. Only you can delete it or change who edits.
+          </p>
+          {editors.length > 0 && (
+            <ul className="space-y-1">
+              {editors.map(editor => (
+                <li key={editor.id} className="flex items-center justify-between text-sm">
+                  <span>{editor.name}</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRemoveEditor(editor)}
+                    aria-label={`Remove ${editor.name}`}
+                    className="h-7 w-7 p-0 text-muted-foreground hover:text-destructive"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <form onSubmit={handleAddEditor} className="flex gap-2">
+            <Input
+              value={editorName}
+              onChange={(e) => setEditorName(e.target.value)}
+              placeholder="Editor's name"
+              className="flex-grow"
+              disabled={adding}
+            />
+            <Button type="submit" size="sm" disabled={adding || !editorName.trim()} className="gap-1">
+              <UserPlus className="h-4 w-4" />
+              Add editor
+            </Button>
+          </form>
+          {newEditorLink && (
+            <div className="p-3 rounded bg-muted space-y-2">
+              <p className="text-sm">
+                Send this link to {newEditorLink.name}. It is only shown now.
+              </p>
+              <div className="flex items-center gap-2">
+                <Input readOnly value={newEditorLink.link} aria-label="Editor link" className="font-mono text-xs flex-grow" />
+                <Button variant="outline" size="sm" onClick={() => navigator.clipboard.writeText(newEditorLink.link)} className="gap-1">
+                  <Copy className="h-4 w-4" />
+                  Copy
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setNewEditorLink(null)}>
+                  Done
+                </Button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,57 @@
+import { useState } from 'react'
+import { Download } from 'lucide-react'
+import { EXPORT_FORMATS, type ExportFormat } from 'shared/dist'
+import { userMessage, type ExportFile } from '../api/client'
+import { Button } from './ui/button'
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  json: 'JSON',
+  xlsx: 'Excel'
+}
+
+// Hands the file to the browser as a download
+function saveFile({ blob, filename }: ExportFile) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+// A download button per export format
+export function ExportButtons({ onExport }: { onExport: (format: ExportFormat) => Promise<ExportFile> }) {
+  const [exporting, setExporting] = useState<ExportFormat | null>(null)
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(format)
+    try {
+      saveFile(await onExport(format))
+    } catch (error) {
+      console.error('Failed to export:', error)
+      alert(userMessage(error, 'Failed to export. Please try again.'))
+    } finally {
+      setExporting(null)
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <Download className="h-4 w-4 text-muted-foreground" aria-hidden />
+      {EXPORT_FORMATS.map(format => (
+        <Button
+          key={format}
+          variant="outline"
+          size="sm"
+          className="h-7 px-2 text-xs"
+          disabled={exporting !== null}
+          onClick={() => handleExport(format)}
+          aria-label={`Export as ${FORMAT_LABELS[format]}`}
+        >
+          {exporting === format ? 'Exporting...' : FORMAT_LABELS[format]}
+        </Button>
+      ))}
+    </div>
+  )
+}
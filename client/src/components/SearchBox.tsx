@@ -0,0 +1,32 @@
+import { useState } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
+import { Search } from 'lucide-react'
+import { Input } from './ui/input'
+
+// Header search across ballots, attendance and dashboards, see SearchPage
+export function SearchBox() {
+  const navigate = useNavigate()
+  const [params] = useSearchParams()
+  const [search, setSearch] = useState(params.get('q') ?? '')
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const q = search.trim()
+    if (!q) return
+    navigate(`/search?q=${encodeURIComponent(q)}`)
+  }
+
+  return (
+    <form onSubmit={handleSubmit} role="search" className="relative mx-4 w-full max-w-xs">
+      <Search className="absolute left-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+      <Input
+        type="search"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        placeholder="Search everything"
+        aria-label="Search ballots, attendance and dashboards"
+        className="h-9 pl-8"
+      />
+    </form>
+  )
+}
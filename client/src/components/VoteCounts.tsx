@@ -0,0 +1,33 @@
+import { ballotOptions } from 'shared/dist'
+import type { Ballot } from '../api/client'
+import { countAllVotes, optionIcon } from '../utils/ballot'
+import { cn } from '../lib/utils'
+
+interface VoteCountsProps {
+  ballot: Ballot
+  counts?: Record<string, number>  // Precomputed countAllVotes(ballot), if the caller memoizes it
+  className?: string
+  iconClassName?: string
+  countClassName?: string
+}
+
+/**
+ * Compact per-option tally used in ballot lists and dashboards
+ */
+export function VoteCounts({ ballot, counts, className, iconClassName, countClassName }: VoteCountsProps) {
+  const tally = counts ?? countAllVotes(ballot)
+
+  return (
+    <div className={cn('flex items-center flex-wrap gap-4', className)}>
+      {ballotOptions(ballot).map(option => {
+        const icon = optionIcon(ballot, option.value)
+        return (
+          <div key={option.value} className="flex items-center gap-1" title={option.label}>
+            <span className={iconClassName}>{icon ?? `${option.label}:`}</span>
+            <span className={countClassName}>{tally[option.value] ?? 0}</span>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
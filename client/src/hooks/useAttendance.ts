@@ -1,36 +1,20 @@
-import { useState, useEffect } from 'react'
-import type { Attendance } from 'shared/dist'
+import type { Attendance, AttendanceQuery, Recurrence } from 'shared/dist'
+import { attendanceApi, attendanceSeriesApi, type CreatedAttendanceSeries } from '../api/client'
+import { usePagedList } from './usePagedList'
 
 const API_URL = import.meta.env.VITE_API_URL || 'https://ballot-app-server.siener.workers.dev'
 
-export function useAttendance() {
-  const [attendances, setAttendances] = useState<Attendance[]>([])
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
-
-  // Fetch all attendances from API
-  const fetchAttendances = async () => {
-    try {
-      setLoading(true)
-      setError(null)
-      const response = await fetch(`${API_URL}/api/attendance`)
-      if (!response.ok) {
-        throw new Error('Failed to fetch attendances')
-      }
-      const data = await response.json()
-      setAttendances(data)
-    } catch (err) {
-      console.error('Error fetching attendances:', err)
-      setError(err instanceof Error ? err.message : 'Unknown error')
-    } finally {
-      setLoading(false)
-    }
-  }
-
-  // Load attendances on mount
-  useEffect(() => {
-    fetchAttendances()
-  }, [])
+// Attendances a page at a time, see usePagedList
+export function useAttendance(query: AttendanceQuery = {}) {
+  const {
+    items: attendances,
+    setItems: setAttendances,
+    loading,
+    loadingMore,
+    error,
+    hasMore,
+    loadMore
+  } = usePagedList(attendanceApi.getPage, query)
 
   const createAttendance = async (title: string, date: string): Promise<Attendance> => {
     try {
@@ -53,6 +37,13 @@ export function useAttendance() {
     }
   }
 
+  // The series' first polls join the list straight away
+  const createSeries = async (titleTemplate: string, recurrence: Recurrence): Promise<CreatedAttendanceSeries> => {
+    const series = await attendanceSeriesApi.create(titleTemplate, recurrence)
+    setAttendances(prev => [...series.attendance, ...prev])
+    return series
+  }
+
   const getAttendance = async (id: string): Promise<Attendance | null> => {
     try {
       const response = await fetch(`${API_URL}/api/attendance/${id}`)
@@ -113,11 +104,14 @@ export function useAttendance() {
   return {
     attendances,
     loading,
+    loadingMore,
     error,
+    hasMore,
+    loadMore,
     createAttendance,
+    createSeries,
     getAttendance,
     addResponse,
-    deleteAttendance,
-    refetch: fetchAttendances
+    deleteAttendance
   }
 }
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react'
-import { dashboardApi, type Dashboard } from '../api/client'
+import { dashboardApi, ApiError, type Dashboard, type DashboardItems } from '../api/client'
 
 export function useDashboards() {
   const [dashboards, setDashboards] = useState<Dashboard[]>([])
@@ -38,13 +38,19 @@ export function useDashboards() {
     }
   }
 
+  // Made against the version this browser has unless `updates` says otherwise
   const updateDashboard = async (id: string, updates: Partial<Dashboard>) => {
     try {
-      const updatedDashboard = await dashboardApi.update(id, updates)
+      const version = dashboards.find(d => d.id === id)?.version ?? 1
+      const updatedDashboard = await dashboardApi.update(id, { version, ...updates })
       // Use functional update to avoid stale closure
       setDashboards(prev => prev.map(d => d.id === id ? updatedDashboard : d))
     } catch (err) {
       console.error('Error updating dashboard:', err)
+      // Someone else changed it - reload so the next try starts from theirs
+      if (err instanceof ApiError && err.code === 'VERSION_CONFLICT') {
+        fetchDashboards()
+      }
       throw err
     }
   }
@@ -64,17 +70,22 @@ export function useDashboards() {
     return dashboards.find(d => d.id === id)
   }
 
+  // Item changes are re-applied to the latest dashboard if someone else
+  // changed it first, so they never fail on a conflict alone
+  const changeItems = async (dashboardId: string, change: (current: Dashboard) => DashboardItems) => {
+    const dashboard = dashboards.find(d => d.id === dashboardId)
+    if (!dashboard) {
+      throw new Error('Dashboard not found')
+    }
+
+    const updatedDashboard = await dashboardApi.changeItems(dashboard, change)
+    setDashboards(prev => prev.map(d => d.id === dashboardId ? updatedDashboard : d))
+  }
+
   const addBallot = async (dashboardId: string, ballotId: string) => {
     try {
-      const dashboard = dashboards.find(d => d.id === dashboardId)
-      if (!dashboard) {
-        throw new Error('Dashboard not found')
-      }
-
       // Use Set to avoid duplicates
-      const updatedBallotIds = [...new Set([...dashboard.ballotIds, ballotId])]
-
-      await updateDashboard(dashboardId, { ballotIds: updatedBallotIds })
+      await changeItems(dashboardId, current => ({ ballotIds: [...new Set([...current.ballotIds, ballotId])] }))
     } catch (err) {
       console.error('Error adding ballot to dashboard:', err)
       throw err
@@ -83,14 +94,7 @@ export function useDashboards() {
 
   const removeBallot = async (dashboardId: string, ballotId: string) => {
     try {
-      const dashboard = dashboards.find(d => d.id === dashboardId)
-      if (!dashboard) {
-        throw new Error('Dashboard not found')
-      }
-
-      const updatedBallotIds = dashboard.ballotIds.filter(id => id !== ballotId)
-
-      await updateDashboard(dashboardId, { ballotIds: updatedBallotIds })
+      await changeItems(dashboardId, current => ({ ballotIds: current.ballotIds.filter(id => id !== ballotId) }))
     } catch (err) {
       console.error('Error removing ballot from dashboard:', err)
       throw err
@@ -99,15 +103,8 @@ export function useDashboards() {
 
   const addAttendance = async (dashboardId: string, attendanceId: string) => {
     try {
-      const dashboard = dashboards.find(d => d.id === dashboardId)
-      if (!dashboard) {
-        throw new Error('Dashboard not found')
-      }
-
       // Use Set to avoid duplicates
-      const updatedAttendanceIds = [...new Set([...(dashboard.attendanceIds || []), attendanceId])]
-
-      await updateDashboard(dashboardId, { attendanceIds: updatedAttendanceIds })
+      await changeItems(dashboardId, current => ({ attendanceIds: [...new Set([...(current.attendanceIds || []), attendanceId])] }))
     } catch (err) {
       console.error('Error adding attendance to dashboard:', err)
       throw err
@@ -116,14 +113,7 @@ export function useDashboards() {
 
   const removeAttendance = async (dashboardId: string, attendanceId: string) => {
     try {
-      const dashboard = dashboards.find(d => d.id === dashboardId)
-      if (!dashboard) {
-        throw new Error('Dashboard not found')
-      }
-
-      const updatedAttendanceIds = (dashboard.attendanceIds || []).filter(id => id !== attendanceId)
-
-      await updateDashboard(dashboardId, { attendanceIds: updatedAttendanceIds })
+      await changeItems(dashboardId, current => ({ attendanceIds: (current.attendanceIds || []).filter(id => id !== attendanceId) }))
     } catch (err) {
       console.error('Error removing attendance from dashboard:', err)
       throw err
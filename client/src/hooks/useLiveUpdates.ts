@@ -0,0 +1,37 @@
+import { useEffect, useRef } from 'react'
+import type { Ballot, Attendance } from 'shared/dist'
+
+interface LiveUpdateHandlers {
+  onBallot?: (ballot: Ballot) => void
+  onAttendance?: (attendance: Attendance) => void
+}
+
+/**
+ * Subscribe to a server-sent event stream (see `streamUrl` in api/client).
+ * Every event carries the full, updated record. Pass `null` to stay idle.
+ * EventSource reconnects on its own, and the server starts each connection
+ * with a snapshot, so nothing is missed across drops. Changing
+ * `reconnectKey` forces a fresh connection, e.g. when a dashboard's items change.
+ */
+export function useLiveUpdates(url: string | null, handlers: LiveUpdateHandlers, reconnectKey = '') {
+  // Keep the latest handlers without reopening the connection on every render
+  const handlersRef = useRef(handlers)
+  useEffect(() => {
+    handlersRef.current = handlers
+  })
+
+  useEffect(() => {
+    if (!url || typeof EventSource === 'undefined') return
+
+    const source = new EventSource(url)
+    const handleBallot = (event: MessageEvent) => handlersRef.current.onBallot?.(JSON.parse(event.data))
+    const handleAttendance = (event: MessageEvent) => handlersRef.current.onAttendance?.(JSON.parse(event.data))
+
+    // 'vote' is a ballot change caused by a new vote
+    source.addEventListener('ballot', handleBallot)
+    source.addEventListener('vote', handleBallot)
+    source.addEventListener('attendance', handleAttendance)
+
+    return () => source.close()
+  }, [url, reconnectKey])
+}
@@ -0,0 +1,79 @@
+import { useEffect, useRef, useState } from 'react'
+import type { ListQuery, Page } from 'shared/dist'
+
+/**
+ * A list route read a page at a time: the first page on mount, more with
+ * `loadMore`. Changing `query` (search, sort...) starts again from the first
+ * page. `setItems` is for local changes, e.g. a newly created item. Routes with
+ * their own filters on top of the list query pass them in `query` too.
+ */
+export function usePagedList<T, Q extends ListQuery = ListQuery>(getPage: (query: Q) => Promise<Page<T>>, query: Q = {} as Q) {
+  const [items, setItems] = useState<T[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Keep the latest getPage without refetching on every render
+  const getPageRef = useRef(getPage)
+  useEffect(() => {
+    getPageRef.current = getPage
+  })
+
+  // Compared by value so callers can pass a fresh object each render
+  const queryKey = JSON.stringify(query)
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+    setError(null)
+
+    getPageRef.current(JSON.parse(queryKey) as Q)
+      .then(page => {
+        if (cancelled) return
+        setItems(page.items)
+        setNextCursor(page.nextCursor)
+      })
+      .catch(err => {
+        if (cancelled) return
+        console.error('Error fetching list:', err)
+        setError(err instanceof Error ? err.message : 'Unknown error')
+        setItems([])
+        setNextCursor(null)
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    // A newer query's results win over a slow older one
+    return () => {
+      cancelled = true
+    }
+  }, [queryKey])
+
+  const loadMore = async () => {
+    if (!nextCursor || loadingMore) return
+
+    setLoadingMore(true)
+    try {
+      const page = await getPageRef.current({ ...query, cursor: nextCursor })
+      setItems(prev => [...prev, ...page.items])
+      setNextCursor(page.nextCursor)
+    } catch (err) {
+      console.error('Error fetching more:', err)
+      setError(err instanceof Error ? err.message : 'Unknown error')
+    } finally {
+      setLoadingMore(false)
+    }
+  }
+
+  return {
+    items,
+    setItems,
+    loading,
+    loadingMore,
+    error,
+    hasMore: nextCursor !== null,
+    loadMore
+  }
+}
@@ -1,31 +1,107 @@
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { useAttendance } from '../hooks/useAttendance'
+import { attendanceCreateSchema, attendanceSeriesCreateSchema, describeRecurrence, type AttendanceSeries, type RecurrenceFrequency } from 'shared/dist'
+import { attendanceSeriesApi, userMessage } from '../api/client'
 import { Button } from '../components/ui/button'
 import { Input } from '../components/ui/input'
 import { AttendanceCalendar } from '../components/AttendanceCalendar'
-import { Plus, Users, Calendar } from 'lucide-react'
+import { Plus, Users, Calendar, Repeat } from 'lucide-react'
+
+const SEARCH_DELAY_MS = 300
+
+const REPEAT_LABELS: Record<RecurrenceFrequency, string> = {
+  weekly: 'Weekly',
+  biweekly: 'Every 2 weeks',
+  monthly: 'Monthly on this weekday'
+}
+
+// A series that meets as `date` does: same weekday, and for monthly series
+// the same week of the month (the 29th-31st are always the last)
+function recurrenceFrom(frequency: RecurrenceFrequency, date: string, until: string) {
+  const day = new Date(date + 'T00:00:00')
+  return {
+    frequency,
+    weekday: day.getDay(),
+    ...(frequency === 'monthly' ? { weekOfMonth: day.getDate() > 28 ? -1 : Math.ceil(day.getDate() / 7) } : {}),
+    startDate: date,
+    ...(until ? { until } : {})
+  }
+}
 
 export function AttendanceListPage() {
   const navigate = useNavigate()
-  const { attendances, loading, createAttendance } = useAttendance()
+  const [search, setSearch] = useState('')
+  // What's searched for, once typing pauses
+  const [query, setQuery] = useState('')
+  const [series, setSeries] = useState<AttendanceSeries[]>([])
+  // The series whose polls the list shows, if it's narrowed to one
+  const [seriesFilter, setSeriesFilter] = useState<AttendanceSeries | null>(null)
+  const { attendances, loading, loadingMore, hasMore, loadMore, createAttendance, createSeries } = useAttendance({
+    q: query || undefined,
+    seriesId: seriesFilter?.id
+  })
   const [showCreateForm, setShowCreateForm] = useState(false)
   const [newTitle, setNewTitle] = useState('')
   const [newDate, setNewDate] = useState('')
+  const [repeat, setRepeat] = useState<RecurrenceFrequency | ''>('')
+  const [until, setUntil] = useState('')
+
+  useEffect(() => {
+    attendanceSeriesApi.getAll().then(setSeries).catch(error => console.error('Failed to load series:', error))
+  }, [])
+
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(search.trim()), SEARCH_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [search])
+
+  const resetCreateForm = () => {
+    setNewTitle('')
+    setNewDate('')
+    setRepeat('')
+    setUntil('')
+    setShowCreateForm(false)
+  }
+
+  const handleCreateSeries = async (frequency: RecurrenceFrequency) => {
+    const parsed = attendanceSeriesCreateSchema.parse({ titleTemplate: newTitle, recurrence: recurrenceFrom(frequency, newDate, until) })
+    if (!parsed.ok) {
+      alert(parsed.issues[0]!.message)
+      return
+    }
+
+    try {
+      const { attendance, ...newSeries } = await createSeries(parsed.value.titleTemplate, parsed.value.recurrence)
+      setSeries(prev => [newSeries, ...prev])
+      resetCreateForm()
+      // A series starting beyond the next few weeks has no polls yet
+      if (attendance.length > 0) navigate(`/attendance/${attendance[0]!.id}`)
+      else setSeriesFilter(newSeries)
+    } catch (error) {
+      console.error('Failed to create series:', error)
+      alert(userMessage(error, 'Failed to create the series. Please try again.'))
+    }
+  }
 
   const handleCreate = async (e: React.FormEvent) => {
     e.preventDefault()
     if (!newTitle.trim() || !newDate) return
+    if (repeat) return handleCreateSeries(repeat)
+
+    const parsed = attendanceCreateSchema.parse({ title: newTitle, date: newDate })
+    if (!parsed.ok) {
+      alert(parsed.issues[0]!.message)
+      return
+    }
 
     try {
-      const attendance = await createAttendance(newTitle, newDate)
-      setNewTitle('')
-      setNewDate('')
-      setShowCreateForm(false)
+      const attendance = await createAttendance(parsed.value.title, parsed.value.date)
+      resetCreateForm()
       navigate(`/attendance/${attendance.id}`)
     } catch (error) {
       console.error('Failed to create attendance:', error)
-      alert('Failed to create attendance. Please try again.')
+      alert(userMessage(error, 'Failed to create attendance. Please try again.'))
     }
   }
 
@@ -45,7 +121,8 @@ export function AttendanceListPage() {
     return { yes, no, total: responses.length }
   }
 
-  if (loading) {
+  // Searches and series filters keep the page up, so the search box keeps its focus
+  if (loading && !query && !seriesFilter) {
     return (
       <div className="container mx-auto p-4 max-w-4xl">
         <div className="text-center py-8">Loading attendance records...</div>
@@ -73,6 +150,7 @@ export function AttendanceListPage() {
 
       <AttendanceCalendar
         attendances={attendances}
+        series={seriesFilter ? [seriesFilter] : series}
         onCreateAttendance={createAttendance}
       />
 
@@ -104,6 +182,40 @@ export function AttendanceListPage() {
                 onChange={(e) => setNewDate(e.target.value)}
               />
             </div>
+            <div>
+              <label htmlFor="repeat" className="block text-sm font-medium mb-1">
+                Repeats
+              </label>
+              <select
+                id="repeat"
+                value={repeat}
+                onChange={(e) => setRepeat(e.target.value as RecurrenceFrequency | '')}
+                className="w-full px-3 py-2 border border-border rounded-md bg-background text-foreground text-sm"
+              >
+                <option value="">Does not repeat</option>
+                {Object.entries(REPEAT_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+              {repeat && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  Starts on the date above. Put {'{date}'} in the title to add each poll's date.
+                </p>
+              )}
+            </div>
+            {repeat && (
+              <div>
+                <label htmlFor="until" className="block text-sm font-medium mb-1">
+                  Until (optional)
+                </label>
+                <Input
+                  id="until"
+                  type="date"
+                  value={until}
+                  onChange={(e) => setUntil(e.target.value)}
+                />
+              </div>
+            )}
             <div className="flex gap-2">
               <Button
                 type="submit"
@@ -114,11 +226,7 @@ export function AttendanceListPage() {
               <Button
                 type="button"
                 variant="outline"
-                onClick={() => {
-                  setShowCreateForm(false)
-                  setNewTitle('')
-                  setNewDate('')
-                }}
+                onClick={resetCreateForm}
               >
                 Cancel
               </Button>
@@ -127,7 +235,49 @@ export function AttendanceListPage() {
         </div>
       )}
 
-      {attendances.length === 0 ? (
+      {series.length > 0 && (
+        <div className="bg-card text-card-foreground border border-border rounded-lg p-4 mb-6">
+          <h2 className="text-lg font-semibold mb-3 flex items-center gap-2">
+            <Repeat className="h-4 w-4" />
+            Series
+          </h2>
+          <ul className="space-y-2">
+            {series.map(item => (
+              <li key={item.id} className="flex items-center justify-between gap-4">
+                <div>
+                  <span className="font-medium">{item.titleTemplate.replace(/\s*\{date\}\s*/g, ' ').trim()}</span>
+                  <span className="text-sm text-muted-foreground"> · {describeRecurrence(item.recurrence)}</span>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setSeriesFilter(seriesFilter?.id === item.id ? null : item)}
+                  aria-pressed={seriesFilter?.id === item.id}
+                >
+                  {seriesFilter?.id === item.id ? 'Show all' : 'Show dates'}
+                </Button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <Input
+        type="search"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        placeholder="Search attendance"
+        aria-label="Search attendance"
+        className="mb-4"
+      />
+
+      {attendances.length === 0 && (query || seriesFilter) ? (
+        !loading && (
+          <p className="text-center text-muted-foreground py-8">
+            {query ? `No attendance records match "${query}".` : 'This series has no polls yet.'}
+          </p>
+        )
+      ) : attendances.length === 0 ? (
         <div className="text-center py-16 bg-card text-card-foreground border border-border rounded-lg">
           <div className="max-w-md mx-auto">
             <Users className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
@@ -187,6 +337,13 @@ export function AttendanceListPage() {
               </div>
             )
           })}
+          {hasMore && (
+            <div className="text-center">
+              <Button variant="outline" onClick={loadMore} disabled={loadingMore}>
+                {loadingMore ? 'Loading...' : 'Load more'}
+              </Button>
+            </div>
+          )}
         </div>
       )}
     </div>
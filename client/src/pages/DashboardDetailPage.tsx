@@ -4,8 +4,12 @@ import { useDashboards } from '../hooks/useDashboards'
 import { Button } from '../components/ui/button'
 import { Input } from '../components/ui/input'
 import { ArrowLeft, Plus, X, Pencil } from 'lucide-react'
-import { ballotApi, attendanceApi, type Ballot, type Attendance } from '../api/client'
-import { countVotes, countComments, countAttendanceResponses } from '../utils/ballot'
+import { ballotApi, attendanceApi, dashboardApi, dashboardTokens, userMessage, ApiError, type Ballot, type Attendance, type Dashboard, type DashboardRole } from '../api/client'
+import { countAllVotes, countComments, countAttendanceResponses, dashboardTokenFromHash, newerRecord } from '../utils/ballot'
+import { VoteCounts } from '../components/VoteCounts'
+import { DashboardSharing } from '../components/DashboardSharing'
+import { ExportButtons } from '../components/ExportButtons'
+import { useLiveUpdates } from '../hooks/useLiveUpdates'
 
 export function DashboardDetailPage() {
   const { id } = useParams<{ id: string }>()
@@ -20,6 +24,22 @@ export function DashboardDetailPage() {
   const [adding, setAdding] = useState(false)
   const [isEditing, setIsEditing] = useState(false)
   const [editedName, setEditedName] = useState(dashboard?.name || '')
+  // The dashboard as someone else saved it with a different name while this
+  // one was being edited; names can't be merged, so the user picks one
+  const [nameConflict, setNameConflict] = useState<Dashboard | null>(null)
+  // Viewers see the dashboard without any edit controls
+  const [role, setRole] = useState<DashboardRole>(() => (id && dashboardTokens.get(id)?.role) || 'viewer')
+  const canEdit = role !== 'viewer'
+
+  useEffect(() => {
+    if (!id) return
+    // Opening an edit link keeps its token, then drops it from the address bar
+    const linkToken = dashboardTokenFromHash(window.location.hash)
+    if (linkToken) {
+      window.history.replaceState(null, '', window.location.pathname + window.location.search)
+    }
+    resolveRole(id, linkToken)
+  }, [id])
 
   // Use stringified IDs to avoid reference comparison issues with arrays
   const ballotIdsKey = dashboard?.ballotIds?.join(',') ?? ''
@@ -33,6 +53,34 @@ export function DashboardDetailPage() {
     }
   }, [ballotIdsKey, attendanceIdsKey])
 
+  // Live tallies for every item; reconnect when items are added or removed
+  useLiveUpdates(dashboard ? dashboardApi.streamUrl(dashboard.id) : null, {
+    onBallot: (updated) => setBallots(prev => prev.map(ballot => ballot.id === updated.id ? newerRecord(ballot, updated) : ballot)),
+    onAttendance: (updated) => setAttendances(prev => prev.map(attendance => attendance.id === updated.id ? newerRecord(attendance, updated) : attendance))
+  }, `${ballotIdsKey}|${attendanceIdsKey}`)
+
+  // Checks the edit link's token, then this browser's stored one, with the
+  // server - editors can be removed at any time
+  const resolveRole = async (dashboardId: string, linkToken: string | null) => {
+    for (const token of [linkToken, dashboardTokens.get(dashboardId)?.token]) {
+      if (!token) continue
+      try {
+        const granted = await dashboardApi.getAccess(dashboardId, token)
+        if (granted !== 'viewer') {
+          dashboardTokens.save(dashboardId, { token, role: granted })
+          setRole(granted)
+          return
+        }
+      } catch (error) {
+        // Keep what this browser last knew
+        console.error('Error checking dashboard access:', error)
+        return
+      }
+    }
+    dashboardTokens.forget(dashboardId)
+    setRole('viewer')
+  }
+
   const fetchBallots = async () => {
     if (!dashboard || dashboard.ballotIds.length === 0) {
       setBallots([])
@@ -125,7 +173,7 @@ export function DashboardDetailPage() {
       // Neither found
       alert('Item not found. Please check the URL or ID.')
     } catch (error) {
-      alert('Failed to add item. Please try again.')
+      alert(userMessage(error, 'Failed to add item. Please try again.'))
     } finally {
       setAdding(false)
     }
@@ -138,7 +186,7 @@ export function DashboardDetailPage() {
         await removeAttendance(id, attendanceId)
       } catch (error) {
         console.error('Failed to remove attendance:', error)
-        alert('Failed to remove attendance. Please try again.')
+        alert(userMessage(error, 'Failed to remove attendance. Please try again.'))
       }
     }
   }
@@ -150,30 +198,48 @@ export function DashboardDetailPage() {
         await removeBallot(id, ballotId)
       } catch (error) {
         console.error('Failed to remove ballot:', error)
-        alert('Failed to remove ballot. Please try again.')
+        alert(userMessage(error, 'Failed to remove ballot. Please try again.'))
       }
     }
   }
 
-  const handleSaveName = async () => {
+  // `version` overrides the one this page has, e.g. to save over a conflict
+  const handleSaveName = async (version?: number) => {
     if (!id || !editedName.trim()) return
+    const nameBefore = dashboard?.name
     try {
-      await updateDashboard(id, { name: editedName.trim() })
+      await updateDashboard(id, { name: editedName.trim(), ...(version ? { version } : {}) })
       setIsEditing(false)
+      setNameConflict(null)
     } catch (error) {
       console.error('Failed to update dashboard name:', error)
-      alert('Failed to update dashboard name. Please try again.')
+      if (error instanceof ApiError && error.code === 'VERSION_CONFLICT') {
+        try {
+          const latest = await dashboardApi.getById(id)
+          // Only the items changed - the new name still applies
+          if (latest.name === nameBefore && version === undefined) return handleSaveName(latest.version ?? 1)
+          setNameConflict(latest)
+          return
+        } catch (refetchError) {
+          console.error('Error fetching dashboard:', refetchError)
+        }
+      }
+      alert(userMessage(error, 'Failed to update dashboard name. Please try again.'))
     }
   }
 
+  const keepTheirName = (theirs: Dashboard) => {
+    setEditedName(theirs.name)
+    setIsEditing(false)
+    setNameConflict(null)
+  }
+
   // Memoize ballot stats to avoid recalculating on every render
   const ballotStats = useMemo(() => {
     return new Map(ballots.map(ballot => [
       ballot.id,
       {
-        green: countVotes(ballot, 'green'),
-        yellow: countVotes(ballot, 'yellow'),
-        red: countVotes(ballot, 'red'),
+        counts: countAllVotes(ballot),
         comments: countComments(ballot)
       }
     ]))
@@ -221,13 +287,14 @@ export function DashboardDetailPage() {
               className="text-2xl font-bold"
               autoFocus
             />
-            <Button onClick={handleSaveName} size="sm">
+            <Button onClick={() => handleSaveName()} size="sm">
               Save
             </Button>
             <Button
               variant="ghost"
               onClick={() => {
                 setIsEditing(false)
+                setNameConflict(null)
                 setEditedName(dashboard.name)
               }}
               size="sm"
@@ -238,14 +305,31 @@ export function DashboardDetailPage() {
         ) : (
           <div className="flex items-center gap-2 mb-2">
             <h1 className="text-3xl font-bold text-foreground">{dashboard.name}</h1>
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={() => setIsEditing(true)}
-              className="h-8 w-8 p-0"
-            >
-              <Pencil className="h-4 w-4" />
-            </Button>
+            {canEdit && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setIsEditing(true)}
+                className="h-8 w-8 p-0"
+              >
+                <Pencil className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        )}
+        {nameConflict && (
+          <div className="border border-yellow-500 rounded-lg p-3 mb-2 text-sm">
+            <p className="mb-2">
+              Someone renamed this dashboard to "{nameConflict.name}" while you were editing. Which name should it have?
+            </p>
+            <div className="flex gap-2">
+              <Button size="sm" onClick={() => handleSaveName(nameConflict.version ?? 1)}>
+                Keep "{editedName.trim()}"
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => keepTheirName(nameConflict)}>
+                Use "{nameConflict.name}"
+              </Button>
+            </div>
           </div>
         )}
         <p className="text-muted-foreground">
@@ -253,36 +337,43 @@ export function DashboardDetailPage() {
           {(dashboard.attendanceIds || []).length} attendance{(dashboard.attendanceIds || []).length !== 1 ? 's' : ''} •
           Last updated {new Date(dashboard.updatedAt).toLocaleDateString()}
         </p>
+        <div className="mt-2">
+          <ExportButtons onExport={(format) => dashboardApi.export(dashboard.id, format)} />
+        </div>
       </div>
 
-      <div className="bg-card text-card-foreground border border-border rounded-lg p-4 mb-6">
-        <h2 className="text-lg font-semibold mb-3">Add Item</h2>
-        <form onSubmit={handleAddItem} className="flex gap-2">
-          <Input
-            type="text"
-            value={newItemInput}
-            onChange={(e) => setNewItemInput(e.target.value)}
-            placeholder="Paste ballot or attendance URL"
-            className="flex-grow"
-            disabled={adding}
-          />
-          <Button
-            type="submit"
-            disabled={adding}
-            className="bg-red-500 hover:bg-red-600 text-white dark:bg-red-600 dark:hover:bg-red-700"
-          >
-            <Plus className="h-4 w-4 mr-2" />
-            {adding ? 'Adding...' : 'Add'}
-          </Button>
-        </form>
-      </div>
+      <DashboardSharing dashboardId={dashboard.id} role={role} />
+
+      {canEdit && (
+        <div className="bg-card text-card-foreground border border-border rounded-lg p-4 mb-6">
+          <h2 className="text-lg font-semibold mb-3">Add Item</h2>
+          <form onSubmit={handleAddItem} className="flex gap-2">
+            <Input
+              type="text"
+              value={newItemInput}
+              onChange={(e) => setNewItemInput(e.target.value)}
+              placeholder="Paste ballot or attendance URL"
+              className="flex-grow"
+              disabled={adding}
+            />
+            <Button
+              type="submit"
+              disabled={adding}
+              className="bg-red-500 hover:bg-red-600 text-white dark:bg-red-600 dark:hover:bg-red-700"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              {adding ? 'Adding...' : 'Add'}
+            </Button>
+          </form>
+        </div>
+      )}
 
       {loading ? (
         <div className="text-center py-8">Loading...</div>
       ) : ballots.length === 0 && attendances.length === 0 ? (
         <div className="text-center py-16 bg-card text-card-foreground border border-border rounded-lg">
           <p className="text-muted-foreground">
-            No ballots or attendances in this dashboard yet. Add one above to get started!
+            No ballots or attendances in this dashboard yet.{canEdit ? ' Add one above to get started!' : ''}
           </p>
         </div>
       ) : (
@@ -314,30 +405,25 @@ export function DashboardDetailPage() {
                             {ballot.votes.length} votes • {stats.comments} comments
                           </p>
                         </div>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => handleRemoveBallot(ballot.id)}
-                          className="h-8 w-8 p-0 text-muted-foreground hover:text-destructive"
-                        >
-                          <X className="h-4 w-4" />
-                        </Button>
+                        {canEdit && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleRemoveBallot(ballot.id)}
+                            className="h-8 w-8 p-0 text-muted-foreground hover:text-destructive"
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        )}
                       </div>
 
-                      <div className="flex items-center gap-6">
-                        <div className="flex items-center gap-1">
-                          <span className="text-lg">✅</span>
-                          <span className="font-medium">{stats.green}</span>
-                        </div>
-                        <div className="flex items-center gap-1">
-                          <span className="text-lg">⚠️</span>
-                          <span className="font-medium">{stats.yellow}</span>
-                        </div>
-                        <div className="flex items-center gap-1">
-                          <span className="text-lg">❌</span>
-                          <span className="font-medium">{stats.red}</span>
-                        </div>
-                      </div>
+                      <VoteCounts
+                        ballot={ballot}
+                        counts={stats.counts}
+                        className="gap-6"
+                        iconClassName="text-lg"
+                        countClassName="font-medium"
+                      />
                     </div>
                   )
                 })}
@@ -372,14 +458,16 @@ export function DashboardDetailPage() {
                             {new Date(attendance.date).toLocaleDateString()} • {stats.total} responses
                           </p>
                         </div>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => handleRemoveAttendance(attendance.id)}
-                          className="h-8 w-8 p-0 text-muted-foreground hover:text-destructive"
-                        >
-                          <X className="h-4 w-4" />
-                        </Button>
+                        {canEdit && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleRemoveAttendance(attendance.id)}
+                            className="h-8 w-8 p-0 text-muted-foreground hover:text-destructive"
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        )}
                       </div>
 
                       <div className="flex items-center gap-6">
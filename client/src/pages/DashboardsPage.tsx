@@ -4,6 +4,8 @@ import { useDashboards } from '../hooks/useDashboards'
 import { Button } from '../components/ui/button'
 import { Input } from '../components/ui/input'
 import { Trash2, Plus } from 'lucide-react'
+import { dashboardCreateSchema } from 'shared/dist'
+import { dashboardTokens, userMessage } from '../api/client'
 
 export function DashboardsPage() {
   const navigate = useNavigate()
@@ -15,14 +17,20 @@ export function DashboardsPage() {
     e.preventDefault()
     if (!newDashboardName.trim()) return
 
+    const parsed = dashboardCreateSchema.parse({ name: newDashboardName })
+    if (!parsed.ok) {
+      alert(parsed.issues[0]!.message)
+      return
+    }
+
     try {
-      const dashboard = await createDashboard(newDashboardName)
+      const dashboard = await createDashboard(parsed.value.name)
       setNewDashboardName('')
       setShowCreateForm(false)
       navigate(`/dashboards/${dashboard.id}`)
     } catch (error) {
       console.error('Failed to create dashboard:', error)
-      alert('Failed to create dashboard. Please try again.')
+      alert(userMessage(error, 'Failed to create dashboard. Please try again.'))
     }
   }
 
@@ -32,7 +40,7 @@ export function DashboardsPage() {
         await deleteDashboard(id)
       } catch (error) {
         console.error('Failed to delete dashboard:', error)
-        alert('Failed to delete dashboard. Please try again.')
+        alert(userMessage(error, 'Failed to delete dashboard. Please try again.'))
       }
     }
   }
@@ -148,15 +156,18 @@ export function DashboardsPage() {
                     <span>Updated {formatDate(dashboard.updatedAt)}</span>
                   </div>
                 </div>
-                <Button
-                  variant="destructive"
-                  size="sm"
-                  onClick={() => handleDelete(dashboard.id, dashboard.name)}
-                  className="flex items-center gap-1"
-                >
-                  <Trash2 className="h-4 w-4" />
-                  Delete
-                </Button>
+                {/* Only owners can delete; the server checks too */}
+                {dashboardTokens.get(dashboard.id)?.role === 'owner' && (
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    onClick={() => handleDelete(dashboard.id, dashboard.name)}
+                    className="flex items-center gap-1"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    Delete
+                  </Button>
+                )}
               </div>
             </div>
           ))}
@@ -0,0 +1,101 @@
+import { useEffect, useState } from 'react'
+import { useSearchParams } from 'react-router-dom'
+import { searchApi, userMessage, type SearchHit, type SearchResults } from '../api/client'
+
+const formatDate = (hit: SearchHit) => {
+  // Attendance dates are calendar days, not instants
+  const date = new Date(hit.type === 'attendance' ? hit.date + 'T00:00:00' : hit.date)
+  return date.toLocaleDateString()
+}
+
+const hitPath = (hit: SearchHit) => {
+  switch (hit.type) {
+    case 'ballot': return `/${hit.id}`
+    case 'attendance': return `/attendance/${hit.id}`
+    case 'dashboard': return `/dashboards/${hit.id}`
+  }
+}
+
+function ResultGroup({ title, hits }: { title: string; hits: SearchHit[] }) {
+  if (hits.length === 0) return null
+
+  return (
+    <section className="mb-8">
+      <h2 className="text-lg font-semibold mb-3">{title}</h2>
+      <ul className="space-y-2">
+        {hits.map(hit => (
+          <li key={hit.id} className="bg-card text-card-foreground border border-border rounded-lg p-4">
+            <a href={hitPath(hit)} className="font-medium text-foreground hover:text-primary hover:underline transition-colors">
+              {hit.title}
+            </a>
+            <div className="text-sm text-muted-foreground mt-1">{formatDate(hit)}</div>
+          </li>
+        ))}
+      </ul>
+    </section>
+  )
+}
+
+export function SearchPage() {
+  const [params] = useSearchParams()
+  const q = params.get('q')?.trim() ?? ''
+  const [results, setResults] = useState<SearchResults | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!q) {
+      setResults(null)
+      return
+    }
+
+    let cancelled = false
+    setLoading(true)
+    setError(null)
+
+    searchApi.search(q)
+      .then(found => {
+        if (!cancelled) setResults(found)
+      })
+      .catch(err => {
+        if (cancelled) return
+        console.error('Error searching:', err)
+        setError(userMessage(err, 'Search failed. Please try again.'))
+        setResults(null)
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    // A newer search's results win over a slow older one
+    return () => {
+      cancelled = true
+    }
+  }, [q])
+
+  const total = results ? results.ballots.length + results.attendance.length + results.dashboards.length : 0
+
+  return (
+    <div className="container mx-auto p-4 max-w-4xl">
+      <h1 className="text-3xl font-bold text-foreground mb-6">
+        {q ? `Results for "${q}"` : 'Search'}
+      </h1>
+
+      {!q && <p className="text-muted-foreground">Search ballots, comments, attendance and dashboards from the box above.</p>}
+      {loading && <div className="text-center py-8">Searching...</div>}
+      {error && <div className="text-center py-8 text-destructive">{error}</div>}
+
+      {!loading && results && (
+        total === 0 ? (
+          <p className="text-muted-foreground">Nothing matches "{q}".</p>
+        ) : (
+          <>
+            <ResultGroup title="Ballots" hits={results.ballots} />
+            <ResultGroup title="Attendance" hits={results.attendance} />
+            <ResultGroup title="Dashboards" hits={results.dashboards} />
+          </>
+        )
+      )}
+    </div>
+  )
+}
@@ -1,4 +1,5 @@
 import { describe, test, expect } from 'bun:test'
+import { countAllVotes, countVotes, dashboardEditLink, dashboardTokenFromHash, newerRecord, optionIcon, ownerEditLink, ownerTokenFromHash, rateLimitMessage, voteLabels } from './ballot'
 
 // Test ballot utility functions and logic
 describe('Ballot Utils', () => {
@@ -253,4 +254,124 @@ describe('Ballot Utils', () => {
       expect(typeof vote.comment).toBe('string')
     })
   })
-})
\ No newline at end of file
+})
+describe('newerRecord', () => {
+  const older = { id: 'b1', version: 2 }
+  const newer = { id: 'b1', version: 3 }
+
+  test('should take the incoming record when it is newer or the same version', () => {
+    expect(newerRecord(older, newer)).toBe(newer)
+    expect(newerRecord(older, { ...older })).toEqual(older)
+    expect(newerRecord(null, older)).toBe(older)
+  })
+
+  test('should keep the current record when the incoming one is stale', () => {
+    expect(newerRecord(newer, older)).toBe(newer)
+  })
+
+  test('should treat a missing version as 1', () => {
+    expect(newerRecord({ id: 'b1' }, { id: 'b1', version: 1 })).toEqual({ id: 'b1', version: 1 })
+    expect(newerRecord({ id: 'b1', version: 2 }, { id: 'b1' })).toEqual({ id: 'b1', version: 2 })
+  })
+})
+
+describe('countAllVotes', () => {
+  const createdAt = '2024-01-01T10:00:00Z'
+
+  test('should count traffic-light votes by color, including ballots without a kind', () => {
+    const ballot = {
+      id: 'b1', question: 'Q', createdAt,
+      votes: [{ color: 'green' as const, createdAt }, { color: 'red' as const, createdAt }, { color: 'green' as const, createdAt }]
+    }
+
+    expect(countAllVotes(ballot)).toEqual({ green: 2, yellow: 0, red: 1 })
+    expect(countVotes(ballot, 'green')).toBe(2)
+  })
+
+  test('should count every option of a scale ballot in order', () => {
+    const ballot = {
+      id: 'b1', question: 'Q', createdAt, kind: 'scale' as const,
+      votes: [{ choice: '5', createdAt }, { choice: '3', createdAt }, { choice: '5', createdAt }]
+    }
+
+    expect(Object.entries(countAllVotes(ballot))).toEqual([['1', 0], ['2', 0], ['3', 1], ['4', 0], ['5', 2]])
+  })
+
+  test('should count custom choices by value', () => {
+    const ballot = {
+      id: 'b1', question: 'Q', createdAt, kind: 'choice' as const,
+      options: [{ value: '1', label: 'Pizza' }, { value: '2', label: 'Tacos' }],
+      votes: [{ choice: '2', createdAt }]
+    }
+
+    expect(countAllVotes(ballot)).toEqual({ '1': 0, '2': 1 })
+  })
+
+  test('should count first preferences on ranked ballots and approvals on approval ballots', () => {
+    const options = [{ value: '1', label: 'Pizza' }, { value: '2', label: 'Tacos' }]
+    const ranked = {
+      id: 'b1', question: 'Q', createdAt, kind: 'ranked' as const, options,
+      votes: [{ ranking: ['2', '1'], createdAt }, { ranking: ['2'], createdAt }]
+    }
+    const approval = {
+      id: 'b2', question: 'Q', createdAt, kind: 'approval' as const, options,
+      votes: [{ approvals: ['1', '2'], createdAt }, { approvals: ['2'], createdAt }]
+    }
+
+    expect(countAllVotes(ranked)).toEqual({ '1': 0, '2': 2 })
+    expect(countAllVotes(approval)).toEqual({ '1': 1, '2': 2 })
+  })
+})
+
+describe('voteLabels', () => {
+  const createdAt = '2024-01-01T10:00:00Z'
+  const options = [{ value: '1', label: 'Pizza' }, { value: '2', label: 'Tacos' }]
+
+  test('should list the options a vote picked, by label', () => {
+    expect(voteLabels({ kind: 'ranked', options }, { ranking: ['2', '1'], createdAt })).toEqual(['Tacos', 'Pizza'])
+    expect(voteLabels({ kind: 'choice', options }, { choice: '1', createdAt })).toEqual(['Pizza'])
+    expect(voteLabels({}, { color: 'green', createdAt })).toEqual(['Green'])
+  })
+})
+
+describe('optionIcon', () => {
+  test('should have icons for traffic-light and yes/no options only', () => {
+    expect(optionIcon({}, 'yellow')).toBe('⚠️')
+    expect(optionIcon({ kind: 'yes-no' }, 'yes')).toBe('👍')
+    expect(optionIcon({ kind: 'scale' }, '3')).toBeUndefined()
+    expect(optionIcon({ kind: 'choice' }, '1')).toBeUndefined()
+  })
+})
+
+describe('owner edit links', () => {
+  test('should carry the owner token in the fragment and read it back', () => {
+    const link = ownerEditLink('https://ballot.io', 'ballot-1', 'abc123')
+
+    expect(link).toBe('https://ballot.io/ballot-1#owner=abc123')
+    expect(ownerTokenFromHash(new URL(link).hash)).toBe('abc123')
+    expect(ownerTokenFromHash('')).toBeNull()
+    expect(ownerTokenFromHash('#owner=')).toBeNull()
+    expect(ownerTokenFromHash('#comments')).toBeNull()
+  })
+
+  test('should do the same for dashboard links, under their own key', () => {
+    const link = dashboardEditLink('https://ballot.io', 'dashboard-1', 'def456')
+
+    expect(link).toBe('https://ballot.io/dashboards/dashboard-1#token=def456')
+    expect(dashboardTokenFromHash(new URL(link).hash)).toBe('def456')
+    expect(dashboardTokenFromHash('#owner=abc123')).toBeNull()
+  })
+})
+
+describe('rateLimitMessage', () => {
+  test('should say how long to wait, in seconds or minutes', () => {
+    expect(rateLimitMessage(1)).toBe('Too many requests. Please wait 1 second and try again.')
+    expect(rateLimitMessage(12)).toBe('Too many requests. Please wait 12 seconds and try again.')
+    expect(rateLimitMessage(60)).toBe('Too many requests. Please wait 1 minute and try again.')
+    expect(rateLimitMessage(150)).toBe('Too many requests. Please wait 3 minutes and try again.')
+  })
+
+  test('should fall back to a moment without Retry-After', () => {
+    expect(rateLimitMessage()).toBe('Too many requests. Please wait a moment and try again.')
+  })
+})
@@ -1,24 +1,51 @@
-import type { Ballot } from '../api/client'
-import type { Attendance } from 'shared/dist'
+import type { Ballot, Vote } from '../api/client'
+import { ballotKind, ballotOptions, voteChoice, type Attendance } from 'shared/dist'
 
 export type VoteColor = 'green' | 'yellow' | 'red'
 
 /**
- * Count votes of a specific color in a ballot
+ * Count votes for one option (a color on traffic-light ballots). Ranked
+ * ballots count first preferences; approval ballots count approvals.
  */
-export function countVotes(ballot: Ballot, color: VoteColor): number {
-  return ballot.votes.filter(vote => vote.color === color).length
+export function countVotes(ballot: Ballot, choice: string): number {
+  switch (ballotKind(ballot)) {
+    case 'ranked':
+      return ballot.votes.filter(vote => vote.ranking?.[0] === choice).length
+    case 'approval':
+      return ballot.votes.filter(vote => vote.approvals?.includes(choice)).length
+    default:
+      return ballot.votes.filter(vote => voteChoice(vote) === choice).length
+  }
 }
 
 /**
- * Count all votes by color in a ballot
+ * Count all votes by option, in the ballot's option order
  */
-export function countAllVotes(ballot: Ballot): Record<VoteColor, number> {
-  return {
-    green: countVotes(ballot, 'green'),
-    yellow: countVotes(ballot, 'yellow'),
-    red: countVotes(ballot, 'red')
-  }
+export function countAllVotes(ballot: Ballot): Record<string, number> {
+  return Object.fromEntries(
+    ballotOptions(ballot).map(option => [option.value, countVotes(ballot, option.value)])
+  )
+}
+
+const OPTION_ICONS: Record<string, Record<string, string>> = {
+  'traffic-light': { green: '✅', yellow: '⚠️', red: '❌' },
+  'yes-no': { yes: '👍', no: '👎' }
+}
+
+/**
+ * Emoji shown for an option, or undefined when the label should be shown instead
+ */
+export function optionIcon(ballot: Pick<Ballot, 'kind'>, value: string): string | undefined {
+  return OPTION_ICONS[ballotKind(ballot)]?.[value]
+}
+
+/**
+ * Option labels a vote picked - in preference order on ranked ballots
+ */
+export function voteLabels(ballot: Pick<Ballot, 'kind' | 'options'>, vote: Vote): string[] {
+  const labels = new Map(ballotOptions(ballot).map(option => [option.value, option.label]))
+  const picked = vote.ranking ?? vote.approvals ?? [voteChoice(vote)].filter(value => value !== undefined)
+  return picked.map(value => labels.get(value) ?? value)
 }
 
 /**
@@ -40,3 +67,56 @@ export function countAttendanceResponses(attendance: Attendance): {
   const no = attendance.responses.filter(r => !r.attending).length
   return { yes, no, total: attendance.responses.length }
 }
+
+/**
+ * Pick whichever copy of a record has the higher version. Live updates can
+ * arrive after the response to the user's own write, so never step backwards.
+ */
+export function newerRecord<T extends { version?: number }>(current: T | null, incoming: T): T {
+  if (current && (current.version ?? 1) > (incoming.version ?? 1)) {
+    return current
+  }
+  return incoming
+}
+
+const OWNER_HASH_PREFIX = '#owner='
+const DASHBOARD_HASH_PREFIX = '#token='
+
+function tokenFromHash(hash: string, prefix: string): string | null {
+  return hash.startsWith(prefix) ? hash.slice(prefix.length) || null : null
+}
+
+/**
+ * A ballot's edit link. The owner token goes in the fragment, so it never
+ * reaches server logs or Referer headers.
+ */
+export function ownerEditLink(origin: string, ballotId: string, ownerToken: string): string {
+  return `${origin}/${ballotId}${OWNER_HASH_PREFIX}${ownerToken}`
+}
+
+// The owner token from an edit link's fragment, if there is one
+export function ownerTokenFromHash(hash: string): string | null {
+  return tokenFromHash(hash, OWNER_HASH_PREFIX)
+}
+
+// A dashboard link that carries an owner or editor token, like ownerEditLink
+export function dashboardEditLink(origin: string, dashboardId: string, token: string): string {
+  return `${origin}/dashboards/${dashboardId}${DASHBOARD_HASH_PREFIX}${token}`
+}
+
+export function dashboardTokenFromHash(hash: string): string | null {
+  return tokenFromHash(hash, DASHBOARD_HASH_PREFIX)
+}
+
+/**
+ * What to show when the server rate limits a request, from its Retry-After
+ * seconds if it sent them
+ */
+export function rateLimitMessage(retryAfterSeconds?: number): string {
+  if (!retryAfterSeconds) return 'Too many requests. Please wait a moment and try again.'
+
+  const wait = retryAfterSeconds < 60
+    ? `${retryAfterSeconds} second${retryAfterSeconds === 1 ? '' : 's'}`
+    : `${Math.ceil(retryAfterSeconds / 60)} minute${retryAfterSeconds > 60 ? 's' : ''}`
+  return `Too many requests. Please wait ${wait} and try again.`
+}
@@ -0,0 +1,150 @@
+#!/usr/bin/env node
+
+/**
+ * Backs up, restores and copies ballots, dashboards and attendance through the
+ * admin backup and restore endpoints.
+ *
+ * Usage:
+ *   ADMIN_KEY=your-key node scripts/backup.js backup [--api URL] [--out FILE]
+ *   ADMIN_KEY=your-key node scripts/backup.js restore FILE [--api URL] [--mode merge|replace] [--apply]
+ *   ADMIN_KEY=your-key node scripts/backup.js copy --from URL [--api URL] [--mode merge|replace] [--apply]
+ *
+ * Restores and copies are dry runs that print what would change until run
+ * with --apply. `copy` reads a backup from another deployment; if that one is
+ * too old to have the backup endpoint, its public ballots are copied instead.
+ * FROM_ADMIN_KEY is used for the source deployment if it has a different key.
+ */
+
+const fs = require('fs');
+
+const DEFAULT_API = 'https://ballot-app-server.siener.workers.dev';
+
+const USAGE = `Usage:
+  ADMIN_KEY=your-key node scripts/backup.js backup [--api URL] [--out FILE]
+  ADMIN_KEY=your-key node scripts/backup.js restore FILE [--api URL] [--mode merge|replace] [--apply]
+  ADMIN_KEY=your-key node scripts/backup.js copy --from URL [--api URL] [--mode merge|replace] [--apply]`;
+
+function parseArgs(argv) {
+  const [command, ...rest] = argv;
+  const options = { command, positional: [], api: DEFAULT_API, mode: 'merge', apply: false };
+
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (arg === '--apply') options.apply = true;
+    else if (['--api', '--out', '--mode', '--from'].includes(arg)) options[arg.slice(2)] = rest[++i];
+    else options.positional.push(arg);
+  }
+
+  options.api = options.api.replace(/\/+$/, '');
+  if (options.from) options.from = options.from.replace(/\/+$/, '');
+  return options;
+}
+
+async function request(url, adminKey, init = {}) {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Authorization': `Bearer ${adminKey}`, 'Content-Type': 'application/json', ...init.headers }
+  });
+
+  if (!response.ok) {
+    const text = await response.text();
+    let message = text;
+    try {
+      message = JSON.parse(text).error.message;
+    } catch {
+      // Not the API's error envelope
+    }
+    const error = new Error(`${response.status} ${message}`);
+    error.status = response.status;
+    throw error;
+  }
+  return response.json();
+}
+
+// Every public ballot, as a version 1 snapshot. Handles both the paged and
+// the older plain-list response of GET /api/ballots.
+async function publicBallots(api) {
+  const ballots = [];
+  let cursor = null;
+  do {
+    const page = await request(`${api}/api/ballots?limit=100${cursor ? `&cursor=${encodeURIComponent(cursor)}` : ''}`, '');
+    if (Array.isArray(page)) return page;
+    ballots.push(...page.items);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return ballots;
+}
+
+function printSummary(summary) {
+  console.log(summary.dryRun ? '\n🔍 Dry run - nothing was written' : '\n✨ Restore completed');
+  console.log(`   Mode: ${summary.mode}`);
+  if (summary.upgradedFrom) console.log(`   Backup upgraded from version ${summary.upgradedFrom}`);
+
+  for (const resource of ['ballots', 'dashboards', 'attendance']) {
+    const changes = summary[resource];
+    console.log(`\n   ${resource}: ${changes.created.length} created, ${changes.updated.length} updated, ` +
+      `${changes.deleted.length} deleted, ${changes.unchanged} unchanged`);
+    for (const id of changes.created) console.log(`     + ${id}`);
+    for (const id of changes.updated) console.log(`     ~ ${id}`);
+    for (const id of changes.deleted) console.log(`     - ${id}`);
+    if (changes.failed.length) console.log(`     ⚠️  Changed during the restore, run it again: ${changes.failed.join(', ')}`);
+  }
+
+  if (summary.dryRun) console.log('\nRun again with --apply to make these changes.');
+}
+
+async function restore(options, adminKey, backup) {
+  if (!['merge', 'replace'].includes(options.mode)) throw new Error(`Unknown mode: ${options.mode}`);
+
+  console.log(`📤 Restoring to ${options.api} (${options.mode}${options.apply ? '' : ', dry run'})...`);
+  const summary = await request(`${options.api}/api/admin/restore`, adminKey, {
+    method: 'POST',
+    body: JSON.stringify({ backup, mode: options.mode, dryRun: !options.apply })
+  });
+  printSummary(summary);
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const adminKey = process.env.ADMIN_KEY;
+
+  if (!adminKey || !['backup', 'restore', 'copy'].includes(options.command)) {
+    if (!adminKey) console.error('❌ Error: ADMIN_KEY environment variable is required\n');
+    console.log(USAGE);
+    process.exit(1);
+  }
+
+  if (options.command === 'backup') {
+    console.log(`🔍 Backing up ${options.api}...`);
+    const backup = await request(`${options.api}/api/admin/backup`, adminKey);
+    const out = options.out || `ballot-app-backup-${backup.createdAt.slice(0, 10)}.json`;
+    fs.writeFileSync(out, JSON.stringify(backup, null, 2));
+    console.log(`✅ Saved ${backup.ballots.length} ballots, ${backup.dashboards.length} dashboards and ` +
+      `${backup.attendance.length} attendance polls to ${out}`);
+    return;
+  }
+
+  if (options.command === 'restore') {
+    const [file] = options.positional;
+    if (!file) throw new Error('restore needs a backup file');
+    await restore(options, adminKey, JSON.parse(fs.readFileSync(file, 'utf8')));
+    return;
+  }
+
+  if (!options.from) throw new Error('copy needs --from URL');
+  console.log(`🔍 Reading ${options.from}...`);
+  let backup;
+  try {
+    backup = await request(`${options.from}/api/admin/backup`, process.env.FROM_ADMIN_KEY || adminKey);
+  } catch (error) {
+    if (error.status !== 404) throw error;
+    console.log('   No backup endpoint there; copying its public ballots instead');
+    backup = await publicBallots(options.from);
+  }
+  await restore(options, adminKey, backup);
+}
+
+main().catch(error => {
+  console.error('❌ Failed:', error.message);
+  process.exit(1);
+});
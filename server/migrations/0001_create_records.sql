@@ -0,0 +1,9 @@
+-- One row per stored record. `data` holds the full JSON document so the
+-- schema doesn't have to change every time a resource gains a field.
+CREATE TABLE IF NOT EXISTS records (
+  resource TEXT NOT NULL,
+  id TEXT NOT NULL,
+  version INTEGER NOT NULL DEFAULT 1,
+  data TEXT NOT NULL,
+  PRIMARY KEY (resource, id)
+);
@@ -0,0 +1,165 @@
+import { describe, test, expect } from 'bun:test'
+import { MAX_AUDIT_ENTRIES, type AuditEntry, type Ballot, type Page } from 'shared/dist'
+import { appendAudit, appendAuthFailure, filterAudit, pageAudit, purgeExpiredAudit } from './audit'
+import { createKVRepository, createRecordStore } from './storage'
+import { createMemoryKV, createTestEnv, request, adminHeaders } from '../tests/helpers'
+
+const ballot: Ballot = { id: 'b1', question: 'Ship it?', votes: [], createdAt: '2024-01-01T00:00:00Z', version: 1 }
+
+const entry = (overrides: Partial<AuditEntry>): AuditEntry => ({
+  id: 'e1',
+  createdAt: '2024-01-01T00:00:00Z',
+  action: 'ballot_deleted',
+  actor: { kind: 'admin', keyId: 'k1', name: 'Sam' },
+  resource: { type: 'ballot', id: 'b1' },
+  ip: '203.0.113.7',
+  ...overrides
+})
+
+function auditRecords() {
+  return createKVRepository<AuditEntry>(createMemoryKV() as any, createRecordStore<AuditEntry>({ prefix: 'audit', legacyKey: 'auditLog' }), 'audit')
+}
+
+const record = (action: AuditEntry['action'], resourceId: string) => ({ action, actor: { kind: 'owner' as const }, resource: { type: 'ballot', id: resourceId }, ip: '203.0.113.7' })
+
+const auditLog = async (env: ReturnType<typeof createTestEnv>, query = '') =>
+  (await (await request(env, 'GET', `/api/admin/audit${query}`, { headers: adminHeaders() })).json() as Page<AuditEntry>).items
+
+describe('Audit log', () => {
+  test('filterAudit should match actors by kind, key id or name', () => {
+    const entries = [
+      entry({}),
+      entry({ id: 'e2', action: 'auth_failed', actor: { kind: 'anonymous' }, resource: undefined }),
+      entry({ id: 'e3', actor: { kind: 'owner' }, resource: { type: 'ballot', id: 'b2' } })
+    ]
+    const ids = (query: Parameters<typeof filterAudit>[1]) => filterAudit(entries, query).map(item => item.id)
+
+    expect(ids({ actor: 'Sam' })).toEqual(['e1'])
+    expect(ids({ actor: 'owner' })).toEqual(['e3'])
+    expect(ids({ action: 'auth_failed' })).toEqual(['e2'])
+    expect(ids({ resourceType: 'ballot', resourceId: 'b2' })).toEqual(['e3'])
+  })
+
+  test('appendAuthFailure should record an address and reason once per window', async () => {
+    const entries = auditRecords()
+    const failure = (reason: string, ip: string) => ({ action: 'auth_failed' as const, actor: { kind: 'anonymous' as const }, details: { reason }, ip })
+
+    await appendAuthFailure(entries, failure('invalid_token', '203.0.113.7'), new Date('2025-01-01T00:00:00Z'))
+    await appendAuthFailure(entries, failure('invalid_token', '203.0.113.7'), new Date('2025-01-01T00:09:00Z'))
+    await appendAuthFailure(entries, failure('invalid_key', '203.0.113.7'), new Date('2025-01-01T00:09:00Z'))
+    await appendAuthFailure(entries, failure('invalid_token', '198.51.100.1'), new Date('2025-01-01T00:09:00Z'))
+    await appendAuthFailure(entries, failure('invalid_token', '203.0.113.7'), new Date('2025-01-01T00:10:00Z'))
+
+    expect((await entries.list()).map(entry => [entry.details?.reason, entry.ip, entry.createdAt])).toEqual([
+      ['invalid_token', '203.0.113.7', '2025-01-01T00:10:00.000Z'],
+      ['invalid_key', '203.0.113.7', '2025-01-01T00:09:00.000Z'],
+      ['invalid_token', '198.51.100.1', '2025-01-01T00:09:00.000Z'],
+      ['invalid_token', '203.0.113.7', '2025-01-01T00:00:00.000Z']
+    ])
+  })
+
+  test('pageAudit should page newest first and carry on past entries the filters skip', async () => {
+    const entries = auditRecords()
+    for (let i = 0; i < 5; i++) {
+      await appendAudit(entries, record(i % 2 ? 'ballot_closed' : 'ballot_deleted', `b${i}`), new Date(Date.UTC(2025, 0, 1, i)))
+    }
+
+    const first = await pageAudit(entries, { limit: 2 })
+    expect(first!.items.map(entry => entry.resource?.id)).toEqual(['b4', 'b3'])
+    const second = await pageAudit(entries, { limit: 2, cursor: first!.nextCursor! })
+    expect(second!.items.map(entry => entry.resource?.id)).toEqual(['b2', 'b1'])
+    const last = await pageAudit(entries, { limit: 2, cursor: second!.nextCursor! })
+    expect(last).toEqual({ items: [expect.objectContaining({ resource: { type: 'ballot', id: 'b0' } })], nextCursor: null })
+
+    const closed = await pageAudit(entries, { action: 'ballot_closed', limit: 1 })
+    expect(closed!.items.map(entry => entry.resource?.id)).toEqual(['b3'])
+    const nextClosed = await pageAudit(entries, { action: 'ballot_closed', limit: 1, cursor: closed!.nextCursor! })
+    expect(nextClosed!.items.map(entry => entry.resource?.id)).toEqual(['b1'])
+
+    expect(await pageAudit(entries, { cursor: 'not-a-cursor' })).toBeNull()
+  })
+
+  test('purgeExpiredAudit should drop old entries and any past the cap', async () => {
+    const entries = auditRecords()
+    const now = new Date('2025-06-01T00:00:00Z')
+    await appendAudit(entries, record('ballot_deleted', 'old'), new Date('2025-01-01T00:00:00Z'))
+    await appendAudit(entries, record('ballot_deleted', 'recent'), new Date('2025-05-01T00:00:00Z'))
+
+    expect(await purgeExpiredAudit(entries, now)).toBe(1)
+    expect((await entries.list()).map(entry => entry.resource?.id)).toEqual(['recent'])
+
+    for (let i = 0; i < MAX_AUDIT_ENTRIES; i++) {
+      await entries.insert({ id: `0-${String(i).padStart(5, '0')}`, createdAt: now.toISOString(), ...record('ballot_closed', `b${i}`) })
+    }
+    expect(await purgeExpiredAudit(entries, now)).toBe(1)
+    expect((await entries.list()).some(entry => entry.resource?.id === 'recent')).toBe(false)
+  })
+
+
+  describe('API', () => {
+    test('should record who deleted what, and from where', async () => {
+      const env = createTestEnv({ ballots: [ballot] })
+
+      await request(env, 'DELETE', '/api/admin/ballots/b1', { headers: { ...adminHeaders(), 'CF-Connecting-IP': '203.0.113.7' } })
+
+      expect(await auditLog(env)).toMatchObject([{
+        action: 'ballot_deleted',
+        actor: { kind: 'admin', name: 'Root key' },
+        resource: { type: 'ballot', id: 'b1' },
+        before: { question: 'Ship it?', isPrivate: false, votes: 0 },
+        ip: '203.0.113.7'
+      }])
+    })
+
+    test('should record owner changes with before and after', async () => {
+      const env = createTestEnv({ ballots: [] })
+      const created = await (await request(env, 'POST', '/api/ballots', { body: { question: 'Retro?' } })).json() as Ballot & { ownerToken: string }
+
+      await request(env, 'PATCH', `/api/ballots/${created.id}`, { body: { isPrivate: true }, headers: { 'X-Owner-Token': created.ownerToken } })
+
+      expect(await auditLog(env)).toMatchObject([{
+        action: 'ballot_updated',
+        actor: { kind: 'owner' },
+        before: { isPrivate: false },
+        after: { isPrivate: true }
+      }])
+    })
+
+    test('should record failed sign-ins', async () => {
+      const env = createTestEnv({ ballots: [ballot] })
+
+      await request(env, 'GET', '/api/admin/ballots', { headers: adminHeaders('wrong') })
+      await request(env, 'POST', '/api/admin/sessions', { body: { key: 'wrong' } })
+      await request(env, 'DELETE', '/api/ballots/b1', { headers: { 'X-Owner-Token': 'wrong' } })
+
+      const failures = await auditLog(env, '?action=auth_failed')
+      expect(failures.map(item => item.details?.reason).sort()).toEqual(['invalid_key', 'invalid_owner_token', 'invalid_token'])
+      expect(failures.find(item => item.resource)).toMatchObject({ actor: { kind: 'anonymous' }, resource: { type: 'ballot', id: 'b1' }, details: { method: 'DELETE', path: '/api/ballots/b1' } })
+    })
+
+    test('should filter by resource and search the summaries', async () => {
+      const env = createTestEnv({ ballots: [ballot, { ...ballot, id: 'b2', question: 'Lunch?' }] })
+      await request(env, 'DELETE', '/api/admin/ballots/b1', { headers: adminHeaders() })
+      await request(env, 'DELETE', '/api/admin/ballots/b2', { headers: adminHeaders() })
+
+      expect((await auditLog(env, '?resourceId=b2')).map(item => item.resource?.id)).toEqual(['b2'])
+      expect((await auditLog(env, '?q=lunch')).map(item => item.resource?.id)).toEqual(['b2'])
+    })
+
+    test('should record repeated failed sign-ins from one address once', async () => {
+      const env = createTestEnv()
+
+      for (let i = 0; i < 5; i++) await request(env, 'GET', '/api/admin/ballots', { headers: { ...adminHeaders('wrong'), 'CF-Connecting-IP': '203.0.113.7' } })
+      await request(env, 'GET', '/api/admin/ballots', { headers: { ...adminHeaders('wrong'), 'CF-Connecting-IP': '198.51.100.1' } })
+
+      expect((await auditLog(env, '?action=auth_failed')).map(item => item.ip)).toEqual(['198.51.100.1', '203.0.113.7'])
+    })
+
+    test('should only show the log to full admins', async () => {
+      const env = createTestEnv()
+
+      expect((await request(env, 'GET', '/api/admin/audit')).status).toBe(401)
+      expect((await request(env, 'GET', '/api/admin/audit?action=nope', { headers: adminHeaders() })).status).toBe(400)
+    })
+  })
+})
@@ -0,0 +1,151 @@
+import {
+  AUDIT_RETENTION_DAYS,
+  AUTH_FAILURE_WINDOW_MINUTES,
+  DEFAULT_PAGE_SIZE,
+  MAX_AUDIT_ENTRIES,
+  type AuditEntry,
+  type AuditQuery,
+  type Page
+} from 'shared/dist'
+import { decodeCursor, encodeCursor, type ListFields } from './pagination'
+import { DuplicateRecordError, type Repository } from './repository'
+import { recordSpanEvent } from './telemetry'
+
+/**
+ * Append-only audit log of admin and owner actions and failed sign-ins, see
+ * GET /api/admin/audit.
+ *
+ * Span events only reach Honeycomb when it's configured; these entries are
+ * stored with everything else. Entries are only ever inserted. Failing to
+ * write one is logged rather than failing the action it records.
+ *
+ * Ids start with the time counted down from the latest possible date, so
+ * the repository's id order is newest first and the log can be paged with
+ * `scan` instead of reading every entry.
+ */
+
+export type AuditRecord = Omit<AuditEntry, 'id' | 'createdAt'>
+
+const LATEST_TIME = 8_640_000_000_000_000  // The latest time a Date can hold
+const TIME_DIGITS = String(LATEST_TIME).length
+
+// How many entries one page of the log reads at most while filtering
+export const MAX_AUDIT_SCAN = 500
+
+const newestFirst = (time: number) => String(LATEST_TIME - time).padStart(TIME_DIGITS, '0')
+
+export function auditEntryId(now: Date = new Date()): string {
+  return `${newestFirst(now.getTime())}-${crypto.randomUUID()}`
+}
+
+async function insertAudit(entries: Repository<AuditEntry>, entry: AuditEntry): Promise<void> {
+  try {
+    await entries.insert(entry)
+  } catch (error) {
+    if (error instanceof DuplicateRecordError) {
+      recordSpanEvent('audit_entry_deduplicated', { 'audit.action': entry.action })
+      return
+    }
+    console.error(`Error writing ${entry.action} to the audit log:`, error)
+    recordSpanEvent('audit_write_failed', { 'audit.action': entry.action })
+  }
+}
+
+export function appendAudit(entries: Repository<AuditEntry>, record: AuditRecord, now: Date = new Date()): Promise<void> {
+  return insertAudit(entries, { id: auditEntryId(now), createdAt: now.toISOString(), ...record })
+}
+
+/**
+ * Records a failed sign-in once per address and reason every
+ * AUTH_FAILURE_WINDOW_MINUTES: the id is made from those, so later failures
+ * in the same window are duplicates and aren't written.
+ */
+export function appendAuthFailure(entries: Repository<AuditEntry>, record: AuditRecord, now: Date = new Date()): Promise<void> {
+  const windowMs = AUTH_FAILURE_WINDOW_MINUTES * 60 * 1000
+  const windowStart = Math.floor(now.getTime() / windowMs) * windowMs
+  const id = `${newestFirst(windowStart)}-${record.action}-${record.details?.reason ?? 'unknown'}-${record.ip}`
+  return insertAudit(entries, { id, createdAt: now.toISOString(), ...record })
+}
+
+/**
+ * Entries matching the audit log's own filters. `actor` matches an actor's
+ * kind, key id or name. The list filters are left to `pageAudit`.
+ */
+export function filterAudit(entries: AuditEntry[], query: AuditQuery): AuditEntry[] {
+  return entries.filter(entry =>
+    (!query.action || entry.action === query.action) &&
+    (!query.actor || [entry.actor.kind, entry.actor.keyId, entry.actor.name].includes(query.actor)) &&
+    (!query.resourceType || entry.resource?.type === query.resourceType) &&
+    (!query.resourceId || entry.resource?.id === query.resourceId)
+  )
+}
+
+// `q` searches the action, resource id, admin name and summaries
+export const auditListFields: ListFields<AuditEntry> = {
+  text: (entry) => [
+    entry.action,
+    entry.resource?.id,
+    entry.actor.name,
+    ...Object.values({ ...entry.before, ...entry.after, ...entry.details })
+  ].filter(value => value !== undefined && value !== null).join(' '),
+  time: (entry) => entry.createdAt
+}
+
+function matchesListQuery(entry: AuditEntry, query: AuditQuery): boolean {
+  const created = Date.parse(entry.createdAt)
+  return (!query.q || auditListFields.text(entry).toLowerCase().includes(query.q.toLowerCase())) &&
+    (!query.createdAfter || created > Date.parse(query.createdAfter)) &&
+    (!query.createdBefore || created < Date.parse(query.createdBefore))
+}
+
+/**
+ * One page of the log, newest first, or null if its cursor isn't one this
+ * made. Entries are read a batch at a time until the page is full; when the
+ * filters skip more than MAX_AUDIT_SCAN entries the page comes back short,
+ * with a `nextCursor` to carry on from.
+ */
+export async function pageAudit(entries: Repository<AuditEntry>, query: AuditQuery): Promise<Page<AuditEntry> | null> {
+  let cursor: string | undefined
+  if (query.cursor) {
+    const key = decodeCursor(query.cursor)
+    if (!key || key[0] !== 'audit') return null
+    cursor = key[1]
+  }
+
+  const limit = query.limit ?? DEFAULT_PAGE_SIZE
+  const items: AuditEntry[] = []
+  let scanned = 0
+  let next: string | null = cursor ?? null
+  do {
+    // Never read past the end of the page, so the batch cursor is where the next page starts
+    const batch = await entries.scan({ limit: Math.min(limit - items.length, MAX_AUDIT_SCAN - scanned), cursor: next ?? undefined })
+    scanned += batch.items.length
+    items.push(...filterAudit(batch.items, query).filter(entry => matchesListQuery(entry, query)))
+    next = batch.cursor
+  } while (next && items.length < limit && scanned < MAX_AUDIT_SCAN)
+
+  return { items, nextCursor: next ? encodeCursor(['audit', next]) : null }
+}
+
+/**
+ * Deletes entries older than AUDIT_RETENTION_DAYS and any beyond the newest
+ * MAX_AUDIT_ENTRIES, for the scheduled run. Returns how many went.
+ */
+export async function purgeExpiredAudit(entries: Repository<AuditEntry>, now: Date = new Date()): Promise<number> {
+  const cutoff = now.getTime() - AUDIT_RETENTION_DAYS * 24 * 60 * 60 * 1000
+  let kept = 0
+  let deleted = 0
+  let cursor: string | null = null
+  do {
+    const batch = await entries.scan({ limit: 100, cursor: cursor ?? undefined })
+    for (const entry of batch.items) {
+      if (kept < MAX_AUDIT_ENTRIES && Date.parse(entry.createdAt) >= cutoff) {
+        kept++
+      } else if (await entries.delete(entry.id)) {
+        deleted++
+      }
+    }
+    cursor = batch.cursor
+  } while (cursor)
+  return deleted
+}
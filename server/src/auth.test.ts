@@ -0,0 +1,135 @@
+import { describe, test, expect } from 'bun:test'
+import type { AdminKeySummary, AdminSession } from 'shared/dist'
+import { ADMIN_SESSION_DURATION_MS, authenticateAdmin, createAdminKey, deleteExpiredSessions, openAdminSession, type AdminCredentialStores } from './auth'
+import { createKVRepository, createRecordStore } from './storage'
+import { createMemoryKV, createTestEnv, request, adminHeaders } from '../tests/helpers'
+
+function credentialStores(rootKey?: string): AdminCredentialStores {
+  const kv = createMemoryKV() as any
+  return {
+    keys: createKVRepository(kv, createRecordStore({ prefix: 'admin-key', legacyKey: 'adminKeys' }), 'admin-key'),
+    sessions: createKVRepository(kv, createRecordStore({ prefix: 'admin-session', legacyKey: 'adminSessions' }), 'admin-session'),
+    rootKey
+  }
+}
+
+describe('Admin authentication', () => {
+  describe('authenticateAdmin', () => {
+    test('should accept the root key with full scope', async () => {
+      const stores = credentialStores('root-secret')
+
+      expect(await authenticateAdmin('root-secret', stores)).toMatchObject({ keyId: 'root', scope: 'full' })
+      expect(await authenticateAdmin('root-secre', stores)).toBeNull()
+    })
+
+    test('should accept a named key until it is revoked, and store only its hash', async () => {
+      const stores = credentialStores()
+      const { key, record } = await createAdminKey(stores.keys, 'Moderator', 'moderate')
+
+      expect(JSON.stringify(record)).not.toContain(key.split('_')[2]!)
+      expect(await authenticateAdmin(key, stores)).toEqual({ keyId: record.id, name: 'Moderator', scope: 'moderate' })
+      expect(await authenticateAdmin(`${key.slice(0, -1)}${key.endsWith('0') ? '1' : '0'}`, stores)).toBeNull()
+
+      await stores.keys.updateWithVersion({ ...record, revokedAt: new Date().toISOString() }, 1)
+      expect(await authenticateAdmin(key, stores)).toBeNull()
+    })
+
+    test('should accept a session until it expires or its key is revoked', async () => {
+      const stores = credentialStores()
+      const { key, record } = await createAdminKey(stores.keys, 'Reader', 'read')
+      const admin = (await authenticateAdmin(key, stores))!
+      const now = new Date('2024-01-01T00:00:00Z')
+      const { token } = await openAdminSession(stores, admin, now)
+
+      expect(await authenticateAdmin(token, stores, now)).toMatchObject({ keyId: record.id, scope: 'read' })
+      expect((await stores.keys.get(record.id))!.lastLoginAt).toBe(now.toISOString())
+
+      const later = new Date(now.getTime() + ADMIN_SESSION_DURATION_MS)
+      expect(await authenticateAdmin(token, stores, later)).toBeNull()
+      expect(await stores.sessions.list()).toHaveLength(0)
+    })
+
+    test('should end root sessions when the root key is removed', async () => {
+      const stores = credentialStores('root-secret')
+      const { token } = await openAdminSession(stores, (await authenticateAdmin('root-secret', stores))!)
+
+      expect(await authenticateAdmin(token, stores)).toMatchObject({ scope: 'full' })
+      expect(await authenticateAdmin(token, { ...stores, rootKey: undefined })).toBeNull()
+    })
+  })
+
+  test('should delete only expired sessions', async () => {
+    const stores = credentialStores('root-secret')
+    const admin = (await authenticateAdmin('root-secret', stores))!
+    await openAdminSession(stores, admin, new Date('2024-01-01T00:00:00Z'))
+    await openAdminSession(stores, admin, new Date('2024-01-02T00:00:00Z'))
+
+    expect(await deleteExpiredSessions(stores.sessions, new Date('2024-01-01T20:00:00Z'))).toBe(1)
+    expect(await stores.sessions.list()).toHaveLength(1)
+  })
+
+  describe('routes', () => {
+    const createKey = async (env: ReturnType<typeof createTestEnv>, scope: string) =>
+      await (await request(env, 'POST', '/api/admin/keys', { body: { name: `${scope} key`, scope }, headers: adminHeaders() })).json() as AdminKeySummary & { key: string }
+
+    test('should create, list and revoke keys, never returning secrets after creation', async () => {
+      const env = createTestEnv()
+      const created = await createKey(env, 'read')
+
+      expect(created.key).toStartWith('bk_')
+      const listed = await (await request(env, 'GET', '/api/admin/keys', { headers: adminHeaders() })).json() as any[]
+      expect(listed).toEqual([{ id: created.id, name: 'read key', scope: 'read', createdAt: created.createdAt }])
+
+      const revoked = await request(env, 'DELETE', `/api/admin/keys/${created.id}`, { headers: adminHeaders() })
+      expect(((await revoked.json()) as AdminKeySummary).revokedAt).toBeDefined()
+      expect((await request(env, 'GET', '/api/admin/ballots', { headers: adminHeaders(created.key) })).status).toBe(401)
+    })
+
+    test('should reject bad key names and scopes', async () => {
+      const env = createTestEnv()
+
+      expect((await request(env, 'POST', '/api/admin/keys', { body: { name: '', scope: 'read' }, headers: adminHeaders() })).status).toBe(400)
+      expect((await request(env, 'POST', '/api/admin/keys', { body: { name: 'Ops', scope: 'owner' }, headers: adminHeaders() })).status).toBe(400)
+    })
+
+    test('should enforce scopes on admin routes', async () => {
+      const env = createTestEnv({ ballots: [{ id: 'b1', question: 'Q', votes: [], createdAt: '2024-01-01T00:00:00Z' }] })
+      const reader = await createKey(env, 'read')
+      const moderator = await createKey(env, 'moderate')
+
+      expect((await request(env, 'GET', '/api/admin/ballots', { headers: adminHeaders(reader.key) })).status).toBe(200)
+      const forbidden = await request(env, 'POST', '/api/admin/ballots/b1/close', { headers: adminHeaders(reader.key) })
+      expect(forbidden.status).toBe(403)
+      expect(((await forbidden.json()) as any).error.message).toBe('This action needs the moderate scope')
+
+      expect((await request(env, 'POST', '/api/admin/ballots/b1/close', { headers: adminHeaders(moderator.key) })).status).toBe(200)
+      expect((await request(env, 'DELETE', '/api/admin/ballots/b1', { headers: adminHeaders(moderator.key) })).status).toBe(403)
+      expect((await request(env, 'GET', '/api/admin/keys', { headers: adminHeaders(moderator.key) })).status).toBe(403)
+    })
+
+    test('should log in with a key, act with the session and log out', async () => {
+      const env = createTestEnv()
+      const moderator = await createKey(env, 'moderate')
+
+      const login = await request(env, 'POST', '/api/admin/sessions', { body: { key: moderator.key } })
+      const session = await login.json() as AdminSession
+      expect(login.status).toBe(201)
+      expect(session.admin).toEqual({ name: 'moderate key', scope: 'moderate' })
+
+      const headers = adminHeaders(session.token)
+      expect(await (await request(env, 'GET', '/api/admin/session', { headers })).json()).toEqual(session.admin)
+      // A session can't be used to open another one
+      expect((await request(env, 'POST', '/api/admin/sessions', { body: { key: session.token } })).status).toBe(401)
+
+      await request(env, 'DELETE', '/api/admin/session', { headers })
+      expect((await request(env, 'GET', '/api/admin/session', { headers })).status).toBe(401)
+    })
+
+    test('should reject logins with unknown keys', async () => {
+      const env = createTestEnv()
+
+      expect((await request(env, 'POST', '/api/admin/sessions', { body: { key: 'bk_nope_nope' } })).status).toBe(401)
+      expect((await request(env, 'POST', '/api/admin/sessions', { body: {} })).status).toBe(400)
+    })
+  })
+})
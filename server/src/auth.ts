@@ -0,0 +1,173 @@
+import type { AdminIdentity, AdminKeySummary, AdminScope } from 'shared/dist'
+import { randomHex, sha256Hex, timingSafeEqual } from './crypto'
+import type { Repository } from './repository'
+
+/**
+ * Admin credentials.
+ *
+ * - API keys (`bk_<id>_<secret>`) are named, carry a scope and can be revoked.
+ *   Only a SHA-256 hash of the secret is stored; the key is shown once, on creation.
+ * - Sessions (`bs_<id>_<secret>`) are opened by logging in with a key and
+ *   expire after `ADMIN_SESSION_DURATION_MS`. A session dies with its key.
+ * - `ADMIN_API_KEY`, if set, is a root key with full scope. It is how the
+ *   first named keys get created.
+ *
+ * Secrets are 32 random bytes, so a plain hash is enough; there is no
+ * password to stretch.
+ */
+
+export type AdminKeyRecord = AdminKeySummary & {
+  secretHash: string
+  version?: number
+}
+
+export type AdminSessionRecord = {
+  id: string
+  keyId: string        // ROOT_KEY_ID for sessions opened with ADMIN_API_KEY
+  secretHash: string
+  createdAt: string
+  expiresAt: string
+  version?: number
+}
+
+export type AuthenticatedAdmin = AdminIdentity & {
+  keyId: string
+  sessionId?: string   // Set when the request used a session token
+}
+
+export type AdminCredentialStores = {
+  keys: Repository<AdminKeyRecord>
+  sessions: Repository<AdminSessionRecord>
+  rootKey?: string
+}
+
+export const ROOT_KEY_ID = 'root'
+export const ADMIN_SESSION_DURATION_MS = 12 * 60 * 60 * 1000
+
+const KEY_PREFIX = 'bk'
+const SESSION_PREFIX = 'bs'
+
+const rootAdmin: AuthenticatedAdmin = { keyId: ROOT_KEY_ID, name: 'Root key', scope: 'full' }
+
+function generateCredential(prefix: string) {
+  const id = randomHex(8)
+  const secret = randomHex(32)
+  return { id, secret, token: `${prefix}_${id}_${secret}` }
+}
+
+function parseCredential(token: string): { prefix: string; id: string; secret: string } | null {
+  const [prefix, id, secret, ...rest] = token.split('_')
+  if (!prefix || !id || !secret || rest.length > 0) return null
+  return { prefix, id, secret }
+}
+
+async function secretMatches(secret: string, secretHash: string): Promise<boolean> {
+  return timingSafeEqual(await sha256Hex(secret), secretHash)
+}
+
+export function toAdminKeySummary({ secretHash: _secretHash, version: _version, ...summary }: AdminKeyRecord): AdminKeySummary {
+  return summary
+}
+
+/**
+ * Creates a named key. The returned `key` is the only copy of the secret.
+ */
+export async function createAdminKey(
+  keys: Repository<AdminKeyRecord>,
+  name: string,
+  scope: AdminScope,
+  now: Date = new Date()
+): Promise<{ key: string; record: AdminKeyRecord }> {
+  const { id, secret, token } = generateCredential(KEY_PREFIX)
+  const record = await keys.insert({
+    id,
+    name,
+    scope,
+    secretHash: await sha256Hex(secret),
+    createdAt: now.toISOString()
+  })
+  return { key: token, record }
+}
+
+/**
+ * Works out who a bearer token belongs to: the root key, a named key, or a
+ * session opened with one. Returns null for anything unknown, revoked or expired.
+ */
+export async function authenticateAdmin(
+  token: string,
+  { keys, sessions, rootKey }: AdminCredentialStores,
+  now: Date = new Date()
+): Promise<AuthenticatedAdmin | null> {
+  if (rootKey && timingSafeEqual(token, rootKey)) {
+    return rootAdmin
+  }
+
+  const credential = parseCredential(token)
+  if (!credential) return null
+
+  if (credential.prefix === KEY_PREFIX) {
+    const key = await keys.get(credential.id)
+    if (!key || key.revokedAt || !(await secretMatches(credential.secret, key.secretHash))) return null
+    return { keyId: key.id, name: key.name, scope: key.scope }
+  }
+
+  if (credential.prefix === SESSION_PREFIX) {
+    const session = await sessions.get(credential.id)
+    if (!session || !(await secretMatches(credential.secret, session.secretHash))) return null
+    if (Date.parse(session.expiresAt) <= now.getTime()) {
+      await sessions.delete(session.id)
+      return null
+    }
+
+    if (session.keyId === ROOT_KEY_ID) {
+      return rootKey ? { ...rootAdmin, sessionId: session.id } : null
+    }
+    const key = await keys.get(session.keyId)
+    if (!key || key.revokedAt) return null
+    return { keyId: key.id, name: key.name, scope: key.scope, sessionId: session.id }
+  }
+
+  return null
+}
+
+/**
+ * Opens a session for an admin who logged in with a key, and records the login on the key.
+ */
+export async function openAdminSession(
+  { keys, sessions }: AdminCredentialStores,
+  admin: AuthenticatedAdmin,
+  now: Date = new Date()
+): Promise<{ token: string; expiresAt: string }> {
+  const { id, secret, token } = generateCredential(SESSION_PREFIX)
+  const expiresAt = new Date(now.getTime() + ADMIN_SESSION_DURATION_MS).toISOString()
+  await sessions.insert({
+    id,
+    keyId: admin.keyId,
+    secretHash: await sha256Hex(secret),
+    createdAt: now.toISOString(),
+    expiresAt
+  })
+
+  if (admin.keyId !== ROOT_KEY_ID) {
+    const key = await keys.get(admin.keyId)
+    // Losing this race to another login only loses a timestamp
+    if (key) await keys.updateWithVersion({ ...key, lastLoginAt: now.toISOString() }, key.version ?? 1)
+  }
+
+  return { token, expiresAt }
+}
+
+/**
+ * Deletes expired sessions. Run by the scheduled handler; lookups also drop
+ * expired sessions as they find them.
+ */
+export async function deleteExpiredSessions(
+  sessions: Repository<AdminSessionRecord>,
+  now: Date = new Date()
+): Promise<number> {
+  const expired = (await sessions.list()).filter(session => Date.parse(session.expiresAt) <= now.getTime())
+  for (const session of expired) {
+    await sessions.delete(session.id)
+  }
+  return expired.length
+}
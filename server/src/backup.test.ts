@@ -0,0 +1,113 @@
+import { describe, test, expect } from 'bun:test'
+import type { Attendance, Backup, Ballot, Dashboard, RestoreSummary } from 'shared/dist'
+import { planRestore } from './backup'
+import { createTestEnv, request, adminHeaders } from '../tests/helpers'
+
+const ballot: Ballot = { id: 'b1', question: 'Ship it?', votes: [], createdAt: '2024-01-01T09:00:00.000Z', version: 3 }
+const dashboard: Dashboard = {
+  id: 'd1',
+  name: 'Q1 plans',
+  ballotIds: ['b1'],
+  attendanceIds: ['a1'],
+  createdAt: '2024-01-01T09:00:00.000Z',
+  updatedAt: '2024-01-01T09:00:00.000Z',
+  version: 1
+}
+const attendance: Attendance = {
+  id: 'a1',
+  title: 'Team offsite',
+  date: '2024-02-01',
+  responses: [{ name: 'Sam', attending: true, timestamp: '2024-01-05T10:00:00.000Z' }],
+  createdAt: '2024-01-01T09:00:00.000Z',
+  updatedAt: '2024-01-05T10:00:00.000Z',
+  version: 2
+}
+
+const restore = (env: ReturnType<typeof createTestEnv>, body: unknown) =>
+  request(env, 'POST', '/api/admin/restore', { body, headers: adminHeaders() })
+
+describe('Backup and restore', () => {
+  test('planRestore should only add missing records when merging', () => {
+    const changed = { ...ballot, question: 'Ship it now?' }
+    const plan = planRestore([ballot], [changed, { ...ballot, id: 'b2' }], 'merge')
+
+    expect(plan.create.map(item => item.id)).toEqual(['b2'])
+    expect(plan.update).toEqual([])
+    expect(plan.unchanged).toBe(1)
+  })
+
+  test('planRestore should overwrite and delete when replacing, ignoring versions and timestamp forms', () => {
+    const same = { ...ballot, createdAt: '2024-01-01T09:00:00Z', version: 1 }
+    const changed = { ...ballot, id: 'b2', question: 'Ship it now?' }
+    const plan = planRestore([same, { ...ballot, id: 'b2' }, { ...ballot, id: 'gone' }], [ballot, changed], 'replace')
+
+    expect(plan.unchanged).toBe(1)
+    expect(plan.update).toEqual([{ item: changed, expectedVersion: 3 }])
+    expect(plan.delete).toEqual(['gone'])
+  })
+
+  describe('API', () => {
+    test('should back up everything for full admins only', async () => {
+      const env = createTestEnv({ ballots: [ballot], dashboards: [dashboard], attendances: [attendance] })
+
+      const denied = await request(env, 'GET', '/api/admin/backup')
+      const response = await request(env, 'GET', '/api/admin/backup', { headers: adminHeaders() })
+      const backup = await response.json() as Backup
+
+      expect(denied.status).toBe(401)
+      expect(response.headers.get('Content-Disposition')).toMatch(/^attachment; filename="ballot-app-backup-\d{4}-\d{2}-\d{2}\.json"$/)
+      expect(backup).toMatchObject({ version: 2, ballots: [ballot], dashboards: [dashboard], attendance: [attendance] })
+    })
+
+    test('should round-trip a backup into an empty store', async () => {
+      const source = createTestEnv({ ballots: [ballot], dashboards: [dashboard], attendances: [attendance] })
+      const backup = await (await request(source, 'GET', '/api/admin/backup', { headers: adminHeaders() })).json()
+      const target = createTestEnv({ ballots: [] })
+
+      const summary = await (await restore(target, { backup })).json() as RestoreSummary
+
+      expect(summary).toMatchObject({ mode: 'merge', dryRun: false })
+      expect(summary.ballots.created).toEqual(['b1'])
+      expect(summary.dashboards.created).toEqual(['d1'])
+      expect(summary.attendance.created).toEqual(['a1'])
+      expect(await (await request(target, 'GET', '/api/ballots/b1')).json()).toEqual(ballot)
+    })
+
+    test('should report a replace on a dry run without writing it', async () => {
+      const env = createTestEnv({ ballots: [ballot, { ...ballot, id: 'extra' }] })
+      const backup: Backup = { version: 2, createdAt: '2024-06-01T00:00:00.000Z', ballots: [{ ...ballot, question: 'Ship it later?' }], dashboards: [], attendance: [] }
+
+      const dryRun = await (await restore(env, { backup, mode: 'replace', dryRun: true })).json() as RestoreSummary
+
+      expect(dryRun.ballots).toEqual({ created: [], updated: ['b1'], deleted: ['extra'], unchanged: 0, failed: [] })
+      expect((await request(env, 'GET', '/api/ballots/extra')).status).toBe(200)
+
+      const applied = await (await restore(env, { backup, mode: 'replace' })).json() as RestoreSummary
+      const restored = await (await request(env, 'GET', '/api/ballots/b1')).json() as Ballot
+
+      expect(applied.ballots.deleted).toEqual(['extra'])
+      expect(restored).toMatchObject({ question: 'Ship it later?', version: 4 })
+      expect((await request(env, 'GET', '/api/ballots/extra')).status).toBe(404)
+    })
+
+    test('should upgrade a version 1 ballots-only snapshot', async () => {
+      const env = createTestEnv({ ballots: [] })
+
+      const summary = await (await restore(env, { backup: { ballots: [ballot] } })).json() as RestoreSummary
+
+      expect(summary.upgradedFrom).toBe(1)
+      expect(summary.ballots.created).toEqual(['b1'])
+      expect(summary.dashboards).toMatchObject({ created: [], deleted: [] })
+    })
+
+    test('should reject snapshots it cannot read', async () => {
+      const env = createTestEnv({ ballots: [] })
+
+      const newer = await restore(env, { backup: { version: 99 } })
+      const broken = await restore(env, { backup: { version: 2, createdAt: '2024-06-01T00:00:00Z', ballots: [{ id: 'b1' }], dashboards: [], attendance: [] } })
+
+      expect(newer.status).toBe(400)
+      expect(broken.status).toBe(400)
+    })
+  })
+})
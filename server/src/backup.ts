@@ -0,0 +1,150 @@
+import {
+  BACKUP_VERSION,
+  type Attendance,
+  type Backup,
+  type Ballot,
+  type Dashboard,
+  type RestoreChanges,
+  type RestoreMode,
+  type RestoreSummary
+} from 'shared/dist'
+import { DuplicateRecordError, type Repository, type VersionedRecord } from './repository'
+
+/**
+ * Whole-store backup and restore for ballots, dashboards and attendance.
+ *
+ * Restores go through the repositories, so they work on either backend, keep
+ * the search index up to date and bump the version of every record they
+ * change, which makes clients holding the old version refetch. Owner tokens,
+ * admin keys and the search index aren't part of a backup.
+ */
+
+export type BackupRepositories = {
+  ballots: Repository<Ballot>
+  dashboards: Repository<Dashboard>
+  attendance: Repository<Attendance>
+}
+
+export async function createBackup(repositories: BackupRepositories, now: Date = new Date()): Promise<Backup> {
+  const [ballots, dashboards, attendance] = await Promise.all([
+    repositories.ballots.list(),
+    repositories.dashboards.list(),
+    repositories.attendance.list()
+  ])
+
+  return {
+    version: BACKUP_VERSION,
+    createdAt: now.toISOString(),
+    ballots,
+    // Dashboards from before attendance polls have no attendanceIds
+    dashboards: dashboards.map(dashboard => ({ ...dashboard, attendanceIds: dashboard.attendanceIds ?? [] })),
+    attendance
+  }
+}
+
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/
+
+// JSON with sorted keys, timestamps in one form and no version, so records
+// compare by content
+function canonical(value: unknown): string {
+  return JSON.stringify(value, (_key, inner) => {
+    if (typeof inner === 'string' && ISO_TIMESTAMP.test(inner)) return new Date(inner).toISOString()
+    if (inner && typeof inner === 'object' && !Array.isArray(inner)) {
+      return Object.fromEntries(Object.entries(inner).filter(([key]) => key !== 'version').sort(([a], [b]) => a < b ? -1 : 1))
+    }
+    return inner
+  })
+}
+
+type RestorePlan<T> = {
+  create: T[]
+  update: { item: T; expectedVersion: number }[]
+  delete: string[]
+  unchanged: number
+}
+
+/**
+ * What restoring `incoming` over `current` would do. Merging only adds
+ * what's missing; replacing also overwrites what differs and deletes what the
+ * snapshot doesn't have.
+ */
+export function planRestore<T extends VersionedRecord>(current: T[], incoming: T[], mode: RestoreMode): RestorePlan<T> {
+  const existing = new Map(current.map(item => [item.id, item]))
+  const wanted = new Set(incoming.map(item => item.id))
+  const plan: RestorePlan<T> = { create: [], update: [], delete: [], unchanged: 0 }
+
+  for (const item of incoming) {
+    const stored = existing.get(item.id)
+    if (!stored) {
+      plan.create.push(item)
+    } else if (mode === 'replace' && canonical(stored) !== canonical(item)) {
+      plan.update.push({ item, expectedVersion: stored.version ?? 1 })
+    } else {
+      plan.unchanged++
+    }
+  }
+
+  if (mode === 'replace') {
+    plan.delete = current.filter(item => !wanted.has(item.id)).map(item => item.id)
+  }
+  return plan
+}
+
+async function applyPlan<T extends VersionedRecord>(repository: Repository<T>, plan: RestorePlan<T>, dryRun: boolean): Promise<RestoreChanges> {
+  const changes: RestoreChanges = { created: [], updated: [], deleted: [], unchanged: plan.unchanged, failed: [] }
+
+  if (dryRun) {
+    return {
+      ...changes,
+      created: plan.create.map(item => item.id),
+      updated: plan.update.map(({ item }) => item.id),
+      deleted: plan.delete
+    }
+  }
+
+  // One at a time: the KV store keeps a single list of ids per record type
+  for (const item of plan.create) {
+    try {
+      await repository.insert({ ...item, version: item.version ?? 1 })
+      changes.created.push(item.id)
+    } catch (error) {
+      // Created by someone else since the plan was made
+      if (!(error instanceof DuplicateRecordError)) throw error
+      changes.failed.push(item.id)
+    }
+  }
+
+  for (const { item, expectedVersion } of plan.update) {
+    const result = await repository.updateWithVersion(item, expectedVersion)
+    if (result.ok) changes.updated.push(item.id)
+    else changes.failed.push(item.id)
+  }
+
+  for (const id of plan.delete) {
+    if (await repository.delete(id)) changes.deleted.push(id)
+  }
+
+  return changes
+}
+
+/**
+ * Restores `backup` in `mode`. A dry run reports the same changes without
+ * writing anything.
+ */
+export async function restoreBackup(
+  repositories: BackupRepositories,
+  backup: Backup,
+  mode: RestoreMode,
+  dryRun: boolean
+): Promise<Omit<RestoreSummary, 'upgradedFrom'>> {
+  const restore = async <T extends VersionedRecord>(repository: Repository<T>, incoming: T[]) =>
+    applyPlan(repository, planRestore(await repository.list(), incoming, mode), dryRun)
+
+  return {
+    mode,
+    dryRun,
+    ballots: await restore(repositories.ballots, backup.ballots),
+    dashboards: await restore(repositories.dashboards, backup.dashboards),
+    attendance: await restore(repositories.attendance, backup.attendance)
+  }
+}
@@ -0,0 +1,14 @@
+import type { StorageBackend } from './repository'
+
+/**
+ * The worker's bindings and secrets, see wrangler.toml.
+ */
+export type Bindings = {
+  BALLOTS_KV: KVNamespace
+  BALLOTS_DB?: D1Database
+  STORAGE_BACKEND?: StorageBackend
+  BALLOT_COORDINATOR?: DurableObjectNamespace
+  ADMIN_API_KEY?: string
+  VOTER_TOKEN_SECRET?: string
+  RATE_LIMITER?: DurableObjectNamespace
+}
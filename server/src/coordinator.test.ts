@@ -0,0 +1,186 @@
+import { describe, test, expect } from 'bun:test'
+import type { Ballot, Vote } from 'shared/dist'
+import {
+  applyVote,
+  coordinatedBallots,
+  createBallotCoordinatorClass,
+  createDurableBallotCoordinator,
+  createKeyedQueue,
+  createLocalBallotCoordinator
+} from './coordinator'
+import { DuplicateRecordError } from './repository'
+import { createKVRepository, createRecordStore } from './storage'
+import { createMemoryKV, createTestEnv, request } from '../tests/helpers'
+
+const ballot: Ballot = { id: 'b1', question: 'Ship it?', votes: [], createdAt: '2024-01-01T00:00:00Z', version: 1 }
+const vote = (n: number): Vote => ({ color: 'green', comment: `vote ${n}`, createdAt: '2024-01-01T00:00:00Z' })
+
+async function ballotRepository() {
+  const repository = createKVRepository<Ballot>(
+    createMemoryKV() as any,
+    createRecordStore<Ballot>({ prefix: 'ballot', legacyKey: 'ballots' }),
+    'ballot'
+  )
+  await repository.insert(ballot)
+  return repository
+}
+
+describe('Ballot write coordinator', () => {
+  describe('createKeyedQueue', () => {
+    test('should run tasks for the same key one at a time', async () => {
+      const queue = createKeyedQueue()
+      const log: string[] = []
+      const task = (name: string) => async () => {
+        log.push(`${name}:start`)
+        await new Promise(resolve => setTimeout(resolve, 5))
+        log.push(`${name}:end`)
+      }
+
+      await Promise.all([queue.run('a', task('one')), queue.run('a', task('two'))])
+
+      expect(log).toEqual(['one:start', 'one:end', 'two:start', 'two:end'])
+    })
+
+    test('should not block other keys', async () => {
+      const queue = createKeyedQueue()
+      const log: string[] = []
+      let release!: () => void
+      const blocked = queue.run('a', () => new Promise<void>(resolve => { release = resolve }))
+
+      await queue.run('b', async () => { log.push('b') })
+      expect(log).toEqual(['b'])
+
+      release()
+      await blocked
+    })
+
+    test('should keep going after a task fails', async () => {
+      const queue = createKeyedQueue()
+
+      const failed = queue.run('a', async () => { throw new Error('boom') })
+      const next = queue.run('a', async () => 'ok')
+
+      await expect(failed).rejects.toThrow('boom')
+      expect(await next).toBe('ok')
+    })
+  })
+
+  describe('applyVote', () => {
+    test('should append the vote and bump the version', async () => {
+      const repository = await ballotRepository()
+
+      const result = await applyVote(repository, 'b1', vote(1))
+
+      expect(result.ok && result.item.votes).toEqual([vote(1)])
+      expect(result.ok && result.item.version).toBe(2)
+    })
+
+    test('should report a missing ballot', async () => {
+      const repository = await ballotRepository()
+
+      expect(await applyVote(repository, 'missing', vote(1))).toEqual({ ok: false, reason: 'not_found' })
+    })
+  })
+
+  test('should keep every concurrent vote with the local coordinator', async () => {
+    const repository = await ballotRepository()
+    const coordinator = createLocalBallotCoordinator(repository, createKeyedQueue())
+
+    const results = await Promise.all(Array.from({ length: 10 }, (_, n) => coordinator.appendVote('b1', vote(n))))
+
+    expect(results.every(result => result.ok)).toBe(true)
+    const stored = await repository.get('b1')
+    expect(stored!.votes).toHaveLength(10)
+    expect(stored!.version).toBe(11)
+  })
+
+  test('should let only one of two edits made from the same version through', async () => {
+    const repository = await ballotRepository()
+    const ballots = coordinatedBallots(repository, createLocalBallotCoordinator(repository, createKeyedQueue()))
+
+    const results = await Promise.all([
+      ballots.updateWithVersion({ ...ballot, question: 'First?' }, 1),
+      ballots.updateWithVersion({ ...ballot, question: 'Second?' }, 1)
+    ])
+
+    expect(results).toEqual([
+      { ok: true, item: { ...ballot, question: 'First?', version: 2 } },
+      { ok: false, reason: 'version_conflict', currentVersion: 2 }
+    ])
+    expect((await repository.get('b1'))!.question).toBe('First?')
+  })
+
+  test('should keep votes cast while an edit is being written', async () => {
+    const repository = await ballotRepository()
+    const coordinator = createLocalBallotCoordinator(repository, createKeyedQueue())
+    const ballots = coordinatedBallots(repository, coordinator)
+
+    const [, edit] = await Promise.all([
+      coordinator.appendVote('b1', vote(1)),
+      ballots.updateWithVersion({ ...ballot, question: 'Ship it today?' }, 1)
+    ])
+
+    expect(edit.ok).toBe(false)
+    expect((await repository.get('b1'))!.votes).toEqual([vote(1)])
+  })
+
+  describe('Durable Object', () => {
+    async function durableCoordinator() {
+      const repository = await ballotRepository()
+      const BallotCoordinator = createBallotCoordinatorClass(() => repository)
+      const objects = new Map<string, InstanceType<typeof BallotCoordinator>>()
+      const namespace = {
+        idFromName: (name: string) => name,
+        get: (name: string) => {
+          if (!objects.has(name)) objects.set(name, new BallotCoordinator({} as any, {}))
+          const object = objects.get(name)!
+          return { fetch: (url: string, init: RequestInit) => object.fetch(new Request(url, init)) }
+        }
+      }
+      return { repository, objects, coordinator: createDurableBallotCoordinator(namespace as any) }
+    }
+
+    test('should route votes through one object per ballot', async () => {
+      const { repository, objects, coordinator } = await durableCoordinator()
+
+      const results = await Promise.all([coordinator.appendVote('b1', vote(1)), coordinator.appendVote('b1', vote(2))])
+
+      expect(results.every(result => result.ok)).toBe(true)
+      expect(objects.size).toBe(1)
+      expect((await repository.get('b1'))!.votes).toHaveLength(2)
+    })
+
+    test('should route inserts, edits and deletes through it', async () => {
+      const { repository, objects, coordinator } = await durableCoordinator()
+      const ballots = coordinatedBallots(repository, coordinator)
+
+      await ballots.insert({ ...ballot, id: 'b2' })
+      await expect(ballots.insert(ballot)).rejects.toBeInstanceOf(DuplicateRecordError)
+      expect(await ballots.updateWithVersion({ ...ballot, question: 'Edited?' }, 1)).toMatchObject({ ok: true, item: { version: 2 } })
+      expect(await ballots.updateWithVersion(ballot, 1)).toEqual({ ok: false, reason: 'version_conflict', currentVersion: 2 })
+      expect(await ballots.delete('b2')).toBe(true)
+
+      expect([...objects.keys()]).toEqual(['b2', 'b1'])
+      expect((await repository.list()).map(item => item.question)).toEqual(['Edited?'])
+    })
+
+    test('should not take votes for a trashed ballot', async () => {
+      const { repository, coordinator } = await durableCoordinator()
+      await repository.updateWithVersion({ ...ballot, deletedAt: '2024-01-02T00:00:00Z' }, 1)
+
+      expect(await coordinator.appendVote('b1', vote(1))).toEqual({ ok: false, reason: 'not_found' })
+    })
+  })
+
+  test('should accept simultaneous votes through the API without conflicts', async () => {
+    const env = createTestEnv({ ballots: [ballot] })
+
+    const responses = await Promise.all(Array.from({ length: 10 }, () =>
+      request(env, 'POST', '/api/ballots/b1/votes', { body: { color: 'yellow' } })
+    ))
+
+    expect(responses.map(response => response.status)).toEqual(Array(10).fill(201))
+    const stored = await (await request(env, 'GET', '/api/ballots/b1')).json() as Ballot
+    expect(stored.votes).toHaveLength(10)
+  })
+})
@@ -0,0 +1,240 @@
+import { ballotKind, isBallotOpen, validateVoteSelection, votePolicy, type Ballot, type Vote, type VoteColor } from 'shared/dist'
+import { DuplicateRecordError, type Repository, type UpdateResult } from './repository'
+import { withoutTrashed } from './trash'
+
+/**
+ * Per-ballot write coordination.
+ *
+ * Every write to a ballot - votes, admin and owner edits, trashing, purging -
+ * goes through a single coordinator that applies them one at a time. KV has
+ * no compare-and-swap, so the version check in `updateWithVersion` only holds
+ * when nothing else writes the key between its read and its write.
+ *
+ * - Deployed: one Durable Object per ballot (`BALLOT_COORDINATOR` binding)
+ * - Without the binding (local dev, tests): an in-process queue keyed by ballot id
+ *
+ * `coordinatedBallots` wraps the ballot repository so its writes take this
+ * route; the coordinator itself writes through the unwrapped one.
+ */
+
+const MAX_APPLY_ATTEMPTS = 3
+
+export interface KeyedQueue {
+  run: <R>(key: string, task: () => Promise<R>) => Promise<R>
+}
+
+export type VoteResult =
+  | UpdateResult<Ballot>
+  | { ok: false; reason: 'closed'; closedAt?: string }
+  | { ok: false; reason: 'invalid_vote'; error: string }
+  | { ok: false; reason: 'voter_required' }
+  | { ok: false; reason: 'already_voted'; vote: Vote }
+
+export interface BallotWriteCoordinator {
+  appendVote: (ballotId: string, vote: Vote) => Promise<VoteResult>
+  /** Throws `DuplicateRecordError` if the id is taken. */
+  insert: (ballot: Ballot) => Promise<Ballot>
+  updateWithVersion: (ballot: Ballot, expectedVersion: number) => Promise<UpdateResult<Ballot>>
+  delete: (ballotId: string) => Promise<boolean>
+}
+
+// What the Durable Object is asked to do, one request per write
+type CoordinatorRequest =
+  | { op: 'vote'; ballotId: string; vote: Vote }
+  | { op: 'insert'; ballot: Ballot }
+  | { op: 'update'; ballot: Ballot; expectedVersion: number }
+  | { op: 'delete'; ballotId: string }
+
+type InsertResult = { ok: true; item: Ballot } | { ok: false; reason: 'duplicate' }
+
+/**
+ * Runs tasks one after another per key; different keys run independently.
+ */
+export function createKeyedQueue(): KeyedQueue {
+  const tails = new Map<string, Promise<unknown>>()
+
+  return {
+    run(key, task) {
+      const previous = tails.get(key) ?? Promise.resolve()
+      const result = previous.then(task, task)
+      const tail = result.catch(() => undefined)
+      tails.set(key, tail)
+      // Drop the entry once nothing else is queued behind this task
+      tail.then(() => {
+        if (tails.get(key) === tail) tails.delete(key)
+      })
+      return result
+    }
+  }
+}
+
+/**
+ * Keeps only the selection field the ballot's kind uses. A traffic-light pick
+ * is stored as `color` so existing votes and new ones look the same.
+ */
+function toStoredVote(ballot: Ballot, vote: Vote): Vote {
+  const { color, choice, ranking, approvals, ...rest } = vote
+  switch (ballotKind(ballot)) {
+    case 'traffic-light':
+      return { ...rest, color: (choice ?? color) as VoteColor }
+    case 'ranked':
+      return { ...rest, ranking }
+    case 'approval':
+      return { ...rest, approvals }
+    default:
+      return { ...rest, choice: choice ?? color }
+  }
+}
+
+/**
+ * Appends a vote to the stored ballot, unless it has closed, the selection
+ * doesn't fit the ballot's kind and options, or the ballot's vote policy rules
+ * it out. On 'change' ballots a voter's earlier vote is replaced. Retries if
+ * the version moved between the read and the write.
+ */
+export async function applyVote(
+  ballots: Repository<Ballot>,
+  ballotId: string,
+  vote: Vote
+): Promise<VoteResult> {
+  for (let attempt = 1; ; attempt++) {
+    const current = await ballots.get(ballotId)
+    if (!current) {
+      return { ok: false, reason: 'not_found' }
+    }
+    if (!isBallotOpen(current)) {
+      return { ok: false, reason: 'closed', closedAt: current.closedAt ?? current.closesAt }
+    }
+
+    const selectionError = validateVoteSelection(current, vote)
+    if (selectionError) {
+      return { ok: false, reason: 'invalid_vote', error: selectionError }
+    }
+
+    let votes = current.votes
+    const policy = votePolicy(current)
+    if (policy !== 'unlimited') {
+      if (!vote.voterId) {
+        return { ok: false, reason: 'voter_required' }
+      }
+      const previous = votes.find(existing => existing.voterId === vote.voterId)
+      if (previous && policy === 'once') {
+        return { ok: false, reason: 'already_voted', vote: previous }
+      }
+      votes = votes.filter(existing => existing.voterId !== vote.voterId)
+    }
+
+    const result = await ballots.updateWithVersion(
+      { ...current, votes: [...votes, toStoredVote(current, vote)] },
+      current.version ?? 1
+    )
+    if (result.ok || result.reason === 'not_found' || attempt >= MAX_APPLY_ATTEMPTS) {
+      return result
+    }
+  }
+}
+
+// Runs one write against every ballot record, trashed ones included. Votes
+// only go to ballots that aren't in the trash.
+async function applyRequest(records: Repository<Ballot>, request: CoordinatorRequest): Promise<unknown> {
+  switch (request.op) {
+    case 'vote':
+      return applyVote(withoutTrashed(records), request.ballotId, request.vote)
+    case 'insert':
+      try {
+        return { ok: true, item: await records.insert(request.ballot) } satisfies InsertResult
+      } catch (error) {
+        if (error instanceof DuplicateRecordError) return { ok: false, reason: 'duplicate' } satisfies InsertResult
+        throw error
+      }
+    case 'update':
+      return records.updateWithVersion(request.ballot, request.expectedVersion)
+    case 'delete':
+      return records.delete(request.ballotId)
+  }
+}
+
+const requestKey = (request: CoordinatorRequest) => 'ballot' in request ? request.ballot.id : request.ballotId
+
+// Turns the answers back into what the repository methods return or throw
+function createCoordinator(send: (request: CoordinatorRequest) => Promise<unknown>): BallotWriteCoordinator {
+  return {
+    appendVote: (ballotId, vote) => send({ op: 'vote', ballotId, vote }) as Promise<VoteResult>,
+    async insert(ballot) {
+      const result = await send({ op: 'insert', ballot }) as InsertResult
+      if (!result.ok) throw new DuplicateRecordError('ballot', ballot.id)
+      return result.item
+    },
+    updateWithVersion: (ballot, expectedVersion) => send({ op: 'update', ballot, expectedVersion }) as Promise<UpdateResult<Ballot>>,
+    delete: (ballotId) => send({ op: 'delete', ballotId }) as Promise<boolean>
+  }
+}
+
+// Shared by every request handled by this isolate
+const localQueue = createKeyedQueue()
+
+export function createLocalBallotCoordinator(
+  records: Repository<Ballot>,
+  queue: KeyedQueue = localQueue
+): BallotWriteCoordinator {
+  return createCoordinator(request => queue.run(requestKey(request), () => applyRequest(records, request)))
+}
+
+export function createDurableBallotCoordinator(namespace: DurableObjectNamespace): BallotWriteCoordinator {
+  return createCoordinator(async (request) => {
+    const stub = namespace.get(namespace.idFromName(requestKey(request)))
+    const response = await stub.fetch('https://ballot-coordinator/writes', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request)
+    })
+
+    if (!response.ok) {
+      throw new Error(`Ballot coordinator failed with status ${response.status}`)
+    }
+    return await response.json()
+  })
+}
+
+/**
+ * The ballot repository with its writes sent through `coordinator`. Reads go
+ * straight to `ballots`.
+ */
+export function coordinatedBallots(ballots: Repository<Ballot>, coordinator: BallotWriteCoordinator): Repository<Ballot> {
+  return {
+    ...ballots,
+    insert: (ballot) => coordinator.insert(ballot),
+    updateWithVersion: (ballot, expectedVersion) => coordinator.updateWithVersion(ballot, expectedVersion),
+    delete: (ballotId) => coordinator.delete(ballotId)
+  }
+}
+
+export type BallotCoordinatorOptions = {
+  // Work the writes left running, such as search indexing, for the object to finish
+  settled?: () => Promise<void>
+}
+
+/**
+ * Builds the Durable Object class. The repository factory is injected so the
+ * object reads and writes through the same backend as the routes; it must
+ * return every ballot record, trashed ones included, and not be coordinated.
+ */
+export function createBallotCoordinatorClass<Env>(records: (env: Env) => Repository<Ballot>, options: BallotCoordinatorOptions = {}) {
+  return class BallotCoordinator implements DurableObject {
+    readonly queue = createKeyedQueue()
+
+    constructor(readonly state: DurableObjectState, readonly env: Env) {}
+
+    async fetch(request: Request): Promise<Response> {
+      const url = new URL(request.url)
+      if (request.method !== 'POST' || url.pathname !== '/writes') {
+        return new Response('Not found', { status: 404 })
+      }
+
+      const write = await request.json() as CoordinatorRequest
+      const result = await this.queue.run(requestKey(write), () => applyRequest(records(this.env), write))
+      if (options.settled) this.state.waitUntil(options.settled())
+      return Response.json(result)
+    }
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Small Web Crypto helpers shared by voter tokens and admin credentials.
+ */
+
+const encoder = new TextEncoder()
+
+export function encodeText(text: string): Uint8Array {
+  return encoder.encode(text)
+}
+
+export function toHex(bytes: ArrayBuffer | Uint8Array): string {
+  return [...new Uint8Array(bytes)].map(byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+export function fromHex(hex: string): Uint8Array | null {
+  if (!/^(?:[0-9a-f]{2})+$/.test(hex)) return null
+  return new Uint8Array(hex.match(/../g)!.map(pair => parseInt(pair, 16)))
+}
+
+export function randomHex(byteLength: number): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(byteLength)))
+}
+
+export async function sha256Hex(text: string): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', encodeText(text)))
+}
+
+/**
+ * Compares two strings without bailing out at the first difference, so the
+ * time taken doesn't reveal how much of a secret was right.
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  const left = encodeText(a)
+  const right = encodeText(b)
+  let difference = left.length ^ right.length
+  for (let index = 0; index < left.length; index++) {
+    difference |= left[index]! ^ (right[index] ?? 0)
+  }
+  return difference === 0
+}
@@ -0,0 +1,136 @@
+import { DuplicateRecordError, type QueryOptions, type QueryValue, type Repository, type VersionedRecord } from './repository'
+
+/**
+ * D1/SQLite repository.
+ *
+ * All resources share the `records` table (see server/migrations), keyed by
+ * (resource, id). The JSON document lives in `data`; queries filter and sort on
+ * it with `json_extract`. `version` is mirrored into its own column so
+ * optimistic locking is a single conditional UPDATE.
+ */
+
+type RecordRow = { data: string }
+
+// Field names end up inside a JSON path, so only allow plain identifiers
+const FIELD_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+function jsonField(field: string): string {
+  if (!FIELD_PATTERN.test(field)) {
+    throw new Error(`Invalid query field: ${field}`)
+  }
+  return `json_extract(data, '$.${field}')`
+}
+
+function toSqlValue(value: QueryValue): string | number | null {
+  if (typeof value === 'boolean') return value ? 1 : 0
+  return value
+}
+
+function parseRows<T>(rows: RecordRow[]): T[] {
+  return rows.map(row => JSON.parse(row.data) as T)
+}
+
+export function createD1Repository<T extends VersionedRecord>(
+  db: D1Database,
+  resource: string
+): Repository<T> {
+  return {
+    async get(id) {
+      const row = await db
+        .prepare('SELECT data FROM records WHERE resource = ? AND id = ?')
+        .bind(resource, id)
+        .first<RecordRow>()
+      return row ? JSON.parse(row.data) as T : null
+    },
+
+    async list() {
+      const { results } = await db
+        .prepare('SELECT data FROM records WHERE resource = ? ORDER BY rowid')
+        .bind(resource)
+        .all<RecordRow>()
+      return parseRows<T>(results)
+    },
+
+    async query(options: QueryOptions<T>) {
+      const clauses = ['resource = ?']
+      const params: (string | number | null)[] = [resource]
+
+      for (const [field, value] of Object.entries(options.where ?? {}) as [string, QueryValue][]) {
+        if (value === null) {
+          clauses.push(`${jsonField(field)} IS NULL`)
+        } else {
+          clauses.push(`${jsonField(field)} = ?`)
+          params.push(toSqlValue(value))
+        }
+      }
+
+      let sql = `SELECT data FROM records WHERE ${clauses.join(' AND ')}`
+      if (options.orderBy) {
+        const direction = options.orderBy.direction === 'desc' ? 'DESC' : 'ASC'
+        sql += ` ORDER BY ${jsonField(options.orderBy.field)} ${direction}`
+      } else {
+        sql += ' ORDER BY rowid'
+      }
+      if (options.limit !== undefined) {
+        sql += ' LIMIT ?'
+        params.push(options.limit)
+      }
+
+      const { results } = await db.prepare(sql).bind(...params).all<RecordRow>()
+      return parseRows<T>(results)
+    },
+
+    // The cursor is the last id of the batch
+    async scan({ limit, cursor, prefix = '' }) {
+      const { results } = await db
+        .prepare('SELECT id, data FROM records WHERE resource = ? AND id > ? AND substr(id, 1, ?) = ? ORDER BY id LIMIT ?')
+        .bind(resource, cursor ?? '', prefix.length, prefix, limit + 1)
+        .all<RecordRow & { id: string }>()
+      const batch = results.slice(0, limit)
+      return {
+        items: parseRows<T>(batch),
+        cursor: results.length > limit ? batch[batch.length - 1]!.id : null
+      }
+    },
+
+    async insert(item) {
+      const { meta } = await db
+        .prepare('INSERT OR IGNORE INTO records (resource, id, version, data) VALUES (?, ?, ?, ?)')
+        .bind(resource, item.id, item.version ?? 1, JSON.stringify(item))
+        .run()
+      if (meta.changes === 0) {
+        throw new DuplicateRecordError(resource, item.id)
+      }
+      return item
+    },
+
+    async updateWithVersion(item, expectedVersion) {
+      const updated = { ...item, version: expectedVersion + 1 }
+      const { meta } = await db
+        .prepare('UPDATE records SET data = ?, version = ? WHERE resource = ? AND id = ? AND version = ?')
+        .bind(JSON.stringify(updated), updated.version, resource, item.id, expectedVersion)
+        .run()
+
+      if (meta.changes > 0) {
+        return { ok: true, item: updated }
+      }
+
+      const current = await db
+        .prepare('SELECT version FROM records WHERE resource = ? AND id = ?')
+        .bind(resource, item.id)
+        .first<{ version: number }>()
+
+      return current
+        ? { ok: false, reason: 'version_conflict', currentVersion: current.version }
+        : { ok: false, reason: 'not_found' }
+    },
+
+    async delete(id) {
+      const { meta } = await db
+        .prepare('DELETE FROM records WHERE resource = ? AND id = ?')
+        .bind(resource, id)
+        .run()
+      return meta.changes > 0
+    }
+  }
+}
@@ -0,0 +1,13 @@
+import type { Context } from 'hono'
+import type { ContentfulStatusCode } from 'hono/utils/http-status'
+import { ERROR_STATUS, type ApiErrorBody, type ErrorCode } from 'shared/dist'
+
+/**
+ * Error responses, in the envelope from shared/src/errors. The status comes
+ * from the code.
+ */
+
+export function apiError(c: Context, code: ErrorCode, message: string, details?: Record<string, unknown>) {
+  const body: ApiErrorBody = { error: { code, message, ...(details ? { details } : {}) } }
+  return c.json(body, ERROR_STATUS[code] as ContentfulStatusCode)
+}
@@ -0,0 +1,176 @@
+import { describe, test, expect } from 'bun:test'
+import type { Attendance, Ballot, Dashboard } from 'shared/dist'
+import { ballotExport, dashboardExport, toCsv } from './export'
+import { createWorkbook, crc32, sheetNames } from './xlsx'
+import { createTestEnv, request, adminHeaders } from '../tests/helpers'
+
+const ballot: Ballot = {
+  id: 'b1',
+  question: 'Lunch on Friday?',
+  votes: [
+    { color: 'green', comment: 'Yes, "pizza" please', voterId: 'voter-1', createdAt: '2024-01-01T10:00:00Z' },
+    { color: 'red', comment: '=HYPERLINK("x")', createdAt: '2024-01-01T11:00:00Z' }
+  ],
+  createdAt: '2024-01-01T09:00:00Z',
+  version: 1
+}
+
+const attendance: Attendance = {
+  id: 'a1',
+  title: 'Team offsite',
+  date: '2024-02-01',
+  responses: [{ name: 'Sam', attending: true, timestamp: '2024-01-05T10:00:00Z' }],
+  createdAt: '2024-01-01T09:00:00Z',
+  updatedAt: '2024-01-05T10:00:00Z',
+  version: 1
+}
+
+const dashboard: Dashboard = {
+  id: 'd1',
+  name: 'Q1 plans',
+  ballotIds: ['b1', 'secret'],
+  attendanceIds: ['a1'],
+  createdAt: '2024-01-01T09:00:00Z',
+  updatedAt: '2024-01-01T09:00:00Z',
+  version: 1
+}
+
+const secret: Ballot = { ...ballot, id: 'secret', question: 'Secret budget?', isPrivate: true }
+
+// Entry names from a zip's central directory
+function zipEntries(bytes: Uint8Array): string[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const end = bytes.length - 22
+  const count = view.getUint16(end + 10, true)
+  let offset = view.getUint32(end + 16, true)
+  const names: string[] = []
+  for (let i = 0; i < count; i++) {
+    const nameLength = view.getUint16(offset + 28, true)
+    names.push(new TextDecoder().decode(bytes.subarray(offset + 46, offset + 46 + nameLength)))
+    offset += 46 + nameLength + view.getUint16(offset + 30, true) + view.getUint16(offset + 32, true)
+  }
+  return names
+}
+
+describe('Exports', () => {
+  test('toCsv should quote fields and defuse formulas', () => {
+    const csv = toCsv(ballotExport(ballot).sheets)
+
+    expect(csv).toContain('Results\r\nQuestion,Lunch on Friday?\r\n')
+    expect(csv).toContain('Green,1\r\nYellow,0\r\nRed,1\r\nBallots cast,2\r\n')
+    expect(csv).toContain('2024-01-01T10:00:00Z,Green,"Yes, ""pizza"" please"\r\n')
+    expect(csv).toContain(`2024-01-01T11:00:00Z,Red,"'=HYPERLINK(""x"")"\r\n`)
+  })
+
+  test('ballot JSON should leave out voter ids', () => {
+    const { json } = ballotExport(ballot) as { json: { votes: object[]; results: { winners: string[] } } }
+
+    expect(json.votes[0]).toEqual({ color: 'green', comment: 'Yes, "pizza" please', createdAt: '2024-01-01T10:00:00Z' })
+    expect(json.results.winners).toEqual(['green', 'red'])
+  })
+
+  test('dashboard exports should name sheets after their place in the overview', () => {
+    const data = dashboardExport(dashboard, [ballot], [attendance])
+
+    expect(data.filename).toBe('q1-plans')
+    expect(data.sheets.map(sheet => sheet.name)).toEqual(['Overview', 'B1 Results', 'B1 Votes', 'A1 Responses'])
+  })
+
+  test('sheetNames should make names Excel accepts', () => {
+    expect(sheetNames(['A/B?', 'x'.repeat(40), 'X'.repeat(40), ''])).toEqual(['A B', 'x'.repeat(31), 'X'.repeat(27) + ' (2)', 'Sheet'])
+  })
+
+  test('createWorkbook should zip a sheet per tab', () => {
+    const bytes = createWorkbook([{ name: 'Votes', rows: [['Name', 'Count'], ['<Sam>', 3]] }])
+    const text = new TextDecoder().decode(bytes)
+
+    expect(crc32(new TextEncoder().encode('hello'))).toBe(0x3610a686)
+    expect(zipEntries(bytes)).toEqual([
+      '[Content_Types].xml', '_rels/.rels', 'xl/workbook.xml', 'xl/_rels/workbook.xml.rels', 'xl/styles.xml', 'xl/worksheets/sheet1.xml'
+    ])
+    expect(text).toContain('<sheet name="Votes" sheetId="1" r:id="rId1"/>')
+    expect(text).toContain('<c r="A2" t="inlineStr"><is><t xml:space="preserve">&lt;Sam&gt;</t></is></c><c r="B2"><v>3</v></c>')
+  })
+
+  describe('API', () => {
+    test('should download a ballot as CSV by default', async () => {
+      const env = createTestEnv({ ballots: [ballot] })
+
+      const response = await request(env, 'GET', '/api/ballots/b1/export')
+
+      expect(response.status).toBe(200)
+      expect(response.headers.get('Content-Type')).toBe('text/csv; charset=utf-8')
+      expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="lunch-on-friday.csv"')
+      expect(await response.text()).toContain('Question,Lunch on Friday?')
+    })
+
+    test('should download a ballot as JSON and XLSX', async () => {
+      const env = createTestEnv({ ballots: [ballot] })
+
+      const json = await request(env, 'GET', '/api/ballots/b1/export?format=json')
+      const xlsx = await request(env, 'GET', '/api/ballots/b1/export?format=xlsx')
+
+      expect(await json.json()).toMatchObject({ id: 'b1', question: 'Lunch on Friday?', kind: 'traffic-light' })
+      expect(xlsx.headers.get('Content-Type')).toBe('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet')
+      expect(zipEntries(new Uint8Array(await xlsx.arrayBuffer()))).toContain('xl/worksheets/sheet2.xml')
+    })
+
+    test('should reject unknown formats', async () => {
+      const env = createTestEnv({ ballots: [ballot] })
+
+      const response = await request(env, 'GET', '/api/ballots/b1/export?format=pdf')
+
+      expect(response.status).toBe(400)
+    })
+
+    test('should only export private ballots for their owner or an admin', async () => {
+      const env = createTestEnv({ ballots: [] })
+      const created = await (await request(env, 'POST', '/api/ballots', { body: { question: 'Secret?', isPrivate: true } })).json() as Ballot & { ownerToken: string }
+      const path = `/api/ballots/${created.id}/export`
+
+      expect((await request(env, 'GET', path)).status).toBe(401)
+      expect((await request(env, 'GET', path, { headers: { 'X-Owner-Token': 'wrong' } })).status).toBe(401)
+      expect((await request(env, 'GET', path, { headers: { 'X-Owner-Token': created.ownerToken } })).status).toBe(200)
+      expect((await request(env, 'GET', path, { headers: adminHeaders() })).status).toBe(200)
+    })
+
+    test('should download attendance responses', async () => {
+      const env = createTestEnv({ attendances: [attendance] })
+
+      const response = await request(env, 'GET', '/api/attendance/a1/export')
+
+      expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="team-offsite.csv"')
+      expect(await response.text()).toContain('Name,Attending,Responded\r\nSam,Yes,2024-01-05T10:00:00Z\r\n')
+    })
+
+    test('should bundle a dashboard, leaving private ballots to admins', async () => {
+      const env = createTestEnv({ ballots: [ballot, secret], attendances: [attendance], dashboards: [dashboard] })
+
+      const response = await request(env, 'GET', '/api/dashboards/d1/export?format=json')
+      const asAdmin = await request(env, 'GET', '/api/dashboards/d1/export?format=json', { headers: adminHeaders() })
+      const bundle = await response.json() as { ballots: { id: string }[]; attendance: { id: string }[] }
+
+      expect(bundle.ballots.map(item => item.id)).toEqual(['b1'])
+      expect(bundle.attendance.map(item => item.id)).toEqual(['a1'])
+      expect((await asAdmin.json() as typeof bundle).ballots.map(item => item.id)).toEqual(['b1', 'secret'])
+    })
+
+    test('should bundle a dashboard saved before it had attendance', async () => {
+      const { attendanceIds: _attendanceIds, ...legacy } = dashboard
+      const env = createTestEnv({ ballots: [ballot], dashboards: [legacy as Dashboard] })
+
+      const response = await request(env, 'GET', '/api/dashboards/d1/export?format=json')
+      const bundle = await response.json() as { ballots: { id: string }[]; attendance: { id: string }[] }
+
+      expect(response.status).toBe(200)
+      expect(bundle.ballots.map(item => item.id)).toEqual(['b1'])
+      expect(bundle.attendance).toEqual([])
+    })
+
+    test('should 404 for a missing dashboard', async () => {
+      const response = await request(createTestEnv(), 'GET', '/api/dashboards/missing/export')
+
+      expect(response.status).toBe(404)
+    })
+  })
+})
@@ -0,0 +1,194 @@
+import type { Context } from 'hono'
+import {
+  ballotKind,
+  ballotOptions,
+  isBallotOpen,
+  tallyBallot,
+  voteChoice,
+  type Attendance,
+  type Ballot,
+  type Dashboard,
+  type ExportFormat,
+  type Vote
+} from 'shared/dist'
+import { createWorkbook, type Cell, type Sheet } from './xlsx'
+
+/**
+ * Ballot, attendance and dashboard exports as CSV, JSON or XLSX.
+ *
+ * Each export is built once as `json` and as sheets of rows; the format only
+ * decides how they're written out. A CSV holds every sheet one after another,
+ * each under a row with its name. Votes go out without voter ids.
+ */
+
+export type Export = {
+  filename: string   // Without the extension
+  json: unknown
+  sheets: Sheet[]
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+}
+
+// Lowercase words joined by dashes, e.g. "Lunch on Friday?" -> "lunch-on-friday"
+export function slug(text: string, fallback: string): string {
+  const words = text.toLowerCase().match(/[a-z0-9]+/g)
+  return words ? words.join('-').slice(0, 60).replace(/-$/, '') : fallback
+}
+
+// Labels for a vote's pick: the option chosen, ranked (best first) or approved
+function voteSelection(ballot: Ballot, vote: Vote): string {
+  const labels = new Map(ballotOptions(ballot).map(option => [option.value, option.label]))
+  const label = (value: string) => labels.get(value) ?? value
+
+  if (vote.ranking) return vote.ranking.map(label).join(' > ')
+  if (vote.approvals) return vote.approvals.map(label).join(', ')
+  const choice = voteChoice(vote)
+  return choice ? label(choice) : ''
+}
+
+function ballotJson(ballot: Ballot) {
+  return {
+    id: ballot.id,
+    question: ballot.question,
+    kind: ballotKind(ballot),
+    status: isBallotOpen(ballot) ? 'open' : 'closed',
+    createdAt: ballot.createdAt,
+    ...(ballot.closedAt ? { closedAt: ballot.closedAt } : {}),
+    options: ballotOptions(ballot),
+    results: tallyBallot(ballot),
+    votes: ballot.votes.map(({ voterId: _voterId, ...vote }) => vote)
+  }
+}
+
+// Totals per option; ranked ballots get a column per runoff round
+function resultRows(ballot: Ballot): Cell[][] {
+  const results = tallyBallot(ballot)
+  const options = ballotOptions(ballot)
+
+  if (results.method === 'instant-runoff') {
+    return [
+      ['Option', ...results.rounds.map(round => `Round ${round.round}`)],
+      ...options.map(option => [option.label, ...results.rounds.map(round => round.counts[option.value] ?? null)]),
+      ['Exhausted', ...results.rounds.map(round => round.exhausted)],
+      ['Winner', results.winners.map(winner => options.find(option => option.value === winner)?.label ?? winner).join(', ')]
+    ]
+  }
+
+  return [
+    ['Option', results.method === 'approval' ? 'Approvals' : 'Votes'],
+    ...options.map(option => [option.label, results.totals[option.value] ?? 0]),
+    ['Ballots cast', results.ballotsCast]
+  ]
+}
+
+function ballotSheets(ballot: Ballot, prefix = ''): Sheet[] {
+  return [
+    { name: `${prefix}Results`, rows: [['Question', ballot.question], [], ...resultRows(ballot)] },
+    {
+      name: `${prefix}Votes`,
+      rows: [
+        ['Time', 'Vote', 'Comment'],
+        ...ballot.votes.map(vote => [vote.createdAt, voteSelection(ballot, vote), vote.comment ?? null])
+      ]
+    }
+  ]
+}
+
+function attendanceJson(attendance: Attendance) {
+  return {
+    id: attendance.id,
+    title: attendance.title,
+    date: attendance.date,
+    createdAt: attendance.createdAt,
+    attending: attendance.responses.filter(response => response.attending).length,
+    notAttending: attendance.responses.filter(response => !response.attending).length,
+    responses: attendance.responses
+  }
+}
+
+function attendanceSheets(attendance: Attendance, prefix = ''): Sheet[] {
+  return [{
+    name: `${prefix}Responses`,
+    rows: [
+      ['Event', attendance.title],
+      ['Date', attendance.date],
+      [],
+      ['Name', 'Attending', 'Responded'],
+      ...attendance.responses.map(response => [response.name, response.attending ? 'Yes' : 'No', response.timestamp])
+    ]
+  }]
+}
+
+export function ballotExport(ballot: Ballot): Export {
+  return { filename: slug(ballot.question, ballot.id), json: ballotJson(ballot), sheets: ballotSheets(ballot) }
+}
+
+export function attendanceExport(attendance: Attendance): Export {
+  return { filename: slug(attendance.title, attendance.id), json: attendanceJson(attendance), sheets: attendanceSheets(attendance) }
+}
+
+/**
+ * Everything on a dashboard: an overview sheet, then each ballot's and
+ * attendance poll's sheets, named after their place in the overview.
+ */
+export function dashboardExport(dashboard: Dashboard, ballots: Ballot[], attendances: Attendance[]): Export {
+  const overview: Sheet = {
+    name: 'Overview',
+    rows: [
+      ['Dashboard', dashboard.name],
+      [],
+      ['Sheet', 'Type', 'Title', 'Date', 'Votes or responses'],
+      ...ballots.map((ballot, i) => [`B${i + 1}`, 'Ballot', ballot.question, ballot.createdAt, ballot.votes.length]),
+      ...attendances.map((attendance, i) => [`A${i + 1}`, 'Attendance', attendance.title, attendance.date, attendance.responses.length])
+    ]
+  }
+
+  return {
+    filename: slug(dashboard.name, dashboard.id),
+    json: {
+      id: dashboard.id,
+      name: dashboard.name,
+      ballots: ballots.map(ballotJson),
+      attendance: attendances.map(attendanceJson)
+    },
+    sheets: [
+      overview,
+      ...ballots.flatMap((ballot, i) => ballotSheets(ballot, `B${i + 1} `)),
+      ...attendances.flatMap((attendance, i) => attendanceSheets(attendance, `A${i + 1} `))
+    ]
+  }
+}
+
+// Quotes fields that need it, and defuses text a spreadsheet would run as a formula
+function csvField(cell: Cell): string {
+  if (cell === null) return ''
+  if (typeof cell === 'number') return String(cell)
+  const text = /^[=+\-@\t\r]/.test(cell) ? `'${cell}` : cell
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCsv(sheets: Sheet[]): string {
+  const rows = (sheet: Sheet) => sheet.rows.map(row => row.map(csvField).join(','))
+  const lines = sheets.length === 1
+    ? rows(sheets[0]!)
+    : sheets.flatMap((sheet, i) => [...(i > 0 ? [''] : []), csvField(sheet.name), ...rows(sheet)])
+  return lines.join('\r\n') + '\r\n'
+}
+
+// The export as a download in `format`
+export function exportResponse(c: Context, data: Export, format: ExportFormat) {
+  const body = format === 'csv'
+    ? toCsv(data.sheets)
+    : format === 'json'
+      ? JSON.stringify({ exportedAt: new Date().toISOString(), ...(data.json as object) }, null, 2)
+      : createWorkbook(data.sheets)
+
+  return c.body(body, 200, {
+    'Content-Type': CONTENT_TYPES[format],
+    'Content-Disposition': `attachment; filename="${data.filename}.${format}"`
+  })
+}
@@ -1,5 +1,11 @@
 import type { Context } from 'hono'
+import type { ListQuery } from 'shared/dist'
 import { createSpan, addSpanAttributes, recordSpanEvent, setSpanStatus } from './telemetry'
+import type { Repository } from './repository'
+import type { Bindings } from './bindings'
+import { apiError } from './errors'
+import type { JsonInput, QueryInput } from './validation'
+import { listPage, type ListFields } from './pagination'
 
 type SpanType = ReturnType<typeof createSpan>
 
@@ -32,31 +38,25 @@ export function withSpan<T>(
  */
 export interface ResourceConfig<T extends { id: string; version?: number }> {
   name: string                                    // e.g., 'ballot', 'dashboard'
-  getAll: (kv: KVNamespace) => Promise<T[]>      // Function to load all items
-  saveAll: (kv: KVNamespace, items: T[]) => Promise<void>  // Function to save all items
+  repository: (env: Bindings) => Repository<T>    // Resolves the storage backend from the worker bindings
 }
 
 /**
- * Creates a handler for GET /api/{resource} - list all items
+ * Creates a handler for GET /api/{resource} - one page of items, see ./pagination.
+ * The route must validate its query with `validateQuery(listQuerySchema)`.
  */
-export function createListHandler<T extends { id: string; version?: number }>(
+export function createListHandler<T extends { id: string; version?: number; createdAt: string }>(
   config: ResourceConfig<T>,
-  options?: {
+  options: {
+    fields: ListFields<T>
     filter?: (item: T) => boolean
-    sort?: (a: T, b: T) => number
     transform?: (items: T[]) => any[]
   }
 ) {
-  return async (c: Context) => {
+  return async (c: Context<{ Bindings: Bindings }, string, QueryInput<ListQuery>>) => {
     return withSpan(`get_all_${config.name}s`, async (span) => {
-      const items = await config.getAll(c.env.BALLOTS_KV)
-
-      let result = options?.filter ? items.filter(options.filter) : items
-      if (options?.sort) {
-        result = result.sort(options.sort)
-      }
-
-      const output = options?.transform ? options.transform(result) : result
+      const items = await config.repository(c.env).list()
+      const result = options.filter ? items.filter(options.filter) : items
 
       addSpanAttributes({
         [`${config.name}.count`]: result.length,
@@ -67,7 +67,7 @@ export function createListHandler<T extends { id: string; version?: number }>(
         [`${config.name}.count`]: result.length
       })
 
-      return c.json(output)
+      return listPage(c, result, options.fields, options.transform)
     })
   }
 }
@@ -90,14 +90,13 @@ export function createGetByIdHandler<T extends { id: string; version?: number }>
         'operation': `get_single_${config.name}`
       })
 
-      const items = await config.getAll(c.env.BALLOTS_KV)
-      const item = items.find(i => i.id === id)
+      const item = await config.repository(c.env).get(id)
 
       if (!item) {
         addSpanAttributes({ [`${config.name}.found`]: false })
         recordSpanEvent(`${config.name}_not_found`, { [`${config.name}.id`]: id })
         setSpanStatus(span, false, `${config.name} not found`)
-        return c.json({ error: `${capitalize(config.name)} not found` }, 404)
+        return apiError(c, 'NOT_FOUND', `${capitalize(config.name)} not found`)
       }
 
       const extraAttrs = options?.includeAttributes?.(item) || {}
@@ -124,6 +123,7 @@ export function createDeleteHandler<T extends { id: string; version?: number }>(
   options?: {
     buildResponse?: (deleted: T) => any
     eventName?: string
+    afterDelete?: (c: Context, deleted: T) => Promise<void>  // e.g. clean up records keyed by the same id
   }
 ) {
   return async (c: Context) => {
@@ -135,22 +135,21 @@ export function createDeleteHandler<T extends { id: string; version?: number }>(
         'operation': `delete_${config.name}`
       })
 
-      const items = await config.getAll(c.env.BALLOTS_KV)
-      const index = items.findIndex(i => i.id === id)
+      const repository = config.repository(c.env)
+      const deleted = await repository.get(id)
 
-      if (index === -1) {
+      if (!deleted) {
         addSpanAttributes({ [`${config.name}.found`]: false })
         recordSpanEvent('delete_failed', {
           [`${config.name}.id`]: id,
           'error': `${config.name}_not_found`
         })
         setSpanStatus(span, false, `${config.name} not found`)
-        return c.json({ error: `${capitalize(config.name)} not found` }, 404)
+        return apiError(c, 'NOT_FOUND', `${capitalize(config.name)} not found`)
       }
 
-      const deleted = items[index]!
-      items.splice(index, 1)
-      await config.saveAll(c.env.BALLOTS_KV, items)
+      await repository.delete(id)
+      await options?.afterDelete?.(c, deleted)
 
       addSpanAttributes({ [`${config.name}.found`]: true })
       recordSpanEvent(options?.eventName || `${config.name}_deleted`, {
@@ -169,94 +168,82 @@ export function createDeleteHandler<T extends { id: string; version?: number }>(
 
 /**
  * Creates a handler for POST /api/{resource} - create new item
- * Initializes version to 1 for new items
+ * Initializes version to 1 for new items. The route validates the body first
+ * (see ./validation).
  */
 export function createCreateHandler<T extends { id: string; version?: number }, TInput>(
   config: ResourceConfig<T>,
   options: {
-    validate: (body: any) => { valid: boolean; error?: string }
-    buildItem: (body: TInput, existingItems: T[]) => T
+    buildItem: (body: TInput) => T
     includeAttributes?: (item: T) => Record<string, any>
+    afterInsert?: (c: Context, item: T) => Promise<Record<string, unknown>>  // Extra fields for the 201 response
   }
 ) {
-  return async (c: Context) => {
+  return async (c: Context<{ Bindings: Bindings }, string, JsonInput<TInput>>) => {
     return withSpan(`create_${config.name}`, async (span) => {
-      const body = await c.req.json()
+      const body = c.req.valid('json')
 
       addSpanAttributes({ 'operation': `create_${config.name}` })
 
-      const validation = options.validate(body)
-      if (!validation.valid) {
-        addSpanAttributes({
-          'validation.failed': true,
-          'error': validation.error
-        })
-        recordSpanEvent('validation_failed', { 'reason': validation.error })
-        setSpanStatus(span, false, validation.error)
-        return c.json({ error: validation.error }, 400)
-      }
-
-      const items = await config.getAll(c.env.BALLOTS_KV)
-      const newItem = options.buildItem(body, items)
+      const newItem = options.buildItem(body)
       // Initialize version to 1 for new items
       const newItemWithVersion = { ...newItem, version: 1 }
 
-      items.push(newItemWithVersion)
-      await config.saveAll(c.env.BALLOTS_KV, items)
+      await config.repository(c.env).insert(newItemWithVersion)
 
       const extraAttrs = options.includeAttributes?.(newItemWithVersion) || {}
       addSpanAttributes({
         [`${config.name}.id`]: newItemWithVersion.id,
-        [`${config.name}s.total_count`]: items.length,
         'version': 1,
         ...extraAttrs
       })
 
       recordSpanEvent(`${config.name}_created`, {
         [`${config.name}.id`]: newItemWithVersion.id,
-        [`${config.name}s.total_count`]: items.length,
         'version': 1
       })
 
-      return c.json(newItemWithVersion, 201)
+      const extraFields = await options.afterInsert?.(c, newItemWithVersion)
+      return c.json({ ...newItemWithVersion, ...extraFields }, 201)
     })
   }
 }
 
 /**
  * Creates a handler for PUT /api/{resource}/:id - update item
- * Supports optimistic locking via version field
+ * Supports optimistic locking via version field. The route validates the body
+ * first (see ./validation).
  */
-export function createUpdateHandler<T extends { id: string; version?: number }>(
+export function createUpdateHandler<T extends { id: string; version?: number }, TInput extends { version?: number }>(
   config: ResourceConfig<T>,
   options: {
-    applyUpdates: (current: T, body: any) => T
+    applyUpdates: (current: T, body: TInput) => T
     includeAttributes?: (updated: T, original: T) => Record<string, any>
     skipVersionCheck?: boolean  // For updates that don't need optimistic locking
+    afterUpdate?: (c: Context, updated: T, original: T) => Promise<void>  // e.g. keep a revision
   }
 ) {
-  return async (c: Context) => {
-    const id = c.req.param('id')
+  return async (c: Context<{ Bindings: Bindings }, string, JsonInput<TInput>>) => {
+    const id = c.req.param('id')!
 
     return withSpan(`update_${config.name}`, async (span) => {
-      const body = await c.req.json()
+      const body = c.req.valid('json')
 
       addSpanAttributes({
         [`${config.name}.id`]: id,
         'operation': `update_${config.name}`
       })
 
-      const items = await config.getAll(c.env.BALLOTS_KV)
-      const index = items.findIndex(i => i.id === id)
+      const repository = config.repository(c.env)
+      const original = await repository.get(id)
 
-      if (index === -1) {
+      if (!original) {
         addSpanAttributes({ [`${config.name}.found`]: false })
         recordSpanEvent(`${config.name}_not_found`, { [`${config.name}.id`]: id })
         setSpanStatus(span, false, `${config.name} not found`)
-        return c.json({ error: `${capitalize(config.name)} not found` }, 404)
+        return apiError(c, 'NOT_FOUND', `${capitalize(config.name)} not found`)
       }
 
-      const original = items[index]!
       const currentVersion = original.version ?? 1
       const incomingVersion = body.version ?? 1
 
@@ -274,17 +261,32 @@ export function createUpdateHandler<T extends { id: string; version?: number }>(
           'version.incoming': incomingVersion
         })
         setSpanStatus(span, false, `Version conflict - ${config.name} was modified by another request`)
-        return c.json({
-          error: `Version conflict - ${config.name} was modified by another request. Please refresh and try again.`,
-          currentVersion
-        }, 409)
+        return apiError(c, 'VERSION_CONFLICT', `Version conflict - ${config.name} was modified by another request. Please refresh and try again.`, { currentVersion })
       }
 
       const updated = options.applyUpdates(original, body)
-      // Increment version on successful update
-      const updatedWithVersion = { ...updated, version: currentVersion + 1 }
-      items[index] = updatedWithVersion
-      await config.saveAll(c.env.BALLOTS_KV, items)
+      // The repository re-checks the version on write and increments it
+      const result = await repository.updateWithVersion(updated, currentVersion)
+
+      if (!result.ok && result.reason === 'not_found') {
+        addSpanAttributes({ [`${config.name}.found`]: false })
+        recordSpanEvent(`${config.name}_not_found`, { [`${config.name}.id`]: id })
+        setSpanStatus(span, false, `${config.name} not found`)
+        return apiError(c, 'NOT_FOUND', `${capitalize(config.name)} not found`)
+      }
+
+      if (!result.ok) {
+        addSpanAttributes({ 'version.conflict': true, 'version.current': result.currentVersion })
+        recordSpanEvent('version_conflict', {
+          [`${config.name}.id`]: id,
+          'version.current': result.currentVersion,
+          'version.incoming': incomingVersion
+        })
+        setSpanStatus(span, false, `Version conflict - ${config.name} was modified by another request`)
+        return apiError(c, 'VERSION_CONFLICT', `Version conflict - ${config.name} was modified by another request. Please refresh and try again.`, { currentVersion: result.currentVersion })
+      }
+
+      const updatedWithVersion = result.item
 
       const extraAttrs = options.includeAttributes?.(updatedWithVersion, original) || {}
       addSpanAttributes({
@@ -299,6 +301,8 @@ export function createUpdateHandler<T extends { id: string; version?: number }>(
         ...extraAttrs
       })
 
+      await options.afterUpdate?.(c, updatedWithVersion, original)
+
       return c.json(updatedWithVersion)
     })
   }
@@ -325,7 +329,7 @@ export function createBatchHandler<T extends { id: string; version?: number }>(
           'error': 'No IDs provided'
         })
         setSpanStatus(span, false, 'IDs query parameter is required')
-        return c.json({ error: 'IDs query parameter is required (e.g., ?ids=id1,id2,id3)' }, 400)
+        return apiError(c, 'VALIDATION_FAILED', 'IDs query parameter is required (e.g., ?ids=id1,id2,id3)')
       }
 
       const ids = idsParam.split(',').map(id => id.trim()).filter(id => id)
@@ -336,7 +340,7 @@ export function createBatchHandler<T extends { id: string; version?: number }>(
           'error': 'No valid IDs provided'
         })
         setSpanStatus(span, false, 'No valid IDs provided')
-        return c.json({ error: 'No valid IDs provided' }, 400)
+        return apiError(c, 'VALIDATION_FAILED', 'No valid IDs provided')
       }
 
       if (ids.length > MAX_BATCH_SIZE) {
@@ -345,7 +349,7 @@ export function createBatchHandler<T extends { id: string; version?: number }>(
           'error': 'Too many IDs requested'
         })
         setSpanStatus(span, false, `Maximum ${MAX_BATCH_SIZE} IDs allowed per request`)
-        return c.json({ error: `Maximum ${MAX_BATCH_SIZE} IDs allowed per request` }, 400)
+        return apiError(c, 'VALIDATION_FAILED', `Maximum ${MAX_BATCH_SIZE} IDs allowed per request`)
       }
 
       addSpanAttributes({
@@ -353,10 +357,9 @@ export function createBatchHandler<T extends { id: string; version?: number }>(
         [`${config.name}.requested_count`]: ids.length
       })
 
-      const allItems = await config.getAll(c.env.BALLOTS_KV)
-      const requestedItems = ids
-        .map(id => allItems.find(item => item.id === id))
-        .filter((item): item is T => item !== undefined)
+      const repository = config.repository(c.env)
+      const results: (T | null)[] = await Promise.all(ids.map(id => repository.get(id)))
+      const requestedItems = results.filter((item): item is T => item !== null)
 
       addSpanAttributes({
         [`${config.name}.found_count`]: requestedItems.length,
@@ -0,0 +1,174 @@
+import { describe, test, expect } from 'bun:test'
+import type { Attendance, Dashboard } from 'shared/dist'
+import { escapeText, foldLine, toICalendar } from './ical'
+import { createTestEnv, request } from '../tests/helpers'
+
+const attendance: Attendance = {
+  id: 'a1',
+  title: 'Offsite; day one, all hands',
+  date: '2024-12-31',
+  responses: [
+    { name: 'Sam', attending: true, timestamp: '2024-12-01T00:00:00Z' },
+    { name: 'Robin', attending: false, timestamp: '2024-12-02T00:00:00Z' }
+  ],
+  createdAt: '2024-11-01T08:00:00Z',
+  updatedAt: '2024-12-02T09:30:15.250Z',
+  version: 3
+}
+
+type Component = { name: string, properties: { name: string, params: string, value: string }[], components: Component[] }
+
+// Just enough of an RFC 5545 reader to check what we write: unfolds lines
+// and nests BEGIN/END blocks
+function parseCalendar(text: string): Component {
+  expect(text.endsWith('\r\n')).toBe(true)
+  const physical = text.slice(0, -2).split('\r\n')
+  for (const line of physical) {
+    expect(line).not.toContain('\n')
+    expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75)
+  }
+
+  const lines = physical.reduce<string[]>((unfolded, line) => {
+    if (line.startsWith(' ')) unfolded[unfolded.length - 1] += line.slice(1)
+    else unfolded.push(line)
+    return unfolded
+  }, [])
+
+  const stack: Component[] = [{ name: 'ROOT', properties: [], components: [] }]
+  for (const line of lines) {
+    const match = line.match(/^([A-Z-]+)((?:;[^:]*)?):(.*)$/)
+    expect(match).not.toBeNull()
+    const [, name, params, value] = match!
+    if (name === 'BEGIN') {
+      const component = { name: value!, properties: [], components: [] }
+      stack.at(-1)!.components.push(component)
+      stack.push(component)
+    } else if (name === 'END') {
+      expect(stack.pop()!.name).toBe(value!)
+    } else {
+      stack.at(-1)!.properties.push({ name: name!, params: params!, value: value! })
+    }
+  }
+  expect(stack).toHaveLength(1)
+  expect(stack[0]!.components).toHaveLength(1)
+  return stack[0]!.components[0]!
+}
+
+const values = (component: Component, name: string) => component.properties.filter(property => property.name === name)
+
+// Properties the spec requires exactly once
+function expectRequiredProperties(calendar: Component) {
+  expect(calendar.name).toBe('VCALENDAR')
+  expect(values(calendar, 'VERSION').map(property => property.value)).toEqual(['2.0'])
+  expect(values(calendar, 'PRODID')).toHaveLength(1)
+  for (const event of calendar.components) {
+    expect(event.name).toBe('VEVENT')
+    for (const name of ['UID', 'DTSTAMP', 'DTSTART']) expect(values(event, name)).toHaveLength(1)
+    expect(values(event, 'DTSTAMP')[0]!.value).toMatch(/^\d{8}T\d{6}Z$/)
+  }
+}
+
+describe('iCalendar', () => {
+  test('should write an all-day event with the required properties', () => {
+    const calendar = parseCalendar(toICalendar({ name: 'Team', events: [attendance] }, new Date('2025-01-01T12:00:00Z')))
+
+    expectRequiredProperties(calendar)
+    const [event] = calendar.components
+    const property = (name: string) => values(event!, name)[0]
+    expect(property('UID')!.value).toBe('attendance-a1@ballot-app')
+    expect(property('DTSTAMP')!.value).toBe('20250101T120000Z')
+    expect(property('DTSTART')).toEqual({ name: 'DTSTART', params: ';VALUE=DATE', value: '20241231' })
+    expect(property('DTEND')).toEqual({ name: 'DTEND', params: ';VALUE=DATE', value: '20250101' })
+    expect(property('SUMMARY')!.value).toBe('Offsite\\; day one\\, all hands')
+    expect(property('DESCRIPTION')!.value).toBe('1 attending\\, 1 not attending')
+    expect(property('LAST-MODIFIED')!.value).toBe('20241202T093015Z')
+    expect(property('SEQUENCE')!.value).toBe('2')
+  })
+
+  test('escapeText should escape backslashes before adding its own', () => {
+    expect(escapeText('a\\b;c,d\r\ne\nf')).toBe('a\\\\b\\;c\\,d\\ne\\nf')
+  })
+
+  test('foldLine should keep lines to 75 octets without splitting characters', () => {
+    const line = `SUMMARY:${'Café ☕ '.repeat(30)}`
+    const folded = foldLine(line)
+
+    const parts = folded.split('\r\n')
+    expect(parts.length).toBeGreaterThan(1)
+    for (const part of parts) expect(new TextEncoder().encode(part).length).toBeLessThanOrEqual(75)
+    expect(parts.slice(1).every(part => part.startsWith(' '))).toBe(true)
+    expect(parts.map((part, i) => i ? part.slice(1) : part).join('')).toBe(line)
+    expect(foldLine('SUMMARY:Short')).toBe('SUMMARY:Short')
+  })
+
+  describe('API', () => {
+    test('should download one poll as an event', async () => {
+      const env = createTestEnv({ attendances: [attendance] })
+
+      const res = await request(env, 'GET', '/api/attendance/a1.ics')
+      expect(res.status).toBe(200)
+      expect(res.headers.get('Content-Type')).toBe('text/calendar; charset=utf-8')
+      expect(res.headers.get('Content-Disposition')).toBe('attachment; filename="offsite-day-one-all-hands.ics"')
+      const calendar = parseCalendar(await res.text())
+      expectRequiredProperties(calendar)
+      expect(calendar.components).toHaveLength(1)
+
+      expect((await request(env, 'GET', '/api/attendance/nope.ics')).status).toBe(404)
+      expect((await request(env, 'GET', '/api/attendance/a1')).status).toBe(200)
+    })
+
+    test('should list every poll in the feed by date, or a dashboard\'s', async () => {
+      const later = { ...attendance, id: 'a2', title: 'Retro', date: '2025-02-01' }
+      const earlier = { ...attendance, id: 'a3', title: 'Kickoff', date: '2024-01-15' }
+      const env = createTestEnv({ attendances: [later, attendance, earlier] })
+
+      const feed = await request(env, 'GET', '/api/attendance/feed.ics')
+      expect(feed.status).toBe(200)
+      expect(feed.headers.get('Content-Disposition')).toBeNull()
+      const calendar = parseCalendar(await feed.text())
+      expectRequiredProperties(calendar)
+      expect(calendar.components.map(event => values(event, 'UID')[0]!.value)).toEqual([
+        'attendance-a3@ballot-app',
+        'attendance-a1@ballot-app',
+        'attendance-a2@ballot-app'
+      ])
+
+      const dashboard = await (await request(env, 'POST', '/api/dashboards', { body: { name: 'Q1, plans' } })).json() as Dashboard & { ownerToken: string }
+      await request(env, 'PUT', `/api/dashboards/${dashboard.id}`, {
+        body: { attendanceIds: ['a2', 'gone'], version: 1 },
+        headers: { 'X-Dashboard-Token': dashboard.ownerToken }
+      })
+      const dashboardCalendar = parseCalendar(await (await request(env, 'GET', `/api/attendance/feed.ics?dashboardId=${dashboard.id}`)).text())
+      expect(values(dashboardCalendar, 'X-WR-CALNAME')[0]!.value).toBe('Q1\\, plans')
+      expect(dashboardCalendar.components.map(event => values(event, 'SUMMARY')[0]!.value)).toEqual(['Retro'])
+
+      expect((await request(env, 'GET', '/api/attendance/feed.ics?dashboardId=nope')).status).toBe(404)
+    })
+
+    test('should leave out polls with a free-text date instead of failing', async () => {
+      const env = createTestEnv({ attendances: [attendance, { ...attendance, id: 'a2', date: 'Friday after next' }] })
+
+      const feed = await request(env, 'GET', '/api/attendance/feed.ics')
+      expect(feed.status).toBe(200)
+      expect(parseCalendar(await feed.text()).components.map(event => values(event, 'UID')[0]!.value)).toEqual(['attendance-a1@ballot-app'])
+
+      const download = await request(env, 'GET', '/api/attendance/a2.ics')
+      expect(download.status).toBe(200)
+      expect(parseCalendar(await download.text()).components).toEqual([])
+      expect((await request(env, 'POST', '/api/attendance', { body: { title: 'Later', date: 'Friday after next' } })).status).toBe(400)
+    })
+
+    test('should narrow the feed to a series and leave out trashed polls', async () => {
+      const env = createTestEnv({
+        attendances: [
+          { ...attendance, seriesId: 's1' },
+          { ...attendance, id: 'a2', seriesId: 's1', deletedAt: '2025-01-01T00:00:00Z' },
+          { ...attendance, id: 'a3' }
+        ]
+      })
+
+      const calendar = parseCalendar(await (await request(env, 'GET', '/api/attendance/feed.ics?seriesId=s1')).text())
+      expect(calendar.components.map(event => values(event, 'UID')[0]!.value)).toEqual(['attendance-a1@ballot-app'])
+    })
+  })
+})
@@ -0,0 +1,111 @@
+import type { Context } from 'hono'
+import { addDays, isCalendarDate, type Attendance } from 'shared/dist'
+import { slug } from './export'
+
+/**
+ * Attendance polls as iCalendar (RFC 5545), for GET /api/attendance/:id.ics
+ * and the subscribable GET /api/attendance/feed.ics.
+ *
+ * Each poll is an all-day VEVENT whose UID is derived from the poll's id, so
+ * a calendar that subscribes to the feed updates the event rather than adding
+ * it again. SEQUENCE follows the poll's version. Polls stored before dates
+ * had to be YYYY-MM-DD can hold free text; those are left out.
+ */
+
+export type Calendar = {
+  name: string
+  events: Attendance[]
+}
+
+const PRODUCT_ID = '-//Ballot App//Attendance//EN'
+const MAX_LINE_OCTETS = 75
+
+// How often subscribed calendars should check the feed, see RFC 7986
+const REFRESH_INTERVAL = 'PT1H'
+
+const encoder = new TextEncoder()
+
+// TEXT values escape backslashes, semicolons, commas and newlines
+export function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+// Splits a content line after 75 octets, without breaking up a character
+export function foldLine(line: string): string {
+  const parts: string[] = []
+  let part = ''
+  let octets = 0
+  for (const char of line) {
+    const size = encoder.encode(char).length
+    // Continuation lines start with a space, which counts towards their length
+    if (octets + size > MAX_LINE_OCTETS) {
+      parts.push(part)
+      part = ' '
+      octets = 1
+    }
+    part += char
+    octets += size
+  }
+  parts.push(part)
+  return parts.join('\r\n')
+}
+
+// "2025-01-06" -> "20250106"
+const icalDate = (date: string) => date.replace(/-/g, '')
+
+// "2025-01-06T09:30:00.000Z" -> "20250106T093000Z"
+const icalTimestamp = (timestamp: string) => new Date(timestamp).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+
+function eventLines(attendance: Attendance, now: Date): string[] {
+  const attending = attendance.responses.filter(response => response.attending).length
+  const notAttending = attendance.responses.length - attending
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:attendance-${attendance.id}@ballot-app`,
+    `DTSTAMP:${icalTimestamp(now.toISOString())}`,
+    `DTSTART;VALUE=DATE:${icalDate(attendance.date)}`,
+    // All-day events end on the following day, exclusive
+    `DTEND;VALUE=DATE:${icalDate(addDays(attendance.date, 1))}`,
+    `SUMMARY:${escapeText(attendance.title)}`,
+    `DESCRIPTION:${escapeText(`${attending} attending, ${notAttending} not attending`)}`,
+    `CREATED:${icalTimestamp(attendance.createdAt)}`,
+    `LAST-MODIFIED:${icalTimestamp(attendance.updatedAt)}`,
+    `SEQUENCE:${(attendance.version ?? 1) - 1}`,
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT'
+  ]
+}
+
+export function toICalendar({ name, events }: Calendar, now: Date = new Date()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `NAME:${escapeText(name)}`,
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+    ...events.filter(event => isCalendarDate(event.date)).flatMap(event => eventLines(event, now)),
+    'END:VCALENDAR'
+  ]
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+// One poll as a download
+export function attendanceCalendarResponse(c: Context, attendance: Attendance) {
+  return c.body(toICalendar({ name: attendance.title, events: [attendance] }), 200, {
+    'Content-Type': 'text/calendar; charset=utf-8',
+    'Content-Disposition': `attachment; filename="${slug(attendance.title, attendance.id)}.ics"`
+  })
+}
+
+// A feed to subscribe to - shown inline so calendar apps can read it
+export function calendarFeedResponse(c: Context, calendar: Calendar) {
+  return c.body(toICalendar(calendar), 200, { 'Content-Type': 'text/calendar; charset=utf-8' })
+}
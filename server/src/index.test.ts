@@ -1,5 +1,8 @@
 import { describe, test, expect, beforeEach, mock } from 'bun:test'
 import { Hono } from 'hono'
+import { createTestEnv, request, adminHeaders, voterHeaders } from '../tests/helpers'
+import app from './index'
+import type { AdminBallot, ApiErrorBody, Ballot, Page, Vote } from 'shared/dist'
 
 // Mock the telemetry module
 const mockTelemetry = {
@@ -86,6 +89,45 @@ describe('Ballot API', () => {
       expect(mockResponse[0]).toHaveProperty('question', 'Test ballot?')
       expect(mockResponse[0]?.votes).toHaveLength(2)
     })
+
+    const seeded = (count: number) => Array.from({ length: count }, (_, i) => ({
+      id: `b${i}`,
+      question: i % 2 ? `Lunch ${i}?` : `Standup ${i}?`,
+      votes: [],
+      createdAt: new Date(Date.UTC(2024, 0, i + 1)).toISOString(),
+      isPrivate: i === 4
+    }))
+
+    test('should page public ballots newest first', async () => {
+      const env = createTestEnv({ ballots: seeded(6) })
+
+      const first = await (await request(env, 'GET', '/api/ballots?limit=3')).json() as Page<Ballot>
+      const second = await (await request(env, 'GET', `/api/ballots?limit=3&cursor=${first.nextCursor}`)).json() as Page<Ballot>
+
+      expect(first.items.map(ballot => ballot.id)).toEqual(['b5', 'b3', 'b2'])
+      expect(second.items.map(ballot => ballot.id)).toEqual(['b1', 'b0'])
+      expect(second.nextCursor).toBeNull()
+    })
+
+    test('should search questions and filter by creation time', async () => {
+      const env = createTestEnv({ ballots: seeded(6) })
+
+      const page = await (await request(env, 'GET', '/api/ballots?q=lunch&createdAfter=2024-01-02T12:00:00Z&sort=oldest')).json() as Page<Ballot>
+
+      expect(page.items.map(ballot => ballot.id)).toEqual(['b3', 'b5'])
+    })
+
+    test('should reject bad limits and cursors', async () => {
+      const env = createTestEnv({ ballots: seeded(2) })
+
+      const limit = await request(env, 'GET', '/api/ballots?limit=1000')
+      const cursor = await request(env, 'GET', '/api/ballots?cursor=nonsense')
+
+      expect(limit.status).toBe(400)
+      expect(((await limit.json()) as ApiErrorBody).error.message).toBe('Limit must be at most 100')
+      expect(cursor.status).toBe(400)
+      expect(((await cursor.json()) as ApiErrorBody).error.message).toBe('Cursor is not valid')
+    })
   })
 
   describe('POST /api/ballots', () => {
@@ -142,6 +184,409 @@ describe('Ballot API', () => {
       expect(updatedBallot.votes[1]).toEqual(newVote)
     })
   })
+
+  describe('POST /api/ballots/:id/votes', () => {
+    const storedBallot = {
+      id: 'test-1',
+      question: 'Test ballot?',
+      votes: [{ color: 'green', comment: 'Good idea', createdAt: '2024-01-01T10:00:00Z' }],
+      createdAt: '2024-01-01T09:00:00Z',
+      version: 1
+    }
+
+    test('should append a vote with a server-stamped timestamp', async () => {
+      const env = createTestEnv({ ballots: [storedBallot] })
+
+      const res = await request(env, 'POST', '/api/ballots/test-1/votes', {
+        body: { color: 'yellow', comment: '  Maybe  ', createdAt: '1999-01-01T00:00:00Z' }
+      })
+      const ballot = await res.json() as any
+
+      expect(res.status).toBe(201)
+      expect(ballot.votes).toHaveLength(2)
+      expect(ballot.votes[0]).toEqual(storedBallot.votes[0])
+      expect(ballot.votes[1].color).toBe('yellow')
+      expect(ballot.votes[1].comment).toBe('Maybe')
+      expect(ballot.votes[1].createdAt).not.toBe('1999-01-01T00:00:00Z')
+      expect(ballot.version).toBe(2)
+    })
+
+    test('should ignore a votes array sent by the client', async () => {
+      const env = createTestEnv({ ballots: [storedBallot] })
+
+      const res = await request(env, 'POST', '/api/ballots/test-1/votes', {
+        body: { color: 'red', votes: [] }
+      })
+      const ballot = await res.json() as any
+
+      expect(res.status).toBe(201)
+      expect(ballot.votes).toHaveLength(2)
+      expect(ballot.votes[1].comment).toBeUndefined()
+    })
+
+    test('should reject an unknown color', async () => {
+      const env = createTestEnv({ ballots: [storedBallot] })
+
+      const res = await request(env, 'POST', '/api/ballots/test-1/votes', { body: { color: 'blue' } })
+
+      expect(res.status).toBe(400)
+    })
+
+    test('should reject an overlong comment', async () => {
+      const env = createTestEnv({ ballots: [storedBallot] })
+
+      const res = await request(env, 'POST', '/api/ballots/test-1/votes', {
+        body: { color: 'green', comment: 'x'.repeat(1001) }
+      })
+
+      expect(res.status).toBe(400)
+    })
+
+    test('should return 404 for a missing ballot', async () => {
+      const env = createTestEnv({ ballots: [storedBallot] })
+
+      const res = await request(env, 'POST', '/api/ballots/missing/votes', { body: { color: 'green' } })
+
+      expect(res.status).toBe(404)
+    })
+  })
+
+  describe('Ballot kinds', () => {
+    const createBallot = async (env: ReturnType<typeof createTestEnv>, body: Record<string, unknown>) =>
+      request(env, 'POST', '/api/ballots', { body: { question: 'Pick one', ...body } })
+
+    test('should default to traffic-light and store picks as colors', async () => {
+      const env = createTestEnv({ ballots: [] })
+      const created = await (await createBallot(env, {})).json() as any
+      expect(created.kind).toBe('traffic-light')
+
+      const res = await request(env, 'POST', `/api/ballots/${created.id}/votes`, { body: { choice: 'red' } })
+      const ballot = await res.json() as any
+
+      expect(res.status).toBe(201)
+      expect(ballot.votes[0].color).toBe('red')
+      expect(ballot.votes[0].choice).toBeUndefined()
+    })
+
+    test('should accept fist-of-five and yes/no votes within their scales', async () => {
+      const env = createTestEnv({ ballots: [] })
+      const scale = await (await createBallot(env, { kind: 'scale' })).json() as any
+      const yesNo = await (await createBallot(env, { kind: 'yes-no' })).json() as any
+
+      expect((await request(env, 'POST', `/api/ballots/${scale.id}/votes`, { body: { choice: '4' } })).status).toBe(201)
+      expect((await request(env, 'POST', `/api/ballots/${scale.id}/votes`, { body: { choice: '6' } })).status).toBe(400)
+      expect((await request(env, 'POST', `/api/ballots/${yesNo.id}/votes`, { body: { choice: 'no' } })).status).toBe(201)
+      expect((await request(env, 'POST', `/api/ballots/${yesNo.id}/votes`, { body: { color: 'green' } })).status).toBe(400)
+    })
+
+    test('should store custom choices and only accept their values', async () => {
+      const env = createTestEnv({ ballots: [] })
+      const created = await (await createBallot(env, { kind: 'choice', options: [' Pizza ', 'Tacos', 'Sushi'] })).json() as any
+
+      expect(created.options).toEqual([
+        { value: '1', label: 'Pizza' },
+        { value: '2', label: 'Tacos' },
+        { value: '3', label: 'Sushi' }
+      ])
+
+      const voted = await request(env, 'POST', `/api/ballots/${created.id}/votes`, { body: { choice: '2' } })
+      expect(((await voted.json()) as any).votes[0].choice).toBe('2')
+
+      const rejected = await request(env, 'POST', `/api/ballots/${created.id}/votes`, { body: { choice: 'Pizza' } })
+      expect(rejected.status).toBe(400)
+      expect(((await rejected.json()) as any).error.message).toBe('Choice must be one of: 1, 2, 3')
+    })
+
+    test('should reject bad kinds and option lists', async () => {
+      const env = createTestEnv({ ballots: [] })
+
+      expect((await createBallot(env, { kind: 'runoff' })).status).toBe(400)
+      expect((await createBallot(env, { kind: 'ranked' })).status).toBe(400)
+      expect((await createBallot(env, { kind: 'choice', options: ['Only one'] })).status).toBe(400)
+      expect((await createBallot(env, { kind: 'choice', options: ['Same', 'same'] })).status).toBe(400)
+      expect((await createBallot(env, { kind: 'choice', options: ['A', ''] })).status).toBe(400)
+      expect((await createBallot(env, { kind: 'yes-no', options: ['A', 'B'] })).status).toBe(400)
+    })
+
+    test('should store rankings and reject incomplete or repeated ones', async () => {
+      const env = createTestEnv({ ballots: [] })
+      const created = await (await createBallot(env, { kind: 'ranked', options: ['Pizza', 'Tacos', 'Sushi'] })).json() as any
+      const vote = (body: Record<string, unknown>) => request(env, 'POST', `/api/ballots/${created.id}/votes`, { body })
+
+      const voted = await vote({ ranking: ['3', '1'], choice: '2' })
+      expect(voted.status).toBe(201)
+      expect(((await voted.json()) as any).votes[0]).toMatchObject({ ranking: ['3', '1'] })
+
+      expect((await vote({ ranking: ['1', '1'] })).status).toBe(400)
+      expect((await vote({ ranking: [] })).status).toBe(400)
+      const single = await vote({ choice: '1' })
+      expect(single.status).toBe(400)
+      expect(((await single.json()) as any).error.message).toBe('Ranking must list at least one option')
+    })
+
+    test('should store approvals and only accept known options', async () => {
+      const env = createTestEnv({ ballots: [] })
+      const created = await (await createBallot(env, { kind: 'approval', options: ['Mon', 'Tue', 'Wed'] })).json() as any
+      const vote = (body: Record<string, unknown>) => request(env, 'POST', `/api/ballots/${created.id}/votes`, { body })
+
+      const voted = await vote({ approvals: ['1', '3'] })
+      expect(((await voted.json()) as any).votes[0].approvals).toEqual(['1', '3'])
+
+      const rejected = await vote({ approvals: ['4'] })
+      expect(rejected.status).toBe(400)
+      expect(((await rejected.json()) as any).error.message).toBe('Approvals may only contain: 1, 2, 3')
+    })
+  })
+
+  describe('Vote policies', () => {
+    const createBallot = async (env: ReturnType<typeof createTestEnv>, votePolicy?: string) =>
+      await (await request(env, 'POST', '/api/ballots', { body: { question: 'Ship it?', votePolicy } })).json() as Ballot
+
+    test('should default to unlimited votes, with or without a voter token', async () => {
+      const env = createTestEnv({ ballots: [] })
+      const ballot = await createBallot(env)
+      const headers = await voterHeaders(env)
+
+      expect(ballot.votePolicy).toBe('unlimited')
+      await request(env, 'POST', `/api/ballots/${ballot.id}/votes`, { body: { color: 'green' } })
+      await request(env, 'POST', `/api/ballots/${ballot.id}/votes`, { body: { color: 'green' }, headers })
+      const res = await request(env, 'POST', `/api/ballots/${ballot.id}/votes`, { body: { color: 'red' }, headers })
+      const updated = await res.json() as Ballot
+
+      expect(res.status).toBe(201)
+      expect(updated.votes).toHaveLength(3)
+      expect(updated.votes[0]!.voterId).toBeUndefined()
+      expect(updated.votes[1]!.voterId).toBe(updated.votes[2]!.voterId!)
+    })
+
+    test('should reject a second vote from the same voter on once ballots', async () => {
+      const env = createTestEnv({ ballots: [] })
+      const ballot = await createBallot(env, 'once')
+      const headers = await voterHeaders(env)
+
+      await request(env, 'POST', `/api/ballots/${ballot.id}/votes`, { body: { color: 'yellow' }, headers })
+      const again = await request(env, 'POST', `/api/ballots/${ballot.id}/votes`, { body: { color: 'green' }, headers })
+      const other = await request(env, 'POST', `/api/ballots/${ballot.id}/votes`, {
+        body: { color: 'green' },
+        headers: await voterHeaders(env)
+      })
+
+      const { error } = await again.json() as ApiErrorBody
+      expect(again.status).toBe(409)
+      expect(error.code).toBe('ALREADY_VOTED')
+      expect((error.details?.vote as Vote).color).toBe('yellow')
+      expect(other.status).toBe(201)
+    })
+
+    test('should replace the earlier vote on change ballots', async () => {
+      const env = createTestEnv({ ballots: [] })
+      const ballot = await createBallot(env, 'change')
+      const headers = await voterHeaders(env)
+
+      await request(env, 'POST', `/api/ballots/${ballot.id}/votes`, { body: { color: 'yellow', comment: 'Unsure' }, headers })
+      const res = await request(env, 'POST', `/api/ballots/${ballot.id}/votes`, { body: { color: 'green' }, headers })
+      const updated = await res.json() as Ballot
+
+      expect(res.status).toBe(201)
+      expect(updated.votes).toHaveLength(1)
+      expect(updated.votes[0]).toMatchObject({ color: 'green' })
+      expect(updated.votes[0]!.comment).toBeUndefined()
+    })
+
+    test('should require a valid voter token on limited ballots', async () => {
+      const env = createTestEnv({ ballots: [] })
+      const ballot = await createBallot(env, 'once')
+      const { 'X-Voter-Token': token } = await voterHeaders(env)
+
+      const missing = await request(env, 'POST', `/api/ballots/${ballot.id}/votes`, { body: { color: 'green' } })
+      const forged = await request(env, 'POST', `/api/ballots/${ballot.id}/votes`, {
+        body: { color: 'green' },
+        headers: { 'X-Voter-Token': `${token.split('.')[0]}.${'0'.repeat(64)}` }
+      })
+
+      expect(missing.status).toBe(401)
+      expect(((await missing.json()) as any).error.message).toBe('A voter token is required to vote on this ballot')
+      expect(forged.status).toBe(401)
+    })
+
+    test('should reject unknown vote policies', async () => {
+      const env = createTestEnv({ ballots: [] })
+
+      const res = await request(env, 'POST', '/api/ballots', { body: { question: 'Ship it?', votePolicy: 'twice' } })
+
+      expect(res.status).toBe(400)
+    })
+
+    test('should return the voter\'s own latest vote', async () => {
+      const env = createTestEnv({ ballots: [] })
+      const ballot = await createBallot(env, 'change')
+      const headers = await voterHeaders(env)
+
+      const before = await (await request(env, 'GET', `/api/ballots/${ballot.id}/my-vote`, { headers })).json() as any
+      await request(env, 'POST', `/api/ballots/${ballot.id}/votes`, { body: { color: 'yellow' }, headers })
+      await request(env, 'POST', `/api/ballots/${ballot.id}/votes`, { body: { color: 'red' }, headers: await voterHeaders(env) })
+      const after = await (await request(env, 'GET', `/api/ballots/${ballot.id}/my-vote`, { headers })).json() as any
+
+      expect(before).toEqual({ vote: null, votePolicy: 'change' })
+      expect(after.vote.color).toBe('yellow')
+      expect((await request(env, 'GET', `/api/ballots/${ballot.id}/my-vote`)).status).toBe(401)
+    })
+
+    test('should not issue tokens without a secret', async () => {
+      const { VOTER_TOKEN_SECRET: _secret, ...env } = createTestEnv({ ballots: [] })
+
+      expect((await request(env as any, 'POST', '/api/voter-token')).status).toBe(500)
+    })
+  })
+
+  describe('GET /api/ballots/:id/results', () => {
+    const createdAt = '2024-01-01T00:00:00Z'
+    const storedBallot: Ballot = { id: 'test-1', question: 'Lunch?', votes: [], createdAt, version: 1 }
+    const options = [{ value: '1', label: 'Pizza' }, { value: '2', label: 'Tacos' }, { value: '3', label: 'Sushi' }]
+
+    test('should return instant-runoff rounds for ranked ballots', async () => {
+      const ranked: Ballot = {
+        ...storedBallot,
+        kind: 'ranked',
+        options,
+        votes: [
+          { ranking: ['1'], createdAt },
+          { ranking: ['1'], createdAt },
+          { ranking: ['2'], createdAt },
+          { ranking: ['3', '2'], createdAt }
+        ]
+      }
+      const env = createTestEnv({ ballots: [ranked] })
+
+      const res = await request(env, 'GET', `/api/ballots/${ranked.id}/results`)
+      const body = await res.json() as any
+
+      expect(res.status).toBe(200)
+      expect(body).toMatchObject({ ballotId: ranked.id, kind: 'ranked', status: 'open', options })
+      expect(body.results.method).toBe('instant-runoff')
+      expect(body.results.rounds.map((round: any) => round.eliminated)).toEqual([['3'], []])
+      expect(body.results.rounds[1].counts).toEqual({ '1': 2, '2': 2 })
+      expect(body.results.winners).toEqual(['1', '2'])
+    })
+
+    test('should return totals for approval and traffic-light ballots', async () => {
+      const approval: Ballot = {
+        ...storedBallot,
+        id: 'approval-1',
+        kind: 'approval',
+        options,
+        votes: [{ approvals: ['1', '2'], createdAt }, { approvals: ['2'], createdAt }]
+      }
+      const env = createTestEnv({ ballots: [approval, { ...storedBallot, votes: [{ color: 'green', createdAt }] }] })
+
+      const approvalResults = await (await request(env, 'GET', '/api/ballots/approval-1/results')).json() as any
+      const trafficLightResults = await (await request(env, 'GET', `/api/ballots/${storedBallot.id}/results`)).json() as any
+
+      expect(approvalResults.results).toEqual({ method: 'approval', totals: { '1': 1, '2': 2, '3': 0 }, winners: ['2'], ballotsCast: 2 })
+      expect(trafficLightResults.results).toMatchObject({ method: 'plurality', totals: { green: 1, yellow: 0, red: 0 }, winners: ['green'] })
+    })
+
+    test('should return 404 for a missing ballot', async () => {
+      const env = createTestEnv({ ballots: [] })
+
+      expect((await request(env, 'GET', '/api/ballots/missing/results')).status).toBe(404)
+    })
+  })
+
+  describe('Ballot owners', () => {
+    const createOwnedBallot = async (env: ReturnType<typeof createTestEnv>) => {
+      const { ownerToken, ...ballot } = await (await request(env, 'POST', '/api/ballots', { body: { question: 'Retro format?' } })).json() as Ballot & { ownerToken: string }
+      return { ballot, headers: { 'X-Owner-Token': ownerToken } }
+    }
+
+    test('should return an owner token only when the ballot is created', async () => {
+      const env = createTestEnv({ ballots: [] })
+      const { ballot, headers } = await createOwnedBallot(env)
+
+      expect(headers['X-Owner-Token']).toHaveLength(64)
+      const stored = await (await request(env, 'GET', `/api/ballots/${ballot.id}`)).json() as any
+      expect(stored.ownerToken).toBeUndefined()
+      expect(JSON.stringify(stored)).not.toContain(headers['X-Owner-Token'])
+    })
+
+    test('should let the owner edit the question and privacy', async () => {
+      const env = createTestEnv({ ballots: [] })
+      const { ballot, headers } = await createOwnedBallot(env)
+
+      const res = await request(env, 'PATCH', `/api/ballots/${ballot.id}`, { body: { question: ' Start, stop, continue? ', isPrivate: true }, headers })
+      const updated = await res.json() as Ballot
+
+      expect(res.status).toBe(200)
+      expect(updated).toMatchObject({ question: 'Start, stop, continue?', isPrivate: true, version: 2 })
+      expect((await request(env, 'PATCH', `/api/ballots/${ballot.id}`, { body: { question: '' }, headers })).status).toBe(400)
+    })
+
+    test('should let the owner close, reopen and delete the ballot', async () => {
+      const env = createTestEnv({ ballots: [] })
+      const { ballot, headers } = await createOwnedBallot(env)
+
+      const closed = await (await request(env, 'POST', `/api/ballots/${ballot.id}/close`, { headers })).json() as Ballot
+      expect(closed.status).toBe('closed')
+      const reopened = await (await request(env, 'POST', `/api/ballots/${ballot.id}/reopen`, { headers })).json() as Ballot
+      expect(reopened.status).toBe('open')
+
+      expect((await request(env, 'DELETE', `/api/ballots/${ballot.id}`, { headers })).status).toBe(200)
+      expect((await request(env, 'GET', `/api/ballots/${ballot.id}`)).status).toBe(404)
+      // The token outlives the trip to the trash, but the ballot is gone
+      expect((await request(env, 'DELETE', `/api/ballots/${ballot.id}`, { headers })).status).toBe(404)
+    })
+
+    test('should reject missing, wrong and other ballots\' owner tokens', async () => {
+      const env = createTestEnv({ ballots: [] })
+      const first = await createOwnedBallot(env)
+      const second = await createOwnedBallot(env)
+
+      expect((await request(env, 'POST', `/api/ballots/${first.ballot.id}/close`)).status).toBe(401)
+      expect((await request(env, 'POST', `/api/ballots/${first.ballot.id}/close`, { headers: { 'X-Owner-Token': 'nope' } })).status).toBe(401)
+      const res = await request(env, 'DELETE', `/api/ballots/${first.ballot.id}`, { headers: second.headers })
+      expect(res.status).toBe(401)
+      expect(((await res.json()) as any).error.message).toBe('Invalid owner token')
+      // Ballots created before owner tokens have no owner
+      expect((await request(createTestEnv(), 'POST', '/api/ballots/demo-1/close', { headers: first.headers })).status).toBe(401)
+    })
+  })
+
+  describe('PUT /api/ballots/:id (admin edit)', () => {
+    const storedBallot = {
+      id: 'test-1',
+      question: 'Test ballot?',
+      votes: [{ color: 'green', createdAt: '2024-01-01T10:00:00Z' }],
+      createdAt: '2024-01-01T09:00:00Z',
+      version: 1
+    }
+
+    test('should reject unauthenticated whole-ballot writes', async () => {
+      const env = createTestEnv({ ballots: [storedBallot] })
+
+      const res = await request(env, 'PUT', '/api/ballots/test-1', {
+        body: { ...storedBallot, votes: [] }
+      })
+
+      expect(res.status).toBe(401)
+      const stored = await (await request(env, 'GET', '/api/ballots/test-1')).json() as any
+      expect(stored.votes).toHaveLength(1)
+    })
+
+    test('should allow admins to edit the ballot', async () => {
+      const env = createTestEnv({ ballots: [storedBallot] })
+
+      const res = await request(env, 'PUT', '/api/ballots/test-1', {
+        body: { ...storedBallot, id: 'other-id', question: 'Edited?' },
+        headers: adminHeaders()
+      })
+      const ballot = await res.json() as any
+
+      expect(res.status).toBe(200)
+      expect(ballot.id).toBe('test-1')
+      expect(ballot.question).toBe('Edited?')
+      expect(ballot.version).toBe(2)
+    })
+  })
 })
 
 describe('Admin API', () => {
@@ -169,6 +614,22 @@ describe('Admin API', () => {
   })
 
   describe('GET /api/admin/ballots', () => {
+    test('should page every ballot, private ones included, with admin metadata', async () => {
+      const env = createTestEnv({
+        ballots: [
+          { id: 'b1', question: 'Public?', votes: [{ color: 'green', comment: 'Yes', createdAt: '2024-01-02T10:00:00Z' }], createdAt: '2024-01-01T09:00:00Z' },
+          { id: 'b2', question: 'Private?', votes: [], createdAt: '2024-01-02T09:00:00Z', isPrivate: true }
+        ]
+      })
+
+      const page = await (await request(env, 'GET', '/api/admin/ballots?limit=1', { headers: adminHeaders() })).json() as Page<AdminBallot>
+      const next = await (await request(env, 'GET', `/api/admin/ballots?cursor=${page.nextCursor}`, { headers: adminHeaders() })).json() as Page<AdminBallot>
+
+      expect(page.items.map(ballot => ballot.id)).toEqual(['b2'])
+      expect(next.items).toMatchObject([{ id: 'b1', voteCount: 1, commentCount: 1, lastVote: '2024-01-02T10:00:00Z' }])
+      expect(next.nextCursor).toBeNull()
+    })
+
     test('should return ballots with admin metadata', () => {
       const ballot = {
         id: 'test-1',
@@ -343,6 +804,71 @@ describe('Input Validation', () => {
     expect(voteWithComment.comment.trim()).toBe('This is great!')
     expect(voteWithoutComment.comment).toBe('')
   })
+  test('should reject bad bodies with every issue and its field path', async () => {
+    const env = createTestEnv()
+
+    const res = await request(env, 'POST', '/api/ballots', { body: { question: ' ', kind: 'poll', isPrivate: 'yes' } })
+    expect(res.status).toBe(400)
+    expect(await res.json()).toEqual({
+      error: {
+        code: 'VALIDATION_FAILED',
+        message: 'Question is required',
+        details: {
+          issues: [
+            { path: 'question', message: 'Question is required' },
+            { path: 'isPrivate', message: 'isPrivate must be true or false' },
+            { path: 'kind', message: 'Kind must be one of: traffic-light, yes-no, scale, choice, ranked, approval' }
+          ]
+        }
+      }
+    })
+  })
+
+  test('should reject malformed JSON', async () => {
+    const res = await app.fetch(new Request('http://localhost/api/dashboards', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{"name": '
+    }), createTestEnv() as any)
+
+    expect(res.status).toBe(400)
+    expect(await res.json()).toEqual({ error: { code: 'INVALID_JSON', message: 'Request body must be valid JSON' } })
+  })
+
+  test('should answer unknown routes with the error envelope', async () => {
+    const res = await request(createTestEnv(), 'GET', '/api/nothing-here')
+
+    expect(res.status).toBe(404)
+    expect(await res.json()).toEqual({ error: { code: 'NOT_FOUND', message: 'Not found' } })
+  })
+
+  test('should not store fields the schema does not know', async () => {
+    const env = createTestEnv({ ballots: [{ id: 'b1', question: 'Q', votes: [], createdAt: '2024-01-01T00:00:00Z', version: 1 }] })
+
+    const res = await request(env, 'PUT', '/api/ballots/b1', {
+      body: { question: 'Q', votes: [{ color: 'green', createdAt: '2024-01-01T10:00:00Z', extra: 'x' }], createdAt: '2024-01-01T00:00:00Z', version: 1, junk: true },
+      headers: adminHeaders()
+    })
+    const saved = await res.json() as any
+
+    expect(res.status).toBe(200)
+    expect(saved.junk).toBeUndefined()
+    expect(saved.votes[0].extra).toBeUndefined()
+  })
+
+  test('should report stale edits as VERSION_CONFLICT with the current version', async () => {
+    const env = createTestEnv({ ballots: [{ id: 'b1', question: 'Q', votes: [], createdAt: '2024-01-01T00:00:00Z', version: 3 }] })
+
+    const res = await request(env, 'PUT', '/api/ballots/b1', {
+      body: { question: 'Q?', votes: [], createdAt: '2024-01-01T00:00:00Z', version: 2 },
+      headers: adminHeaders()
+    })
+    const { error } = await res.json() as ApiErrorBody
+
+    expect(res.status).toBe(409)
+    expect(error.code).toBe('VERSION_CONFLICT')
+    expect(error.details).toEqual({ currentVersion: 3 })
+  })
 })
 
 describe('Date Handling', () => {
@@ -623,6 +1149,70 @@ describe('Dashboard API', () => {
   })
 })
 
+describe('Dashboard permissions', () => {
+  const createDashboard = async (env: ReturnType<typeof createTestEnv>) => {
+    const { ownerToken, ...dashboard } = await (await request(env, 'POST', '/api/dashboards', { body: { name: 'Team A' } })).json() as any
+    return { dashboard, ownerHeaders: { 'X-Dashboard-Token': ownerToken as string } }
+  }
+
+  test('should only let token holders change or delete a dashboard', async () => {
+    const env = createTestEnv({ dashboards: [] })
+    const { dashboard, ownerHeaders } = await createDashboard(env)
+
+    expect((await request(env, 'PUT', `/api/dashboards/${dashboard.id}`, { body: { name: 'Hijacked' } })).status).toBe(401)
+    expect((await request(env, 'DELETE', `/api/dashboards/${dashboard.id}`, { headers: { 'X-Dashboard-Token': 'nope' } })).status).toBe(401)
+
+    const res = await request(env, 'PUT', `/api/dashboards/${dashboard.id}`, { body: { name: 'Team A (spring)' }, headers: ownerHeaders })
+    expect(res.status).toBe(200)
+    expect(((await res.json()) as any).name).toBe('Team A (spring)')
+    expect((await request(env, 'DELETE', `/api/dashboards/${dashboard.id}`, { headers: ownerHeaders })).status).toBe(200)
+  })
+
+  test('should let editors change the dashboard but not delete it or manage editors', async () => {
+    const env = createTestEnv({ dashboards: [] })
+    const { dashboard, ownerHeaders } = await createDashboard(env)
+
+    const created = await request(env, 'POST', `/api/dashboards/${dashboard.id}/editors`, { body: { name: 'Coach Sam' }, headers: ownerHeaders })
+    const editor = await created.json() as any
+    const editorHeaders = { 'X-Dashboard-Token': editor.token }
+    expect(created.status).toBe(201)
+
+    const access = await (await request(env, 'GET', `/api/dashboards/${dashboard.id}/access`, { headers: editorHeaders })).json()
+    expect(access).toEqual({ role: 'editor' })
+    expect((await request(env, 'PUT', `/api/dashboards/${dashboard.id}`, { body: { ballotIds: ['b1'] }, headers: editorHeaders })).status).toBe(200)
+    expect((await request(env, 'DELETE', `/api/dashboards/${dashboard.id}`, { headers: editorHeaders })).status).toBe(403)
+    expect((await request(env, 'GET', `/api/dashboards/${dashboard.id}/editors`, { headers: editorHeaders })).status).toBe(403)
+
+    const editors = await (await request(env, 'GET', `/api/dashboards/${dashboard.id}/editors`, { headers: ownerHeaders })).json()
+    expect(editors).toEqual([{ id: editor.id, name: 'Coach Sam', createdAt: editor.createdAt }])
+
+    await request(env, 'DELETE', `/api/dashboards/${dashboard.id}/editors/${editor.id}`, { headers: ownerHeaders })
+    expect((await request(env, 'PUT', `/api/dashboards/${dashboard.id}`, { body: { ballotIds: [] }, headers: editorHeaders })).status).toBe(401)
+  })
+
+  test('should report viewers, and 404 for missing dashboards', async () => {
+    const env = createTestEnv({ dashboards: [] })
+    const { dashboard } = await createDashboard(env)
+
+    expect(await (await request(env, 'GET', `/api/dashboards/${dashboard.id}/access`)).json()).toEqual({ role: 'viewer' })
+    expect((await request(env, 'GET', '/api/dashboards/missing/access')).status).toBe(404)
+  })
+
+  test('should let admins delete dashboards and issue new owner tokens', async () => {
+    const legacy = { id: 'dashboard-1', name: 'Legacy', ballotIds: [], attendanceIds: [], createdAt: '2024-01-01T00:00:00Z', updatedAt: '2024-01-01T00:00:00Z', version: 1 }
+    const env = createTestEnv({ dashboards: [legacy] })
+
+    // Dashboards from before owner tokens have no owner until an admin issues one
+    expect((await request(env, 'PUT', '/api/dashboards/dashboard-1', { body: { name: 'Mine' }, headers: { 'X-Dashboard-Token': 'guess' } })).status).toBe(401)
+    const { ownerToken } = await (await request(env, 'POST', '/api/admin/dashboards/dashboard-1/owner-token', { headers: adminHeaders() })).json() as any
+    expect((await request(env, 'PUT', '/api/dashboards/dashboard-1', { body: { name: 'Mine' }, headers: { 'X-Dashboard-Token': ownerToken } })).status).toBe(200)
+
+    expect((await request(env, 'DELETE', '/api/admin/dashboards/dashboard-1')).status).toBe(401)
+    expect((await request(env, 'DELETE', '/api/admin/dashboards/dashboard-1', { headers: adminHeaders() })).status).toBe(200)
+    expect((await request(env, 'GET', '/api/dashboards/dashboard-1')).status).toBe(404)
+  })
+})
+
 describe('Attendance API', () => {
   beforeEach(() => {
     // Reset mocks
@@ -1,6 +1,50 @@
-import { Hono } from 'hono'
+import { Hono, type Context, type Next } from 'hono'
 import { cors } from 'hono/cors'
-import type { ApiResponse, Dashboard, Vote, Ballot, AdminBallot, Attendance, AttendanceResponse } from 'shared/dist'
+import type { ApiResponse, Dashboard, Vote, Ballot, AdminBallot, AdminIdentity, AdminScope, AdminSession, Attendance, AttendanceResponse, RestoreSummary, TrashType, AuditActor, AuditEntry, AuditSummary, Revision, RevisionDiff, RevisionType, DashboardRole, AttendanceSeries } from 'shared/dist'
+import {
+  CUSTOM_OPTION_KINDS,
+  adminKeyCreateSchema,
+  adminLoginSchema,
+  auditQuerySchema,
+  attendanceCreateSchema,
+  attendanceRenameSchema,
+  attendanceQuerySchema,
+  attendanceResponseSchema,
+  attendanceSeriesCreateSchema,
+  attendanceSeriesUpdateSchema,
+  ballotCreateSchema,
+  calendarFeedQuerySchema,
+  ballotMigrationSchema,
+  ballotReopenSchema,
+  ballotReplaceSchema,
+  ballotUpdateSchema,
+  dashboardCreateSchema,
+  dashboardEditorSchema,
+  dashboardUpdateSchema,
+  exportQuerySchema,
+  listQuerySchema,
+  restoreSchema,
+  revisionDiffQuerySchema,
+  searchQuerySchema,
+  voteSchema,
+  ballotKind,
+  ballotOptions,
+  DEFAULT_EXPORT_FORMAT,
+  TRASH_TYPES,
+  hasAdminScope,
+  isBallotOpen,
+  isCalendarDate,
+  seriesDates,
+  tallyBallot,
+  votePolicy,
+  type BallotCreateInput,
+  type BallotReopenInput,
+  type AttendanceSeriesCreateInput,
+  type AttendanceSeriesUpdateInput,
+  type BallotUpdateInput,
+  type DashboardUpdateInput,
+  type RevisionDiffQuery
+} from 'shared/dist'
 import { initTelemetry, createSpan, addSpanAttributes, recordSpanEvent, setSpanStatus } from './telemetry'
 import {
   withSpan,
@@ -12,14 +56,76 @@ import {
   createBatchHandler,
   type ResourceConfig
 } from './handlers'
-
-type Bindings = {
-  BALLOTS_KV: KVNamespace
-  ADMIN_API_KEY?: string
+import { createRecordStore, createKVRepository, type RecordStore } from './storage'
+import { createD1Repository } from './d1'
+import { resolveStorageBackend, type Repository, type VersionedRecord } from './repository'
+import type { Bindings } from './bindings'
+import {
+  coordinatedBallots,
+  createBallotCoordinatorClass,
+  createDurableBallotCoordinator,
+  createLocalBallotCoordinator,
+  type BallotWriteCoordinator
+} from './coordinator'
+import { liveChannel, liveEvents, streamLiveUpdates, type LiveSource } from './live'
+import { closeBallot, closeExpiredBallots, reopenBallot } from './lifecycle'
+import { VOTER_TOKEN_HEADER, issueVoterToken, verifyVoterToken, voterIdFor } from './voters'
+import {
+  authenticateAdmin,
+  createAdminKey,
+  deleteExpiredSessions,
+  openAdminSession,
+  toAdminKeySummary,
+  type AdminCredentialStores,
+  type AdminKeyRecord,
+  type AdminSessionRecord,
+  type AuthenticatedAdmin
+} from './auth'
+import {
+  DASHBOARD_TOKEN_HEADER,
+  MAX_DASHBOARD_EDITORS,
+  OWNER_TOKEN_HEADER,
+  createDashboardEditor,
+  createOwner,
+  dashboardRole,
+  findDashboardEditor,
+  ownerTokenMatches,
+  toDashboardEditorSummary,
+  type BallotOwnerRecord,
+  type DashboardOwnerRecord
+} from './owners'
+import { apiError } from './errors'
+import { validateBody, validateQuery, type JsonInput, type QueryInput } from './validation'
+import { listPage, type ListFields } from './pagination'
+import {
+  createSearchIndex,
+  createIndexingQueue,
+  indexedRepository,
+  searchableAttendance,
+  searchableBallot,
+  searchableDashboard,
+  searchSource,
+  type Searchable,
+  type SearchDocumentRecord,
+  type SearchSource,
+  type SearchStateRecord,
+  type SearchTermRecord
+} from './search'
+import { createBackup, restoreBackup, type BackupRepositories } from './backup'
+import { attendanceExport, ballotExport, dashboardExport, exportResponse } from './export'
+import { attendanceCalendarResponse, calendarFeedResponse } from './ical'
+import { listTrash, purgeExpiredTrash, purgeTrashItem, restoreTrashItem, withoutTrashed, type TrashSources } from './trash'
+import { RateLimiterObject, clientIp, createDurableRateLimiter, createMemoryRateLimiter, rateLimit, type RateLimiter, type RouteClass } from './ratelimit'
+import { appendAudit, appendAuthFailure, pageAudit, purgeExpiredAudit, type AuditRecord } from './audit'
+import { deleteRevisions, diffRecords, keepRevision, listRevisions, revisionId, rolledBack } from './revisions'
+import { createAllUpcomingAttendance, createSeriesAttendance, createUpcomingAttendance, seriesAttendanceId } from './series'
+
+type Variables = {
+  admin?: AuthenticatedAdmin                // Set by requireAdmin
+  dashboardOwner?: DashboardOwnerRecord     // Set by requireDashboardRole
+  dashboardRole?: DashboardRole             // Set by requireDashboardRole
 }
 
-type Variables = {}
-
 type HonoEnv = {
   Bindings: Bindings
   Variables: Variables
@@ -27,13 +133,6 @@ type HonoEnv = {
 
 const app = new Hono<HonoEnv>()
 
-// Input validation constants
-const MAX_QUESTION_LENGTH = 500
-const MAX_DASHBOARD_NAME_LENGTH = 100
-const MAX_ATTENDANCE_TITLE_LENGTH = 200
-const MAX_COMMENT_LENGTH = 1000
-const MAX_NAME_LENGTH = 100
-
 app.use(cors())
 
 // Middleware to initialize telemetry for each request
@@ -44,6 +143,27 @@ app.use('*', async (c, next) => {
   await next()
 })
 
+// Search indexing runs after the response, see ./search. Without an execution
+// context, as in tests, the response waits for it.
+const searchIndexing = createIndexingQueue()
+
+app.use('*', async (c, next) => {
+  await next()
+  const indexing = searchIndexing.settled()
+  try {
+    c.executionCtx.waitUntil(indexing)
+  } catch {
+    await indexing
+  }
+})
+
+// Unknown routes and unexpected errors answer in the same envelope as everything else
+app.notFound(c => apiError(c, 'NOT_FOUND', 'Not found'))
+app.onError((error, c) => {
+  console.error('Unhandled error:', error)
+  return apiError(c, 'INTERNAL_ERROR', 'Something went wrong. Please try again.')
+})
+
 // Demo data for initial setup (only used if no data exists in KV)
 const demoData: Ballot[] = [
   {
@@ -69,133 +189,662 @@ const demoData: Ballot[] = [
   }
 ]
 
-// KV Storage helpers
-async function getAllBallots(kv: KVNamespace): Promise<Ballot[]> {
-  try {
-    const ballotsJson = await kv.get('ballots')
-    if (ballotsJson) {
-      return JSON.parse(ballotsJson)
-    } else {
-      await kv.put('ballots', JSON.stringify(demoData))
-      return demoData
+// KV storage - one key per record, see ./storage
+const ballotStore = createRecordStore<Ballot>({ prefix: 'ballot', legacyKey: 'ballots', seed: () => demoData })
+const dashboardStore = createRecordStore<Dashboard>({ prefix: 'dashboard', legacyKey: 'dashboards' })
+const attendanceStore = createRecordStore<Attendance>({ prefix: 'attendance', legacyKey: 'attendances' })
+const adminKeyStore = createRecordStore<AdminKeyRecord>({ prefix: 'admin-key', legacyKey: 'adminKeys' })
+const adminSessionStore = createRecordStore<AdminSessionRecord>({ prefix: 'admin-session', legacyKey: 'adminSessions' })
+const ballotOwnerStore = createRecordStore<BallotOwnerRecord>({ prefix: 'ballot-owner', legacyKey: 'ballotOwners' })
+const dashboardOwnerStore = createRecordStore<DashboardOwnerRecord>({ prefix: 'dashboard-owner', legacyKey: 'dashboardOwners' })
+const searchDocumentStore = createRecordStore<SearchDocumentRecord>({ prefix: 'search-doc', legacyKey: 'searchDocuments' })
+const searchTermStore = createRecordStore<SearchTermRecord>({ prefix: 'search-term', legacyKey: 'searchTerms' })
+const searchStateStore = createRecordStore<SearchStateRecord>({ prefix: 'search-state', legacyKey: 'searchState' })
+const auditStore = createRecordStore<AuditEntry>({ prefix: 'audit', legacyKey: 'auditLog' })
+const revisionStore = createRecordStore<Revision>({ prefix: 'revision', legacyKey: 'revisions' })
+const attendanceSeriesStore = createRecordStore<AttendanceSeries>({ prefix: 'attendance-series', legacyKey: 'attendanceSeries' })
+
+// Picks KV or D1 per request based on the STORAGE_BACKEND binding
+function repositoryFor<T extends { id: string; version?: number }>(resource: string, store: RecordStore<T>) {
+  return (env: Bindings): Repository<T> =>
+    resolveStorageBackend(env) === 'd1'
+      ? createD1Repository<T>(env.BALLOTS_DB!, resource)
+      : createKVRepository<T>(env.BALLOTS_KV, store, resource)
+}
+
+// Search index, see ./search
+const searchDocumentRepository = repositoryFor('search-doc', searchDocumentStore)
+const searchTermRepository = repositoryFor('search-term', searchTermStore)
+const searchStateRepository = repositoryFor('search-state', searchStateStore)
+
+function searchIndexFor(env: Bindings) {
+  return createSearchIndex({
+    documents: searchDocumentRepository(env),
+    terms: searchTermRepository(env),
+    state: searchStateRepository(env)
+  })
+}
+
+// Like repositoryFor, but every write also queues a search index update
+function indexedRepositoryFor<T extends { id: string; version?: number }>(resource: string, store: RecordStore<T>, searchable: Searchable<T>) {
+  const repository = repositoryFor(resource, store)
+  return (env: Bindings): Repository<T> => indexedRepository(repository(env), searchIndexFor(env), searchable, searchIndexing)
+}
+
+// Every record, trashed ones included - for the trash routes and backups.
+// Ballot writes go through the ballot's coordinator, which uses ballotWrites.
+const ballotWrites = indexedRepositoryFor('ballot', ballotStore, searchableBallot)
+const ballotRecords = (env: Bindings) => coordinatedBallots(ballotWrites(env), ballotCoordinatorFor(env))
+const dashboardRecords = indexedRepositoryFor('dashboard', dashboardStore, searchableDashboard)
+const attendanceRecords = indexedRepositoryFor('attendance', attendanceStore, searchableAttendance)
+
+// Resource configurations - trashed records are hidden and deletes move
+// records to the trash, see ./trash
+const ballotConfig: ResourceConfig<Ballot> = {
+  name: 'ballot',
+  repository: (env) => withoutTrashed(ballotRecords(env))
+}
+
+const dashboardConfig: ResourceConfig<Dashboard> = {
+  name: 'dashboard',
+  repository: (env) => withoutTrashed(dashboardRecords(env))
+}
+
+const attendanceConfig: ResourceConfig<Attendance> = {
+  name: 'attendance',
+  repository: (env) => withoutTrashed(attendanceRecords(env))
+}
+
+const attendanceSeriesConfig: ResourceConfig<AttendanceSeries> = {
+  name: 'series',
+  repository: repositoryFor('attendance-series', attendanceSeriesStore)
+}
+
+function backupRepositories(env: Bindings): BackupRepositories {
+  return {
+    ballots: ballotRecords(env),
+    dashboards: dashboardRecords(env),
+    attendance: attendanceRecords(env)
+  }
+}
+
+function searchSources(env: Bindings): SearchSource[] {
+  return [
+    searchSource(searchableBallot, () => ballotConfig.repository(env).list()),
+    searchSource(searchableAttendance, () => attendanceConfig.repository(env).list()),
+    searchSource(searchableDashboard, () => dashboardConfig.repository(env).list())
+  ]
+}
+
+const adminKeyRepository = repositoryFor('admin-key', adminKeyStore)
+const adminSessionRepository = repositoryFor('admin-session', adminSessionStore)
+const ballotOwnerRepository = repositoryFor('ballot-owner', ballotOwnerStore)
+const dashboardOwnerRepository = repositoryFor('dashboard-owner', dashboardOwnerStore)
+const revisionRepository = repositoryFor('revision', revisionStore)
+
+// Owner records and revisions outlive a trip to the trash so a restored record
+// keeps them; they go when the record is purged
+function trashSources(env: Bindings): TrashSources {
+  return {
+    ballot: {
+      records: ballotRecords(env),
+      title: (ballot: Ballot) => ballot.question,
+      afterPurge: async (id) => {
+        await ballotOwnerRepository(env).delete(id)
+        await deleteRevisions(revisionRepository(env), 'ballot', id)
+      }
+    },
+    dashboard: {
+      records: dashboardRecords(env),
+      title: (dashboard: Dashboard) => dashboard.name,
+      afterPurge: async (id) => {
+        await dashboardOwnerRepository(env).delete(id)
+        await deleteRevisions(revisionRepository(env), 'dashboard', id)
+      }
+    },
+    attendance: {
+      records: attendanceRecords(env),
+      title: (attendance: Attendance) => attendance.title,
+      afterPurge: async (id) => { await deleteRevisions(revisionRepository(env), 'attendance', id) }
     }
-  } catch (error) {
-    console.error('Error getting ballots from KV:', error)
-    return demoData
   }
 }
 
-async function saveBallots(kv: KVNamespace, ballots: Ballot[]): Promise<void> {
-  try {
-    await kv.put('ballots', JSON.stringify(ballots))
-  } catch (error) {
-    console.error('Error saving ballots to KV:', error)
-    throw error
+// Audit log, see ./audit
+const auditRepository = repositoryFor('audit', auditStore)
+
+function adminActor(admin: AuthenticatedAdmin | undefined): AuditActor {
+  return admin ? { kind: 'admin', keyId: admin.keyId, name: admin.name } : { kind: 'anonymous' }
+}
+
+// `actor` defaults to the admin signed in for this request
+function audit(c: Context<HonoEnv>, record: Omit<AuditRecord, 'actor' | 'ip'>, actor: AuditActor = adminActor(c.get('admin'))) {
+  return appendAudit(auditRepository(c.env), { ...record, actor, ip: clientIp(c) })
+}
+
+// Once per address and reason per window, so bad tokens can't flood the log
+function auditAuthFailure(c: Context<HonoEnv>, reason: string, actor: AuditActor, resource?: AuditRecord['resource']) {
+  return appendAuthFailure(auditRepository(c.env), {
+    action: 'auth_failed',
+    actor,
+    ...(resource ? { resource } : {}),
+    details: { reason, method: c.req.method, path: c.req.path },
+    ip: clientIp(c)
+  })
+}
+
+function ballotSummary(ballot: Ballot): AuditSummary {
+  return { question: ballot.question, isPrivate: !!ballot.isPrivate, status: ballot.status ?? 'open', votes: ballot.votes.length }
+}
+
+// Revision history, see ./revisions
+function keepRevisionOf<T extends VersionedRecord>(c: Context<HonoEnv>, type: RevisionType, before: T, after: T, actor: AuditActor) {
+  return keepRevision(revisionRepository(c.env), type, before, after, actor)
+}
+
+function isTrashType(type: string): type is TrashType {
+  return (TRASH_TYPES as readonly string[]).includes(type)
+}
+
+function adminCredentials(env: Bindings): AdminCredentialStores {
+  return { keys: adminKeyRepository(env), sessions: adminSessionRepository(env), rootKey: env.ADMIN_API_KEY }
+}
+
+// Ballot writes are serialized per ballot, see ./coordinator
+function ballotCoordinatorFor(env: Bindings): BallotWriteCoordinator {
+  return env.BALLOT_COORDINATOR
+    ? createDurableBallotCoordinator(env.BALLOT_COORDINATOR)
+    : createLocalBallotCoordinator(ballotWrites(env))
+}
+
+export const BallotCoordinator = createBallotCoordinatorClass<Bindings>(ballotWrites, { settled: () => searchIndexing.settled() })
+export { RateLimiterObject }
+
+// Requests are rate limited per client IP, see ./ratelimit. Without the
+// RATE_LIMITER binding buckets live in memory, one set per env.
+const localRateLimiters = new WeakMap<Bindings, RateLimiter>()
+
+function rateLimiterFor(env: Bindings): RateLimiter {
+  if (env.RATE_LIMITER) return createDurableRateLimiter(env.RATE_LIMITER)
+
+  let limiter = localRateLimiters.get(env)
+  if (!limiter) {
+    limiter = createMemoryRateLimiter()
+    localRateLimiters.set(env, limiter)
   }
+  return limiter
 }
 
-async function getAllDashboards(kv: KVNamespace): Promise<Dashboard[]> {
-  try {
-    const dashboardsJson = await kv.get('dashboards')
-    if (dashboardsJson) {
-      return JSON.parse(dashboardsJson)
+function limit(routeClass: RouteClass, keyOf?: (c: Context<HonoEnv>) => string) {
+  return rateLimit<HonoEnv>(c => rateLimiterFor(c.env), routeClass, keyOf)
+}
+
+/**
+ * Reads the voter token header. `valid: false` means a token was sent but the
+ * server didn't sign it (or can't check it); no token at all is `tokenId: null`.
+ */
+async function readVoterToken(c: Context<HonoEnv>): Promise<{ valid: boolean; tokenId: string | null }> {
+  const token = c.req.header(VOTER_TOKEN_HEADER)
+  if (!token) return { valid: true, tokenId: null }
+
+  const secret = c.env.VOTER_TOKEN_SECRET
+  const tokenId = secret ? await verifyVoterToken(token, secret) : null
+  return { valid: tokenId !== null, tokenId }
+}
+
+// Live update sources for the SSE stream routes, see ./live
+function ballotSource(env: Bindings, id: string): LiveSource {
+  return { channel: liveChannel('ballot', id), type: 'ballot', load: () => ballotConfig.repository(env).get(id) }
+}
+
+function attendanceSource(env: Bindings, id: string): LiveSource {
+  return { channel: liveChannel('attendance', id), type: 'attendance', load: () => attendanceConfig.repository(env).get(id) }
+}
+
+/**
+ * Admin authentication middleware. Accepts the root `ADMIN_API_KEY`, a named
+ * API key or a session token (see ./auth), and rejects credentials whose scope
+ * is below `scope` with 403.
+ */
+function requireAdmin(scope: AdminScope) {
+  return async (c: Context<HonoEnv>, next: Next) => {
+    const span = createSpan('admin_auth')
+
+    try {
+      const authHeader = c.req.header('Authorization')
+
+      if (!authHeader || !authHeader.startsWith('Bearer ')) {
+        addSpanAttributes({ 'auth.error': 'missing_bearer_token', 'auth.success': false })
+        setSpanStatus(span, false, 'Missing authorization header')
+        return apiError(c, 'UNAUTHORIZED', 'Unauthorized')
+      }
+
+      const admin = await authenticateAdmin(authHeader.substring(7), adminCredentials(c.env))
+
+      if (!admin) {
+        addSpanAttributes({ 'auth.error': 'invalid_token', 'auth.success': false })
+        setSpanStatus(span, false, 'Invalid admin token')
+        recordSpanEvent('admin_auth_failed', { 'auth.attempt': 'invalid_token' })
+        await auditAuthFailure(c, 'invalid_token', { kind: 'anonymous' })
+        return apiError(c, 'UNAUTHORIZED', 'Unauthorized')
+      }
+
+      addSpanAttributes({ 'admin.key_id': admin.keyId, 'admin.scope': admin.scope, 'auth.required_scope': scope })
+
+      if (!hasAdminScope(admin.scope, scope)) {
+        addSpanAttributes({ 'auth.error': 'insufficient_scope', 'auth.success': false })
+        setSpanStatus(span, false, 'Insufficient admin scope')
+        recordSpanEvent('admin_auth_failed', { 'auth.attempt': 'insufficient_scope' })
+        await auditAuthFailure(c, 'insufficient_scope', adminActor(admin))
+        return apiError(c, 'FORBIDDEN', `This action needs the ${scope} scope`)
+      }
+
+      addSpanAttributes({ 'auth.success': true, 'auth.type': admin.sessionId ? 'session' : 'api_key' })
+      recordSpanEvent('admin_auth_success', { 'auth.method': 'bearer_token' })
+      setSpanStatus(span, true)
+
+      c.set('admin', admin)
+      await next()
+    } catch (error) {
+      setSpanStatus(span, false, `Admin auth error: ${error}`)
+      return apiError(c, 'INTERNAL_ERROR', 'Authentication error')
+    } finally {
+      span.end()
     }
-    return []
-  } catch (error) {
-    console.error('Error getting dashboards from KV:', error)
-    return []
   }
 }
 
-async function saveDashboards(kv: KVNamespace, dashboards: Dashboard[]): Promise<void> {
-  try {
-    await kv.put('dashboards', JSON.stringify(dashboards))
-  } catch (error) {
-    console.error('Error saving dashboards to KV:', error)
-    throw error
+// For routes open to everyone that show admins more: whether the request
+// carries a valid admin credential, of any scope
+async function isAdminRequest(c: Context<HonoEnv>): Promise<boolean> {
+  const authHeader = c.req.header('Authorization')
+  if (!authHeader?.startsWith('Bearer ')) return false
+  return (await authenticateAdmin(authHeader.substring(7), adminCredentials(c.env))) !== null
+}
+
+/**
+ * Owner authorization middleware for a ballot's `:id`. The token comes from
+ * `X-Owner-Token`; see ./owners.
+ */
+function requireOwner() {
+  return async (c: Context<HonoEnv>, next: Next) => {
+    const span = createSpan('owner_auth')
+
+    try {
+      const id = c.req.param('id')!
+      const owner = await ballotOwnerRepository(c.env).get(id)
+
+      if (!(await ownerTokenMatches(c.req.header(OWNER_TOKEN_HEADER), owner))) {
+        addSpanAttributes({ 'ballot.id': id, 'auth.success': false })
+        setSpanStatus(span, false, 'Invalid owner token')
+        recordSpanEvent('owner_auth_failed', { 'ballot.id': id })
+        await auditAuthFailure(c, 'invalid_owner_token', { kind: 'anonymous' }, { type: 'ballot', id })
+        return apiError(c, 'UNAUTHORIZED', 'Invalid owner token')
+      }
+
+      addSpanAttributes({ 'ballot.id': id, 'auth.success': true })
+      setSpanStatus(span, true)
+      await next()
+    } catch (error) {
+      setSpanStatus(span, false, `Owner auth error: ${error}`)
+      return apiError(c, 'INTERNAL_ERROR', 'Authentication error')
+    } finally {
+      span.end()
+    }
   }
 }
 
-async function getAllAttendances(kv: KVNamespace): Promise<Attendance[]> {
-  try {
-    const attendancesJson = await kv.get('attendances')
-    if (attendancesJson) {
-      return JSON.parse(attendancesJson)
+/**
+ * Dashboard authorization middleware for `:id`. The owner's or an editor's
+ * token comes from `X-Dashboard-Token`; owners pass wherever editors do.
+ */
+function requireDashboardRole(role: 'owner' | 'editor') {
+  return async (c: Context<HonoEnv>, next: Next) => {
+    const span = createSpan('dashboard_auth')
+
+    try {
+      const id = c.req.param('id')!
+      const owner = await dashboardOwnerRepository(c.env).get(id)
+      const granted = await dashboardRole(c.req.header(DASHBOARD_TOKEN_HEADER), owner)
+
+      addSpanAttributes({ 'dashboard.id': id, 'dashboard.role': granted, 'auth.required_role': role })
+
+      if (!owner || granted === 'viewer') {
+        addSpanAttributes({ 'auth.success': false })
+        setSpanStatus(span, false, 'Invalid dashboard token')
+        recordSpanEvent('dashboard_auth_failed', { 'dashboard.id': id })
+        await auditAuthFailure(c, 'invalid_dashboard_token', { kind: 'anonymous' }, { type: 'dashboard', id })
+        return apiError(c, 'UNAUTHORIZED', 'A valid dashboard token is required')
+      }
+
+      if (role === 'owner' && granted !== 'owner') {
+        addSpanAttributes({ 'auth.success': false })
+        setSpanStatus(span, false, 'Dashboard owner required')
+        return apiError(c, 'FORBIDDEN', 'Only the dashboard owner can do this')
+      }
+
+      addSpanAttributes({ 'auth.success': true })
+      setSpanStatus(span, true)
+      c.set('dashboardOwner', owner)
+      c.set('dashboardRole', granted)
+      await next()
+    } catch (error) {
+      setSpanStatus(span, false, `Dashboard auth error: ${error}`)
+      return apiError(c, 'INTERNAL_ERROR', 'Authentication error')
+    } finally {
+      span.end()
     }
-    return []
-  } catch (error) {
-    console.error('Error getting attendances from KV:', error)
-    return []
   }
 }
 
-async function saveAttendances(kv: KVNamespace, attendances: Attendance[]): Promise<void> {
-  try {
-    await kv.put('attendances', JSON.stringify(attendances))
-  } catch (error) {
-    console.error('Error saving attendances to KV:', error)
-    throw error
+// Who is changing a dashboard, behind requireDashboardRole
+async function dashboardActor(c: Context<HonoEnv>): Promise<AuditActor> {
+  if (c.get('dashboardRole') === 'owner') return { kind: 'owner' }
+  const editor = await findDashboardEditor(c.req.header(DASHBOARD_TOKEN_HEADER), c.get('dashboardOwner') ?? null)
+  return editor ? { kind: 'editor', name: editor.name } : { kind: 'anonymous' }
+}
+
+type BallotChangeResult =
+  | { ok: true; ballot: Ballot; before: Ballot; changed: boolean }
+  | { ok: false; reason: 'not_found' | 'conflict' }
+
+/**
+ * Applies `change` to a stored ballot under its version check and tells live
+ * subscribers. `change` returns null to leave the ballot as it is.
+ */
+async function changeBallot(env: Bindings, id: string, change: (ballot: Ballot) => Ballot | null): Promise<BallotChangeResult> {
+  const ballots = ballotConfig.repository(env)
+  const current = await ballots.get(id)
+  if (!current) return { ok: false, reason: 'not_found' }
+
+  const next = change(current)
+  if (!next) return { ok: true, ballot: current, before: current, changed: false }
+
+  const result = await ballots.updateWithVersion(next, current.version ?? 1)
+  if (!result.ok) return { ok: false, reason: 'conflict' }
+
+  liveEvents.publish(liveChannel('ballot', id), { type: 'ballot', record: result.item })
+  return { ok: true, ballot: result.item, before: current, changed: true }
+}
+
+function ballotChangeFailed(c: Context<HonoEnv>, span: ReturnType<typeof createSpan>, reason: 'not_found' | 'conflict') {
+  if (reason === 'not_found') {
+    addSpanAttributes({ 'ballot.found': false })
+    setSpanStatus(span, false, 'Ballot not found')
+    return apiError(c, 'NOT_FOUND', 'Ballot not found')
   }
+  setSpanStatus(span, false, 'Version conflict - ballot was modified by another request')
+  return apiError(c, 'VERSION_CONFLICT', 'Ballot was modified by another request. Please try again.')
 }
 
-// Resource configurations
-const ballotConfig: ResourceConfig<Ballot> = {
-  name: 'ballot',
-  getAll: getAllBallots,
-  saveAll: saveBallots
+// Ballot management, shared by the admin routes and the owner routes
+type BallotActor = 'admin' | 'owner'
+
+function actorAttributes(c: Context<HonoEnv>, actor: BallotActor) {
+  return actor === 'admin' ? { 'admin.user': c.get('admin')?.keyId } : {}
 }
 
-const dashboardConfig: ResourceConfig<Dashboard> = {
-  name: 'dashboard',
-  getAll: getAllDashboards,
-  saveAll: saveDashboards
+function auditActor(c: Context<HonoEnv>, actor: BallotActor): AuditActor {
+  return actor === 'admin' ? adminActor(c.get('admin')) : { kind: 'owner' }
 }
 
-const attendanceConfig: ResourceConfig<Attendance> = {
-  name: 'attendance',
-  getAll: getAllAttendances,
-  saveAll: saveAttendances
+function updateBallotHandler(actor: BallotActor) {
+  return async (c: Context<HonoEnv, string, JsonInput<BallotUpdateInput>>) => {
+    const id = c.req.param('id')!
+
+    return withSpan(`${actor}_update_ballot`, async (span) => {
+      const { question, isPrivate } = c.req.valid('json')
+
+      addSpanAttributes({
+        'ballot.id': id,
+        'operation': `${actor}_update_ballot`,
+        [`${actor}.action`]: question === undefined ? 'toggle_privacy' : 'update_ballot'
+      })
+
+      const result = await changeBallot(c.env, id, current =>
+        question === undefined && isPrivate === undefined ? null : {
+          ...current,
+          ...(question !== undefined ? { question } : {}),
+          ...(isPrivate !== undefined ? { isPrivate } : {})
+        })
+      if (!result.ok) return ballotChangeFailed(c, span, result.reason)
+
+      addSpanAttributes({ 'ballot.found': true, 'ballot.updated': result.changed, 'ballot.is_private': !!result.ballot.isPrivate })
+      recordSpanEvent(`${actor}_ballot_updated`, {
+        'ballot.id': id,
+        'ballot.is_private': !!result.ballot.isPrivate,
+        ...actorAttributes(c, actor)
+      })
+      if (result.changed) {
+        await keepRevisionOf(c, 'ballot', result.before, result.ballot, auditActor(c, actor))
+        await audit(c, {
+          action: 'ballot_updated',
+          resource: { type: 'ballot', id },
+          before: { question: result.before.question, isPrivate: !!result.before.isPrivate },
+          after: { question: result.ballot.question, isPrivate: !!result.ballot.isPrivate }
+        }, auditActor(c, actor))
+      }
+
+      return c.json(result.ballot)
+    })
+  }
 }
 
-// Admin authentication middleware
-const adminAuth = async (c: any, next: any) => {
-  const span = createSpan('admin_auth')
+function closeBallotHandler(actor: BallotActor) {
+  return async (c: Context<HonoEnv>) => {
+    const id = c.req.param('id')!
 
-  try {
-    const authHeader = c.req.header('Authorization')
-    const adminKey = c.env.ADMIN_API_KEY
+    return withSpan(`${actor}_close_ballot`, async (span) => {
+      addSpanAttributes({
+        'ballot.id': id,
+        'operation': `${actor}_close_ballot`,
+        [`${actor}.action`]: 'close_ballot'
+      })
 
-    if (!adminKey) {
-      addSpanAttributes({ 'auth.error': 'no_admin_key_configured', 'auth.success': false })
-      setSpanStatus(span, false, 'Admin key not configured')
-      return c.json({ error: 'Admin functionality not available' }, 500)
-    }
+      // Closing twice keeps the original closedAt
+      const result = await changeBallot(c.env, id, current => current.status === 'closed' ? null : closeBallot(current))
+      if (!result.ok) return ballotChangeFailed(c, span, result.reason)
 
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      addSpanAttributes({ 'auth.error': 'missing_bearer_token', 'auth.success': false })
-      setSpanStatus(span, false, 'Missing authorization header')
-      return c.json({ error: 'Unauthorized' }, 401)
-    }
+      addSpanAttributes({ 'ballot.found': true, 'ballot.already_closed': !result.changed })
+      if (result.changed) {
+        recordSpanEvent(`${actor}_ballot_closed`, { 'ballot.id': id, ...actorAttributes(c, actor) })
+        await audit(c, { action: 'ballot_closed', resource: { type: 'ballot', id } }, auditActor(c, actor))
+      }
 
-    const token = authHeader.substring(7)
+      return c.json(result.ballot)
+    })
+  }
+}
 
-    if (token !== adminKey) {
-      addSpanAttributes({ 'auth.error': 'invalid_token', 'auth.success': false })
-      setSpanStatus(span, false, 'Invalid admin token')
-      recordSpanEvent('admin_auth_failed', { 'auth.attempt': 'invalid_token' })
-      return c.json({ error: 'Unauthorized' }, 401)
-    }
+function reopenBallotHandler(actor: BallotActor) {
+  return async (c: Context<HonoEnv, string, JsonInput<BallotReopenInput>>) => {
+    const id = c.req.param('id')!
 
-    addSpanAttributes({ 'auth.success': true, 'auth.type': 'admin' })
-    recordSpanEvent('admin_auth_success', { 'auth.method': 'bearer_token' })
-    setSpanStatus(span, true)
+    return withSpan(`${actor}_reopen_ballot`, async (span) => {
+      const { closesAt } = c.req.valid('json')
 
-    await next()
-  } catch (error) {
-    setSpanStatus(span, false, `Admin auth error: ${error}`)
-    return c.json({ error: 'Authentication error' }, 500)
-  } finally {
-    span.end()
+      addSpanAttributes({
+        'ballot.id': id,
+        'operation': `${actor}_reopen_ballot`,
+        [`${actor}.action`]: 'reopen_ballot'
+      })
+
+      const result = await changeBallot(c.env, id, current => reopenBallot(current, closesAt))
+      if (!result.ok) return ballotChangeFailed(c, span, result.reason)
+
+      addSpanAttributes({ 'ballot.found': true, 'ballot.has_closes_at': !!result.ballot.closesAt })
+      recordSpanEvent(`${actor}_ballot_reopened`, { 'ballot.id': id, ...actorAttributes(c, actor) })
+      await audit(c, {
+        action: 'ballot_reopened',
+        resource: { type: 'ballot', id },
+        after: { closesAt: result.ballot.closesAt ?? null }
+      }, auditActor(c, actor))
+
+      return c.json(result.ballot)
+    })
+  }
+}
+
+function deleteBallotHandler(actor: BallotActor) {
+  return async (c: Context<HonoEnv>) => {
+    const id = c.req.param('id')!
+
+    return withSpan(`${actor}_delete_ballot`, async (span) => {
+      addSpanAttributes({
+        'ballot.id': id,
+        'operation': `${actor}_delete_ballot`,
+        [`${actor}.action`]: 'delete_ballot'
+      })
+
+      const ballots = ballotConfig.repository(c.env)
+      const deletedBallot = await ballots.get(id)
+
+      if (!deletedBallot) {
+        addSpanAttributes({ 'ballot.found': false })
+        recordSpanEvent(`${actor}_delete_failed`, { 'ballot.id': id, 'error': 'ballot_not_found' })
+        setSpanStatus(span, false, 'Ballot not found')
+        return apiError(c, 'NOT_FOUND', 'Ballot not found')
+      }
+
+      await ballots.delete(id)
+
+      addSpanAttributes({
+        'ballot.found': true,
+        'ballot.question': deletedBallot.question,
+        'ballot.vote_count': deletedBallot.votes.length
+      })
+
+      recordSpanEvent(`${actor}_ballot_deleted`, {
+        'ballot.id': id,
+        'ballot.question': deletedBallot.question,
+        'ballot.votes': deletedBallot.votes.length,
+        ...actorAttributes(c, actor)
+      })
+      await audit(c, { action: 'ballot_deleted', resource: { type: 'ballot', id }, before: ballotSummary(deletedBallot) }, auditActor(c, actor))
+
+      return c.json({
+        message: 'Ballot deleted successfully',
+        deletedBallot: {
+          id: deletedBallot.id,
+          question: deletedBallot.question,
+          voteCount: deletedBallot.votes.length
+        }
+      })
+    })
+  }
+}
+
+const REVISION_RECORD_LABELS: Record<RevisionType, string> = { ballot: 'Ballot', dashboard: 'Dashboard', attendance: 'Attendance' }
+
+function revisionNotFound(c: Context<HonoEnv>, span: ReturnType<typeof createSpan>, message: string) {
+  addSpanAttributes({ 'revision.found': false })
+  setSpanStatus(span, false, message)
+  return apiError(c, 'NOT_FOUND', message)
+}
+
+// The record at `version`: the current one, or a kept revision
+async function recordAtVersion<T extends VersionedRecord>(env: Bindings, type: RevisionType, current: T, version: number): Promise<T | null> {
+  if (version === (current.version ?? 1)) return current
+  const revision = await revisionRepository(env).get(revisionId(type, current.id, version))
+  return revision ? revision.record as T : null
+}
+
+// Revision routes, shared by ballots, dashboards and attendance polls
+function listRevisionsHandler<T extends VersionedRecord>(type: RevisionType, config: ResourceConfig<T>) {
+  return async (c: Context<HonoEnv>) => {
+    const id = c.req.param('id')!
+
+    return withSpan(`list_${type}_revisions`, async (span) => {
+      addSpanAttributes({ [`${type}.id`]: id, 'operation': `list_${type}_revisions` })
+
+      if (!(await config.repository(c.env).get(id))) return revisionNotFound(c, span, `${REVISION_RECORD_LABELS[type]} not found`)
+
+      const items = await listRevisions(revisionRepository(c.env), type, id)
+      addSpanAttributes({ 'revision.count': items.length })
+
+      return c.json({ items })
+    })
+  }
+}
+
+function getRevisionHandler<T extends VersionedRecord>(type: RevisionType, config: ResourceConfig<T>) {
+  return async (c: Context<HonoEnv>) => {
+    const id = c.req.param('id')!
+    const version = Number(c.req.param('version'))
+
+    return withSpan(`get_${type}_revision`, async (span) => {
+      addSpanAttributes({ [`${type}.id`]: id, 'revision.version': version, 'operation': `get_${type}_revision` })
+
+      if (!(await config.repository(c.env).get(id))) return revisionNotFound(c, span, `${REVISION_RECORD_LABELS[type]} not found`)
+
+      const revision = Number.isInteger(version) ? await revisionRepository(c.env).get(revisionId(type, id, version)) : null
+      if (!revision) return revisionNotFound(c, span, 'Revision not found')
+
+      addSpanAttributes({ 'revision.found': true })
+      return c.json(revision)
+    })
+  }
+}
+
+// The route must validate its query with `validateQuery(revisionDiffQuerySchema)`
+function diffRevisionsHandler<T extends VersionedRecord>(type: RevisionType, config: ResourceConfig<T>) {
+  return async (c: Context<HonoEnv, string, QueryInput<RevisionDiffQuery>>) => {
+    const id = c.req.param('id')!
+
+    return withSpan(`diff_${type}_revisions`, async (span) => {
+      const current = await config.repository(c.env).get(id)
+      if (!current) return revisionNotFound(c, span, `${REVISION_RECORD_LABELS[type]} not found`)
+
+      const query = c.req.valid('query')
+      const from = query.from
+      const to = query.to ?? current.version ?? 1
+      addSpanAttributes({ [`${type}.id`]: id, 'revision.from': from, 'revision.to': to, 'operation': `diff_${type}_revisions` })
+
+      const [before, after] = await Promise.all([recordAtVersion(c.env, type, current, from), recordAtVersion(c.env, type, current, to)])
+      if (!before || !after) return revisionNotFound(c, span, 'Revision not found')
+
+      const diff: RevisionDiff = { from, to, changes: diffRecords(before, after) }
+      addSpanAttributes({ 'revision.found': true, 'revision.changes': diff.changes.length })
+
+      return c.json(diff)
+    })
+  }
+}
+
+// Rolling back is itself an edit: it makes a new version and keeps a revision
+function restoreRevisionHandler<T extends VersionedRecord>(type: RevisionType, config: ResourceConfig<T>, actorOf: (c: Context<HonoEnv>) => Promise<AuditActor>) {
+  return async (c: Context<HonoEnv>) => {
+    const id = c.req.param('id')!
+    const version = Number(c.req.param('version'))
+
+    return withSpan(`restore_${type}_revision`, async (span) => {
+      addSpanAttributes({ [`${type}.id`]: id, 'revision.version': version, 'operation': `restore_${type}_revision` })
+
+      const records = config.repository(c.env)
+      const current = await records.get(id)
+      if (!current) return revisionNotFound(c, span, `${REVISION_RECORD_LABELS[type]} not found`)
+
+      const revision = Number.isInteger(version) ? await revisionRepository(c.env).get(revisionId(type, id, version)) as Revision<T> | null : null
+      if (!revision) return revisionNotFound(c, span, 'Revision not found')
+
+      const result = await records.updateWithVersion(rolledBack(type, current, revision), current.version ?? 1)
+      if (!result.ok && result.reason === 'not_found') return revisionNotFound(c, span, `${REVISION_RECORD_LABELS[type]} not found`)
+      if (!result.ok) {
+        setSpanStatus(span, false, `Version conflict - ${type} was modified by another request`)
+        return apiError(c, 'VERSION_CONFLICT', `${REVISION_RECORD_LABELS[type]} was modified by another request. Please try again.`, { currentVersion: result.currentVersion })
+      }
+
+      const restored = result.item
+      const actor = await actorOf(c)
+      addSpanAttributes({ 'revision.found': true, 'version.new': restored.version ?? 1 })
+      recordSpanEvent(`${type}_revision_restored`, { [`${type}.id`]: id, 'revision.version': version })
+      await keepRevisionOf(c, type, current, restored, actor)
+      await audit(c, { action: 'revision_restored', resource: { type, id }, details: { version, newVersion: restored.version ?? 1 } }, actor)
+
+      if (type !== 'dashboard') liveEvents.publish(liveChannel(type, id), { type, record: restored })
+
+      return c.json(restored)
+    })
   }
 }
 
@@ -207,10 +856,28 @@ app.get('/hello', async (c) => {
   return c.json(data, { status: 200 })
 })
 
+// Issue an anonymous voter token - clients keep it and send it with every vote
+app.post('/api/voter-token', limit('voter-token'), async (c) => {
+  return withSpan('issue_voter_token', async (span) => {
+    const secret = c.env.VOTER_TOKEN_SECRET
+    if (!secret) {
+      addSpanAttributes({ 'voter_token.error': 'no_secret_configured' })
+      setSpanStatus(span, false, 'Voter token secret not configured')
+      return apiError(c, 'INTERNAL_ERROR', 'Voter tokens not available')
+    }
+
+    const token = await issueVoterToken(secret)
+    recordSpanEvent('voter_token_issued')
+    return c.json({ token }, 201)
+  })
+})
+
 // Ballot routes
-app.get('/api/ballots', createListHandler(ballotConfig, {
-  filter: (ballot) => !ballot.isPrivate,
-  sort: (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+const ballotListFields: ListFields<Ballot> = { text: (ballot) => ballot.question, time: (ballot) => ballot.createdAt }
+
+app.get('/api/ballots', validateQuery(listQuerySchema), createListHandler(ballotConfig, {
+  fields: ballotListFields,
+  filter: (ballot) => !ballot.isPrivate
 }))
 
 // Get multiple ballots by IDs (batch endpoint to avoid N+1 queries)
@@ -220,70 +887,274 @@ app.get('/api/ballots/:id', createGetByIdHandler(ballotConfig, {
   includeAttributes: (ballot) => ({ 'ballot.vote_count': ballot.votes.length })
 }))
 
-app.post('/api/ballots', createCreateHandler<Ballot, { question: string; isPrivate?: boolean }>(
+app.post('/api/ballots', limit('create'), validateBody(ballotCreateSchema), createCreateHandler<Ballot, BallotCreateInput>(
   ballotConfig,
   {
-    validate: (body) => {
-      if (!body.question || typeof body.question !== 'string') {
-        return { valid: false, error: 'Question is required' }
-      }
-      if (body.question.trim().length > MAX_QUESTION_LENGTH) {
-        return { valid: false, error: `Question must be ${MAX_QUESTION_LENGTH} characters or less` }
-      }
-      return { valid: true }
-    },
     buildItem: (body) => ({
       id: `ballot-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      question: body.question.trim(),
+      question: body.question,
       votes: [],
       createdAt: new Date().toISOString(),
-      isPrivate: body.isPrivate === true
+      isPrivate: body.isPrivate === true,
+      status: 'open',
+      kind: body.kind ?? 'traffic-light',
+      votePolicy: body.votePolicy ?? 'unlimited',
+      ...(body.kind && CUSTOM_OPTION_KINDS.includes(body.kind)
+        ? { options: body.options!.map((label, index) => ({ value: String(index + 1), label })) }
+        : {}),
+      ...(body.closesAt ? { closesAt: body.closesAt } : {})
     }),
     includeAttributes: (ballot) => ({
+      'ballot.kind': ballot.kind ?? 'traffic-light',
       'ballot.question_length': ballot.question.length,
-      'ballot.is_private': !!ballot.isPrivate
-    })
+      'ballot.is_private': !!ballot.isPrivate,
+      'ballot.has_closes_at': !!ballot.closesAt,
+      'ballot.vote_policy': votePolicy(ballot)
+    }),
+    // The owner token is only ever in this response
+    afterInsert: async (c, ballot) => {
+      const { token, record } = await createOwner(ballot.id)
+      await ballotOwnerRepository(c.env).insert(record)
+      return { ownerToken: token }
+    }
   }
 ))
 
-// Ballot update (add vote) - custom handler due to vote tracking logic
-app.put('/api/ballots/:id', async (c) => {
+// Cast a vote - the server owns the votes array; clients can only add to it, or
+// replace their own vote on 'change' ballots
+app.post('/api/ballots/:id/votes', limit('vote'), limit('ballot-votes', c => c.req.param('id')!), validateBody(voteSchema), async (c) => {
   const id = c.req.param('id')
 
-  return withSpan('update_ballot', async (span) => {
-    const updatedBallot = await c.req.json()
+  return withSpan('add_vote', async (span) => {
+    const { color, choice = color, ranking, approvals, comment } = c.req.valid('json')
 
     addSpanAttributes({
       'ballot.id': id,
-      'operation': 'update_ballot'
-    })
-
-    // Validate comment lengths in votes
-    if (updatedBallot.votes && Array.isArray(updatedBallot.votes)) {
-      for (const vote of updatedBallot.votes) {
-        if (vote.comment && vote.comment.length > MAX_COMMENT_LENGTH) {
-          addSpanAttributes({
-            'validation.failed': true,
-            'error': 'Comment too long'
-          })
-          recordSpanEvent('validation_failed', { 'reason': 'comment_too_long' })
-          setSpanStatus(span, false, `Comment must be ${MAX_COMMENT_LENGTH} characters or less`)
-          return c.json({ error: `Comment must be ${MAX_COMMENT_LENGTH} characters or less` }, 400)
-        }
+      'operation': 'add_vote'
+    })
+
+    const voter = await readVoterToken(c)
+    if (!voter.valid) {
+      addSpanAttributes({ 'validation.failed': true, 'error': 'Invalid voter token' })
+      recordSpanEvent('validation_failed', { 'reason': 'invalid_voter_token' })
+      setSpanStatus(span, false, 'Invalid voter token')
+      return apiError(c, 'UNAUTHORIZED', 'Invalid voter token')
+    }
+
+    // The coordinator checks the selection against the ballot's kind and options
+    const vote: Vote = {
+      ...(choice ? { choice } : {}),
+      ...(ranking ? { ranking } : {}),
+      ...(approvals ? { approvals } : {}),
+      ...(comment ? { comment } : {}),
+      ...(voter.tokenId ? { voterId: await voterIdFor(id, voter.tokenId) } : {}),
+      createdAt: new Date().toISOString()
+    }
+
+    const result = await ballotCoordinatorFor(c.env).appendVote(id, vote)
+
+    if (!result.ok && result.reason === 'not_found') {
+      addSpanAttributes({ 'ballot.found': false })
+      recordSpanEvent('ballot_not_found', { 'ballot.id': id })
+      setSpanStatus(span, false, 'Ballot not found')
+      return apiError(c, 'NOT_FOUND', 'Ballot not found')
+    }
+
+    if (!result.ok && result.reason === 'invalid_vote') {
+      addSpanAttributes({ 'validation.failed': true, 'error': 'Invalid vote' })
+      recordSpanEvent('validation_failed', { 'reason': 'invalid_vote' })
+      setSpanStatus(span, false, result.error)
+      return apiError(c, 'VALIDATION_FAILED', result.error)
+    }
+
+    if (!result.ok && result.reason === 'voter_required') {
+      addSpanAttributes({ 'ballot.found': true, 'validation.failed': true, 'error': 'Missing voter token' })
+      recordSpanEvent('vote_rejected', { 'ballot.id': id, 'reason': 'voter_required' })
+      setSpanStatus(span, false, 'Voter token required')
+      return apiError(c, 'UNAUTHORIZED', 'A voter token is required to vote on this ballot')
+    }
+
+    if (!result.ok && result.reason === 'already_voted') {
+      addSpanAttributes({ 'ballot.found': true, 'vote.duplicate': true })
+      recordSpanEvent('vote_rejected', { 'ballot.id': id, 'reason': 'already_voted' })
+      setSpanStatus(span, false, 'Voter has already voted')
+      return apiError(c, 'ALREADY_VOTED', 'You have already voted on this ballot.', { vote: result.vote })
+    }
+
+    if (!result.ok && result.reason === 'closed') {
+      addSpanAttributes({ 'ballot.found': true, 'ballot.closed': true })
+      recordSpanEvent('vote_rejected', { 'ballot.id': id, 'reason': 'ballot_closed' })
+      setSpanStatus(span, false, 'Ballot is closed')
+      return apiError(c, 'BALLOT_CLOSED', 'This ballot is closed and no longer accepts votes.', { closedAt: result.closedAt })
+    }
+
+    if (!result.ok) {
+      addSpanAttributes({ 'ballot.found': true, 'version.conflict': true })
+      recordSpanEvent('version_conflict', { 'ballot.id': id, 'version.current': result.currentVersion })
+      setSpanStatus(span, false, 'Version conflict - ballot kept changing during admin edits')
+      return apiError(c, 'VERSION_CONFLICT', 'Ballot is being edited - please try voting again.', { currentVersion: result.currentVersion })
+    }
+
+    const updatedBallot = result.item
+
+    addSpanAttributes({
+      'ballot.found': true,
+      'vote.choice': choice,
+      'vote.has_comment': !!vote.comment,
+      'vote.has_voter': !!vote.voterId,
+      'vote.total': updatedBallot.votes.length,
+      'version.new': updatedBallot.version
+    })
+
+    recordSpanEvent('vote_added', {
+      'ballot.id': id,
+      'vote.choice': choice,
+      'votes.total': updatedBallot.votes.length,
+      'version': updatedBallot.version
+    })
+
+    liveEvents.publish(liveChannel('ballot', id), { type: 'vote', record: updatedBallot })
+
+    return c.json(updatedBallot, 201)
+  })
+})
+
+// The caller's own vote on a ballot, identified by their voter token
+app.get('/api/ballots/:id/my-vote', async (c) => {
+  const id = c.req.param('id')
+
+  return withSpan('get_my_vote', async (span) => {
+    addSpanAttributes({ 'ballot.id': id, 'operation': 'get_my_vote' })
+
+    const voter = await readVoterToken(c)
+    if (!voter.tokenId) {
+      setSpanStatus(span, false, 'Missing or invalid voter token')
+      return apiError(c, 'UNAUTHORIZED', voter.valid ? 'A voter token is required' : 'Invalid voter token')
+    }
+
+    const ballot = await ballotConfig.repository(c.env).get(id)
+    if (!ballot) {
+      addSpanAttributes({ 'ballot.found': false })
+      setSpanStatus(span, false, 'Ballot not found')
+      return apiError(c, 'NOT_FOUND', 'Ballot not found')
+    }
+
+    // Latest first, in case an 'unlimited' ballot has several
+    const voterId = await voterIdFor(id, voter.tokenId)
+    const vote = ballot.votes.findLast(existing => existing.voterId === voterId) ?? null
+    addSpanAttributes({ 'ballot.found': true, 'vote.found': vote !== null })
+
+    return c.json({ vote, votePolicy: votePolicy(ballot) })
+  })
+})
+
+// Tallied results - round-by-round for ranked ballots, totals for every other kind
+app.get('/api/ballots/:id/results', async (c) => {
+  const id = c.req.param('id')
+
+  return withSpan('get_ballot_results', async (span) => {
+    addSpanAttributes({ 'ballot.id': id, 'operation': 'get_ballot_results' })
+
+    const ballot = await ballotConfig.repository(c.env).get(id)
+    if (!ballot) {
+      addSpanAttributes({ 'ballot.found': false })
+      setSpanStatus(span, false, 'Ballot not found')
+      return apiError(c, 'NOT_FOUND', 'Ballot not found')
+    }
+
+    const results = tallyBallot(ballot)
+    addSpanAttributes({
+      'ballot.found': true,
+      'ballot.kind': ballotKind(ballot),
+      'results.method': results.method,
+      'results.ballots_cast': results.ballotsCast,
+      'results.winners': results.winners.length
+    })
+
+    return c.json({
+      ballotId: ballot.id,
+      kind: ballotKind(ballot),
+      status: isBallotOpen(ballot) ? 'open' : 'closed',
+      options: ballotOptions(ballot),
+      results
+    })
+  })
+})
+
+// Download of a ballot's results and votes. Private ballots only go to their
+// owner or an admin.
+app.get('/api/ballots/:id/export', validateQuery(exportQuerySchema), async (c) => {
+  const id = c.req.param('id')
+  const format = c.req.valid('query').format ?? DEFAULT_EXPORT_FORMAT
+
+  return withSpan('export_ballot', async (span) => {
+    addSpanAttributes({ 'ballot.id': id, 'operation': 'export_ballot', 'export.format': format })
+
+    const ballot = await ballotConfig.repository(c.env).get(id)
+    if (!ballot) {
+      addSpanAttributes({ 'ballot.found': false })
+      setSpanStatus(span, false, 'Ballot not found')
+      return apiError(c, 'NOT_FOUND', 'Ballot not found')
+    }
+
+    if (ballot.isPrivate) {
+      const owner = await ballotOwnerRepository(c.env).get(id)
+      const allowed = await ownerTokenMatches(c.req.header(OWNER_TOKEN_HEADER), owner) || await isAdminRequest(c)
+      if (!allowed) {
+        addSpanAttributes({ 'auth.success': false })
+        setSpanStatus(span, false, 'Private ballot export refused')
+        return apiError(c, 'UNAUTHORIZED', 'Only the owner or an admin can export a private ballot')
       }
     }
 
-    const ballots = await getAllBallots(c.env.BALLOTS_KV)
-    const ballotIndex = ballots.findIndex(b => b.id === id)
+    addSpanAttributes({ 'ballot.found': true, 'ballot.is_private': !!ballot.isPrivate, 'export.votes': ballot.votes.length })
+    recordSpanEvent('ballot_exported', { 'ballot.id': id, 'export.format': format })
+    return exportResponse(c, ballotExport(ballot), format)
+  })
+})
+
+// Live updates for one ballot (server-sent events)
+app.get('/api/ballots/:id/stream', async (c) => {
+  const id = c.req.param('id')
+
+  return withSpan('stream_ballot', async (span) => {
+    addSpanAttributes({ 'ballot.id': id, 'operation': 'stream_ballot' })
+
+    const ballot = await ballotConfig.repository(c.env).get(id)
+    if (!ballot) {
+      addSpanAttributes({ 'ballot.found': false })
+      setSpanStatus(span, false, 'Ballot not found')
+      return apiError(c, 'NOT_FOUND', 'Ballot not found')
+    }
+
+    recordSpanEvent('stream_opened', { 'ballot.id': id })
+    return streamLiveUpdates(c, [ballotSource(c.env, id)])
+  })
+})
+
+// Ballot update (admin edit) - replaces the stored ballot, guarded by optimistic locking
+app.put('/api/ballots/:id', requireAdmin('moderate'), validateBody(ballotReplaceSchema), async (c) => {
+  const id = c.req.param('id')
+
+  return withSpan('update_ballot', async (span) => {
+    const updatedBallot = c.req.valid('json')
+
+    addSpanAttributes({
+      'ballot.id': id,
+      'operation': 'update_ballot',
+      'admin.action': 'edit_ballot'
+    })
+
+    const ballots = ballotConfig.repository(c.env)
+    const currentBallot = await ballots.get(id)
 
-    if (ballotIndex === -1) {
+    if (!currentBallot) {
       addSpanAttributes({ 'ballot.found': false })
       recordSpanEvent('ballot_not_found', { 'ballot.id': id })
       setSpanStatus(span, false, 'Ballot not found')
-      return c.json({ error: 'Ballot not found' }, 404)
+      return apiError(c, 'NOT_FOUND', 'Ballot not found')
     }
 
-    const currentBallot = ballots[ballotIndex]!
     const currentVersion = currentBallot.version ?? 1
     const incomingVersion = updatedBallot.version ?? 1
 
@@ -301,19 +1172,22 @@ app.put('/api/ballots/:id', async (c) => {
         'version.incoming': incomingVersion
       })
       setSpanStatus(span, false, 'Version conflict - ballot was modified by another request')
-      return c.json({
-        error: 'Version conflict - ballot was modified by another request. Please refresh and try again.',
-        currentVersion
-      }, 409)
+      return apiError(c, 'VERSION_CONFLICT', 'Version conflict - ballot was modified by another request. Please refresh and try again.', { currentVersion })
     }
 
     const originalVoteCount = currentBallot.votes.length
     const newVoteCount = updatedBallot.votes.length
     const votesAdded = newVoteCount - originalVoteCount
 
-    // Increment version on successful update
-    ballots[ballotIndex] = { ...updatedBallot, version: currentVersion + 1 }
-    await saveBallots(c.env.BALLOTS_KV, ballots)
+    // The repository re-checks and increments the version; the id always comes from the URL
+    const result = await ballots.updateWithVersion({ ...updatedBallot, id }, currentVersion)
+
+    if (!result.ok) {
+      setSpanStatus(span, false, 'Version conflict - ballot was modified by another request')
+      return apiError(c, 'VERSION_CONFLICT', 'Version conflict - ballot was modified by another request. Please refresh and try again.', { currentVersion: result.reason === 'version_conflict' ? result.currentVersion : currentVersion })
+    }
+
+    const savedBallot = result.item
 
     addSpanAttributes({
       'ballot.found': true,
@@ -329,21 +1203,134 @@ app.put('/api/ballots/:id', async (c) => {
       'votes.total': newVoteCount,
       'version': currentVersion + 1
     })
+    await keepRevisionOf(c, 'ballot', currentBallot, savedBallot, adminActor(c.get('admin')))
+    await audit(c, {
+      action: 'ballot_replaced',
+      resource: { type: 'ballot', id },
+      before: ballotSummary(currentBallot),
+      after: ballotSummary(savedBallot)
+    })
+
+    liveEvents.publish(liveChannel('ballot', id), { type: 'ballot', record: savedBallot })
+
+    return c.json(savedBallot)
+  })
+})
+
+// Owner routes - whoever created a ballot manages it with the owner token from
+// the create response
+app.patch('/api/ballots/:id', requireOwner(), validateBody(ballotUpdateSchema), updateBallotHandler('owner'))
+app.post('/api/ballots/:id/close', requireOwner(), closeBallotHandler('owner'))
+app.post('/api/ballots/:id/reopen', requireOwner(), validateBody(ballotReopenSchema), reopenBallotHandler('owner'))
+app.delete('/api/ballots/:id', requireOwner(), deleteBallotHandler('owner'))
+
+// Ballot revisions - admins only, as they include private ballots and voter ids
+app.get('/api/ballots/:id/revisions', requireAdmin('read'), listRevisionsHandler('ballot', ballotConfig))
+app.get('/api/ballots/:id/revisions/diff', requireAdmin('read'), validateQuery(revisionDiffQuerySchema), diffRevisionsHandler('ballot', ballotConfig))
+app.get('/api/ballots/:id/revisions/:version', requireAdmin('read'), getRevisionHandler('ballot', ballotConfig))
+app.post('/api/ballots/:id/revisions/:version/restore', requireAdmin('moderate'), restoreRevisionHandler('ballot', ballotConfig, async (c) => adminActor(c.get('admin'))))
+
+// Admin login - trade an API key (or the root key) for a session token
+app.post('/api/admin/sessions', validateBody(adminLoginSchema), async (c) => {
+  return withSpan('admin_login', async (span) => {
+    const { key } = c.req.valid('json')
+    addSpanAttributes({ 'operation': 'admin_login' })
+
+    const credentials = adminCredentials(c.env)
+    const admin = await authenticateAdmin(key, credentials)
+    // Sessions can only be opened with a key, not with another session
+    if (!admin || admin.sessionId) {
+      recordSpanEvent('admin_login_failed')
+      await auditAuthFailure(c, 'invalid_key', { kind: 'anonymous' })
+      setSpanStatus(span, false, 'Invalid key')
+      return apiError(c, 'UNAUTHORIZED', 'Invalid API key')
+    }
+
+    const session = await openAdminSession(credentials, admin)
+    addSpanAttributes({ 'admin.key_id': admin.keyId, 'admin.scope': admin.scope })
+    recordSpanEvent('admin_login', { 'admin.key_id': admin.keyId })
+
+    const body: AdminSession = { ...session, admin: { name: admin.name, scope: admin.scope } }
+    return c.json(body, 201)
+  })
+})
+
+// Who the current credential belongs to
+app.get('/api/admin/session', requireAdmin('read'), async (c) => {
+  const { name, scope } = c.get('admin')!
+  const identity: AdminIdentity = { name, scope }
+  return c.json(identity)
+})
+
+// Log out - ends the session used for this request
+app.delete('/api/admin/session', requireAdmin('read'), async (c) => {
+  return withSpan('admin_logout', async () => {
+    const { sessionId, keyId } = c.get('admin')!
+    if (sessionId) await adminSessionRepository(c.env).delete(sessionId)
+
+    recordSpanEvent('admin_logout', { 'admin.key_id': keyId, 'session.ended': !!sessionId })
+    return c.json({ message: 'Logged out' })
+  })
+})
 
-    return c.json(ballots[ballotIndex])
+// Admin API keys
+app.get('/api/admin/keys', requireAdmin('full'), async (c) => {
+  return withSpan('admin_list_keys', async () => {
+    const keys = await adminKeyRepository(c.env).list()
+    addSpanAttributes({ 'admin_keys.count': keys.length })
+    return c.json(keys.map(toAdminKeySummary))
+  })
+})
+
+app.post('/api/admin/keys', requireAdmin('full'), validateBody(adminKeyCreateSchema), async (c) => {
+  return withSpan('admin_create_key', async () => {
+    const { name, scope } = c.req.valid('json')
+
+    const { key, record } = await createAdminKey(adminKeyRepository(c.env), name, scope)
+    addSpanAttributes({ 'admin_key.id': record.id, 'admin_key.scope': record.scope })
+    recordSpanEvent('admin_key_created', { 'admin_key.id': record.id, 'admin.user': c.get('admin')?.keyId })
+    await audit(c, { action: 'admin_key_created', resource: { type: 'admin_key', id: record.id }, after: { name: record.name, scope: record.scope } })
+
+    // The only time the full key is returned
+    return c.json({ ...toAdminKeySummary(record), key }, 201)
+  })
+})
+
+// Revoke a key - it and its sessions stop working at once. The record stays for reference.
+app.delete('/api/admin/keys/:id', requireAdmin('full'), async (c) => {
+  const id = c.req.param('id')
+
+  return withSpan('admin_revoke_key', async (span) => {
+    addSpanAttributes({ 'admin_key.id': id })
+    const keys = adminKeyRepository(c.env)
+    const key = await keys.get(id)
+
+    if (!key) {
+      setSpanStatus(span, false, 'Key not found')
+      return apiError(c, 'NOT_FOUND', 'Key not found')
+    }
+    if (key.revokedAt) {
+      return c.json(toAdminKeySummary(key))
+    }
+
+    const result = await keys.updateWithVersion({ ...key, revokedAt: new Date().toISOString() }, key.version ?? 1)
+    if (!result.ok) {
+      setSpanStatus(span, false, 'Key changed during revoke')
+      return apiError(c, 'VERSION_CONFLICT', 'Key was modified - please try again.')
+    }
+
+    recordSpanEvent('admin_key_revoked', { 'admin_key.id': id, 'admin.user': c.get('admin')?.keyId })
+    await audit(c, { action: 'admin_key_revoked', resource: { type: 'admin_key', id }, before: { name: key.name, scope: key.scope } })
+    return c.json(toAdminKeySummary(result.item))
   })
 })
 
 // Admin routes
-app.get('/api/admin/ballots', adminAuth, async (c) => {
+app.get('/api/admin/ballots', requireAdmin('read'), validateQuery(listQuerySchema), async (c) => {
   return withSpan('admin_get_all_ballots', async (span) => {
-    const ballots = await getAllBallots(c.env.BALLOTS_KV)
-
-    const sortedBallots = ballots.sort((a, b) =>
-      new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-    )
+    const ballots = await ballotConfig.repository(c.env).list()
 
-    const adminBallots: AdminBallot[] = sortedBallots.map(ballot => ({
+    const toAdminBallots = (page: Ballot[]): AdminBallot[] => page.map(ballot => ({
       ...ballot,
       voteCount: ballot.votes.length,
       commentCount: ballot.votes.filter(v => v.comment && v.comment.trim() !== '').length,
@@ -358,229 +1345,420 @@ app.get('/api/admin/ballots', adminAuth, async (c) => {
 
     recordSpanEvent('admin_ballots_accessed', {
       'ballots.count': ballots.length,
-      'admin.user': 'authenticated'
+      'admin.user': c.get('admin')?.keyId
     })
 
-    return c.json(adminBallots)
+    return listPage(c, ballots, ballotListFields, toAdminBallots)
   })
 })
 
-app.delete('/api/admin/ballots/:id', adminAuth, async (c) => {
-  const id = c.req.param('id')
+app.delete('/api/admin/ballots/:id', requireAdmin('full'), deleteBallotHandler('admin'))
+app.patch('/api/admin/ballots/:id', requireAdmin('moderate'), validateBody(ballotUpdateSchema), updateBallotHandler('admin'))
+app.post('/api/admin/ballots/:id/close', requireAdmin('moderate'), closeBallotHandler('admin'))
+app.post('/api/admin/ballots/:id/reopen', requireAdmin('moderate'), validateBody(ballotReopenSchema), reopenBallotHandler('admin'))
+
+app.post('/api/admin/ballots/migrate', requireAdmin('full'), validateBody(ballotMigrationSchema), async (c) => {
+  return withSpan('admin_migrate_ballots', async () => {
+    const { ballots: incomingBallots } = c.req.valid('json')
 
-  return withSpan('admin_delete_ballot', async (span) => {
     addSpanAttributes({
-      'ballot.id': id,
-      'operation': 'admin_delete_ballot',
-      'admin.action': 'delete_ballot'
+      'operation': 'admin_migrate_ballots',
+      'admin.action': 'migrate_ballots',
+      'ballots.incoming_count': incomingBallots.length
     })
 
-    const ballots = await getAllBallots(c.env.BALLOTS_KV)
-    const ballotIndex = ballots.findIndex(b => b.id === id)
+    // Trashed ballots count as existing, their ids are still taken
+    const ballots = ballotRecords(c.env)
+    const existingBallots = await ballots.list()
+    const existingIds = new Set(existingBallots.map(b => b.id))
+    const newBallots = incomingBallots.filter(b => !existingIds.has(b.id))
+    const mergedBallots = [...existingBallots, ...newBallots]
 
-    if (ballotIndex === -1) {
-      addSpanAttributes({ 'ballot.found': false })
-      recordSpanEvent('admin_delete_failed', { 'ballot.id': id, 'error': 'ballot_not_found' })
-      setSpanStatus(span, false, 'Ballot not found')
-      return c.json({ error: 'Ballot not found' }, 404)
+    for (const ballot of newBallots) {
+      await ballots.insert(ballot)
     }
 
-    const deletedBallot = ballots[ballotIndex]!
-    ballots.splice(ballotIndex, 1)
-    await saveBallots(c.env.BALLOTS_KV, ballots)
+    addSpanAttributes({
+      'ballots.existing_count': existingBallots.length,
+      'ballots.new_count': newBallots.length,
+      'ballots.total_count': mergedBallots.length,
+      'ballots.duplicates_skipped': incomingBallots.length - newBallots.length
+    })
+
+    recordSpanEvent('admin_ballots_migrated', {
+      'ballots.migrated': newBallots.length,
+      'ballots.total': mergedBallots.length,
+      'admin.user': c.get('admin')?.keyId
+    })
+    await audit(c, {
+      action: 'ballots_migrated',
+      details: { migrated: newBallots.length, duplicatesSkipped: incomingBallots.length - newBallots.length }
+    })
+
+    return c.json({
+      message: 'Migration successful',
+      existingCount: existingBallots.length,
+      migratedCount: newBallots.length,
+      duplicatesSkipped: incomingBallots.length - newBallots.length,
+      totalCount: mergedBallots.length
+    })
+  })
+})
+
+// Backup and restore - every ballot, dashboard and attendance poll, see ./backup
+app.get('/api/admin/backup', requireAdmin('full'), async (c) => {
+  return withSpan('admin_backup', async () => {
+    const backup = await createBackup(backupRepositories(c.env))
 
     addSpanAttributes({
-      'ballot.found': true,
-      'ballot.question': deletedBallot.question,
-      'ballot.vote_count': deletedBallot.votes.length
+      'operation': 'admin_backup',
+      'backup.ballots': backup.ballots.length,
+      'backup.dashboards': backup.dashboards.length,
+      'backup.attendance': backup.attendance.length
+    })
+    recordSpanEvent('admin_backup_created', { 'admin.user': c.get('admin')?.keyId })
+
+    c.header('Content-Disposition', `attachment; filename="ballot-app-backup-${backup.createdAt.slice(0, 10)}.json"`)
+    return c.json(backup)
+  })
+})
+
+// Dry runs report what would change without writing. Merge (the default) only
+// adds missing records; replace makes the store match the backup.
+app.post('/api/admin/restore', requireAdmin('full'), validateBody(restoreSchema), async (c) => {
+  return withSpan('admin_restore', async () => {
+    const { backup: { upgradedFrom, ...backup }, mode = 'merge', dryRun = false } = c.req.valid('json')
+
+    addSpanAttributes({
+      'operation': 'admin_restore',
+      'restore.mode': mode,
+      'restore.dry_run': dryRun,
+      'restore.upgraded_from': upgradedFrom ?? backup.version
     })
 
-    recordSpanEvent('admin_ballot_deleted', {
-      'ballot.id': id,
-      'ballot.question': deletedBallot.question,
-      'ballot.votes': deletedBallot.votes.length,
-      'admin.user': 'authenticated'
-    })
+    const summary: RestoreSummary = {
+      ...await restoreBackup(backupRepositories(c.env), backup, mode, dryRun),
+      ...(upgradedFrom !== undefined ? { upgradedFrom } : {})
+    }
+
+    if (!dryRun) {
+      const counts = {
+        created: summary.ballots.created.length + summary.dashboards.created.length + summary.attendance.created.length,
+        updated: summary.ballots.updated.length + summary.dashboards.updated.length + summary.attendance.updated.length,
+        deleted: summary.ballots.deleted.length + summary.dashboards.deleted.length + summary.attendance.deleted.length
+      }
+      recordSpanEvent('admin_restored', {
+        'restore.mode': mode,
+        'restore.created': counts.created,
+        'restore.updated': counts.updated,
+        'restore.deleted': counts.deleted,
+        'admin.user': c.get('admin')?.keyId
+      })
+      await audit(c, { action: 'backup_restored', details: { mode, ...counts } })
+    }
+
+    return c.json(summary)
+  })
+})
+
+// Dashboard routes
+// Newest first means most recently changed
+app.get('/api/dashboards', validateQuery(listQuerySchema), createListHandler(dashboardConfig, {
+  fields: { text: (dashboard) => dashboard.name, time: (dashboard) => dashboard.updatedAt }
+}))
+
+app.get('/api/dashboards/:id', createGetByIdHandler(dashboardConfig, {
+  includeAttributes: (dashboard) => ({ 'dashboard.ballot_count': dashboard.ballotIds.length })
+}))
+
+app.post('/api/dashboards', limit('create'), validateBody(dashboardCreateSchema), createCreateHandler<Dashboard, { name: string }>(
+  dashboardConfig,
+  {
+    buildItem: (body) => ({
+      id: `dashboard-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      name: body.name,
+      ballotIds: [],
+      attendanceIds: [],
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    }),
+    includeAttributes: (dashboard) => ({ 'dashboard.name_length': dashboard.name.length }),
+    // The owner token is only ever in this response
+    afterInsert: async (c, dashboard) => {
+      const { token, record } = await createOwner(dashboard.id)
+      await dashboardOwnerRepository(c.env).insert({ ...record, editors: [] })
+      return { ownerToken: token }
+    }
+  }
+))
+
+app.put('/api/dashboards/:id', limit('dashboard'), requireDashboardRole('editor'), validateBody(dashboardUpdateSchema), createUpdateHandler(dashboardConfig, {
+  applyUpdates: (current, body: DashboardUpdateInput) => ({
+    ...current,
+    name: body.name ?? current.name,
+    ballotIds: body.ballotIds ?? current.ballotIds,
+    attendanceIds: body.attendanceIds ?? (current.attendanceIds || []),
+    updatedAt: new Date().toISOString()
+  }),
+  includeAttributes: (updated) => ({
+    'dashboard.ballot_count': updated.ballotIds.length,
+    'dashboard.attendance_count': (updated.attendanceIds || []).length
+  }),
+  afterUpdate: async (c, updated, original) => {
+    await keepRevisionOf(c, 'dashboard', original, updated, await dashboardActor(c))
+  }
+}))
+
+// Shared by the owner and admin delete routes
+function deleteDashboardHandler(eventName: string) {
+  return createDeleteHandler(dashboardConfig, {
+    eventName,
+    buildResponse: (deleted) => ({
+      message: 'Dashboard deleted successfully',
+      deletedDashboard: {
+        id: deleted.id,
+        name: deleted.name,
+        ballotCount: deleted.ballotIds.length
+      }
+    }),
+    // The owner route has no admin signed in
+    afterDelete: async (c, deleted) => {
+      await audit(c, {
+        action: 'dashboard_deleted',
+        resource: { type: 'dashboard', id: deleted.id },
+        before: { name: deleted.name, ballots: deleted.ballotIds.length, attendance: (deleted.attendanceIds ?? []).length }
+      }, c.get('admin') ? adminActor(c.get('admin')) : { kind: 'owner' })
+    }
+  })
+}
+
+app.delete('/api/dashboards/:id', limit('dashboard'), requireDashboardRole('owner'), deleteDashboardHandler('dashboard_deleted'))
+
+// Dashboard revisions - for the owner and editors, as they name the editors
+app.get('/api/dashboards/:id/revisions', requireDashboardRole('editor'), listRevisionsHandler('dashboard', dashboardConfig))
+app.get('/api/dashboards/:id/revisions/diff', requireDashboardRole('editor'), validateQuery(revisionDiffQuerySchema), diffRevisionsHandler('dashboard', dashboardConfig))
+app.get('/api/dashboards/:id/revisions/:version', requireDashboardRole('editor'), getRevisionHandler('dashboard', dashboardConfig))
+app.post('/api/dashboards/:id/revisions/:version/restore', limit('dashboard'), requireDashboardRole('editor'), restoreRevisionHandler('dashboard', dashboardConfig, dashboardActor))
+
+// What the X-Dashboard-Token sent allows, so clients know which controls to show
+app.get('/api/dashboards/:id/access', async (c) => {
+  const id = c.req.param('id')
+
+  return withSpan('get_dashboard_access', async (span) => {
+    addSpanAttributes({ 'dashboard.id': id, 'operation': 'get_dashboard_access' })
+
+    if (!(await dashboardConfig.repository(c.env).get(id))) {
+      addSpanAttributes({ 'dashboard.found': false })
+      setSpanStatus(span, false, 'Dashboard not found')
+      return apiError(c, 'NOT_FOUND', 'Dashboard not found')
+    }
+
+    const role = await dashboardRole(c.req.header(DASHBOARD_TOKEN_HEADER), await dashboardOwnerRepository(c.env).get(id))
+    addSpanAttributes({ 'dashboard.role': role })
+
+    return c.json({ role })
+  })
+})
+
+// Dashboard editors - people the owner lets change the dashboard
+app.get('/api/dashboards/:id/editors', requireDashboardRole('owner'), async (c) => {
+  return c.json(c.get('dashboardOwner')!.editors.map(toDashboardEditorSummary))
+})
+
+app.post('/api/dashboards/:id/editors', limit('dashboard'), requireDashboardRole('owner'), validateBody(dashboardEditorSchema), async (c) => {
+  const id = c.req.param('id')
+
+  return withSpan('create_dashboard_editor', async (span) => {
+    const { name } = c.req.valid('json')
+
+    addSpanAttributes({ 'dashboard.id': id, 'operation': 'create_dashboard_editor' })
+
+    const owner = c.get('dashboardOwner')!
+    if (owner.editors.length >= MAX_DASHBOARD_EDITORS) {
+      const error = `A dashboard can have at most ${MAX_DASHBOARD_EDITORS} editors`
+      addSpanAttributes({ 'validation.failed': true, 'error': error })
+      setSpanStatus(span, false, error)
+      return apiError(c, 'LIMIT_REACHED', error)
+    }
+
+    const { token, editor } = await createDashboardEditor(name)
+    const result = await dashboardOwnerRepository(c.env).updateWithVersion(
+      { ...owner, editors: [...owner.editors, editor] },
+      owner.version ?? 1
+    )
+
+    if (!result.ok) {
+      setSpanStatus(span, false, 'Version conflict - dashboard editors were modified by another request')
+      return apiError(c, 'VERSION_CONFLICT', 'Dashboard was modified by another request. Please try again.')
+    }
+
+    addSpanAttributes({ 'dashboard.editor_count': result.item.editors.length })
+    recordSpanEvent('dashboard_editor_created', { 'dashboard.id': id, 'editor.id': editor.id })
 
-    return c.json({
-      message: 'Ballot deleted successfully',
-      deletedBallot: {
-        id: deletedBallot.id,
-        question: deletedBallot.question,
-        voteCount: deletedBallot.votes.length
-      }
-    })
+    // The token is only ever in this response
+    return c.json({ ...toDashboardEditorSummary(editor), token }, 201)
   })
 })
 
-app.patch('/api/admin/ballots/:id', adminAuth, async (c) => {
+app.delete('/api/dashboards/:id/editors/:editorId', limit('dashboard'), requireDashboardRole('owner'), async (c) => {
   const id = c.req.param('id')
+  const editorId = c.req.param('editorId')
 
-  return withSpan('admin_update_ballot', async (span) => {
-    const { isPrivate } = await c.req.json()
-
-    addSpanAttributes({
-      'ballot.id': id,
-      'operation': 'admin_update_ballot',
-      'admin.action': 'toggle_privacy',
-      'ballot.is_private': isPrivate
-    })
-
-    const ballots = await getAllBallots(c.env.BALLOTS_KV)
-    const ballotIndex = ballots.findIndex(b => b.id === id)
+  return withSpan('delete_dashboard_editor', async (span) => {
+    addSpanAttributes({ 'dashboard.id': id, 'editor.id': editorId, 'operation': 'delete_dashboard_editor' })
 
-    if (ballotIndex === -1) {
-      addSpanAttributes({ 'ballot.found': false })
-      recordSpanEvent('admin_update_failed', { 'ballot.id': id, 'error': 'ballot_not_found' })
-      setSpanStatus(span, false, 'Ballot not found')
-      return c.json({ error: 'Ballot not found' }, 404)
+    const owner = c.get('dashboardOwner')!
+    if (!owner.editors.some(editor => editor.id === editorId)) {
+      setSpanStatus(span, false, 'Editor not found')
+      return apiError(c, 'NOT_FOUND', 'Editor not found')
     }
 
-    ballots[ballotIndex]!.isPrivate = isPrivate
-    await saveBallots(c.env.BALLOTS_KV, ballots)
+    const result = await dashboardOwnerRepository(c.env).updateWithVersion(
+      { ...owner, editors: owner.editors.filter(editor => editor.id !== editorId) },
+      owner.version ?? 1
+    )
 
-    addSpanAttributes({ 'ballot.found': true, 'ballot.updated': true })
-    recordSpanEvent('admin_ballot_updated', {
-      'ballot.id': id,
-      'ballot.is_private': isPrivate,
-      'admin.user': 'authenticated'
-    })
+    if (!result.ok) {
+      setSpanStatus(span, false, 'Version conflict - dashboard editors were modified by another request')
+      return apiError(c, 'VERSION_CONFLICT', 'Dashboard was modified by another request. Please try again.')
+    }
 
-    return c.json(ballots[ballotIndex])
+    recordSpanEvent('dashboard_editor_removed', { 'dashboard.id': id, 'editor.id': editorId })
+    return c.json({ message: 'Editor removed' })
   })
 })
 
-app.post('/api/admin/ballots/migrate', adminAuth, async (c) => {
-  return withSpan('admin_migrate_ballots', async (span) => {
-    const { ballots: incomingBallots } = await c.req.json()
+app.delete('/api/admin/dashboards/:id', requireAdmin('full'), deleteDashboardHandler('admin_dashboard_deleted'))
 
-    addSpanAttributes({
-      'operation': 'admin_migrate_ballots',
-      'admin.action': 'migrate_ballots',
-      'ballots.incoming_count': incomingBallots?.length || 0
-    })
+// Issues a fresh owner token, for owners who lost theirs and for dashboards
+// created before owner tokens. Editors keep theirs.
+app.post('/api/admin/dashboards/:id/owner-token', requireAdmin('full'), async (c) => {
+  const id = c.req.param('id')
+
+  return withSpan('admin_reset_dashboard_owner', async (span) => {
+    addSpanAttributes({ 'dashboard.id': id, 'operation': 'admin_reset_dashboard_owner', 'admin.action': 'reset_dashboard_owner' })
 
-    if (!Array.isArray(incomingBallots)) {
-      addSpanAttributes({ 'validation.failed': true, 'error': 'Invalid ballots format' })
-      setSpanStatus(span, false, 'Invalid ballots format')
-      return c.json({ error: 'Ballots must be an array' }, 400)
+    if (!(await dashboardConfig.repository(c.env).get(id))) {
+      addSpanAttributes({ 'dashboard.found': false })
+      setSpanStatus(span, false, 'Dashboard not found')
+      return apiError(c, 'NOT_FOUND', 'Dashboard not found')
     }
 
-    const existingBallots = await getAllBallots(c.env.BALLOTS_KV)
-    const existingIds = new Set(existingBallots.map(b => b.id))
-    const newBallots = incomingBallots.filter((b: Ballot) => !existingIds.has(b.id))
-    const mergedBallots = [...existingBallots, ...newBallots]
+    const owners = dashboardOwnerRepository(c.env)
+    const current = await owners.get(id)
+    const { token, record } = await createOwner(id)
+    if (current) {
+      const result = await owners.updateWithVersion({ ...current, tokenHash: record.tokenHash }, current.version ?? 1)
+      if (!result.ok) {
+        setSpanStatus(span, false, 'Version conflict - dashboard owner was modified by another request')
+        return apiError(c, 'VERSION_CONFLICT', 'Dashboard was modified by another request. Please try again.')
+      }
+    } else {
+      await owners.insert({ ...record, editors: [] })
+    }
 
-    await saveBallots(c.env.BALLOTS_KV, mergedBallots)
+    recordSpanEvent('admin_dashboard_owner_reset', { 'dashboard.id': id, 'admin.user': c.get('admin')?.keyId })
+    await audit(c, { action: 'dashboard_owner_reset', resource: { type: 'dashboard', id } })
+    return c.json({ ownerToken: token })
+  })
+})
 
-    addSpanAttributes({
-      'ballots.existing_count': existingBallots.length,
-      'ballots.new_count': newBallots.length,
-      'ballots.total_count': mergedBallots.length,
-      'ballots.duplicates_skipped': incomingBallots.length - newBallots.length
-    })
 
-    recordSpanEvent('admin_ballots_migrated', {
-      'ballots.migrated': newBallots.length,
-      'ballots.total': mergedBallots.length,
-      'admin.user': 'authenticated'
-    })
+// Download of every ballot and attendance poll on a dashboard. Private ballots
+// are left out unless an admin asks.
+app.get('/api/dashboards/:id/export', validateQuery(exportQuerySchema), async (c) => {
+  const id = c.req.param('id')
+  const format = c.req.valid('query').format ?? DEFAULT_EXPORT_FORMAT
 
-    return c.json({
-      message: 'Migration successful',
-      existingCount: existingBallots.length,
-      migratedCount: newBallots.length,
-      duplicatesSkipped: incomingBallots.length - newBallots.length,
-      totalCount: mergedBallots.length
+  return withSpan('export_dashboard', async (span) => {
+    addSpanAttributes({ 'dashboard.id': id, 'operation': 'export_dashboard', 'export.format': format })
+
+    const dashboard = await dashboardConfig.repository(c.env).get(id)
+    if (!dashboard) {
+      addSpanAttributes({ 'dashboard.found': false })
+      setSpanStatus(span, false, 'Dashboard not found')
+      return apiError(c, 'NOT_FOUND', 'Dashboard not found')
+    }
+
+    const ballotRepository = ballotConfig.repository(c.env)
+    const attendanceRepository = attendanceConfig.repository(c.env)
+    const [ballots, attendances, admin] = await Promise.all([
+      Promise.all(dashboard.ballotIds.map(ballotId => ballotRepository.get(ballotId))),
+      Promise.all((dashboard.attendanceIds || []).map(attendanceId => attendanceRepository.get(attendanceId))),
+      isAdminRequest(c)
+    ])
+    const found = ballots.filter((ballot): ballot is Ballot => ballot !== null)
+    const exported = found.filter(ballot => admin || !ballot.isPrivate)
+
+    addSpanAttributes({
+      'dashboard.found': true,
+      'export.ballots': exported.length,
+      'export.private_skipped': found.length - exported.length
     })
+    recordSpanEvent('dashboard_exported', { 'dashboard.id': id, 'export.format': format })
+    return exportResponse(c, dashboardExport(
+      dashboard,
+      exported,
+      attendances.filter((attendance): attendance is Attendance => attendance !== null)
+    ), format)
   })
 })
 
-// Dashboard routes
-app.get('/api/dashboards', createListHandler(dashboardConfig, {
-  sort: (a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
-}))
+// Live updates for every ballot and attendance on a dashboard (server-sent events).
+// The item list is read once; clients reconnect when they add or remove items.
+app.get('/api/dashboards/:id/stream', async (c) => {
+  const id = c.req.param('id')
 
-app.get('/api/dashboards/:id', createGetByIdHandler(dashboardConfig, {
-  includeAttributes: (dashboard) => ({ 'dashboard.ballot_count': dashboard.ballotIds.length })
-}))
+  return withSpan('stream_dashboard', async (span) => {
+    addSpanAttributes({ 'dashboard.id': id, 'operation': 'stream_dashboard' })
 
-app.post('/api/dashboards', createCreateHandler<Dashboard, { name: string }>(
-  dashboardConfig,
-  {
-    validate: (body) => {
-      if (!body.name || typeof body.name !== 'string' || body.name.trim() === '') {
-        return { valid: false, error: 'Dashboard name is required' }
-      }
-      if (body.name.trim().length > MAX_DASHBOARD_NAME_LENGTH) {
-        return { valid: false, error: `Dashboard name must be ${MAX_DASHBOARD_NAME_LENGTH} characters or less` }
-      }
-      return { valid: true }
-    },
-    buildItem: (body) => ({
-      id: `dashboard-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      name: body.name.trim(),
-      ballotIds: [],
-      attendanceIds: [],
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString()
-    }),
-    includeAttributes: (dashboard) => ({ 'dashboard.name_length': dashboard.name.length })
-  }
-))
+    const dashboard = await dashboardConfig.repository(c.env).get(id)
+    if (!dashboard) {
+      addSpanAttributes({ 'dashboard.found': false })
+      setSpanStatus(span, false, 'Dashboard not found')
+      return apiError(c, 'NOT_FOUND', 'Dashboard not found')
+    }
 
-app.put('/api/dashboards/:id', createUpdateHandler(dashboardConfig, {
-  applyUpdates: (current, body) => ({
-    ...current,
-    name: body.name !== undefined && typeof body.name === 'string' ? body.name.trim() : current.name,
-    ballotIds: Array.isArray(body.ballotIds) ? body.ballotIds : current.ballotIds,
-    attendanceIds: Array.isArray(body.attendanceIds) ? body.attendanceIds : (current.attendanceIds || []),
-    updatedAt: new Date().toISOString()
-  }),
-  includeAttributes: (updated) => ({
-    'dashboard.ballot_count': updated.ballotIds.length,
-    'dashboard.attendance_count': (updated.attendanceIds || []).length
-  })
-}))
+    const attendanceIds = dashboard.attendanceIds || []
+    addSpanAttributes({
+      'dashboard.ballot_count': dashboard.ballotIds.length,
+      'dashboard.attendance_count': attendanceIds.length
+    })
+    recordSpanEvent('stream_opened', { 'dashboard.id': id })
 
-app.delete('/api/dashboards/:id', createDeleteHandler(dashboardConfig, {
-  buildResponse: (deleted) => ({
-    message: 'Dashboard deleted successfully',
-    deletedDashboard: {
-      id: deleted.id,
-      name: deleted.name,
-      ballotCount: deleted.ballotIds.length
-    }
+    return streamLiveUpdates(c, [
+      ...dashboard.ballotIds.map(ballotId => ballotSource(c.env, ballotId)),
+      ...attendanceIds.map(attendanceId => attendanceSource(c.env, attendanceId))
+    ])
   })
-}))
+})
 
 // Attendance endpoints
 
 // Get multiple attendances by IDs (batch endpoint to avoid N+1 queries)
 app.get('/api/attendance/batch', createBatchHandler(attendanceConfig))
 
-app.get('/api/attendance', async (c) => {
+app.get('/api/attendance', validateQuery(attendanceQuerySchema), async (c) => {
   const span = createSpan('get_all_attendances')
 
   try {
-    const attendances = await getAllAttendances(c.env.BALLOTS_KV)
-
-    // Sort by date descending (most recent first)
-    const sortedAttendances = attendances.sort((a, b) =>
-      new Date(b.date).getTime() - new Date(a.date).getTime()
-    )
+    const { seriesId } = c.req.valid('query')
+    const repository = attendanceConfig.repository(c.env)
+    const attendances = seriesId ? await repository.query({ where: { seriesId } }) : await repository.list()
 
     addSpanAttributes({
-      'attendance.count': sortedAttendances.length,
+      'attendance.count': attendances.length,
+      'attendance.series_id': seriesId,
       'operation': 'get_all_attendances'
     })
 
     recordSpanEvent('attendances_retrieved', {
-      'attendance.count': sortedAttendances.length
+      'attendance.count': attendances.length
     })
 
     setSpanStatus(span, true)
-    return c.json(sortedAttendances)
+    // Newest first means the latest event date
+    return listPage(c, attendances, { text: (attendance) => attendance.title, time: (attendance) => attendance.date })
   } catch (error) {
     setSpanStatus(span, false, error instanceof Error ? error.message : 'Unknown error')
     throw error
@@ -589,6 +1767,80 @@ app.get('/api/attendance', async (c) => {
   }
 })
 
+// Calendar feed of attendance polls, see ./ical. Narrowed to one dashboard's
+// polls or one series' polls by the query.
+app.get('/api/attendance/feed.ics', validateQuery(calendarFeedQuerySchema), async (c) => {
+  const { dashboardId, seriesId } = c.req.valid('query')
+
+  return withSpan('get_attendance_feed', async (span) => {
+    addSpanAttributes({ 'operation': 'get_attendance_feed', 'dashboard.id': dashboardId, 'attendance.series_id': seriesId })
+
+    const repository = attendanceConfig.repository(c.env)
+    let name = 'Attendance'
+    let attendances: Attendance[]
+    if (dashboardId) {
+      const dashboard = await dashboardConfig.repository(c.env).get(dashboardId)
+      if (!dashboard) {
+        addSpanAttributes({ 'dashboard.found': false })
+        setSpanStatus(span, false, 'Dashboard not found')
+        return apiError(c, 'NOT_FOUND', 'Dashboard not found')
+      }
+      name = dashboard.name
+      const found = await Promise.all((dashboard.attendanceIds || []).map(attendanceId => repository.get(attendanceId)))
+      attendances = found.filter((attendance): attendance is Attendance => attendance !== null)
+    } else {
+      attendances = await repository.list()
+    }
+    if (seriesId) attendances = attendances.filter(attendance => attendance.seriesId === seriesId)
+    attendances.sort((a, b) => a.date.localeCompare(b.date))
+
+    addSpanAttributes({ 'attendance.count': attendances.length })
+    recordSpanEvent('attendance_feed_retrieved', { 'attendance.count': attendances.length })
+    return calendarFeedResponse(c, { name, events: attendances })
+  })
+})
+
+// One attendance poll as a calendar event, e.g. /api/attendance/abc123.ics
+app.get('/api/attendance/:file{.+\\.ics}', async (c) => {
+  const id = c.req.param('file').slice(0, -'.ics'.length)
+
+  return withSpan('get_attendance_calendar', async (span) => {
+    addSpanAttributes({ 'attendance.id': id, 'operation': 'get_attendance_calendar' })
+
+    const attendance = await attendanceConfig.repository(c.env).get(id)
+    if (!attendance) {
+      addSpanAttributes({ 'attendance.found': false })
+      setSpanStatus(span, false, 'Attendance not found')
+      return apiError(c, 'NOT_FOUND', 'Attendance not found')
+    }
+
+    addSpanAttributes({ 'attendance.found': true })
+    recordSpanEvent('attendance_calendar_retrieved', { 'attendance.id': id })
+    return attendanceCalendarResponse(c, attendance)
+  })
+})
+
+// Download of an attendance poll's responses
+app.get('/api/attendance/:id/export', validateQuery(exportQuerySchema), async (c) => {
+  const id = c.req.param('id')
+  const format = c.req.valid('query').format ?? DEFAULT_EXPORT_FORMAT
+
+  return withSpan('export_attendance', async (span) => {
+    addSpanAttributes({ 'attendance.id': id, 'operation': 'export_attendance', 'export.format': format })
+
+    const attendance = await attendanceConfig.repository(c.env).get(id)
+    if (!attendance) {
+      addSpanAttributes({ 'attendance.found': false })
+      setSpanStatus(span, false, 'Attendance not found')
+      return apiError(c, 'NOT_FOUND', 'Attendance not found')
+    }
+
+    addSpanAttributes({ 'attendance.found': true, 'export.responses': attendance.responses.length })
+    recordSpanEvent('attendance_exported', { 'attendance.id': id, 'export.format': format })
+    return exportResponse(c, attendanceExport(attendance), format)
+  })
+})
+
 app.get('/api/attendance/:id', async (c) => {
   const span = createSpan('get_single_attendance')
   const id = c.req.param('id')
@@ -599,8 +1851,7 @@ app.get('/api/attendance/:id', async (c) => {
       'operation': 'get_single_attendance'
     })
 
-    const attendances = await getAllAttendances(c.env.BALLOTS_KV)
-    const attendance = attendances.find(a => a.id === id)
+    const attendance = await attendanceConfig.repository(c.env).get(id)
 
     if (!attendance) {
       addSpanAttributes({
@@ -608,7 +1859,7 @@ app.get('/api/attendance/:id', async (c) => {
       })
       recordSpanEvent('attendance_not_found', { 'attendance.id': id })
       setSpanStatus(span, false, 'Attendance not found')
-      return c.json({ error: 'Attendance not found' }, 404)
+      return apiError(c, 'NOT_FOUND', 'Attendance not found')
     }
 
     addSpanAttributes({
@@ -631,11 +1882,30 @@ app.get('/api/attendance/:id', async (c) => {
   }
 })
 
-app.post('/api/attendance', async (c) => {
+// Live updates for one attendance (server-sent events)
+app.get('/api/attendance/:id/stream', async (c) => {
+  const id = c.req.param('id')
+
+  return withSpan('stream_attendance', async (span) => {
+    addSpanAttributes({ 'attendance.id': id, 'operation': 'stream_attendance' })
+
+    const attendance = await attendanceConfig.repository(c.env).get(id)
+    if (!attendance) {
+      addSpanAttributes({ 'attendance.found': false })
+      setSpanStatus(span, false, 'Attendance not found')
+      return apiError(c, 'NOT_FOUND', 'Attendance not found')
+    }
+
+    recordSpanEvent('stream_opened', { 'attendance.id': id })
+    return streamLiveUpdates(c, [attendanceSource(c.env, id)])
+  })
+})
+
+app.post('/api/attendance', limit('create'), validateBody(attendanceCreateSchema), async (c) => {
   const span = createSpan('create_attendance')
 
   try {
-    const { title, date } = await c.req.json()
+    const { title, date } = c.req.valid('json')
 
     addSpanAttributes({
       'operation': 'create_attendance',
@@ -643,60 +1913,25 @@ app.post('/api/attendance', async (c) => {
       'date.provided': !!date
     })
 
-    if (!title || typeof title !== 'string' || title.trim() === '') {
-      addSpanAttributes({
-        'validation.failed': true,
-        'error': 'Title is required'
-      })
-      recordSpanEvent('validation_failed', { 'reason': 'missing_title' })
-      setSpanStatus(span, false, 'Title is required')
-      return c.json({ error: 'Title is required' }, 400)
-    }
-
-    if (title.trim().length > MAX_ATTENDANCE_TITLE_LENGTH) {
-      addSpanAttributes({
-        'validation.failed': true,
-        'error': 'Title too long'
-      })
-      recordSpanEvent('validation_failed', { 'reason': 'title_too_long' })
-      setSpanStatus(span, false, `Title must be ${MAX_ATTENDANCE_TITLE_LENGTH} characters or less`)
-      return c.json({ error: `Title must be ${MAX_ATTENDANCE_TITLE_LENGTH} characters or less` }, 400)
-    }
-
-    if (!date || typeof date !== 'string') {
-      addSpanAttributes({
-        'validation.failed': true,
-        'error': 'Date is required'
-      })
-      recordSpanEvent('validation_failed', { 'reason': 'missing_date' })
-      setSpanStatus(span, false, 'Date is required')
-      return c.json({ error: 'Date is required' }, 400)
-    }
-
-    const attendances = await getAllAttendances(c.env.BALLOTS_KV)
-
     const newAttendance: Attendance = {
       id: `attendance-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      title: title.trim(),
-      date: date,
+      title,
+      date,
       responses: [],
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
       version: 1
     }
 
-    attendances.push(newAttendance)
-    await saveAttendances(c.env.BALLOTS_KV, attendances)
+    await attendanceConfig.repository(c.env).insert(newAttendance)
 
     addSpanAttributes({
       'attendance.id': newAttendance.id,
-      'attendance.title_length': title.trim().length,
-      'attendances.total_count': attendances.length
+      'attendance.title_length': title.length
     })
 
     recordSpanEvent('attendance_created', {
-      'attendance.id': newAttendance.id,
-      'attendances.total_count': attendances.length
+      'attendance.id': newAttendance.id
     })
 
     setSpanStatus(span, true)
@@ -709,61 +1944,31 @@ app.post('/api/attendance', async (c) => {
   }
 })
 
-app.put('/api/attendance/:id', async (c) => {
+// A response, not an edit: it keeps no revision, see README Revisions
+app.put('/api/attendance/:id', limit('respond'), validateBody(attendanceResponseSchema), async (c) => {
   const span = createSpan('update_attendance')
   const id = c.req.param('id')
 
   try {
-    const { name, attending, version: incomingVersion } = await c.req.json()
+    const { name, attending, version: incomingVersion } = c.req.valid('json')
 
     addSpanAttributes({
       'attendance.id': id,
       'operation': 'update_attendance'
     })
 
-    if (!name || typeof name !== 'string' || name.trim() === '') {
-      addSpanAttributes({
-        'validation.failed': true,
-        'error': 'Name is required'
-      })
-      recordSpanEvent('validation_failed', { 'reason': 'missing_name' })
-      setSpanStatus(span, false, 'Name is required')
-      return c.json({ error: 'Name is required' }, 400)
-    }
-
-    if (name.trim().length > MAX_NAME_LENGTH) {
-      addSpanAttributes({
-        'validation.failed': true,
-        'error': 'Name too long'
-      })
-      recordSpanEvent('validation_failed', { 'reason': 'name_too_long' })
-      setSpanStatus(span, false, `Name must be ${MAX_NAME_LENGTH} characters or less`)
-      return c.json({ error: `Name must be ${MAX_NAME_LENGTH} characters or less` }, 400)
-    }
-
-    if (typeof attending !== 'boolean') {
-      addSpanAttributes({
-        'validation.failed': true,
-        'error': 'Attending must be true or false'
-      })
-      recordSpanEvent('validation_failed', { 'reason': 'invalid_attending' })
-      setSpanStatus(span, false, 'Attending must be true or false')
-      return c.json({ error: 'Attending must be true or false' }, 400)
-    }
-
-    const attendances = await getAllAttendances(c.env.BALLOTS_KV)
-    const attendanceIndex = attendances.findIndex(a => a.id === id)
+    const attendances = attendanceConfig.repository(c.env)
+    const currentAttendance = await attendances.get(id)
 
-    if (attendanceIndex === -1) {
+    if (!currentAttendance) {
       addSpanAttributes({
         'attendance.found': false
       })
       recordSpanEvent('attendance_not_found', { 'attendance.id': id })
       setSpanStatus(span, false, 'Attendance not found')
-      return c.json({ error: 'Attendance not found' }, 404)
+      return apiError(c, 'NOT_FOUND', 'Attendance not found')
     }
 
-    const currentAttendance = attendances[attendanceIndex]!
     const currentVersion = currentAttendance.version ?? 1
 
     // Optimistic locking: check version if provided
@@ -780,20 +1985,16 @@ app.put('/api/attendance/:id', async (c) => {
         'version.incoming': incomingVersion
       })
       setSpanStatus(span, false, 'Version conflict - attendance was modified by another request')
-      return c.json({
-        error: 'Version conflict - attendance was modified by another request. Please refresh and try again.',
-        currentVersion
-      }, 409)
+      return apiError(c, 'VERSION_CONFLICT', 'Version conflict - attendance was modified by another request. Please refresh and try again.', { currentVersion })
     }
-    const trimmedName = name.trim()
 
     // Check if this person already responded (case-insensitive)
     const existingResponseIndex = currentAttendance.responses.findIndex(
-      r => r.name.toLowerCase() === trimmedName.toLowerCase()
+      r => r.name.toLowerCase() === name.toLowerCase()
     )
 
     const newResponse: AttendanceResponse = {
-      name: trimmedName,
+      name,
       attending: attending,
       timestamp: new Date().toISOString()
     }
@@ -813,14 +2014,19 @@ app.put('/api/attendance/:id', async (c) => {
     }
 
     currentAttendance.updatedAt = new Date().toISOString()
-    currentAttendance.version = currentVersion + 1
-    attendances[attendanceIndex] = currentAttendance
-    await saveAttendances(c.env.BALLOTS_KV, attendances)
+    const result = await attendances.updateWithVersion(currentAttendance, currentVersion)
+
+    if (!result.ok) {
+      setSpanStatus(span, false, 'Version conflict - attendance was modified by another request')
+      return apiError(c, 'VERSION_CONFLICT', 'Version conflict - attendance was modified by another request. Please refresh and try again.', { currentVersion: result.reason === 'version_conflict' ? result.currentVersion : currentVersion })
+    }
+
+    const savedAttendance = result.item
 
     addSpanAttributes({
       'attendance.found': true,
       'attendance.response_count': currentAttendance.responses.length,
-      'response.name': trimmedName,
+      'response.name': name,
       'response.attending': attending,
       'version.new': currentVersion + 1
     })
@@ -832,8 +2038,10 @@ app.put('/api/attendance/:id', async (c) => {
       'version': currentVersion + 1
     })
 
+    liveEvents.publish(liveChannel('attendance', id), { type: 'attendance', record: savedAttendance })
+
     setSpanStatus(span, true)
-    return c.json(currentAttendance)
+    return c.json(savedAttendance)
   } catch (error) {
     setSpanStatus(span, false, error instanceof Error ? error.message : 'Unknown error')
     throw error
@@ -842,12 +2050,12 @@ app.put('/api/attendance/:id', async (c) => {
   }
 })
 
-app.patch('/api/attendance/:id', adminAuth, async (c) => {
+app.patch('/api/attendance/:id', requireAdmin('moderate'), validateBody(attendanceRenameSchema), async (c) => {
   const span = createSpan('admin_rename_attendance')
   const id = c.req.param('id')
 
   try {
-    const { title } = await c.req.json()
+    const { title } = c.req.valid('json')
 
     addSpanAttributes({
       'attendance.id': id,
@@ -855,30 +2063,10 @@ app.patch('/api/attendance/:id', adminAuth, async (c) => {
       'admin.action': 'rename_attendance'
     })
 
-    if (!title || typeof title !== 'string' || title.trim() === '') {
-      addSpanAttributes({
-        'validation.failed': true,
-        'error': 'Title is required'
-      })
-      recordSpanEvent('validation_failed', { 'reason': 'missing_title' })
-      setSpanStatus(span, false, 'Title is required')
-      return c.json({ error: 'Title is required' }, 400)
-    }
-
-    if (title.trim().length > MAX_ATTENDANCE_TITLE_LENGTH) {
-      addSpanAttributes({
-        'validation.failed': true,
-        'error': 'Title too long'
-      })
-      recordSpanEvent('validation_failed', { 'reason': 'title_too_long' })
-      setSpanStatus(span, false, `Title must be ${MAX_ATTENDANCE_TITLE_LENGTH} characters or less`)
-      return c.json({ error: `Title must be ${MAX_ATTENDANCE_TITLE_LENGTH} characters or less` }, 400)
-    }
-
-    const attendances = await getAllAttendances(c.env.BALLOTS_KV)
-    const attendanceIndex = attendances.findIndex(a => a.id === id)
+    const attendances = attendanceConfig.repository(c.env)
+    const current = await attendances.get(id)
 
-    if (attendanceIndex === -1) {
+    if (!current) {
       addSpanAttributes({
         'attendance.found': false
       })
@@ -887,15 +2075,21 @@ app.patch('/api/attendance/:id', adminAuth, async (c) => {
         'error': 'attendance_not_found'
       })
       setSpanStatus(span, false, 'Attendance not found')
-      return c.json({ error: 'Attendance not found' }, 404)
+      return apiError(c, 'NOT_FOUND', 'Attendance not found')
+    }
+
+    const oldTitle = current.title
+    const result = await attendances.updateWithVersion(
+      { ...current, title, updatedAt: new Date().toISOString() },
+      current.version ?? 1
+    )
+
+    if (!result.ok) {
+      setSpanStatus(span, false, 'Version conflict - attendance was modified by another request')
+      return apiError(c, 'VERSION_CONFLICT', 'Attendance was modified by another request. Please try again.')
     }
 
-    const attendance = attendances[attendanceIndex]!
-    const oldTitle = attendance.title
-    attendance.title = title.trim()
-    attendance.updatedAt = new Date().toISOString()
-    attendances[attendanceIndex] = attendance
-    await saveAttendances(c.env.BALLOTS_KV, attendances)
+    const attendance = result.item
 
     addSpanAttributes({
       'attendance.found': true,
@@ -907,8 +2101,13 @@ app.patch('/api/attendance/:id', adminAuth, async (c) => {
       'attendance.id': id,
       'attendance.old_title': oldTitle,
       'attendance.new_title': attendance.title,
-      'admin.user': 'authenticated'
+      'admin.user': c.get('admin')?.keyId
     })
+    // Revisions are for edits to the poll itself, so renaming it to the same title keeps none
+    if (attendance.title !== oldTitle) await keepRevisionOf(c, 'attendance', current, attendance, adminActor(c.get('admin')))
+    await audit(c, { action: 'attendance_renamed', resource: { type: 'attendance', id }, before: { title: oldTitle }, after: { title: attendance.title } })
+
+    liveEvents.publish(liveChannel('attendance', id), { type: 'attendance', record: attendance })
 
     setSpanStatus(span, true)
     return c.json(attendance)
@@ -920,7 +2119,13 @@ app.patch('/api/attendance/:id', adminAuth, async (c) => {
   }
 })
 
-app.delete('/api/attendance/:id', adminAuth, async (c) => {
+// Attendance revisions - admins only, like renaming
+app.get('/api/attendance/:id/revisions', requireAdmin('read'), listRevisionsHandler('attendance', attendanceConfig))
+app.get('/api/attendance/:id/revisions/diff', requireAdmin('read'), validateQuery(revisionDiffQuerySchema), diffRevisionsHandler('attendance', attendanceConfig))
+app.get('/api/attendance/:id/revisions/:version', requireAdmin('read'), getRevisionHandler('attendance', attendanceConfig))
+app.post('/api/attendance/:id/revisions/:version/restore', requireAdmin('moderate'), restoreRevisionHandler('attendance', attendanceConfig, async (c) => adminActor(c.get('admin'))))
+
+app.delete('/api/attendance/:id', requireAdmin('full'), async (c) => {
   const span = createSpan('admin_delete_attendance')
   const id = c.req.param('id')
 
@@ -931,10 +2136,10 @@ app.delete('/api/attendance/:id', adminAuth, async (c) => {
       'admin.action': 'delete_attendance'
     })
 
-    const attendances = await getAllAttendances(c.env.BALLOTS_KV)
-    const attendanceIndex = attendances.findIndex(a => a.id === id)
+    const attendances = attendanceConfig.repository(c.env)
+    const deletedAttendance = await attendances.get(id)
 
-    if (attendanceIndex === -1) {
+    if (!deletedAttendance) {
       addSpanAttributes({
         'attendance.found': false
       })
@@ -943,12 +2148,10 @@ app.delete('/api/attendance/:id', adminAuth, async (c) => {
         'error': 'attendance_not_found'
       })
       setSpanStatus(span, false, 'Attendance not found')
-      return c.json({ error: 'Attendance not found' }, 404)
+      return apiError(c, 'NOT_FOUND', 'Attendance not found')
     }
 
-    const deletedAttendance = attendances[attendanceIndex]!
-    attendances.splice(attendanceIndex, 1)
-    await saveAttendances(c.env.BALLOTS_KV, attendances)
+    await attendances.delete(id)
 
     addSpanAttributes({
       'attendance.found': true,
@@ -960,7 +2163,12 @@ app.delete('/api/attendance/:id', adminAuth, async (c) => {
       'attendance.id': id,
       'attendance.title': deletedAttendance.title,
       'attendance.responses': deletedAttendance.responses.length,
-      'admin.user': 'authenticated'
+      'admin.user': c.get('admin')?.keyId
+    })
+    await audit(c, {
+      action: 'attendance_deleted',
+      resource: { type: 'attendance', id },
+      before: { title: deletedAttendance.title, date: deletedAttendance.date, responses: deletedAttendance.responses.length }
     })
 
     setSpanStatus(span, true)
@@ -980,6 +2188,262 @@ app.delete('/api/attendance/:id', adminAuth, async (c) => {
   }
 })
 
+// Attendance series - standing meetings, see ./series. Anyone can start one,
+// like a single poll; changing or deleting one takes an admin.
+app.get('/api/attendance-series', validateQuery(listQuerySchema), async (c) => {
+  return withSpan('get_all_attendance_series', async () => {
+    const series = await attendanceSeriesConfig.repository(c.env).list()
+
+    addSpanAttributes({ 'series.count': series.length, 'operation': 'get_all_attendance_series' })
+
+    return listPage(c, series, { text: (item) => item.titleTemplate, time: (item) => item.createdAt })
+  })
+})
+
+app.get('/api/attendance-series/:id', createGetByIdHandler(attendanceSeriesConfig))
+
+// The response lists the polls created for the next few weeks
+app.post('/api/attendance-series', limit('create'), validateBody(attendanceSeriesCreateSchema), createCreateHandler<AttendanceSeries, AttendanceSeriesCreateInput>(
+  attendanceSeriesConfig,
+  {
+    buildItem: (body) => ({
+      id: `series-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      titleTemplate: body.titleTemplate,
+      recurrence: body.recurrence,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    }),
+    includeAttributes: (series) => ({ 'series.frequency': series.recurrence.frequency }),
+    afterInsert: async (c, series) => ({ attendance: await createUpcomingAttendance(attendanceConfig.repository(c.env), series) })
+  }
+))
+
+// Polls already created keep their titles and dates
+app.put('/api/attendance-series/:id', requireAdmin('moderate'), validateBody(attendanceSeriesUpdateSchema), createUpdateHandler(attendanceSeriesConfig, {
+  applyUpdates: (current, body: AttendanceSeriesUpdateInput) => ({
+    ...current,
+    titleTemplate: body.titleTemplate ?? current.titleTemplate,
+    recurrence: body.recurrence ?? current.recurrence,
+    updatedAt: new Date().toISOString()
+  }),
+  includeAttributes: (updated) => ({ 'series.frequency': updated.recurrence.frequency }),
+  afterUpdate: async (c, updated, original) => {
+    await createUpcomingAttendance(attendanceConfig.repository(c.env), updated)
+    await audit(c, {
+      action: 'attendance_series_updated',
+      resource: { type: 'attendance-series', id: updated.id },
+      before: { title: original.titleTemplate, frequency: original.recurrence.frequency, exceptions: (original.recurrence.exceptions ?? []).length },
+      after: { title: updated.titleTemplate, frequency: updated.recurrence.frequency, exceptions: (updated.recurrence.exceptions ?? []).length }
+    })
+  }
+}))
+
+// Stops new polls; the ones already created stay
+app.delete('/api/attendance-series/:id', requireAdmin('full'), createDeleteHandler(attendanceSeriesConfig, {
+  afterDelete: async (c, deleted) => {
+    await audit(c, { action: 'attendance_series_deleted', resource: { type: 'attendance-series', id: deleted.id }, before: { title: deleted.titleTemplate } })
+  }
+}))
+
+// The poll for one of the series' dates, created now if the scheduled run
+// hasn't got to it yet
+app.post('/api/attendance-series/:id/dates/:date', limit('create'), async (c) => {
+  const id = c.req.param('id')
+  const date = c.req.param('date')
+
+  return withSpan('create_series_attendance', async (span) => {
+    addSpanAttributes({ 'series.id': id, 'attendance.date': date, 'operation': 'create_series_attendance' })
+
+    const series = await attendanceSeriesConfig.repository(c.env).get(id)
+    if (!series) {
+      addSpanAttributes({ 'series.found': false })
+      setSpanStatus(span, false, 'Series not found')
+      return apiError(c, 'NOT_FOUND', 'Series not found')
+    }
+
+    if (!isCalendarDate(date) || seriesDates(series.recurrence, date, date).length === 0) {
+      addSpanAttributes({ 'validation.failed': true })
+      setSpanStatus(span, false, 'Not a date of this series')
+      return apiError(c, 'VALIDATION_FAILED', 'That date is not part of this series')
+    }
+
+    const attendances = attendanceConfig.repository(c.env)
+    const created = await createSeriesAttendance(attendances, series, date)
+    if (created) {
+      recordSpanEvent('attendance_created', { 'attendance.id': created.id, 'series.id': id })
+      return c.json(created, 201)
+    }
+
+    const existing = await attendances.get(seriesAttendanceId(id, date))
+    if (!existing) {
+      setSpanStatus(span, false, 'Series attendance deleted')
+      return apiError(c, 'NOT_FOUND', 'The attendance for that date was deleted')
+    }
+    return c.json(existing)
+  })
+})
+
+// Search - ballot questions and comments, attendance titles, dashboard names.
+// Private ballots are never indexed.
+app.get('/api/search', validateQuery(searchQuerySchema), async (c) => {
+  return withSpan('search', async () => {
+    const { q } = c.req.valid('query')
+    const index = searchIndexFor(c.env)
+    await index.ensureBuilt(searchSources(c.env))
+    const results = await index.search(q)
+
+    addSpanAttributes({
+      'operation': 'search',
+      'search.ballots': results.ballots.length,
+      'search.attendance': results.attendance.length,
+      'search.dashboards': results.dashboards.length
+    })
+
+    return c.json(results)
+  })
+})
+
+// Re-index everything, for records written around the index
+app.post('/api/admin/search/rebuild', requireAdmin('full'), async (c) => {
+  return withSpan('admin_rebuild_search_index', async () => {
+    const indexed = await searchIndexFor(c.env).rebuild(searchSources(c.env))
+
+    addSpanAttributes({ 'operation': 'admin_rebuild_search_index', 'search.documents': indexed })
+    recordSpanEvent('admin_search_index_rebuilt', {
+      'search.documents': indexed,
+      'admin.user': c.get('admin')?.keyId
+    })
+
+    return c.json({ message: 'Search index rebuilt', indexedCount: indexed })
+  })
+})
+
+// Trash - deleted ballots, dashboards and attendance polls, see ./trash
+app.get('/api/admin/trash', requireAdmin('read'), async (c) => {
+  return withSpan('admin_list_trash', async () => {
+    const items = await listTrash(trashSources(c.env))
+    addSpanAttributes({ 'operation': 'admin_list_trash', 'trash.count': items.length })
+    return c.json({ items })
+  })
+})
+
+app.post('/api/admin/trash/:type/:id/restore', requireAdmin('full'), async (c) => {
+  const type = c.req.param('type')!
+  const id = c.req.param('id')!
+
+  return withSpan('admin_restore_from_trash', async (span) => {
+    addSpanAttributes({ 'operation': 'admin_restore_from_trash', 'trash.type': type, 'trash.id': id })
+
+    const restored = isTrashType(type) ? await restoreTrashItem(trashSources(c.env), type, id) : null
+    if (!restored) {
+      setSpanStatus(span, false, 'Not in the trash')
+      return apiError(c, 'NOT_FOUND', 'Not in the trash')
+    }
+
+    recordSpanEvent('admin_restored_from_trash', {
+      'trash.type': type,
+      'trash.id': id,
+      'admin.user': c.get('admin')?.keyId
+    })
+    await audit(c, { action: 'trash_restored', resource: { type, id }, details: { title: restored.title } })
+    return c.json({ message: 'Restored from the trash', restored })
+  })
+})
+
+// Deletes for good, without waiting for the scheduled purge
+app.delete('/api/admin/trash/:type/:id', requireAdmin('full'), async (c) => {
+  const type = c.req.param('type')!
+  const id = c.req.param('id')!
+
+  return withSpan('admin_purge_from_trash', async (span) => {
+    addSpanAttributes({ 'operation': 'admin_purge_from_trash', 'trash.type': type, 'trash.id': id })
+
+    const purged = isTrashType(type) ? await purgeTrashItem(trashSources(c.env), type, id) : null
+    if (!purged) {
+      setSpanStatus(span, false, 'Not in the trash')
+      return apiError(c, 'NOT_FOUND', 'Not in the trash')
+    }
+
+    recordSpanEvent('admin_purged_from_trash', {
+      'trash.type': type,
+      'trash.id': id,
+      'admin.user': c.get('admin')?.keyId
+    })
+    await audit(c, { action: 'trash_purged', resource: { type, id }, details: { title: purged.title } })
+    return c.json({ message: 'Permanently deleted', purged })
+  })
+})
+
+// Audit log - who did what, newest first, see ./audit
+app.get('/api/admin/audit', requireAdmin('full'), validateQuery(auditQuerySchema), async (c) => {
+  return withSpan('admin_list_audit', async () => {
+    const query = c.req.valid('query')
+    const page = await pageAudit(auditRepository(c.env), query)
+    if (!page) {
+      addSpanAttributes({ 'validation.failed': true, 'validation.paths': 'cursor' })
+      return apiError(c, 'VALIDATION_FAILED', 'Cursor is not valid', { issues: [{ path: 'cursor', message: 'Cursor is not valid' }] })
+    }
+
+    addSpanAttributes({
+      'operation': 'admin_list_audit',
+      'page.size': page.items.length,
+      'page.has_more': page.nextCursor !== null,
+      'audit.action': query.action ?? 'any'
+    })
+
+    return c.json(page)
+  })
+})
+
+// Cron trigger (see wrangler.toml): store the closed status of expired ballots,
+// purge the trash and old audit entries and drop expired admin sessions
+// The cron sweeps, by span name
+const scheduledSweeps: [string, (env: Bindings) => Promise<void>][] = [
+  ['close_expired_ballots', async (env) => {
+    const closed = await closeExpiredBallots(ballotConfig.repository(env))
+
+    addSpanAttributes({ 'ballots.closed_count': closed.length })
+    for (const ballot of closed) {
+      recordSpanEvent('ballot_closed_on_schedule', { 'ballot.id': ballot.id })
+      liveEvents.publish(liveChannel('ballot', ballot.id), { type: 'ballot', record: ballot })
+    }
+  }],
+
+  ['create_series_attendance', async (env) => {
+    const created = await createAllUpcomingAttendance(attendanceSeriesConfig.repository(env), attendanceConfig.repository(env))
+    addSpanAttributes({ 'attendance.created_count': created.length })
+  }],
+
+  ['purge_expired_trash', async (env) => {
+    const purged = await purgeExpiredTrash(trashSources(env))
+    addSpanAttributes({ 'trash.purged_count': purged.length })
+  }],
+
+  ['purge_expired_audit', async (env) => {
+    const purged = await purgeExpiredAudit(auditRepository(env))
+    addSpanAttributes({ 'audit.purged_count': purged })
+  }],
+
+  ['delete_expired_admin_sessions', async (env) => {
+    const deleted = await deleteExpiredSessions(adminSessionRepository(env))
+    addSpanAttributes({ 'admin_sessions.deleted_count': deleted })
+  }]
+]
+
+// Every sweep runs on every tick: one that fails is logged and the rest go on
+async function handleScheduled(env: Bindings) {
+  for (const [name, sweep] of scheduledSweeps) {
+    try {
+      await withSpan(name, () => sweep(env))
+    } catch (error) {
+      console.error(`Error in scheduled ${name}:`, error)
+    }
+  }
+}
+
 export default {
   fetch: app.fetch,
+  scheduled: (_controller: ScheduledController, env: Bindings, ctx: ExecutionContext) => {
+    ctx.waitUntil(handleScheduled(env).then(() => searchIndexing.settled()))
+  }
 }
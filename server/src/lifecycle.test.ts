@@ -0,0 +1,118 @@
+import { describe, test, expect } from 'bun:test'
+import type { ApiErrorBody, Ballot } from 'shared/dist'
+import app from './index'
+import { closeExpiredBallots, reopenBallot } from './lifecycle'
+import { createKVRepository, createRecordStore } from './storage'
+import { createMemoryKV, createTestEnv, request, adminHeaders } from '../tests/helpers'
+
+const now = new Date('2025-06-01T12:00:00Z')
+const ballot: Ballot = { id: 'b1', question: 'Ship it?', votes: [], createdAt: '2024-01-01T00:00:00Z', version: 1 }
+const future = () => new Date(Date.now() + 60 * 60 * 1000).toISOString()
+const past = () => new Date(Date.now() - 60 * 1000).toISOString()
+
+describe('Ballot lifecycle', () => {
+  test('reopenBallot should clear the old close times', () => {
+    const closed: Ballot = { ...ballot, status: 'closed', closedAt: '2025-01-01T00:00:00Z', closesAt: '2025-01-01T00:00:00Z' }
+
+    expect(reopenBallot(closed)).toEqual({ ...ballot, status: 'open' })
+    expect(reopenBallot(closed, '2025-07-01T00:00:00.000Z').closesAt).toBe('2025-07-01T00:00:00.000Z')
+  })
+
+  test('closeExpiredBallots should only close open ballots past closesAt', async () => {
+    const repository = createKVRepository<Ballot>(
+      createMemoryKV() as any,
+      createRecordStore<Ballot>({ prefix: 'ballot', legacyKey: 'ballots' }),
+      'ballot'
+    )
+    await repository.insert({ ...ballot, id: 'expired', closesAt: '2025-06-01T11:00:00Z' })
+    await repository.insert({ ...ballot, id: 'later', closesAt: '2025-06-01T13:00:00Z' })
+    await repository.insert({ ...ballot, id: 'no-deadline' })
+
+    const closed = await closeExpiredBallots(repository, now)
+
+    expect(closed.map(item => item.id)).toEqual(['expired'])
+    const stored = await repository.get('expired')
+    expect(stored).toMatchObject({ status: 'closed', closedAt: '2025-06-01T11:00:00.000Z', version: 2 })
+    expect((await repository.get('later'))!.status).toBeUndefined()
+  })
+
+  describe('API', () => {
+    test('should create a ballot with a closing time', async () => {
+      const env = createTestEnv({ ballots: [] })
+      const closesAt = future()
+
+      const response = await request(env, 'POST', '/api/ballots', { body: { question: 'Lunch?', closesAt } })
+      const created = await response.json() as Ballot
+
+      expect(response.status).toBe(201)
+      expect(created.status).toBe('open')
+      expect(created.closesAt).toBe(closesAt)
+    })
+
+    test('should reject a closing time in the past', async () => {
+      const env = createTestEnv({ ballots: [] })
+
+      const response = await request(env, 'POST', '/api/ballots', { body: { question: 'Lunch?', closesAt: past() } })
+
+      expect(response.status).toBe(400)
+    })
+
+    test('should refuse votes on a closed ballot with 423', async () => {
+      const env = createTestEnv({ ballots: [{ ...ballot, status: 'closed', closedAt: '2025-01-01T00:00:00Z' }] })
+
+      const response = await request(env, 'POST', '/api/ballots/b1/votes', { body: { color: 'green' } })
+      const { error } = await response.json() as ApiErrorBody
+
+      expect(response.status).toBe(423)
+      expect(error.code).toBe('BALLOT_CLOSED')
+      expect(error.details).toEqual({ closedAt: '2025-01-01T00:00:00Z' })
+    })
+
+    test('should refuse votes once closesAt has passed, even before the sweep runs', async () => {
+      const env = createTestEnv({ ballots: [{ ...ballot, closesAt: past() }] })
+
+      const response = await request(env, 'POST', '/api/ballots/b1/votes', { body: { color: 'green' } })
+
+      expect(response.status).toBe(423)
+    })
+
+    test('should let admins close and reopen a ballot', async () => {
+      const env = createTestEnv({ ballots: [ballot] })
+
+      expect((await request(env, 'POST', '/api/admin/ballots/b1/close')).status).toBe(401)
+
+      const closeResponse = await request(env, 'POST', '/api/admin/ballots/b1/close', { headers: adminHeaders() })
+      expect(((await closeResponse.json()) as Ballot).status).toBe('closed')
+      expect((await request(env, 'POST', '/api/ballots/b1/votes', { body: { color: 'red' } })).status).toBe(423)
+
+      const closesAt = future()
+      const reopenResponse = await request(env, 'POST', '/api/admin/ballots/b1/reopen', {
+        body: { closesAt },
+        headers: adminHeaders()
+      })
+      const reopened = await reopenResponse.json() as Ballot
+      expect(reopened).toMatchObject({ status: 'open', closesAt })
+      expect(reopened.closedAt).toBeUndefined()
+      expect((await request(env, 'POST', '/api/ballots/b1/votes', { body: { color: 'red' } })).status).toBe(201)
+    })
+
+    test('should return 404 when closing a missing ballot', async () => {
+      const env = createTestEnv({ ballots: [] })
+
+      const response = await request(env, 'POST', '/api/admin/ballots/missing/close', { headers: adminHeaders() })
+
+      expect(response.status).toBe(404)
+    })
+
+    test('should close expired ballots from the cron trigger', async () => {
+      const env = createTestEnv({ ballots: [{ ...ballot, closesAt: past() }] })
+      const pending: Promise<unknown>[] = []
+
+      app.scheduled({} as ScheduledController, env as any, { waitUntil: (promise: Promise<unknown>) => pending.push(promise) } as any)
+      await Promise.all(pending)
+
+      const stored = await (await request(env, 'GET', '/api/ballots/b1')).json() as Ballot
+      expect(stored.status).toBe('closed')
+    })
+  })
+})
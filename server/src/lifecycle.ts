@@ -0,0 +1,41 @@
+import { isBallotOpen, type Ballot } from 'shared/dist'
+import type { Repository } from './repository'
+
+/**
+ * Ballot open/closed lifecycle.
+ *
+ * A ballot is open until an admin closes it or its `closesAt` passes. The vote
+ * route checks `isBallotOpen` on every write; the cron sweep below stores the
+ * closed status so lists and admin views show it without computing it.
+ */
+
+export function closeBallot(ballot: Ballot, now: Date = new Date()): Ballot {
+  return { ...ballot, status: 'closed', closedAt: now.toISOString() }
+}
+
+/**
+ * Reopens a ballot. Any old `closesAt` is dropped (it has usually passed);
+ * pass a new one to schedule another close.
+ */
+export function reopenBallot(ballot: Ballot, closesAt?: string): Ballot {
+  const { closedAt: _closedAt, closesAt: _closesAt, ...rest } = ballot
+  return { ...rest, status: 'open', ...(closesAt ? { closesAt } : {}) }
+}
+
+/**
+ * Stores `status: 'closed'` on every ballot whose `closesAt` has passed.
+ * `closedAt` is the scheduled time, not the time the sweep ran. Ballots that
+ * change underneath the sweep are picked up on the next run.
+ */
+export async function closeExpiredBallots(ballots: Repository<Ballot>, now: Date = new Date()): Promise<Ballot[]> {
+  const expired = (await ballots.list()).filter(ballot =>
+    ballot.status !== 'closed' && ballot.closesAt && !isBallotOpen(ballot, now)
+  )
+
+  const closed: Ballot[] = []
+  for (const ballot of expired) {
+    const result = await ballots.updateWithVersion(closeBallot(ballot, new Date(ballot.closesAt!)), ballot.version ?? 1)
+    if (result.ok) closed.push(result.item)
+  }
+  return closed
+}
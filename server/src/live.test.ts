@@ -0,0 +1,154 @@
+import { describe, test, expect } from 'bun:test'
+import type { Ballot } from 'shared/dist'
+import { createEventBus } from './live'
+import { createTestEnv, request, adminHeaders } from '../tests/helpers'
+
+const ballot: Ballot = { id: 'b1', question: 'Ship it?', votes: [], createdAt: '2024-01-01T00:00:00Z', version: 1 }
+const attendance = {
+  id: 'attendance-1',
+  title: 'Standup',
+  date: '2024-01-01',
+  responses: [],
+  createdAt: '2024-01-01T00:00:00Z',
+  version: 1
+}
+
+type SseEvent = { event: string; data: any }
+
+/**
+ * Reads server-sent events from a streaming response until `count` have arrived.
+ */
+function eventReader(response: Response) {
+  const reader = response.body!.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  return {
+    async next(count = 1): Promise<SseEvent[]> {
+      const events: SseEvent[] = []
+      while (events.length < count) {
+        const boundary = buffer.indexOf('\n\n')
+        if (boundary === -1) {
+          const { value, done } = await reader.read()
+          if (done) throw new Error('Stream ended early')
+          buffer += decoder.decode(value)
+          continue
+        }
+
+        const block = buffer.slice(0, boundary)
+        buffer = buffer.slice(boundary + 2)
+        const fields = Object.fromEntries(
+          block.split('\n')
+            .filter(line => !line.startsWith(':'))
+            .map(line => [line.slice(0, line.indexOf(':')), line.slice(line.indexOf(':') + 1).trim()])
+        )
+        if (fields.event) events.push({ event: fields.event, data: JSON.parse(fields.data!) })
+      }
+      return events
+    },
+    close: () => reader.cancel()
+  }
+}
+
+describe('Live updates', () => {
+  describe('createEventBus', () => {
+    test('should only deliver to subscribers of the channel until they unsubscribe', () => {
+      const bus = createEventBus()
+      const received: string[] = []
+      const unsubscribe = bus.subscribe('ballot:a', event => received.push(event.record.id))
+      bus.subscribe('ballot:b', () => received.push('wrong channel'))
+
+      bus.publish('ballot:a', { type: 'vote', record: { id: 'a' } })
+      unsubscribe()
+      bus.publish('ballot:a', { type: 'vote', record: { id: 'a' } })
+
+      expect(received).toEqual(['a'])
+    })
+  })
+
+  test('should return 404 for a missing ballot', async () => {
+    const env = createTestEnv({ ballots: [ballot] })
+
+    const response = await request(env, 'GET', '/api/ballots/missing/stream')
+
+    expect(response.status).toBe(404)
+  })
+
+  test('should send a snapshot and then each vote on the ballot stream', async () => {
+    const env = createTestEnv({ ballots: [ballot] })
+    const response = await request(env, 'GET', '/api/ballots/b1/stream')
+    expect(response.headers.get('Content-Type')).toContain('text/event-stream')
+    const events = eventReader(response)
+
+    const [snapshot] = await events.next()
+    expect(snapshot).toEqual({ event: 'ballot', data: ballot })
+
+    await request(env, 'POST', '/api/ballots/b1/votes', { body: { color: 'green' } })
+    const [vote] = await events.next()
+    expect(vote!.event).toBe('vote')
+    expect(vote!.data.votes).toHaveLength(1)
+    expect(vote!.data.version).toBe(2)
+
+    await events.close()
+  })
+
+  test('should send admin edits as ballot events', async () => {
+    const env = createTestEnv({ ballots: [ballot] })
+    const events = eventReader(await request(env, 'GET', '/api/ballots/b1/stream'))
+    await events.next()
+
+    await request(env, 'PUT', '/api/ballots/b1', {
+      body: { ...ballot, question: 'Ship it today?' },
+      headers: adminHeaders()
+    })
+    const [edit] = await events.next()
+
+    expect(edit!.event).toBe('ballot')
+    expect(edit!.data.question).toBe('Ship it today?')
+
+    await events.close()
+  })
+
+  test('should send attendance responses on the attendance stream', async () => {
+    const env = createTestEnv({ attendances: [attendance] })
+    const events = eventReader(await request(env, 'GET', '/api/attendance/attendance-1/stream'))
+    await events.next()
+
+    await request(env, 'PUT', '/api/attendance/attendance-1', { body: { name: 'Ada', attending: true } })
+    const [update] = await events.next()
+
+    expect(update!.event).toBe('attendance')
+    expect(update!.data.responses).toHaveLength(1)
+    expect(update!.data.version).toBe(2)
+
+    await events.close()
+  })
+
+  test('should cover every ballot and attendance on a dashboard', async () => {
+    const second: Ballot = { ...ballot, id: 'b2', question: 'Lunch?' }
+    const env = createTestEnv({
+      ballots: [ballot, second],
+      attendances: [attendance],
+      dashboards: [{
+        id: 'dash-1',
+        name: 'Team',
+        ballotIds: ['b1', 'b2'],
+        attendanceIds: ['attendance-1'],
+        createdAt: '2024-01-01T00:00:00Z',
+        updatedAt: '2024-01-01T00:00:00Z'
+      }]
+    })
+    const events = eventReader(await request(env, 'GET', '/api/dashboards/dash-1/stream'))
+
+    const snapshots = await events.next(3)
+    expect(snapshots.map(event => `${event.event}:${event.data.id}`)).toEqual([
+      'ballot:b1', 'ballot:b2', 'attendance:attendance-1'
+    ])
+
+    await request(env, 'POST', '/api/ballots/b2/votes', { body: { color: 'red' } })
+    const [vote] = await events.next()
+    expect(vote!.data.id).toBe('b2')
+
+    await events.close()
+  })
+})
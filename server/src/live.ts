@@ -0,0 +1,131 @@
+import type { Context } from 'hono'
+import { streamSSE } from 'hono/streaming'
+import type { VersionedRecord } from './repository'
+
+/**
+ * Server-sent event streams for live ballot and attendance updates.
+ *
+ * Writes publish to an in-process event bus so subscribers in the same isolate
+ * see changes immediately. Other isolates (and writes applied inside the
+ * Durable Object coordinator) are picked up by polling the repository. Either
+ * way a record is only sent when its `version` moves forward.
+ *
+ * Streams close after `LIVE_STREAM_DURATION_MS`; EventSource reconnects on its
+ * own and gets a fresh snapshot.
+ */
+
+export type LiveEventType = 'vote' | 'ballot' | 'attendance'
+
+export type LiveEvent = { type: LiveEventType; record: VersionedRecord }
+
+type LiveListener = (event: LiveEvent) => void
+
+export interface LiveSource {
+  channel: string
+  type: LiveEventType                         // Event name for snapshots and polled changes
+  load: () => Promise<VersionedRecord | null>
+}
+
+export const LIVE_POLL_INTERVAL_MS = 5000
+export const LIVE_STREAM_DURATION_MS = 5 * 60 * 1000
+
+export function liveChannel(resource: string, id: string): string {
+  return `${resource}:${id}`
+}
+
+export function createEventBus() {
+  const listeners = new Map<string, Set<LiveListener>>()
+
+  return {
+    publish(channel: string, event: LiveEvent) {
+      listeners.get(channel)?.forEach(listener => listener(event))
+    },
+
+    subscribe(channel: string, listener: LiveListener): () => void {
+      const channelListeners = listeners.get(channel) ?? new Set<LiveListener>()
+      channelListeners.add(listener)
+      listeners.set(channel, channelListeners)
+
+      return () => {
+        channelListeners.delete(listener)
+        if (channelListeners.size === 0) listeners.delete(channel)
+      }
+    }
+  }
+}
+
+// Shared by every request handled by this isolate
+export const liveEvents = createEventBus()
+
+export function streamLiveUpdates(
+  c: Context,
+  sources: LiveSource[],
+  { pollInterval = LIVE_POLL_INTERVAL_MS, duration = LIVE_STREAM_DURATION_MS } = {}
+) {
+  return streamSSE(c, async (stream) => {
+    const sentVersions = new Map<string, number>()
+    const pending: { channel: string; event: LiveEvent }[] = []
+    let wake: (() => void) | null = null
+    let aborted = false
+
+    const send = async (channel: string, { type, record }: LiveEvent) => {
+      const version = record.version ?? 1
+      if ((sentVersions.get(channel) ?? 0) >= version) return
+      sentVersions.set(channel, version)
+      await stream.writeSSE({ event: type, data: JSON.stringify(record) })
+    }
+
+    const poll = async () => {
+      for (const source of sources) {
+        const record = await source.load()
+        if (record) await send(source.channel, { type: source.type, record })
+      }
+    }
+
+    const unsubscribes = sources.map(source =>
+      liveEvents.subscribe(source.channel, event => {
+        pending.push({ channel: source.channel, event })
+        wake?.()
+      })
+    )
+
+    stream.onAbort(() => {
+      aborted = true
+      wake?.()
+    })
+
+    try {
+      await poll()
+
+      const deadline = Date.now() + duration
+      let nextPoll = Date.now() + pollInterval
+
+      while (!aborted && Date.now() < deadline) {
+        if (pending.length === 0) {
+          await new Promise<void>(resolve => {
+            const timer = setTimeout(resolve, Math.min(nextPoll, deadline) - Date.now())
+            wake = () => {
+              clearTimeout(timer)
+              resolve()
+            }
+          })
+          wake = null
+        }
+
+        while (pending.length > 0 && !aborted) {
+          const { channel, event } = pending.shift()!
+          await send(channel, event)
+        }
+
+        if (!aborted && Date.now() >= nextPoll) {
+          await poll()
+          // Comment line keeps proxies from closing an idle connection
+          await stream.write(': ping\n\n')
+          nextPoll = Date.now() + pollInterval
+        }
+      }
+    } finally {
+      unsubscribes.forEach(unsubscribe => unsubscribe())
+    }
+  })
+}
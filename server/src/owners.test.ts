@@ -0,0 +1,26 @@
+import { describe, test, expect } from 'bun:test'
+import { createDashboardEditor, createOwner, dashboardRole, ownerTokenMatches } from './owners'
+
+describe('Owner tokens', () => {
+  test('should match only the token the record was created with', async () => {
+    const { token, record } = await createOwner('ballot-1')
+
+    expect(record.tokenHash).not.toContain(token)
+    expect(await ownerTokenMatches(token, record)).toBe(true)
+    expect(await ownerTokenMatches(`${token}0`, record)).toBe(false)
+    expect(await ownerTokenMatches(undefined, record)).toBe(false)
+    expect(await ownerTokenMatches(token, null)).toBe(false)
+  })
+
+  test('should tell dashboard owners, editors and viewers apart', async () => {
+    const { token: ownerToken, record } = await createOwner('dashboard-1')
+    const { token: editorToken, editor } = await createDashboardEditor('Coach Sam')
+    const owner = { ...record, editors: [editor] }
+
+    expect(await dashboardRole(ownerToken, owner)).toBe('owner')
+    expect(await dashboardRole(editorToken, owner)).toBe('editor')
+    expect(await dashboardRole(editorToken, { ...owner, editors: [] })).toBe('viewer')
+    expect(await dashboardRole(undefined, owner)).toBe('viewer')
+    expect(await dashboardRole(ownerToken, null)).toBe('viewer')
+  })
+})
@@ -0,0 +1,87 @@
+import type { DashboardEditorSummary, DashboardRole } from 'shared/dist'
+import { randomHex, sha256Hex, timingSafeEqual } from './crypto'
+
+/**
+ * Owner tokens for ballots and dashboards.
+ *
+ * Creating a ballot or dashboard returns a random owner token, once. Only a
+ * SHA-256 hash is kept, in a record of its own keyed by the ballot or
+ * dashboard id, so the hash never goes out with the record it guards.
+ *
+ * - Ballot owners send their token as `X-Owner-Token` to edit, close, reopen,
+ *   hide and delete the ballot.
+ * - Dashboard owners can also hand out named editor tokens. Owners and editors
+ *   send theirs as `X-Dashboard-Token`; editors can change the dashboard but
+ *   not delete it or manage editors.
+ */
+
+export const OWNER_TOKEN_HEADER = 'X-Owner-Token'
+export const DASHBOARD_TOKEN_HEADER = 'X-Dashboard-Token'
+export const MAX_DASHBOARD_EDITORS = 20
+
+export type OwnerRecord = {
+  id: string           // The ballot or dashboard id
+  tokenHash: string
+  createdAt: string
+  version?: number
+}
+
+export type BallotOwnerRecord = OwnerRecord
+
+export type DashboardEditor = DashboardEditorSummary & {
+  tokenHash: string
+}
+
+export type DashboardOwnerRecord = OwnerRecord & {
+  editors: DashboardEditor[]
+}
+
+export async function createOwner(id: string, now: Date = new Date()): Promise<{ token: string; record: OwnerRecord }> {
+  const token = randomHex(32)
+  return {
+    token,
+    record: { id, tokenHash: await sha256Hex(token), createdAt: now.toISOString() }
+  }
+}
+
+export async function ownerTokenMatches(token: string | undefined, owner: OwnerRecord | null): Promise<boolean> {
+  if (!token || !owner) return false
+  return timingSafeEqual(await sha256Hex(token), owner.tokenHash)
+}
+
+export async function createDashboardEditor(name: string, now: Date = new Date()): Promise<{ token: string; editor: DashboardEditor }> {
+  const token = randomHex(32)
+  return {
+    token,
+    editor: { id: randomHex(8), name, tokenHash: await sha256Hex(token), createdAt: now.toISOString() }
+  }
+}
+
+export function toDashboardEditorSummary({ tokenHash: _tokenHash, ...summary }: DashboardEditor): DashboardEditorSummary {
+  return summary
+}
+
+/**
+ * What a dashboard token lets its holder do. Anything that isn't the owner's
+ * or a current editor's token only gets to view.
+ */
+export async function dashboardRole(token: string | undefined, owner: DashboardOwnerRecord | null): Promise<DashboardRole> {
+  if (!token || !owner) return 'viewer'
+
+  const tokenHash = await sha256Hex(token)
+  if (timingSafeEqual(tokenHash, owner.tokenHash)) return 'owner'
+  // Check every editor, so the time taken doesn't say which one matched
+  const isEditor = owner.editors.reduce((found, editor) => timingSafeEqual(tokenHash, editor.tokenHash) || found, false)
+  return isEditor ? 'editor' : 'viewer'
+}
+
+/**
+ * The editor a dashboard token belongs to, if any, for recording who changed
+ * a dashboard. Checks every editor, like dashboardRole.
+ */
+export async function findDashboardEditor(token: string | undefined, owner: DashboardOwnerRecord | null): Promise<DashboardEditor | null> {
+  if (!token || !owner) return null
+
+  const tokenHash = await sha256Hex(token)
+  return owner.editors.reduce<DashboardEditor | null>((found, editor) => timingSafeEqual(tokenHash, editor.tokenHash) ? editor : found, null)
+}
@@ -0,0 +1,45 @@
+import { describe, test, expect } from 'bun:test'
+import { decodeCursor, encodeCursor, paginate, type ListFields } from './pagination'
+
+type Item = { id: string; title: string; createdAt: string }
+
+const fields: ListFields<Item> = { text: (item) => item.title, time: (item) => item.createdAt }
+
+const items: Item[] = [
+  { id: 'a', title: 'Lunch on Friday', createdAt: '2024-01-01T10:00:00Z' },
+  { id: 'b', title: 'Team offsite', createdAt: '2024-01-03T10:00:00Z' },
+  { id: 'c', title: 'Friday demo', createdAt: '2024-01-02T10:00:00Z' },
+  { id: 'd', title: 'Budget review', createdAt: '2024-01-02T10:00:00Z' }
+]
+
+const ids = (page: { items: Item[] } | null) => page?.items.map(item => item.id)
+
+describe('Pagination', () => {
+  test('should page newest first and end with a null cursor', () => {
+    const first = paginate(items, { limit: 2 }, fields)
+    const second = paginate(items, { limit: 2, cursor: first!.nextCursor! }, fields)
+
+    expect(ids(first)).toEqual(['b', 'c'])
+    expect(ids(second)).toEqual(['d', 'a'])
+    expect(second!.nextCursor).toBeNull()
+  })
+
+  test('should carry on after the cursor when earlier items are deleted', () => {
+    const first = paginate(items, { limit: 2 }, fields)
+    const remaining = items.filter(item => item.id !== 'b')
+
+    expect(ids(paginate(remaining, { limit: 2, cursor: first!.nextCursor! }, fields))).toEqual(['d', 'a'])
+  })
+
+  test('should search, filter by creation time and sort by name', () => {
+    expect(ids(paginate(items, { q: 'FRIDAY' }, fields))).toEqual(['c', 'a'])
+    expect(ids(paginate(items, { createdAfter: '2024-01-01T12:00:00.000Z', createdBefore: '2024-01-03T00:00:00.000Z' }, fields))).toEqual(['c', 'd'])
+    expect(ids(paginate(items, { sort: 'oldest' }, fields))).toEqual(['a', 'c', 'd', 'b'])
+    expect(ids(paginate(items, { sort: 'name' }, fields))).toEqual(['d', 'c', 'a', 'b'])
+  })
+
+  test('should reject cursors it did not make', () => {
+    expect(paginate(items, { cursor: 'not a cursor' }, fields)).toBeNull()
+    expect(decodeCursor(encodeCursor([1704189600000, 'c']))).toEqual([1704189600000, 'c'])
+  })
+})
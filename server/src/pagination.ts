@@ -0,0 +1,114 @@
+import type { Context, Env } from 'hono'
+import { DEFAULT_PAGE_SIZE, type ListQuery, type Page } from 'shared/dist'
+import { apiError } from './errors'
+import { addSpanAttributes } from './telemetry'
+import type { QueryInput } from './validation'
+
+/**
+ * Filtering, sorting and cursor paging for the list routes.
+ *
+ * A cursor is the sort key and id of the last item on a page, so the next page
+ * starts right after it even if records were added or deleted in between.
+ * Records are filtered in memory after `list()`; the repositories can't push
+ * text search down.
+ */
+
+// How a resource is searched and ordered
+export type ListFields<T> = {
+  text: (item: T) => string  // What `q` searches and `sort=name` orders by
+  time: (item: T) => string  // What `newest` and `oldest` order by
+}
+
+type ListRecord = { id: string; createdAt: string }
+type SortKey = [value: string | number, id: string]
+
+function sortKey<T extends ListRecord>(item: T, query: ListQuery, fields: ListFields<T>): SortKey {
+  const value = query.sort === 'name' ? fields.text(item).toLowerCase() : Date.parse(fields.time(item)) || 0
+  return [value, item.id]
+}
+
+// Ids break ties so every item has a place in the order
+function compareKeys([aValue, aId]: SortKey, [bValue, bId]: SortKey, query: ListQuery): number {
+  if (aValue !== bValue) {
+    const ascending = aValue < bValue ? -1 : 1
+    return query.sort === 'newest' || query.sort === undefined ? -ascending : ascending
+  }
+  return aId === bId ? 0 : aId < bId ? -1 : 1
+}
+
+export function encodeCursor(key: SortKey): string {
+  return btoa(JSON.stringify(key)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+export function decodeCursor(cursor: string): SortKey | null {
+  try {
+    const key: unknown = JSON.parse(atob(cursor.replace(/-/g, '+').replace(/_/g, '/')))
+    if (Array.isArray(key) && key.length === 2 && ['string', 'number'].includes(typeof key[0]) && typeof key[1] === 'string') {
+      return key as SortKey
+    }
+  } catch {
+    // Not base64 or not JSON
+  }
+  return null
+}
+
+/**
+ * One page of `items` as `query` asks for it, or null if its cursor isn't one
+ * this API made.
+ */
+export function paginate<T extends ListRecord>(items: T[], query: ListQuery, fields: ListFields<T>): Page<T> | null {
+  const after = query.cursor ? decodeCursor(query.cursor) : undefined
+  if (after === null) return null
+
+  const search = query.q?.toLowerCase()
+  const createdAfter = query.createdAfter ? Date.parse(query.createdAfter) : undefined
+  const createdBefore = query.createdBefore ? Date.parse(query.createdBefore) : undefined
+
+  const keyed = items
+    .filter(item => {
+      const created = Date.parse(item.createdAt)
+      return (!search || fields.text(item).toLowerCase().includes(search)) &&
+        (createdAfter === undefined || created > createdAfter) &&
+        (createdBefore === undefined || created < createdBefore)
+    })
+    .map(item => ({ item, key: sortKey(item, query, fields) }))
+    .sort((a, b) => compareKeys(a.key, b.key, query))
+
+  const start = after ? keyed.findIndex(({ key }) => compareKeys(key, after, query) > 0) : 0
+  const remaining = start === -1 ? [] : keyed.slice(start)
+  const page = remaining.slice(0, query.limit ?? DEFAULT_PAGE_SIZE)
+  const last = page[page.length - 1]
+
+  return {
+    items: page.map(({ item }) => item),
+    nextCursor: last && remaining.length > page.length ? encodeCursor(last.key) : null
+  }
+}
+
+/**
+ * Responds with one page of `items`, converted by `transform` if given. The
+ * route must validate its query with `validateQuery(listQuerySchema)`.
+ */
+export function listPage<E extends Env, T extends ListRecord, R = T>(
+  c: Context<E, string, QueryInput<ListQuery>>,
+  items: T[],
+  fields: ListFields<T>,
+  transform?: (items: T[]) => R[]
+) {
+  const query = c.req.valid('query')
+  const page = paginate(items, query, fields)
+  if (!page) {
+    addSpanAttributes({ 'validation.failed': true, 'validation.paths': 'cursor' })
+    return apiError(c, 'VALIDATION_FAILED', 'Cursor is not valid', { issues: [{ path: 'cursor', message: 'Cursor is not valid' }] })
+  }
+
+  addSpanAttributes({
+    'page.size': page.items.length,
+    'page.has_more': page.nextCursor !== null,
+    'page.sort': query.sort ?? 'newest',
+    'page.searched': Boolean(query.q)
+  })
+
+  const body: Page<T | R> = transform ? { items: transform(page.items), nextCursor: page.nextCursor } : page
+  return c.json(body)
+}
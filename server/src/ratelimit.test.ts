@@ -0,0 +1,93 @@
+import { describe, test, expect } from 'bun:test'
+import { RATE_LIMITS, createMemoryRateLimiter, takeToken } from './ratelimit'
+import { createTestEnv, request } from '../tests/helpers'
+
+describe('Rate limiting', () => {
+  const rule = { capacity: 2, refillPerMinute: 6 }   // One token every 10 seconds
+
+  test('should start full, empty with use and refill over time', () => {
+    const first = takeToken(undefined, rule, 0)
+    expect(first.result).toEqual({ allowed: true, remaining: 1 })
+
+    const second = takeToken(first.bucket, rule, 0)
+    expect(second.result).toEqual({ allowed: true, remaining: 0 })
+
+    const limited = takeToken(second.bucket, rule, 4_000)
+    expect(limited.result).toEqual({ allowed: false, retryAfterSeconds: 6 })
+
+    expect(takeToken(limited.bucket, rule, 10_000).result.allowed).toBe(true)
+  })
+
+  test('should not refill past capacity', () => {
+    const { bucket } = takeToken({ tokens: 0, updatedAt: 0 }, rule, 3_600_000)
+    expect(bucket.tokens).toBe(1)
+  })
+
+  test('should keep separate buckets per key in memory', async () => {
+    let time = 0
+    const limiter = createMemoryRateLimiter(() => time)
+
+    await limiter.take('a', rule)
+    await limiter.take('a', rule)
+    expect((await limiter.take('a', rule)).allowed).toBe(false)
+    expect((await limiter.take('b', rule)).allowed).toBe(true)
+
+    time = 20_000
+    expect((await limiter.take('a', rule)).allowed).toBe(true)
+  })
+
+  describe('routes', () => {
+    const fromIp = (ip: string) => ({ 'CF-Connecting-IP': ip })
+
+    test('should answer 429 with Retry-After once an IP runs out of creates', async () => {
+      const env = createTestEnv()
+      for (let i = 0; i < RATE_LIMITS.create.capacity; i++) {
+        const response = await request(env, 'POST', '/api/ballots', { body: { question: `Q${i}` }, headers: fromIp('1.2.3.4') })
+        expect(response.status).toBe(201)
+      }
+
+      const limited = await request(env, 'POST', '/api/dashboards', { body: { name: 'One too many' }, headers: fromIp('1.2.3.4') })
+      expect(limited.status).toBe(429)
+      expect(Number(limited.headers.get('Retry-After'))).toBeGreaterThan(0)
+      expect(((await limited.json()) as any).error.message).toStartWith('Too many requests')
+
+      // Other addresses and route classes have buckets of their own
+      expect((await request(env, 'POST', '/api/ballots', { body: { question: 'Q' }, headers: fromIp('5.6.7.8') })).status).toBe(201)
+      expect((await request(env, 'GET', '/api/ballots', { headers: fromIp('1.2.3.4') })).status).toBe(200)
+    })
+
+    test('should not take the client IP from X-Forwarded-For', async () => {
+      const env = createTestEnv()
+      for (let i = 0; i < RATE_LIMITS.create.capacity; i++) {
+        await request(env, 'POST', '/api/ballots', { body: { question: `Q${i}` }, headers: { 'X-Forwarded-For': `10.0.0.${i}` } })
+      }
+
+      // Without CF-Connecting-IP every request counts against one bucket
+      const limited = await request(env, 'POST', '/api/ballots', { body: { question: 'Q' }, headers: { 'X-Forwarded-For': '10.0.1.1' } })
+      expect(limited.status).toBe(429)
+    })
+
+    test('should limit votes per IP', async () => {
+      const env = createTestEnv({ ballots: [{ id: 'b1', question: 'Q', votes: [], createdAt: '2024-01-01T00:00:00Z', votePolicy: 'unlimited' }] })
+      for (let i = 0; i < RATE_LIMITS.vote.capacity; i++) {
+        await request(env, 'POST', '/api/ballots/b1/votes', { body: { color: 'green' }, headers: fromIp('1.2.3.4') })
+      }
+
+      const limited = await request(env, 'POST', '/api/ballots/b1/votes', { body: { color: 'green' }, headers: fromIp('1.2.3.4') })
+      expect(limited.status).toBe(429)
+      expect(limited.headers.get('Retry-After')).toBe('2')
+    })
+
+    test('should issue a room full of voter tokens from one IP, then limit them', async () => {
+      const env = createTestEnv()
+      // Everyone in a meeting behind one address gets a token
+      for (let i = 0; i < RATE_LIMITS['voter-token'].capacity; i++) {
+        expect((await request(env, 'POST', '/api/voter-token', { headers: fromIp('1.2.3.4') })).status).toBe(201)
+      }
+
+      const limited = await request(env, 'POST', '/api/voter-token', { headers: fromIp('1.2.3.4') })
+      expect(limited.status).toBe(429)
+      expect(limited.headers.get('Retry-After')).toBe('2')
+    })
+  })
+})
@@ -0,0 +1,182 @@
+import type { Context, Env, Next } from 'hono'
+import { apiError } from './errors'
+import { addSpanAttributes, recordSpanEvent } from './telemetry'
+
+/**
+ * Token-bucket rate limiting.
+ *
+ * Every client IP gets a bucket per route class, and voting also has a bucket
+ * per ballot so a ballot can't be flooded from many addresses at once. A
+ * bucket holds up to `capacity` tokens and refills at `refillPerMinute`. Each
+ * request takes a token; a request that finds the bucket empty gets 429 with
+ * `Retry-After`.
+ *
+ * - Deployed: one Durable Object per bucket (`RATE_LIMITER` binding), so every
+ *   isolate counts against the same bucket
+ * - Without the binding (local dev, tests): buckets in this isolate's memory
+ */
+
+export type RateLimitRule = {
+  capacity: number
+  refillPerMinute: number
+}
+
+export type RouteClass = 'create' | 'vote' | 'voter-token' | 'ballot-votes' | 'respond' | 'dashboard'
+
+export const RATE_LIMITS: Record<RouteClass, RateLimitRule> = {
+  create: { capacity: 10, refillPerMinute: 5 },            // New ballots, dashboards and attendance polls, per IP
+  vote: { capacity: 30, refillPerMinute: 30 },             // Votes, per IP
+  'voter-token': { capacity: 30, refillPerMinute: 30 },    // Voter tokens, per IP - as many as votes, for a room behind one address
+  'ballot-votes': { capacity: 300, refillPerMinute: 300 }, // Votes, per ballot
+  respond: { capacity: 30, refillPerMinute: 30 },          // Attendance responses, per IP
+  dashboard: { capacity: 60, refillPerMinute: 60 }         // Dashboard changes, per IP
+}
+
+export type BucketState = {
+  tokens: number
+  updatedAt: number
+}
+
+export type RateLimitResult =
+  | { allowed: true; remaining: number }
+  | { allowed: false; retryAfterSeconds: number }
+
+export interface RateLimiter {
+  take: (key: string, rule: RateLimitRule) => Promise<RateLimitResult>
+}
+
+type TakeRequest = { key: string; rule: RateLimitRule }
+
+/**
+ * Refills the bucket for the time since it was last touched, then takes one
+ * token if there is one.
+ */
+export function takeToken(
+  bucket: BucketState | undefined,
+  rule: RateLimitRule,
+  now: number
+): { bucket: BucketState; result: RateLimitResult } {
+  const refillPerMs = rule.refillPerMinute / 60_000
+  const tokens = bucket
+    ? Math.min(rule.capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs)
+    : rule.capacity
+
+  if (tokens < 1) {
+    return {
+      bucket: { tokens, updatedAt: now },
+      result: { allowed: false, retryAfterSeconds: Math.ceil((1 - tokens) / refillPerMs / 1000) }
+    }
+  }
+  return {
+    bucket: { tokens: tokens - 1, updatedAt: now },
+    result: { allowed: true, remaining: Math.floor(tokens - 1) }
+  }
+}
+
+// Beyond this many buckets, forget the ones that have refilled - a full
+// bucket and a missing one behave the same
+const MAX_MEMORY_BUCKETS = 10_000
+
+export function createMemoryRateLimiter(now: () => number = Date.now): RateLimiter {
+  const buckets = new Map<string, { bucket: BucketState; rule: RateLimitRule }>()
+
+  const prune = (time: number) => {
+    for (const [key, { bucket, rule }] of buckets) {
+      const refilled = bucket.tokens + (time - bucket.updatedAt) * rule.refillPerMinute / 60_000 >= rule.capacity
+      if (refilled) buckets.delete(key)
+    }
+  }
+
+  return {
+    async take(key, rule) {
+      const time = now()
+      if (buckets.size >= MAX_MEMORY_BUCKETS) prune(time)
+
+      const { bucket, result } = takeToken(buckets.get(key)?.bucket, rule, time)
+      buckets.set(key, { bucket, rule })
+      return result
+    }
+  }
+}
+
+export function createDurableRateLimiter(namespace: DurableObjectNamespace): RateLimiter {
+  return {
+    async take(key, rule) {
+      const stub = namespace.get(namespace.idFromName(key))
+      const body: TakeRequest = { key, rule }
+      const response = await stub.fetch('https://rate-limiter/take', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      })
+
+      if (!response.ok) {
+        throw new Error(`Rate limiter failed with status ${response.status}`)
+      }
+      return await response.json() as RateLimitResult
+    }
+  }
+}
+
+/**
+ * One Durable Object per bucket key. Buckets live in memory; if the object is
+ * evicted its bucket starts full again, which only errs towards letting
+ * requests through.
+ */
+export class RateLimiterObject implements DurableObject {
+  readonly limiter = createMemoryRateLimiter()
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url)
+    if (request.method !== 'POST' || url.pathname !== '/take') {
+      return new Response('Not found', { status: 404 })
+    }
+
+    const { key, rule } = await request.json() as TakeRequest
+    return Response.json(await this.limiter.take(key, rule))
+  }
+}
+
+/**
+ * The caller's address as Cloudflare saw it. `X-Forwarded-For` is set by the
+ * client and would let anyone pick a fresh bucket per request, so it's never
+ * read; requests without `CF-Connecting-IP` (local dev, tests) all share the
+ * 'unknown' bucket.
+ */
+export function clientIp(c: Context): string {
+  return c.req.header('CF-Connecting-IP') ?? 'unknown'
+}
+
+/**
+ * Middleware that takes a token from the `routeClass` bucket for the request's
+ * key (its client IP unless `keyOf` says otherwise) and answers 429 when the
+ * bucket is empty. If the limiter itself fails the request goes through.
+ */
+export function rateLimit<E extends Env>(
+  limiterFor: (c: Context<E>) => RateLimiter,
+  routeClass: RouteClass,
+  keyOf: (c: Context<E>) => string = clientIp
+) {
+  return async (c: Context<E>, next: Next) => {
+    const rule = RATE_LIMITS[routeClass]
+    let result: RateLimitResult
+
+    try {
+      result = await limiterFor(c).take(`${routeClass}:${keyOf(c)}`, rule)
+    } catch (error) {
+      console.error('Rate limiter error:', error)
+      return next()
+    }
+
+    if (!result.allowed) {
+      addSpanAttributes({ 'rate_limit.class': routeClass, 'rate_limit.limited': true })
+      recordSpanEvent('rate_limited', { 'rate_limit.class': routeClass, 'rate_limit.retry_after': result.retryAfterSeconds })
+      c.header('Retry-After', String(result.retryAfterSeconds))
+      return apiError(c, 'RATE_LIMITED', `Too many requests. Please try again in ${result.retryAfterSeconds} seconds.`, {
+        retryAfterSeconds: result.retryAfterSeconds
+      })
+    }
+
+    await next()
+  }
+}
@@ -0,0 +1,154 @@
+import { describe, test, expect } from 'bun:test'
+import { applyQuery, DuplicateRecordError, resolveStorageBackend, type Repository } from './repository'
+import { createKVRepository, createRecordStore } from './storage'
+import { createD1Repository } from './d1'
+import { createMemoryD1, createMemoryKV, createD1TestEnv, request } from '../tests/helpers'
+
+type Item = { id: string; name: string; group: string; rank: number; version?: number }
+
+const items: Item[] = [
+  { id: 'a', name: 'Alpha', group: 'x', rank: 3, version: 1 },
+  { id: 'b', name: 'Beta', group: 'y', rank: 1, version: 1 },
+  { id: 'c', name: 'Gamma', group: 'x', rank: 2, version: 1 }
+]
+
+const backends: [string, () => Repository<Item>][] = [
+  ['kv', () => createKVRepository<Item>(
+    createMemoryKV() as any,
+    createRecordStore<Item>({ prefix: 'item', legacyKey: 'items' }),
+    'item'
+  )],
+  ['d1', () => createD1Repository<Item>(createMemoryD1() as any, 'item')]
+]
+
+async function seeded(create: () => Repository<Item>) {
+  const repository = create()
+  for (const item of items) {
+    await repository.insert(item)
+  }
+  return repository
+}
+
+describe.each(backends)('%s repository', (_name, create) => {
+  test('should get and list records', async () => {
+    const repository = await seeded(create)
+
+    expect(await repository.get('b')).toEqual(items[1]!)
+    expect(await repository.get('missing')).toBeNull()
+    expect((await repository.list()).map(item => item.id)).toEqual(['a', 'b', 'c'])
+  })
+
+  test('should reject inserting a duplicate id', async () => {
+    const repository = await seeded(create)
+
+    await expect(repository.insert({ ...items[0]!, name: 'Other' })).rejects.toBeInstanceOf(DuplicateRecordError)
+    expect((await repository.get('a'))!.name).toBe('Alpha')
+  })
+
+  test('should filter, order and limit queries', async () => {
+    const repository = await seeded(create)
+
+    const result = await repository.query({
+      where: { group: 'x' },
+      orderBy: { field: 'rank', direction: 'desc' },
+      limit: 1
+    })
+
+    expect(result.map(item => item.id)).toEqual(['a'])
+  })
+
+  test('should bump the version on a matching update', async () => {
+    const repository = await seeded(create)
+
+    const result = await repository.updateWithVersion({ ...items[0]!, name: 'Renamed' }, 1)
+
+    expect(result).toEqual({ ok: true, item: { ...items[0]!, name: 'Renamed', version: 2 } })
+    expect((await repository.get('a'))!.version).toBe(2)
+  })
+
+  test('should report a stale version without writing', async () => {
+    const repository = await seeded(create)
+    await repository.updateWithVersion({ ...items[0]!, name: 'First write' }, 1)
+
+    const result = await repository.updateWithVersion({ ...items[0]!, name: 'Stale write' }, 1)
+
+    expect(result).toEqual({ ok: false, reason: 'version_conflict', currentVersion: 2 })
+    expect((await repository.get('a'))!.name).toBe('First write')
+  })
+
+  test('should report not_found when updating a missing record', async () => {
+    const repository = await seeded(create)
+
+    const result = await repository.updateWithVersion({ ...items[0]!, id: 'missing' }, 1)
+
+    expect(result).toEqual({ ok: false, reason: 'not_found' })
+  })
+
+  test('should scan records in id order a batch at a time', async () => {
+    const repository = await seeded(create)
+
+    const first = await repository.scan({ limit: 2 })
+    expect(first.items.map(item => item.id)).toEqual(['a', 'b'])
+    expect(first.cursor).not.toBeNull()
+
+    const second = await repository.scan({ limit: 2, cursor: first.cursor! })
+    expect(second).toEqual({ items: [items[2]!], cursor: null })
+  })
+
+  test('should scan only the ids under a prefix', async () => {
+    const repository = await seeded(create)
+    for (const id of ['b:1', 'b:2', 'b:3', 'bb']) await repository.insert({ ...items[0]!, id })
+
+    const first = await repository.scan({ limit: 2, prefix: 'b:' })
+    expect(first.items.map(item => item.id)).toEqual(['b:1', 'b:2'])
+
+    const second = await repository.scan({ limit: 2, prefix: 'b:', cursor: first.cursor! })
+    expect(second.items.map(item => item.id)).toEqual(['b:3'])
+    expect(second.cursor).toBeNull()
+  })
+
+  test('should delete records', async () => {
+    const repository = await seeded(create)
+
+    expect(await repository.delete('b')).toBe(true)
+    expect(await repository.delete('b')).toBe(false)
+    expect((await repository.list()).map(item => item.id)).toEqual(['a', 'c'])
+  })
+})
+
+describe('applyQuery', () => {
+  test('should treat missing fields as null', () => {
+    const result = applyQuery<Item & { archived?: boolean }>(items, { where: { archived: null } })
+
+    expect(result).toHaveLength(3)
+  })
+})
+
+describe('resolveStorageBackend', () => {
+  test('should default to KV', () => {
+    expect(resolveStorageBackend({ BALLOTS_KV: {} as any })).toBe('kv')
+  })
+
+  test('should refuse d1 without a database binding', () => {
+    expect(() => resolveStorageBackend({ BALLOTS_KV: {} as any, STORAGE_BACKEND: 'd1' })).toThrow()
+  })
+})
+
+describe('API on the D1 backend', () => {
+  test('should create, vote on and read back a ballot', async () => {
+    const env = createD1TestEnv()
+
+    const createResponse = await request(env, 'POST', '/api/ballots', { body: { question: 'Ship it?' } })
+    expect(createResponse.status).toBe(201)
+    const created = await createResponse.json() as { id: string }
+
+    const voteResponse = await request(env, 'POST', `/api/ballots/${created.id}/votes`, { body: { color: 'green' } })
+    expect(voteResponse.status).toBe(201)
+
+    const ballot = await (await request(env, 'GET', `/api/ballots/${created.id}`)).json() as { votes: unknown[]; version: number }
+    expect(ballot.votes).toHaveLength(1)
+    expect(ballot.version).toBe(2)
+    // Nothing was written to KV
+    expect(env.BALLOTS_KV.store.size).toBe(0)
+  })
+})
@@ -0,0 +1,110 @@
+/**
+ * Storage-agnostic repository interface consumed by the handler factories.
+ *
+ * Two backends implement it:
+ * - KV (`createKVRepository` in ./storage) - one key per record, the default
+ * - D1/SQLite (`createD1Repository` in ./d1) - one row per record in `records`
+ *
+ * The backend is chosen per request from the `STORAGE_BACKEND` binding.
+ */
+
+export type VersionedRecord = { id: string; version?: number }
+
+export type QueryValue = string | number | boolean | null
+
+export interface QueryOptions<T> {
+  where?: Partial<Record<keyof T & string, QueryValue>>  // Top-level field equality
+  orderBy?: { field: keyof T & string; direction?: 'asc' | 'desc' }
+  limit?: number
+}
+
+export interface ScanOptions {
+  limit: number
+  cursor?: string  // From the previous batch
+  prefix?: string  // Only ids that start with this
+}
+
+export type ScanResult<T> = {
+  items: T[]
+  cursor: string | null  // For the next batch; null after the last
+}
+
+export type UpdateResult<T> =
+  | { ok: true; item: T }
+  | { ok: false; reason: 'not_found' }
+  | { ok: false; reason: 'version_conflict'; currentVersion: number }
+
+export interface Repository<T extends VersionedRecord> {
+  get: (id: string) => Promise<T | null>
+  list: () => Promise<T[]>
+  query: (options: QueryOptions<T>) => Promise<T[]>
+  /**
+   * Records in id order, up to `limit` at a time, for reading a large set
+   * without loading all of it. With `prefix`, only the ids under it are read.
+   */
+  scan: (options: ScanOptions) => Promise<ScanResult<T>>
+  /** Stores a new record. Throws `DuplicateRecordError` if the id is taken. */
+  insert: (item: T) => Promise<T>
+  /**
+   * Replaces a record only if its stored version still equals `expectedVersion`.
+   * The stored record gets `version: expectedVersion + 1`.
+   */
+  updateWithVersion: (item: T, expectedVersion: number) => Promise<UpdateResult<T>>
+  delete: (id: string) => Promise<boolean>
+}
+
+export class DuplicateRecordError extends Error {
+  constructor(resource: string, id: string) {
+    super(`${resource} ${id} already exists`)
+    this.name = 'DuplicateRecordError'
+  }
+}
+
+export type StorageBackend = 'kv' | 'd1'
+
+export type StorageBindings = {
+  BALLOTS_KV: KVNamespace
+  BALLOTS_DB?: D1Database
+  STORAGE_BACKEND?: StorageBackend
+}
+
+export function resolveStorageBackend(env: StorageBindings): StorageBackend {
+  if (env.STORAGE_BACKEND === 'd1') {
+    if (!env.BALLOTS_DB) {
+      throw new Error('STORAGE_BACKEND is "d1" but no BALLOTS_DB binding is configured')
+    }
+    return 'd1'
+  }
+  return 'kv'
+}
+
+/**
+ * In-memory implementation of `query` for backends that can't push filters down.
+ */
+export function applyQuery<T extends VersionedRecord>(items: T[], options: QueryOptions<T>): T[] {
+  let result = items
+
+  if (options.where) {
+    const conditions = Object.entries(options.where) as [keyof T & string, QueryValue][]
+    result = result.filter(item =>
+      conditions.every(([field, value]) => (item[field] ?? null) === value)
+    )
+  }
+
+  if (options.orderBy) {
+    const { field, direction = 'asc' } = options.orderBy
+    const sign = direction === 'asc' ? 1 : -1
+    result = [...result].sort((a, b) => {
+      const left = a[field] as unknown as string | number
+      const right = b[field] as unknown as string | number
+      if (left === right) return 0
+      return left > right ? sign : -sign
+    })
+  }
+
+  if (options.limit !== undefined) {
+    result = result.slice(0, options.limit)
+  }
+
+  return result
+}
@@ -0,0 +1,160 @@
+import { describe, test, expect } from 'bun:test'
+import { MAX_REVISIONS, type Attendance, type Ballot, type Dashboard, type Revision, type RevisionDiff } from 'shared/dist'
+import { createKVRepository, createRecordStore } from './storage'
+import { diffRecords, keepRevision, listRevisions, revisionId } from './revisions'
+import { createMemoryKV, createTestEnv, request, adminHeaders } from '../tests/helpers'
+
+const ballot: Ballot = { id: 'b1', question: 'Ship it?', votes: [], createdAt: '2024-01-01T00:00:00Z', version: 1 }
+const attendance: Attendance = {
+  id: 'a1',
+  title: 'Team offsite',
+  date: '2024-02-01',
+  responses: [],
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+  version: 1
+}
+
+function revisionRecords() {
+  return createKVRepository<Revision>(createMemoryKV() as any, createRecordStore<Revision>({ prefix: 'revision', legacyKey: 'revisions' }), 'revision')
+}
+
+async function createDashboard(env: ReturnType<typeof createTestEnv>) {
+  const created = await (await request(env, 'POST', '/api/dashboards', { body: { name: 'Q1 plans' } })).json() as Dashboard & { ownerToken: string }
+  const editor = await (await request(env, 'POST', `/api/dashboards/${created.id}/editors`, {
+    body: { name: 'Robin' },
+    headers: { 'X-Dashboard-Token': created.ownerToken }
+  })).json() as { token: string }
+  return { dashboard: created, ownerHeaders: { 'X-Dashboard-Token': created.ownerToken }, editorHeaders: { 'X-Dashboard-Token': editor.token } }
+}
+
+describe('Revisions', () => {
+  test('diffRecords should list changed fields and what lists gained and lost', () => {
+    const before = { id: 'd1', name: 'Q1', ballotIds: ['b1', 'b2'], version: 1, updatedAt: '2024-01-01T00:00:00Z' }
+    const after = { id: 'd1', name: 'Q2', ballotIds: ['b2', 'b3'], note: 'new', version: 2, updatedAt: '2024-02-01T00:00:00Z' }
+
+    expect(diffRecords(before, after)).toEqual([
+      { field: 'name', before: 'Q1', after: 'Q2' },
+      { field: 'ballotIds', added: ['b3'], removed: ['b1'] },
+      { field: 'note', after: 'new' }
+    ])
+    expect(diffRecords(before, { ...before, ballotIds: ['b2', 'b1'], version: 5 })).toEqual([])
+  })
+
+  test('keepRevision should keep the starting version once and drop the oldest', async () => {
+    const revisions = revisionRecords()
+    let current = ballot
+    for (let version = 2; version <= MAX_REVISIONS + 2; version++) {
+      const next = { ...current, question: `Ship it v${version}?`, version }
+      await keepRevision(revisions, 'ballot', current, next, { kind: 'owner' })
+      current = next
+    }
+
+    const kept = await listRevisions(revisions, 'ballot', 'b1')
+    expect(kept).toHaveLength(MAX_REVISIONS)
+    expect(kept[0]).toMatchObject({ id: revisionId('ballot', 'b1', MAX_REVISIONS + 2), version: MAX_REVISIONS + 2, actor: { kind: 'owner' } })
+    expect(kept.at(-1)!.version).toBe(3)
+  })
+
+  test('should only read the revisions of the record being edited', async () => {
+    const revisions = revisionRecords()
+    const other = { ...ballot, id: 'b10' }
+    await keepRevision(revisions, 'ballot', other, { ...other, version: 2 }, { kind: 'owner' })
+    let readEverything = false
+    revisions.list = revisions.query = async () => {
+      readEverything = true
+      return []
+    }
+
+    await keepRevision(revisions, 'ballot', ballot, { ...ballot, version: 2 }, { kind: 'owner' })
+
+    expect(readEverything).toBe(false)
+    expect((await listRevisions(revisions, 'ballot', 'b1')).map(revision => revision.version)).toEqual([2, 1])
+    expect((await listRevisions(revisions, 'ballot', 'b10')).map(revision => revision.version)).toEqual([2, 1])
+  })
+
+  describe('API', () => {
+    test('should show who changed a dashboard and roll it back', async () => {
+      const env = createTestEnv({ ballots: [ballot] })
+      const { dashboard, ownerHeaders, editorHeaders } = await createDashboard(env)
+
+      await request(env, 'PUT', `/api/dashboards/${dashboard.id}`, { body: { ballotIds: ['b1'], version: 1 }, headers: ownerHeaders })
+      await request(env, 'PUT', `/api/dashboards/${dashboard.id}`, { body: { name: 'Q2 plans', ballotIds: [], version: 2 }, headers: editorHeaders })
+
+      const { items } = await (await request(env, 'GET', `/api/dashboards/${dashboard.id}/revisions`, { headers: ownerHeaders })).json() as { items: Revision<Dashboard>[] }
+      expect(items.map(item => [item.version, item.actor?.kind, item.actor?.name])).toEqual([
+        [3, 'editor', 'Robin'],
+        [2, 'owner', undefined],
+        [1, undefined, undefined]
+      ])
+
+      const diff = await (await request(env, 'GET', `/api/dashboards/${dashboard.id}/revisions/diff?from=2`, { headers: editorHeaders })).json() as RevisionDiff
+      expect(diff).toEqual({
+        from: 2,
+        to: 3,
+        changes: [
+          { field: 'name', before: 'Q1 plans', after: 'Q2 plans' },
+          { field: 'ballotIds', added: [], removed: ['b1'] }
+        ]
+      })
+
+      const restored = await request(env, 'POST', `/api/dashboards/${dashboard.id}/revisions/2/restore`, { headers: editorHeaders })
+      expect(await restored.json()).toMatchObject({ name: 'Q1 plans', ballotIds: ['b1'], version: 4 })
+      const { items: after } = await (await request(env, 'GET', `/api/dashboards/${dashboard.id}/revisions`, { headers: ownerHeaders })).json() as { items: Revision<Dashboard>[] }
+      expect(after[0]).toMatchObject({ version: 4, actor: { kind: 'editor', name: 'Robin' } })
+    })
+
+    test('should keep revisions of ballot edits for admins', async () => {
+      const env = createTestEnv({ ballots: [ballot] })
+
+      await request(env, 'PUT', '/api/ballots/b1', { body: { ...ballot, question: 'Ship it now?' }, headers: adminHeaders() })
+
+      const { items } = await (await request(env, 'GET', '/api/ballots/b1/revisions', { headers: adminHeaders() })).json() as { items: Revision<Ballot>[] }
+      expect(items.map(item => item.record.question)).toEqual(['Ship it now?', 'Ship it?'])
+      const first = await (await request(env, 'GET', '/api/ballots/b1/revisions/1', { headers: adminHeaders() })).json() as Revision<Ballot>
+      expect(first.actor).toBeUndefined()
+      expect(first.record.question).toBe('Ship it?')
+      expect((await request(env, 'GET', '/api/ballots/b1/revisions')).status).toBe(401)
+    })
+
+    test('should keep votes cast after the revision when rolling back', async () => {
+      const env = createTestEnv({ ballots: [ballot] })
+
+      await request(env, 'PUT', '/api/ballots/b1', { body: { ...ballot, question: 'Ship it now?', isPrivate: true }, headers: adminHeaders() })
+      await request(env, 'POST', '/api/ballots/b1/votes', { body: { color: 'green', comment: 'Yes' } })
+
+      const restored = await (await request(env, 'POST', '/api/ballots/b1/revisions/1/restore', { headers: adminHeaders() })).json() as Ballot
+      expect(restored).toMatchObject({ question: 'Ship it?', version: 4 })
+      expect(restored.isPrivate).toBeUndefined()
+      expect(restored.votes).toMatchObject([{ color: 'green', comment: 'Yes' }])
+    })
+
+    test('should keep attendance revisions for renames but not responses', async () => {
+      const env = createTestEnv({ attendances: [attendance] })
+
+      await request(env, 'PUT', '/api/attendance/a1', { body: { name: 'Sam', attending: false } })
+      await request(env, 'PUT', '/api/attendance/a1', { body: { name: 'Sam', attending: true } })
+      expect((await (await request(env, 'GET', '/api/attendance/a1/revisions', { headers: adminHeaders() })).json() as { items: Revision[] }).items).toEqual([])
+
+      await request(env, 'PATCH', '/api/attendance/a1', { body: { title: 'Team retreat' }, headers: adminHeaders() })
+      await request(env, 'PUT', '/api/attendance/a1', { body: { name: 'Robin', attending: false } })
+
+      const { items } = await (await request(env, 'GET', '/api/attendance/a1/revisions', { headers: adminHeaders() })).json() as { items: Revision<Attendance>[] }
+      expect(items.map(item => [item.version, item.record.title])).toEqual([[4, 'Team retreat'], [3, 'Team offsite']])
+
+      const restored = await (await request(env, 'POST', '/api/attendance/a1/revisions/3/restore', { headers: adminHeaders() })).json() as Attendance
+      expect(restored.title).toBe('Team offsite')
+      expect(restored.responses.map(response => response.name)).toEqual(['Sam', 'Robin'])
+    })
+
+    test('should reject versions that were never kept', async () => {
+      const env = createTestEnv({ ballots: [ballot] })
+
+      expect((await request(env, 'GET', '/api/ballots/b1/revisions/7', { headers: adminHeaders() })).status).toBe(404)
+      expect((await request(env, 'POST', '/api/ballots/b1/revisions/7/restore', { headers: adminHeaders() })).status).toBe(404)
+      expect((await request(env, 'GET', '/api/ballots/b1/revisions/diff?from=7', { headers: adminHeaders() })).status).toBe(404)
+      expect((await request(env, 'GET', '/api/ballots/b1/revisions/diff?from=first', { headers: adminHeaders() })).status).toBe(400)
+      expect((await request(env, 'GET', '/api/ballots/nope/revisions', { headers: adminHeaders() })).status).toBe(404)
+    })
+  })
+})
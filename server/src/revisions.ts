@@ -0,0 +1,156 @@
+import { MAX_REVISIONS, type AuditActor, type Revision, type RevisionChange, type RevisionType } from 'shared/dist'
+import { DuplicateRecordError, type Repository, type VersionedRecord } from './repository'
+import { recordSpanEvent } from './telemetry'
+
+/**
+ * Revision history for ballots, dashboards and attendance polls, see
+ * GET /api/{resource}/:id/revisions.
+ *
+ * An edit keeps the version it started from, unless that's already kept, and
+ * the version it made. Versions made by anything else, such as votes, are
+ * only kept once an edit starts from them. Like the audit log, failing to keep
+ * a revision is logged rather than failing the edit.
+ *
+ * Ids start with the type and record id and end with the version counted
+ * down, so one record's revisions are read newest first with a prefix `scan`
+ * and nobody else's are.
+ */
+
+// Bookkeeping that changes on every write, so it's left out of diffs
+const UNDIFFED_FIELDS = ['version', 'updatedAt']
+
+const VERSION_DIGITS = String(Number.MAX_SAFE_INTEGER).length
+
+// Scanning a record's revisions only reads that record's
+const revisionPrefix = (type: RevisionType, recordId: string) => `${type}:${recordId}:`
+
+// The version counted down, so a record's revisions scan newest first
+export function revisionId(type: RevisionType, recordId: string, version: number): string {
+  return `${revisionPrefix(type, recordId)}${String(Number.MAX_SAFE_INTEGER - version).padStart(VERSION_DIGITS, '0')}`
+}
+
+function revisionOf<T extends VersionedRecord>(type: RevisionType, record: T, now: Date, actor?: AuditActor): Revision<T> {
+  const version = record.version ?? 1
+  return {
+    id: revisionId(type, record.id, version),
+    type,
+    recordId: record.id,
+    version,
+    createdAt: now.toISOString(),
+    ...(actor ? { actor } : {}),
+    record
+  }
+}
+
+// Every kept revision of a record, newest first
+export async function listRevisions(revisions: Repository<Revision>, type: RevisionType, recordId: string): Promise<Revision[]> {
+  const items: Revision[] = []
+  let cursor: string | null = null
+  do {
+    const batch = await revisions.scan({ prefix: revisionPrefix(type, recordId), limit: MAX_REVISIONS, cursor: cursor ?? undefined })
+    items.push(...batch.items)
+    cursor = batch.cursor
+  } while (cursor)
+  return items
+}
+
+// Revisions past the newest MAX_REVISIONS
+async function staleRevisions(revisions: Repository<Revision>, type: RevisionType, recordId: string): Promise<Revision[]> {
+  const newest = await revisions.scan({ prefix: revisionPrefix(type, recordId), limit: MAX_REVISIONS })
+  const stale: Revision[] = []
+  let cursor = newest.cursor
+  while (cursor) {
+    const batch = await revisions.scan({ prefix: revisionPrefix(type, recordId), limit: MAX_REVISIONS, cursor })
+    stale.push(...batch.items)
+    cursor = batch.cursor
+  }
+  return stale
+}
+
+export async function keepRevision<T extends VersionedRecord>(
+  revisions: Repository<Revision>,
+  type: RevisionType,
+  before: T,
+  after: T,
+  actor: AuditActor,
+  now: Date = new Date()
+): Promise<void> {
+  try {
+    try {
+      await revisions.insert(revisionOf(type, before, now))
+    } catch (error) {
+      // The previous edit already kept it
+      if (!(error instanceof DuplicateRecordError)) throw error
+    }
+    await revisions.insert(revisionOf(type, after, now, actor))
+
+    const stale = await staleRevisions(revisions, type, after.id)
+    await Promise.all(stale.map(revision => revisions.delete(revision.id)))
+  } catch (error) {
+    console.error(`Error keeping a revision of ${type} ${after.id}:`, error)
+    recordSpanEvent('revision_write_failed', { 'revision.type': type, 'revision.record_id': after.id })
+  }
+}
+
+// For when the record itself is purged
+export async function deleteRevisions(revisions: Repository<Revision>, type: RevisionType, recordId: string): Promise<void> {
+  await Promise.all((await listRevisions(revisions, type, recordId)).map(revision => revisions.delete(revision.id)))
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/**
+ * What changed from `before` to `after`, one entry per top-level field. Lists
+ * are compared item by item, so moving an item within a list isn't a change.
+ */
+export function diffRecords(before: object, after: object): RevisionChange[] {
+  const from = before as Record<string, unknown>
+  const to = after as Record<string, unknown>
+  const fields = [...new Set([...Object.keys(from), ...Object.keys(to)])].filter(field => !UNDIFFED_FIELDS.includes(field))
+  const changes: RevisionChange[] = []
+
+  for (const field of fields) {
+    const was = from[field]
+    const is = to[field]
+    if (sameValue(was, is)) continue
+
+    if (Array.isArray(was) && Array.isArray(is)) {
+      const added = is.filter(item => !was.some(other => sameValue(item, other)))
+      const removed = was.filter(item => !is.some(other => sameValue(item, other)))
+      if (added.length || removed.length) changes.push({ field, added, removed })
+      continue
+    }
+
+    changes.push({
+      field,
+      ...(was !== undefined ? { before: was } : {}),
+      ...(is !== undefined ? { after: is } : {})
+    })
+  }
+  return changes
+}
+
+// The fields an edit changes and a rollback puts back. Votes and responses
+// aren't among them: a rollback never takes back what people cast since.
+const RESTORED_FIELDS: Record<RevisionType, string[]> = {
+  ballot: ['question', 'isPrivate', 'status', 'closesAt', 'closedAt'],
+  dashboard: ['name', 'ballotIds', 'attendanceIds'],
+  attendance: ['title', 'date']
+}
+
+/**
+ * `current` with the edited fields it had at `revision`. It keeps its id and
+ * version, so it can be written with the version check like any other edit.
+ */
+export function rolledBack<T extends VersionedRecord>(type: RevisionType, current: T, revision: Revision<T>, now: Date = new Date()): T {
+  const record: Record<string, unknown> = { ...current }
+  const previous = revision.record as Record<string, unknown>
+  for (const field of RESTORED_FIELDS[type]) {
+    if (previous[field] === undefined) delete record[field]
+    else record[field] = previous[field]
+  }
+  if ('updatedAt' in current) record.updatedAt = now.toISOString()
+  return record as T
+}
@@ -0,0 +1,181 @@
+import { describe, test, expect } from 'bun:test'
+import type { ApiErrorBody, Ballot, SearchResults } from 'shared/dist'
+import { createKVRepository, createRecordStore } from './storage'
+import { createIndexingQueue, createSearchIndex, indexedRepository, searchableBallot, searchSource, tokenize, type SearchStores } from './search'
+import { createMemoryKV, createTestEnv, request, adminHeaders, voterHeaders } from '../tests/helpers'
+
+const ballot: Ballot = { id: 'b1', question: 'Should we order pizza for lunch?', votes: [], createdAt: '2024-01-01T00:00:00Z', version: 1 }
+
+function createStores(kv = createMemoryKV()): SearchStores {
+  return {
+    documents: createKVRepository(kv as any, createRecordStore({ prefix: 'search-doc', legacyKey: 'searchDocuments' }), 'search-doc'),
+    terms: createKVRepository(kv as any, createRecordStore({ prefix: 'search-term', legacyKey: 'searchTerms' }), 'search-term'),
+    state: createKVRepository(kv as any, createRecordStore({ prefix: 'search-state', legacyKey: 'searchState' }), 'search-state')
+  }
+}
+
+function createIndexedBallots(queue?: ReturnType<typeof createIndexingQueue>) {
+  const kv = createMemoryKV()
+  const stores = createStores(kv)
+  const index = createSearchIndex(stores)
+  const ballots = indexedRepository(
+    createKVRepository<Ballot>(kv as any, createRecordStore<Ballot>({ prefix: 'ballot', legacyKey: 'ballots' }), 'ballot'),
+    index,
+    searchableBallot,
+    queue
+  )
+  return { kv, stores, index, ballots }
+}
+
+const ids = (results: SearchResults) => results.ballots.map(hit => hit.id)
+
+describe('Search', () => {
+  test('tokenize should drop stop words and fold word endings', () => {
+    expect(tokenize('The voters voted, voting on Votes!')).toEqual(['voter', 'vot', 'vot', 'vot'])
+    expect(tokenize('Café a 2024')).toEqual(['café', '2024'])
+  })
+
+  test('should index ballots as they are written', async () => {
+    const { index, ballots } = createIndexedBallots()
+    await ballots.insert(ballot)
+    await ballots.insert({ ...ballot, id: 'b2', question: 'Team offsite location?' })
+
+    expect(ids(await index.search('pizza'))).toEqual(['b1'])
+
+    await ballots.updateWithVersion({ ...ballot, votes: [{ color: 'red', comment: 'Tacos at the offsite instead', createdAt: ballot.createdAt }] }, 1)
+    expect(ids(await index.search('tacos'))).toEqual(['b1'])
+
+    await ballots.delete('b1')
+    expect(ids(await index.search('pizza tacos'))).toEqual([])
+    expect(ids(await index.search('offsite'))).toEqual(['b2'])
+  })
+
+  test('should rank more matched terms, then titles, first', async () => {
+    const { index, ballots } = createIndexedBallots()
+    await ballots.insert({ ...ballot, id: 'comment', question: 'Friday plans?', votes: [{ color: 'green', comment: 'Pizza please', createdAt: ballot.createdAt }] })
+    await ballots.insert({ ...ballot, id: 'title', question: 'Pizza on Friday?' })
+    await ballots.insert({ ...ballot, id: 'both', question: 'Pizza lunch on Friday?' })
+
+    const results = await index.search('friday pizza lunch')
+
+    expect(ids(results)).toEqual(['both', 'title', 'comment'])
+    expect(results.ballots[0]).toMatchObject({ type: 'ballot', title: 'Pizza lunch on Friday?', date: ballot.createdAt })
+  })
+
+  test('should leave private ballots out and drop ballots made private', async () => {
+    const { index, ballots } = createIndexedBallots()
+    await ballots.insert({ ...ballot, id: 'secret', question: 'Secret pizza?', isPrivate: true })
+    await ballots.insert(ballot)
+    await ballots.updateWithVersion({ ...ballot, isPrivate: true }, 1)
+
+    expect(ids(await index.search('pizza'))).toEqual([])
+  })
+
+  test('should write nothing to the index when the searchable text is unchanged', async () => {
+    const { kv, ballots } = createIndexedBallots()
+    await ballots.insert(ballot)
+    const indexBefore = [...kv.store.entries()].filter(([key]) => key.startsWith('search-'))
+
+    await ballots.updateWithVersion({ ...ballot, votes: [{ color: 'green', createdAt: ballot.createdAt }] }, 1)
+
+    expect([...kv.store.entries()].filter(([key]) => key.startsWith('search-'))).toEqual(indexBefore)
+  })
+
+  test('should index on the queue after the write, once for a burst of writes', async () => {
+    const queue = createIndexingQueue()
+    const { stores, index, ballots } = createIndexedBallots(queue)
+    let documentWrites = 0
+    const update = stores.documents.updateWithVersion
+    stores.documents.updateWithVersion = (item, version) => {
+      documentWrites++
+      return update(item, version)
+    }
+
+    await ballots.insert(ballot)
+    for (let version = 1; version <= 3; version++) {
+      await ballots.updateWithVersion({ ...ballot, question: `Should we order pizza ${version}?` }, version)
+    }
+    expect(ids(await index.search('pizza'))).toEqual([])
+
+    await queue.settled()
+    expect(ids(await index.search('pizza'))).toEqual(['b1'])
+    expect((await stores.documents.get('ballot:b1'))!.title).toBe('Should we order pizza 3?')
+    expect(documentWrites).toBeLessThanOrEqual(1)
+  })
+
+  test('should have the next search rebuild the index when indexing fails', async () => {
+    const { stores, index, ballots } = createIndexedBallots()
+    await index.ensureBuilt([])
+    stores.terms.insert = async () => {
+      throw new Error('KV unavailable')
+    }
+
+    await ballots.insert(ballot)
+
+    expect(await stores.state.get('index')).toBeNull()
+  })
+
+  test('rebuild should index existing records and forget removed ones', async () => {
+    const stores = createStores()
+    const index = createSearchIndex(stores)
+    let records: Ballot[] = [ballot, { ...ballot, id: 'b2', question: 'Pizza again?' }]
+    const sources = [searchSource(searchableBallot, async () => records)]
+
+    await index.ensureBuilt(sources)
+    expect(ids(await index.search('pizza')).sort()).toEqual(['b1', 'b2'])
+
+    records = [ballot]
+    expect(await index.rebuild(sources)).toBe(1)
+    expect(ids(await index.search('pizza'))).toEqual(['b1'])
+    expect(await stores.terms.get('again')).toBeNull()
+  })
+
+  describe('API', () => {
+    test('should find demo data, comments, attendance and dashboards', async () => {
+      const env = createTestEnv()
+
+      await request(env, 'POST', '/api/attendance', { body: { title: 'Design review', date: '2030-01-01' } })
+      await request(env, 'POST', '/api/dashboards', { body: { name: 'Design team' } })
+
+      const response = await request(env, 'GET', '/api/search?q=design')
+      const results = await response.json() as SearchResults
+
+      expect(response.status).toBe(200)
+      expect(results.query).toBe('design')
+      expect(results.ballots.map(hit => hit.id)).toEqual(['demo-2'])
+      expect(results.attendance.map(hit => hit.title)).toEqual(['Design review'])
+      expect(results.dashboards.map(hit => hit.title)).toEqual(['Design team'])
+    })
+
+    test('should pick up new votes with comments', async () => {
+      const env = createTestEnv({ ballots: [ballot] })
+      await request(env, 'GET', '/api/search?q=pizza')
+
+      await request(env, 'POST', '/api/ballots/b1/votes', {
+        body: { color: 'green', comment: 'Extra anchovies' },
+        headers: await voterHeaders(env)
+      })
+      const results = await (await request(env, 'GET', '/api/search?q=anchovies')).json() as SearchResults
+
+      expect(results.ballots.map(hit => hit.id)).toEqual(['b1'])
+    })
+
+    test('should require a query', async () => {
+      const response = await request(createTestEnv(), 'GET', '/api/search')
+      const { error } = await response.json() as ApiErrorBody
+
+      expect(response.status).toBe(400)
+      expect(error.code).toBe('VALIDATION_FAILED')
+    })
+
+    test('should let full admins rebuild the index', async () => {
+      const env = createTestEnv({ ballots: [ballot] })
+
+      const denied = await request(env, 'POST', '/api/admin/search/rebuild')
+      const response = await request(env, 'POST', '/api/admin/search/rebuild', { headers: adminHeaders() })
+
+      expect(denied.status).toBe(401)
+      expect(await response.json()).toEqual({ message: 'Search index rebuilt', indexedCount: 1 })
+    })
+  })
+})
@@ -0,0 +1,400 @@
+import {
+  MAX_SEARCH_RESULTS,
+  isTrashed,
+  SEARCH_TYPES,
+  type Attendance,
+  type Ballot,
+  type Dashboard,
+  type SearchHit,
+  type SearchResults,
+  type SearchType
+} from 'shared/dist'
+import { DuplicateRecordError, type Repository, type VersionedRecord } from './repository'
+import { recordSpanEvent } from './telemetry'
+
+/**
+ * Full-text search over ballots, attendance polls and dashboards.
+ *
+ * The index is kept in three record types of its own, so it works on either
+ * storage backend:
+ * - a document per indexed record, with the weight of each of its terms
+ * - a term record per word, with the weight of the word in each document
+ * - a state record saying the index has been built
+ *
+ * Repositories wrapped with `indexedRepository` re-index a record after every
+ * insert, update and delete, off the request path, writing only the terms
+ * that changed; a write that leaves the searchable text alone, such as a vote
+ * without a comment, writes nothing. Records that never went through a
+ * repository (demo data, legacy blobs, anything written before the index
+ * existed) are picked up by a full rebuild, which runs on the first search or
+ * from POST /api/admin/search/rebuild. So does anything indexing failed on.
+ */
+
+export type SearchDocumentRecord = {
+  id: string              // `<type>:<record id>`
+  type: SearchType
+  recordId: string
+  title: string
+  date: string
+  terms: Record<string, number>
+  version?: number
+}
+
+export type SearchTermRecord = {
+  id: string              // The term
+  postings: Record<string, number>  // Document id -> weight
+  version?: number
+}
+
+export type SearchStateRecord = {
+  id: string
+  builtAt: string
+  version?: number
+}
+
+export type SearchStores = {
+  documents: Repository<SearchDocumentRecord>
+  terms: Repository<SearchTermRecord>
+  state: Repository<SearchStateRecord>
+}
+
+// What of a record is searchable; null keeps it out of the index, as for
+// private ballots and anything in the trash
+export type SearchDescription = {
+  title: string
+  date: string
+  text: { value: string; weight: number }[]
+}
+
+export type Searchable<T> = {
+  type: SearchType
+  describe: (item: T) => SearchDescription | null
+}
+
+// Every record of one type, described, for a rebuild
+export type SearchSource = {
+  type: SearchType
+  describeAll: () => Promise<{ id: string; description: SearchDescription | null }[]>
+}
+
+const TITLE_WEIGHT = 3
+const TEXT_WEIGHT = 1
+const STATE_ID = 'index'
+const MAX_WRITE_ATTEMPTS = 3
+
+const STOP_WORDS = new Set([
+  'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'do', 'for', 'from', 'has', 'have', 'if', 'in',
+  'into', 'is', 'it', 'its', 'no', 'not', 'of', 'on', 'or', 'our', 'so', 'that', 'the', 'their', 'then',
+  'there', 'these', 'this', 'to', 'us', 'was', 'we', 'were', 'what', 'when', 'which', 'who', 'will',
+  'with', 'you', 'your'
+])
+
+// Folds plurals and verb endings together: "votes", "voted" and "voting" all index as "vot"
+function stem(word: string): string {
+  for (const suffix of ['ing', 'ed', 'es', 's']) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 3) {
+      return word.slice(0, -suffix.length)
+    }
+  }
+  return word
+}
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+    .map(stem)
+}
+
+function termWeights(description: SearchDescription): Record<string, number> {
+  const weights: Record<string, number> = {}
+  for (const { value, weight } of description.text) {
+    for (const term of tokenize(value)) {
+      weights[term] = (weights[term] ?? 0) + weight
+    }
+  }
+  return weights
+}
+
+export const searchableBallot: Searchable<Ballot> = {
+  type: 'ballot',
+  describe: (ballot) => ballot.isPrivate || isTrashed(ballot) ? null : {
+    title: ballot.question,
+    date: ballot.createdAt,
+    text: [
+      { value: ballot.question, weight: TITLE_WEIGHT },
+      ...ballot.votes.filter(vote => vote.comment).map(vote => ({ value: vote.comment!, weight: TEXT_WEIGHT }))
+    ]
+  }
+}
+
+export const searchableAttendance: Searchable<Attendance> = {
+  type: 'attendance',
+  describe: (attendance) => isTrashed(attendance) ? null : {
+    title: attendance.title,
+    date: attendance.date,
+    text: [{ value: attendance.title, weight: TITLE_WEIGHT }]
+  }
+}
+
+export const searchableDashboard: Searchable<Dashboard> = {
+  type: 'dashboard',
+  describe: (dashboard) => isTrashed(dashboard) ? null : {
+    title: dashboard.name,
+    date: dashboard.createdAt,
+    text: [{ value: dashboard.name, weight: TITLE_WEIGHT }]
+  }
+}
+
+export function searchSource<T extends VersionedRecord>(searchable: Searchable<T>, list: () => Promise<T[]>): SearchSource {
+  return {
+    type: searchable.type,
+    describeAll: async () => (await list()).map(item => ({ id: item.id, description: searchable.describe(item) }))
+  }
+}
+
+const documentId = (type: SearchType, id: string) => `${type}:${id}`
+
+/**
+ * Writes `next` over whatever is stored under its id, or deletes it if `next`
+ * is null. `next` is worked out from the stored record, so a lost race just
+ * means working it out again.
+ */
+async function upsert<T extends VersionedRecord>(
+  repository: Repository<T>,
+  id: string,
+  next: (current: T | null) => T | null
+): Promise<void> {
+  for (let attempt = 1; ; attempt++) {
+    const current = await repository.get(id)
+    const item = next(current)
+
+    try {
+      if (!item) {
+        if (current) await repository.delete(id)
+        return
+      }
+      if (!current) {
+        await repository.insert(item)
+        return
+      }
+      const result = await repository.updateWithVersion(item, current.version ?? 1)
+      if (result.ok) return
+      if (attempt >= MAX_WRITE_ATTEMPTS) throw new Error(`${id} kept changing while it was written`)
+    } catch (error) {
+      if (!(error instanceof DuplicateRecordError) || attempt >= MAX_WRITE_ATTEMPTS) throw error
+    }
+  }
+}
+
+function withPosting(term: SearchTermRecord | null, id: string, docId: string, weight: number | undefined): SearchTermRecord | null {
+  const postings = { ...term?.postings }
+  if (weight === undefined) {
+    delete postings[docId]
+  } else {
+    postings[docId] = weight
+  }
+  if (Object.keys(postings).length === 0) return null
+  return { ...term, id, postings }
+}
+
+export function createSearchIndex(stores: SearchStores) {
+  const { documents, terms, state } = stores
+
+  /**
+   * Brings one record's entry up to date. `description` is null when the
+   * record was deleted or shouldn't be searchable any more.
+   */
+  const update = async (type: SearchType, id: string, description: SearchDescription | null) => {
+    const docId = documentId(type, id)
+    const previous = await documents.get(docId)
+    const before = previous?.terms ?? {}
+    const after = description ? termWeights(description) : {}
+
+    const changed = [...new Set([...Object.keys(before), ...Object.keys(after)])]
+      .filter(term => before[term] !== after[term])
+    const unchanged = changed.length === 0 && (description
+      ? previous?.title === description.title && previous.date === description.date
+      : !previous)
+    if (unchanged) return
+
+    await Promise.all(changed.map(term => upsert(terms, term, current => withPosting(current, term, docId, after[term]))))
+
+    await upsert(documents, docId, () => description && {
+      ...previous,
+      id: docId,
+      type,
+      recordId: id,
+      title: description.title,
+      date: description.date,
+      terms: after
+    })
+  }
+
+  /**
+   * Up to `limit` hits per type. Documents matching more of the query's terms
+   * come first; among those, rarer terms and title matches score higher.
+   */
+  const search = async (query: string, limit = MAX_SEARCH_RESULTS): Promise<SearchResults> => {
+    const results: SearchResults = { query, ballots: [], attendance: [], dashboards: [] }
+    const queryTerms = [...new Set(tokenize(query))]
+    if (queryTerms.length === 0) return results
+
+    const matches = new Map<string, { matched: number; score: number }>()
+    for (const term of await Promise.all(queryTerms.map(term => terms.get(term)))) {
+      if (!term) continue
+      const postings = Object.entries(term.postings)
+      const rarity = 1 / Math.log2(1 + postings.length)
+      for (const [docId, weight] of postings) {
+        const match = matches.get(docId) ?? { matched: 0, score: 0 }
+        matches.set(docId, { matched: match.matched + 1, score: match.score + weight * rarity })
+      }
+    }
+
+    const ranked = [...matches.entries()]
+      .sort(([, a], [, b]) => b.matched - a.matched || b.score - a.score)
+
+    const groups: Record<SearchType, SearchHit[]> = { ballot: results.ballots, attendance: results.attendance, dashboard: results.dashboards }
+    const wanted = SEARCH_TYPES.flatMap(type =>
+      ranked.filter(([docId]) => docId.startsWith(`${type}:`)).slice(0, limit)
+    )
+
+    const docs = await Promise.all(wanted.map(([docId]) => documents.get(docId)))
+    docs.forEach((doc, i) => {
+      if (!doc) return
+      groups[doc.type].push({
+        type: doc.type,
+        id: doc.recordId,
+        title: doc.title,
+        date: doc.date,
+        score: Math.round(wanted[i]![1].score * 100) / 100
+      })
+    })
+
+    return results
+  }
+
+  /**
+   * Re-indexes every record in `sources` and drops entries for records that
+   * no longer exist. Returns how many records were indexed.
+   */
+  const rebuild = async (sources: SearchSource[]): Promise<number> => {
+    const indexed = new Set<string>()
+
+    for (const { type, describeAll } of sources) {
+      for (const { id, description } of await describeAll()) {
+        await update(type, id, description)
+        if (description) indexed.add(documentId(type, id))
+      }
+    }
+
+    for (const doc of await documents.list()) {
+      if (!indexed.has(doc.id)) await update(doc.type, doc.recordId, null)
+    }
+
+    await upsert(state, STATE_ID, current => ({ ...current, id: STATE_ID, builtAt: new Date().toISOString() }))
+    recordSpanEvent('search_index_rebuilt', { 'search.documents': indexed.size })
+    return indexed.size
+  }
+
+  // Makes the next search rebuild the index
+  const invalidate = async () => {
+    await state.delete(STATE_ID)
+  }
+
+  // Builds the index the first time it's needed
+  const ensureBuilt = async (sources: SearchSource[]) => {
+    if (!(await state.get(STATE_ID))) await rebuild(sources)
+  }
+
+  return { update, search, rebuild, ensureBuilt, invalidate }
+}
+
+export type SearchIndex = ReturnType<typeof createSearchIndex>
+
+/**
+ * Indexing that runs after the response, so writes don't wait for it. Tasks
+ * for the same key run one after another, and a task still waiting to start
+ * covers any asked for after it. The worker keeps itself alive for
+ * `settled()`.
+ */
+export function createIndexingQueue() {
+  const tails = new Map<string, Promise<void>>()
+  const waiting = new Set<string>()
+  const pending = new Set<Promise<void>>()
+
+  return {
+    // `task` must not throw
+    defer(key: string, task: () => Promise<void>) {
+      if (waiting.has(key)) return
+      waiting.add(key)
+      const run = (tails.get(key) ?? Promise.resolve()).then(() => {
+        waiting.delete(key)
+        return task()
+      })
+      tails.set(key, run)
+      pending.add(run)
+      run.then(() => {
+        pending.delete(run)
+        if (tails.get(key) === run) tails.delete(key)
+      })
+    },
+
+    // Everything deferred so far, including tasks deferred while waiting
+    async settled() {
+      while (pending.size > 0) await Promise.all(pending)
+    }
+  }
+}
+
+export type IndexingQueue = ReturnType<typeof createIndexingQueue>
+
+/**
+ * Wraps `repository` so every write also updates the search index: on
+ * `queue` if given, otherwise before the write returns. Indexing reads the
+ * record afresh, so it indexes the latest version whatever order tasks finish
+ * in. A failure to index is logged and makes the next search rebuild the index.
+ */
+export function indexedRepository<T extends VersionedRecord>(
+  repository: Repository<T>,
+  index: SearchIndex,
+  searchable: Searchable<T>,
+  queue?: IndexingQueue
+): Repository<T> {
+  const reindex = async (id: string) => {
+    try {
+      const item = await repository.get(id)
+      await index.update(searchable.type, id, item && searchable.describe(item))
+    } catch (error) {
+      console.error(`Error indexing ${searchable.type} ${id} for search:`, error)
+      recordSpanEvent('search_index_failed', { 'search.type': searchable.type, 'search.record_id': id })
+      await index.invalidate().catch(invalidateError => console.error('Error invalidating the search index:', invalidateError))
+    }
+  }
+
+  const schedule = async (id: string) => {
+    if (queue) queue.defer(documentId(searchable.type, id), () => reindex(id))
+    else await reindex(id)
+  }
+
+  return {
+    ...repository,
+
+    async insert(item) {
+      const inserted = await repository.insert(item)
+      await schedule(inserted.id)
+      return inserted
+    },
+
+    async updateWithVersion(item, expectedVersion) {
+      const result = await repository.updateWithVersion(item, expectedVersion)
+      if (result.ok) await schedule(result.item.id)
+      return result
+    },
+
+    async delete(id) {
+      const deleted = await repository.delete(id)
+      if (deleted) await schedule(id)
+      return deleted
+    }
+  }
+}
@@ -0,0 +1,140 @@
+import { describe, test, expect } from 'bun:test'
+import type { Attendance, AttendanceSeries, Page } from 'shared/dist'
+import app from './index'
+import { createKVRepository, createRecordStore } from './storage'
+import { createUpcomingAttendance } from './series'
+import { createMemoryKV, createTestEnv, request, adminHeaders } from '../tests/helpers'
+
+const series: AttendanceSeries = {
+  id: 'standup',
+  titleTemplate: 'Standup {date}',
+  recurrence: { frequency: 'weekly', weekday: 1, startDate: '2025-01-01' },
+  createdAt: '2025-01-01T00:00:00Z',
+  updatedAt: '2025-01-01T00:00:00Z',
+  version: 1
+}
+
+const today = new Date().toISOString().slice(0, 10)
+const weekdayToday = new Date().getUTCDay()
+
+function attendanceRecords() {
+  return createKVRepository<Attendance>(createMemoryKV() as any, createRecordStore<Attendance>({ prefix: 'attendance', legacyKey: 'attendances' }), 'attendance')
+}
+
+async function createSeries(env: ReturnType<typeof createTestEnv>, recurrence: Partial<AttendanceSeries['recurrence']> = {}) {
+  const response = await request(env, 'POST', '/api/attendance-series', {
+    body: { titleTemplate: 'Standup {date}', recurrence: { frequency: 'weekly', weekday: weekdayToday, startDate: today, ...recurrence } }
+  })
+  return await response.json() as AttendanceSeries & { attendance: Attendance[] }
+}
+
+describe('Attendance series', () => {
+  test('createUpcomingAttendance should create the next few weeks once', async () => {
+    const attendances = attendanceRecords()
+    const now = new Date('2025-01-07T12:00:00Z')
+
+    const created = await createUpcomingAttendance(attendances, series, now)
+    expect(created.map(item => item.date)).toEqual(['2025-01-13', '2025-01-20', '2025-01-27', '2025-02-03'])
+    expect(created[0]).toMatchObject({ id: 'standup-2025-01-13', title: 'Standup January 13, 2025', seriesId: 'standup' })
+
+    expect(await createUpcomingAttendance(attendances, series, now)).toEqual([])
+    expect((await createUpcomingAttendance(attendances, series, new Date('2025-01-14T00:00:00Z'))).map(item => item.date)).toEqual(['2025-02-10'])
+  })
+
+  describe('API', () => {
+    test('should create a series with its upcoming polls', async () => {
+      const env = createTestEnv({ attendances: [] })
+
+      const created = await createSeries(env)
+      expect(created.attendance.map(item => item.date)[0]).toBe(today)
+      expect(created.attendance).toHaveLength(5)
+
+      const page = await (await request(env, 'GET', `/api/attendance?seriesId=${created.id}&sort=oldest`)).json() as Page<Attendance>
+      expect(page.items.map(item => item.id)).toEqual(created.attendance.map(item => item.id))
+      expect(await (await request(env, 'GET', '/api/attendance-series')).json()).toMatchObject({ items: [{ id: created.id }] })
+    })
+
+    test('should reject recurrences that make no sense', async () => {
+      const env = createTestEnv()
+      const create = (recurrence: object) => request(env, 'POST', '/api/attendance-series', { body: { titleTemplate: 'Retro', recurrence } })
+
+      expect((await create({ frequency: 'monthly', weekday: 1, startDate: today })).status).toBe(400)
+      expect((await create({ frequency: 'weekly', weekday: 1, weekOfMonth: 2, startDate: today })).status).toBe(400)
+      expect((await create({ frequency: 'weekly', weekday: 7, startDate: today })).status).toBe(400)
+      expect((await create({ frequency: 'weekly', weekday: 1, startDate: '2025-02-30' })).status).toBe(400)
+      expect((await create({ frequency: 'weekly', weekday: 1, startDate: '2025-02-01', until: '2025-01-01' })).status).toBe(400)
+    })
+
+    test('should create a later date on request, once', async () => {
+      const env = createTestEnv({ attendances: [] })
+      const created = await createSeries(env)
+      const later = new Date(Date.now() + 70 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+
+      const first = await request(env, 'POST', `/api/attendance-series/${created.id}/dates/${later}`)
+      expect(first.status).toBe(201)
+      expect(await first.json()).toMatchObject({ date: later, seriesId: created.id })
+      expect((await request(env, 'POST', `/api/attendance-series/${created.id}/dates/${later}`)).status).toBe(200)
+
+      const offDay = new Date(Date.now() + 71 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+      expect((await request(env, 'POST', `/api/attendance-series/${created.id}/dates/${offDay}`)).status).toBe(400)
+      expect((await request(env, 'POST', '/api/attendance-series/nope/dates/2025-01-06')).status).toBe(404)
+    })
+
+    test('should not bring back a deleted date', async () => {
+      const env = createTestEnv({ attendances: [] })
+      const created = await createSeries(env)
+      const [first] = created.attendance
+
+      await request(env, 'DELETE', `/api/attendance/${first!.id}`, { headers: adminHeaders() })
+
+      expect((await request(env, 'POST', `/api/attendance-series/${created.id}/dates/${first!.date}`)).status).toBe(404)
+    })
+
+    test('should let admins change the series and skip dates', async () => {
+      const env = createTestEnv({ attendances: [] })
+      const created = await createSeries(env, { until: today })
+      const skipped = new Date(Date.now() + 35 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+      const recurrence = { frequency: 'weekly', weekday: weekdayToday, startDate: today, exceptions: [skipped] }
+
+      expect((await request(env, 'PUT', `/api/attendance-series/${created.id}`, { body: { recurrence, version: 1 } })).status).toBe(401)
+      const updated = await request(env, 'PUT', `/api/attendance-series/${created.id}`, { body: { recurrence, version: 1 }, headers: adminHeaders() })
+      expect(updated.status).toBe(200)
+
+      expect((await request(env, 'POST', `/api/attendance-series/${created.id}/dates/${skipped}`)).status).toBe(400)
+      const page = await (await request(env, 'GET', `/api/attendance?seriesId=${created.id}`)).json() as Page<Attendance>
+      expect(page.items).toHaveLength(5)
+    })
+
+    test('should create upcoming polls from the cron trigger', async () => {
+      const recurrence = { frequency: 'weekly', weekday: weekdayToday, startDate: today }
+      const env = createTestEnv({ attendances: [], attendanceSeries: [{ ...series, recurrence }] })
+      const pending: Promise<unknown>[] = []
+
+      app.scheduled({} as ScheduledController, env as any, { waitUntil: (promise: Promise<unknown>) => pending.push(promise) } as any)
+      await Promise.all(pending)
+
+      const page = await (await request(env, 'GET', '/api/attendance?seriesId=standup')).json() as Page<Attendance>
+      expect(page.items).toHaveLength(5)
+      expect(page.items.at(-1)).toMatchObject({ id: `standup-${today}`, title: expect.stringMatching(/^Standup /) })
+    })
+
+    test('should still create polls when an earlier sweep fails', async () => {
+      const recurrence = { frequency: 'weekly', weekday: weekdayToday, startDate: today }
+      const expired = { id: 'b1', question: 'Ship it?', votes: [], createdAt: '2024-01-01T00:00:00Z', closesAt: '2024-01-02T00:00:00Z', version: 1 }
+      const env = createTestEnv({ 'index:ballot': [], 'ballot:b1': expired, attendances: [], attendanceSeries: [{ ...series, recurrence }] })
+      const put = env.BALLOTS_KV.put
+      // Closing expired ballots runs first and can't write them
+      env.BALLOTS_KV.put = async (key, value) => {
+        if (key.startsWith('ballot:')) throw new Error('KV unavailable')
+        return put(key, value)
+      }
+      const pending: Promise<unknown>[] = []
+
+      app.scheduled({} as ScheduledController, env as any, { waitUntil: (promise: Promise<unknown>) => pending.push(promise) } as any)
+      await Promise.all(pending)
+
+      const page = await (await request(env, 'GET', '/api/attendance?seriesId=standup')).json() as Page<Attendance>
+      expect(page.items).toHaveLength(5)
+    })
+  })
+})
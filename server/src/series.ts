@@ -0,0 +1,68 @@
+import { SERIES_HORIZON_DAYS, addDays, seriesDates, seriesTitle, type Attendance, type AttendanceSeries } from 'shared/dist'
+import { DuplicateRecordError, type Repository } from './repository'
+
+/**
+ * Creates the attendance polls of a series, see shared/series.
+ *
+ * Each date's poll has a fixed id, so creating it twice - from the scheduled
+ * run and a click on the calendar, say - only inserts it once. Polls in the
+ * trash keep their ids, so deleting one date's poll doesn't bring it back.
+ */
+
+export function seriesAttendanceId(seriesId: string, date: string): string {
+  return `${seriesId}-${date}`
+}
+
+export function seriesAttendance(series: AttendanceSeries, date: string, now: Date = new Date()): Attendance {
+  return {
+    id: seriesAttendanceId(series.id, date),
+    title: seriesTitle(series.titleTemplate, date),
+    date,
+    responses: [],
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+    seriesId: series.id,
+    version: 1
+  }
+}
+
+// The new poll, or null if that date's poll already exists or was deleted
+export async function createSeriesAttendance(
+  attendances: Repository<Attendance>,
+  series: AttendanceSeries,
+  date: string,
+  now: Date = new Date()
+): Promise<Attendance | null> {
+  try {
+    return await attendances.insert(seriesAttendance(series, date, now))
+  } catch (error) {
+    if (error instanceof DuplicateRecordError) return null
+    throw error
+  }
+}
+
+/** Creates the polls for the series' dates from today to SERIES_HORIZON_DAYS ahead. */
+export async function createUpcomingAttendance(
+  attendances: Repository<Attendance>,
+  series: AttendanceSeries,
+  now: Date = new Date()
+): Promise<Attendance[]> {
+  const today = now.toISOString().slice(0, 10)
+  const created: Attendance[] = []
+  for (const date of seriesDates(series.recurrence, today, addDays(today, SERIES_HORIZON_DAYS))) {
+    const attendance = await createSeriesAttendance(attendances, series, date, now)
+    if (attendance) created.push(attendance)
+  }
+  return created
+}
+
+// For the scheduled run
+export async function createAllUpcomingAttendance(
+  series: Repository<AttendanceSeries>,
+  attendances: Repository<Attendance>,
+  now: Date = new Date()
+): Promise<Attendance[]> {
+  const created: Attendance[] = []
+  for (const item of await series.list()) created.push(...await createUpcomingAttendance(attendances, item, now))
+  return created
+}
@@ -0,0 +1,103 @@
+import { describe, test, expect } from 'bun:test'
+import { createRecordStore, listRecordIds, migrateLegacyBlob, recordKey, indexKey } from './storage'
+import { createMemoryKV } from '../tests/helpers'
+
+type Item = { id: string; name: string }
+
+const legacyItems: Item[] = [
+  { id: 'a', name: 'First' },
+  { id: 'b', name: 'Second' }
+]
+
+describe('Per-record KV storage', () => {
+  describe('migrateLegacyBlob', () => {
+    test('should split a legacy blob into records and mark it done', async () => {
+      const kv = createMemoryKV({ items: legacyItems })
+
+      const result = await migrateLegacyBlob<Item>(kv as any, { prefix: 'item', legacyKey: 'items' })
+
+      expect(result).toEqual({ ids: ['a', 'b'], migrated: 2 })
+      expect(JSON.parse(kv.store.get(recordKey('item', 'a'))!)).toEqual(legacyItems[0]!)
+      expect(JSON.parse(kv.store.get(indexKey('item'))!)).toEqual(['a', 'b'])
+      // Legacy blob is kept as a backup
+      expect(kv.store.has('items')).toBe(true)
+    })
+
+    test('should be a no-op once marked done', async () => {
+      const kv = createMemoryKV({ items: legacyItems, [indexKey('item')]: ['a'] })
+
+      const result = await migrateLegacyBlob<Item>(kv as any, { prefix: 'item', legacyKey: 'items' })
+
+      expect(result).toEqual({ ids: ['a'], migrated: 0 })
+      expect(kv.store.has(recordKey('item', 'b'))).toBe(false)
+    })
+
+    test('should seed records when nothing exists yet', async () => {
+      const kv = createMemoryKV()
+
+      await migrateLegacyBlob<Item>(kv as any, { prefix: 'item', legacyKey: 'items', seed: () => legacyItems })
+
+      expect(JSON.parse(kv.store.get(indexKey('item'))!)).toEqual(['a', 'b'])
+    })
+  })
+
+  describe('createRecordStore', () => {
+    const store = createRecordStore<Item>({ prefix: 'item', legacyKey: 'items' })
+
+    test('should read records out of a legacy blob on first access', async () => {
+      const kv = createMemoryKV({ items: legacyItems })
+
+      expect(await store.get(kv as any, 'b')).toEqual(legacyItems[1]!)
+      expect(await store.getAll(kv as any)).toEqual(legacyItems)
+    })
+
+    test('should only rewrite the touched record when updating', async () => {
+      const kv = createMemoryKV({ items: legacyItems })
+      await store.getAll(kv as any)
+      const markerBefore = kv.store.get(indexKey('item'))!
+      const otherBefore = kv.store.get(recordKey('item', 'a'))!
+
+      await store.put(kv as any, { id: 'b', name: 'Renamed' })
+
+      expect(kv.store.get(indexKey('item'))).toBe(markerBefore)
+      expect(kv.store.get(recordKey('item', 'a'))).toBe(otherBefore)
+      expect((await store.get(kv as any, 'b'))?.name).toBe('Renamed')
+    })
+
+    test('should list every record written at the same time', async () => {
+      const kv = createMemoryKV()
+
+      await Promise.all(['x', 'y', 'z'].map(id => store.put(kv as any, { id, name: id })))
+      await Promise.all([store.remove(kv as any, 'x'), store.put(kv as any, { id: 'w', name: 'w' })])
+
+      expect((await store.getAll(kv as any)).map(i => i.id)).toEqual(['w', 'y', 'z'])
+    })
+
+    test('listRecordIds should follow the cursor past the first page of keys', async () => {
+      const kv = createMemoryKV(Object.fromEntries(Array.from({ length: 1500 }, (_, i) => [recordKey('item', String(i).padStart(4, '0')), {}])))
+
+      const ids = await listRecordIds(kv as any, 'item')
+
+      expect(ids).toHaveLength(1500)
+      expect(ids.at(-1)).toBe('1499')
+    })
+
+    test('should remove the record', async () => {
+      const kv = createMemoryKV({ items: legacyItems })
+
+      expect(await store.remove(kv as any, 'a')).toBe(true)
+      expect(await store.remove(kv as any, 'missing')).toBe(false)
+      expect(kv.store.has(recordKey('item', 'a'))).toBe(false)
+      expect(await store.getAll(kv as any)).toEqual([legacyItems[1]!])
+    })
+
+    test('should replace the full set with saveAll', async () => {
+      const kv = createMemoryKV({ items: legacyItems })
+
+      await store.saveAll(kv as any, [{ id: 'b', name: 'Second' }, { id: 'c', name: 'Third' }])
+
+      expect(kv.store.has(recordKey('item', 'a'))).toBe(false)
+      expect((await store.getAll(kv as any)).map(i => i.id)).toEqual(['b', 'c'])
+    })
+  })
+})
@@ -0,0 +1,234 @@
+import { applyQuery, DuplicateRecordError, type Repository, type ScanOptions, type ScanResult, type VersionedRecord } from './repository'
+
+/**
+ * Per-record KV storage.
+ *
+ * Every record lives under its own key (`ballot:<id>`) and listings come from
+ * the keys themselves (`KV.list({ prefix: 'ballot:' })`), in key order. There
+ * is no shared index to rewrite, so concurrent creates and deletes can't drop
+ * each other's ids; a new record may take a moment to show up in listings, as
+ * KV lists are eventually consistent.
+ *
+ * Older deployments stored each resource as a single JSON array under one key
+ * (`ballots`, `dashboards`, `attendances`). The first access after upgrading
+ * splits that blob into individual records (see `migrateLegacyBlob`) and
+ * writes `index:<prefix>` to mark it done. The legacy key is left untouched as
+ * a backup.
+ */
+
+export interface RecordStore<T extends { id: string }> {
+  getAll: (kv: KVNamespace) => Promise<T[]>
+  saveAll: (kv: KVNamespace, items: T[]) => Promise<void>
+  get: (kv: KVNamespace, id: string) => Promise<T | null>
+  scan: (kv: KVNamespace, options: ScanOptions) => Promise<ScanResult<T>>
+  put: (kv: KVNamespace, item: T) => Promise<void>
+  remove: (kv: KVNamespace, id: string) => Promise<boolean>
+}
+
+export interface RecordStoreOptions<T> {
+  prefix: string        // Record key prefix, e.g. 'ballot' -> 'ballot:<id>'
+  legacyKey: string     // Single-blob key used before per-record storage, e.g. 'ballots'
+  seed?: () => T[]      // Records to create when no data exists at all
+}
+
+export function recordKey(prefix: string, id: string): string {
+  return `${prefix}:${id}`
+}
+
+// Written once the legacy blob is split, to mark that done; listings don't read it
+export function indexKey(prefix: string): string {
+  return `index:${prefix}`
+}
+
+async function readJson<V>(kv: KVNamespace, key: string): Promise<V | null> {
+  const json = await kv.get(key)
+  return json ? JSON.parse(json) as V : null
+}
+
+// Ids of every record under `prefix`, in key order
+export async function listRecordIds(kv: KVNamespace, prefix: string): Promise<string[]> {
+  const keyPrefix = recordKey(prefix, '')
+  const ids: string[] = []
+  let cursor: string | undefined
+  do {
+    const page: KVNamespaceListResult<unknown> = await kv.list({ prefix: keyPrefix, cursor })
+    ids.push(...page.keys.map(key => key.name.slice(keyPrefix.length)))
+    cursor = page.list_complete ? undefined : page.cursor
+  } while (cursor)
+  return ids
+}
+
+/**
+ * Splits a legacy single-blob array into per-record keys and marks it done.
+ * Returns the ids it wrote. Safe to call repeatedly: once the marker exists
+ * nothing is written.
+ */
+export async function migrateLegacyBlob<T extends { id: string }>(
+  kv: KVNamespace,
+  options: RecordStoreOptions<T>
+): Promise<{ ids: string[]; migrated: number }> {
+  const existingIndex = await readJson<string[]>(kv, indexKey(options.prefix))
+  if (existingIndex) {
+    return { ids: existingIndex, migrated: 0 }
+  }
+
+  const legacyItems = await readJson<T[]>(kv, options.legacyKey)
+  const items = legacyItems ?? options.seed?.() ?? []
+
+  await Promise.all(items.map(item =>
+    kv.put(recordKey(options.prefix, item.id), JSON.stringify(item))
+  ))
+  const ids = items.map(item => item.id)
+  await kv.put(indexKey(options.prefix), JSON.stringify(ids))
+
+  return { ids, migrated: legacyItems ? items.length : 0 }
+}
+
+/**
+ * Creates get/put/remove helpers for one resource type, plus the
+ * getAll/saveAll pair used by `ResourceConfig`.
+ */
+export function createRecordStore<T extends { id: string }>(
+  options: RecordStoreOptions<T>
+): RecordStore<T> {
+  const { prefix } = options
+
+  const ensureMigrated = async (kv: KVNamespace): Promise<void> => {
+    if (await kv.get(indexKey(prefix)) === null) await migrateLegacyBlob(kv, options)
+  }
+
+  const loadIds = async (kv: KVNamespace): Promise<string[]> => {
+    await ensureMigrated(kv)
+    return listRecordIds(kv, prefix)
+  }
+
+  return {
+    async getAll(kv) {
+      try {
+        const ids = await loadIds(kv)
+        const items: (T | null)[] = await Promise.all(ids.map(id => readJson<T>(kv, recordKey(prefix, id))))
+        return items.filter((item): item is T => item !== null)
+      } catch (error) {
+        console.error(`Error getting ${prefix} records from KV:`, error)
+        return []
+      }
+    },
+
+    async saveAll(kv, items) {
+      try {
+        const previousIds = await loadIds(kv)
+        const nextIds = new Set(items.map(item => item.id))
+
+        await Promise.all([
+          ...items.map(item => kv.put(recordKey(prefix, item.id), JSON.stringify(item))),
+          ...previousIds
+            .filter(id => !nextIds.has(id))
+            .map(id => kv.delete(recordKey(prefix, id)))
+        ])
+      } catch (error) {
+        console.error(`Error saving ${prefix} records to KV:`, error)
+        throw error
+      }
+    },
+
+    async get(kv, id) {
+      try {
+        const item = await readJson<T>(kv, recordKey(prefix, id))
+        if (item) return item
+
+        // The record may still be inside a legacy blob that hasn't been split yet
+        if (await kv.get(indexKey(prefix)) !== null) return null
+        await ensureMigrated(kv)
+        return await readJson<T>(kv, recordKey(prefix, id))
+      } catch (error) {
+        console.error(`Error getting ${prefix} ${id} from KV:`, error)
+        return null
+      }
+    },
+
+    // KV lists keys in order, so its cursor is the batch cursor
+    async scan(kv, { limit, cursor, prefix: idPrefix = '' }) {
+      await ensureMigrated(kv)
+      const keyPrefix = recordKey(prefix, idPrefix)
+      const page: KVNamespaceListResult<unknown> = await kv.list({ prefix: keyPrefix, limit, cursor })
+      const items: (T | null)[] = await Promise.all(page.keys.map(key => readJson<T>(kv, key.name)))
+      return {
+        items: items.filter((item): item is T => item !== null),
+        cursor: page.list_complete ? null : page.cursor
+      }
+    },
+
+    async put(kv, item) {
+      try {
+        // Split the legacy blob first, or it would later overwrite this record
+        await ensureMigrated(kv)
+        await kv.put(recordKey(prefix, item.id), JSON.stringify(item))
+      } catch (error) {
+        console.error(`Error saving ${prefix} ${item.id} to KV:`, error)
+        throw error
+      }
+    },
+
+    async remove(kv, id) {
+      try {
+        await ensureMigrated(kv)
+        const key = recordKey(prefix, id)
+        if (await kv.get(key) === null) return false
+        await kv.delete(key)
+        return true
+      } catch (error) {
+        console.error(`Error deleting ${prefix} ${id} from KV:`, error)
+        throw error
+      }
+    }
+  }
+}
+
+/**
+ * Repository backed by a per-record KV store.
+ *
+ * KV has no compare-and-swap, so `updateWithVersion` is a read-check-write:
+ * it catches stale versions but two writers racing within the same instant
+ * can still both succeed.
+ */
+export function createKVRepository<T extends VersionedRecord>(
+  kv: KVNamespace,
+  store: RecordStore<T>,
+  resource: string
+): Repository<T> {
+  return {
+    get: (id) => store.get(kv, id),
+
+    list: () => store.getAll(kv),
+
+    query: async (options) => applyQuery(await store.getAll(kv), options),
+
+    scan: (options) => store.scan(kv, options),
+
+    async insert(item) {
+      if (await store.get(kv, item.id)) {
+        throw new DuplicateRecordError(resource, item.id)
+      }
+      await store.put(kv, item)
+      return item
+    },
+
+    async updateWithVersion(item, expectedVersion) {
+      const current = await store.get(kv, item.id)
+      if (!current) {
+        return { ok: false, reason: 'not_found' }
+      }
+
+      const currentVersion = current.version ?? 1
+      if (currentVersion !== expectedVersion) {
+        return { ok: false, reason: 'version_conflict', currentVersion }
+      }
+
+      const updated = { ...item, version: expectedVersion + 1 }
+      await store.put(kv, updated)
+      return { ok: true, item: updated }
+    },
+
+    delete: (id) => store.remove(kv, id)
+  }
+}
@@ -0,0 +1,144 @@
+import { describe, test, expect } from 'bun:test'
+import type { Attendance, Ballot, Dashboard, SearchResults, TrashItem } from 'shared/dist'
+import app from './index'
+import { createKVRepository, createRecordStore } from './storage'
+import { purgeExpiredTrash, withoutTrashed, type TrashSources } from './trash'
+import { createD1TestEnv, createMemoryKV, createTestEnv, request, adminHeaders } from '../tests/helpers'
+
+const ballot: Ballot = { id: 'b1', question: 'Ship it?', votes: [], createdAt: '2024-01-01T00:00:00Z', version: 1 }
+const attendance: Attendance = {
+  id: 'a1',
+  title: 'Team offsite',
+  date: '2024-02-01',
+  responses: [],
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+  version: 1
+}
+const dashboard: Dashboard = {
+  id: 'd1',
+  name: 'Q1 plans',
+  ballotIds: ['b1'],
+  attendanceIds: [],
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+  version: 1
+}
+
+function ballotRecords() {
+  return createKVRepository<Ballot>(createMemoryKV() as any, createRecordStore<Ballot>({ prefix: 'ballot', legacyKey: 'ballots' }), 'ballot')
+}
+
+describe('Trash', () => {
+  test('withoutTrashed should hide trashed records and soft delete', async () => {
+    const records = ballotRecords()
+    const ballots = withoutTrashed(records)
+    await ballots.insert(ballot)
+    await ballots.insert({ ...ballot, id: 'b2' })
+
+    expect(await ballots.delete('b1')).toBe(true)
+    expect(await ballots.delete('b1')).toBe(false)
+
+    expect(await ballots.get('b1')).toBeNull()
+    expect((await ballots.list()).map(item => item.id)).toEqual(['b2'])
+    expect((await ballots.query({ where: { isPrivate: null } })).map(item => item.id)).toEqual(['b2'])
+    expect(await ballots.updateWithVersion({ ...ballot, question: 'Changed?' }, 2)).toEqual({ ok: false, reason: 'not_found' })
+    expect(await records.get('b1')).toMatchObject({ question: 'Ship it?', deletedAt: expect.any(String), version: 2 })
+  })
+
+  test('purgeExpiredTrash should only purge what is past the retention window', async () => {
+    const records = ballotRecords()
+    await records.insert({ ...ballot, deletedAt: '2025-01-01T00:00:00.000Z' })
+    await records.insert({ ...ballot, id: 'older', deletedAt: '2024-12-01T00:00:00.000Z' })
+    await records.insert({ ...ballot, id: 'recent', deletedAt: '2025-05-20T00:00:00.000Z' })
+    await records.insert({ ...ballot, id: 'live' })
+    const purgedIds: string[] = []
+    const sources = {
+      ballot: { records, title: (item: Ballot) => item.question, afterPurge: async (id: string) => { purgedIds.push(id) } },
+      dashboard: { records: ballotRecords(), title: () => '' },
+      attendance: { records: ballotRecords(), title: () => '' }
+    } as TrashSources
+
+    const purged = await purgeExpiredTrash(sources, new Date('2025-06-01T00:00:00Z'))
+
+    expect(purged.find(item => item.id === 'b1')).toEqual({ type: 'ballot', id: 'b1', title: 'Ship it?', deletedAt: '2025-01-01T00:00:00.000Z', purgeAt: '2025-01-31T00:00:00.000Z' })
+    expect(purged.map(item => item.id).sort()).toEqual(['b1', 'older'])
+    expect(purgedIds.sort()).toEqual(['b1', 'older'])
+    expect((await records.list()).map(item => item.id)).toEqual(['live', 'recent'])
+  })
+
+  describe('API', () => {
+    test('should move deleted records to the trash and restore them', async () => {
+      const env = createTestEnv({ ballots: [ballot], attendances: [attendance], dashboards: [dashboard] })
+
+      await request(env, 'DELETE', '/api/admin/ballots/b1', { headers: adminHeaders() })
+      await request(env, 'DELETE', '/api/attendance/a1', { headers: adminHeaders() })
+      await request(env, 'DELETE', '/api/admin/dashboards/d1', { headers: adminHeaders() })
+
+      expect((await request(env, 'GET', '/api/ballots/b1')).status).toBe(404)
+      const { items } = await (await request(env, 'GET', '/api/admin/trash', { headers: adminHeaders() })).json() as { items: TrashItem[] }
+      expect(items.map(item => `${item.type}:${item.id}`).sort()).toEqual(['attendance:a1', 'ballot:b1', 'dashboard:d1'])
+
+      const restored = await request(env, 'POST', '/api/admin/trash/ballot/b1/restore', { headers: adminHeaders() })
+      expect(restored.status).toBe(200)
+      expect(await (await request(env, 'GET', '/api/ballots/b1')).json()).toMatchObject({ question: 'Ship it?', version: 3 })
+      expect((await request(env, 'POST', '/api/admin/trash/ballot/b1/restore', { headers: adminHeaders() })).status).toBe(404)
+    })
+
+    test('should need an admin for the trash', async () => {
+      const env = createTestEnv({ ballots: [{ ...ballot, deletedAt: '2025-01-01T00:00:00Z' }] })
+
+      expect((await request(env, 'GET', '/api/admin/trash')).status).toBe(401)
+      expect((await request(env, 'POST', '/api/admin/trash/ballot/b1/restore')).status).toBe(401)
+      expect((await request(env, 'DELETE', '/api/admin/trash/ballot/b1')).status).toBe(401)
+    })
+
+    test('should only purge records in the trash', async () => {
+      const env = createTestEnv({ ballots: [ballot, { ...ballot, id: 'gone', deletedAt: '2025-01-01T00:00:00Z' }] })
+
+      expect((await request(env, 'DELETE', '/api/admin/trash/ballot/b1', { headers: adminHeaders() })).status).toBe(404)
+      expect((await request(env, 'DELETE', '/api/admin/trash/poll/gone', { headers: adminHeaders() })).status).toBe(404)
+      expect((await request(env, 'DELETE', '/api/admin/trash/ballot/gone', { headers: adminHeaders() })).status).toBe(200)
+
+      const { items } = await (await request(env, 'GET', '/api/admin/trash', { headers: adminHeaders() })).json() as { items: TrashItem[] }
+      expect(items).toEqual([])
+      expect((await request(env, 'GET', '/api/ballots/b1')).status).toBe(200)
+    })
+
+    test('should keep the owner token through a restore', async () => {
+      const env = createD1TestEnv()
+      const created = await (await request(env, 'POST', '/api/ballots', { body: { question: 'Retro?' } })).json() as Ballot & { ownerToken: string }
+      const headers = { 'X-Owner-Token': created.ownerToken }
+
+      expect((await request(env, 'DELETE', `/api/ballots/${created.id}`, { headers })).status).toBe(200)
+      expect(await (await request(env, 'GET', '/api/ballots')).json()).toMatchObject({ items: [] })
+      await request(env, 'POST', `/api/admin/trash/ballot/${created.id}/restore`, { headers: adminHeaders() })
+
+      expect((await request(env, 'POST', `/api/ballots/${created.id}/close`, { headers })).status).toBe(200)
+    })
+
+    test('should drop trashed records from search until restored', async () => {
+      const env = createTestEnv({ ballots: [] })
+      await request(env, 'POST', '/api/ballots', { body: { question: 'Offsite venue?' } })
+      const search = async () => (await (await request(env, 'GET', '/api/search?q=venue')).json() as SearchResults).ballots
+      const [hit] = await search()
+
+      await request(env, 'DELETE', `/api/admin/ballots/${hit!.id}`, { headers: adminHeaders() })
+      expect(await search()).toEqual([])
+
+      await request(env, 'POST', `/api/admin/trash/ballot/${hit!.id}/restore`, { headers: adminHeaders() })
+      expect((await search()).map(item => item.id)).toEqual([hit!.id])
+    })
+
+    test('should purge expired trash from the cron trigger', async () => {
+      const env = createTestEnv({ ballots: [{ ...ballot, deletedAt: '2020-01-01T00:00:00Z' }] })
+      const pending: Promise<unknown>[] = []
+
+      app.scheduled({} as ScheduledController, env as any, { waitUntil: (promise: Promise<unknown>) => pending.push(promise) } as any)
+      await Promise.all(pending)
+
+      const { items } = await (await request(env, 'GET', '/api/admin/trash', { headers: adminHeaders() })).json() as { items: TrashItem[] }
+      expect(items).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,128 @@
+import { isTrashed, trashPurgeAt, type TrashItem, type TrashType } from 'shared/dist'
+import type { QueryOptions, Repository, VersionedRecord } from './repository'
+
+/**
+ * Soft delete for ballots, dashboards and attendance.
+ *
+ * `withoutTrashed` wraps a repository of every record, trashed ones included,
+ * so it behaves as if trashed records were gone: reads skip them and `delete`
+ * moves a record to the trash instead of removing it. The trash routes and the
+ * scheduled purge work on the unwrapped repository.
+ */
+
+export type TrashableRecord = VersionedRecord & { deletedAt?: string }
+
+const MAX_WRITE_ATTEMPTS = 3
+
+/**
+ * Rewrites the record `id` with `change` applied, retrying on version
+ * conflicts. Returns the stored record, or null if it's missing or `change`
+ * returns null.
+ */
+async function changeRecord<T extends TrashableRecord>(records: Repository<T>, id: string, change: (item: T) => T | null): Promise<T | null> {
+  for (let attempt = 1; ; attempt++) {
+    const current = await records.get(id)
+    const next = current && change(current)
+    if (!current || !next) return null
+
+    const result = await records.updateWithVersion(next, current.version ?? 1)
+    if (result.ok) return result.item
+    if (result.reason === 'not_found' || attempt >= MAX_WRITE_ATTEMPTS) return null
+  }
+}
+
+export function moveToTrash<T extends TrashableRecord>(records: Repository<T>, id: string, now: Date = new Date()): Promise<T | null> {
+  return changeRecord(records, id, item => isTrashed(item) ? null : { ...item, deletedAt: now.toISOString() })
+}
+
+export function restoreFromTrash<T extends TrashableRecord>(records: Repository<T>, id: string): Promise<T | null> {
+  return changeRecord(records, id, item => {
+    if (!isTrashed(item)) return null
+    const { deletedAt: _deletedAt, ...rest } = item
+    return rest as T
+  })
+}
+
+export function withoutTrashed<T extends TrashableRecord>(records: Repository<T>): Repository<T> {
+  return {
+    async get(id) {
+      const item = await records.get(id)
+      return item && !isTrashed(item) ? item : null
+    },
+
+    list: async () => (await records.list()).filter(item => !isTrashed(item)),
+
+    query: (options) => records.query({ ...options, where: { ...options.where, deletedAt: null } as QueryOptions<T>['where'] }),
+
+    // A batch can come back short, or empty, when it held trashed records
+    async scan(options) {
+      const batch = await records.scan(options)
+      return { ...batch, items: batch.items.filter(item => !isTrashed(item)) }
+    },
+
+    // Ids of trashed records stay taken, so this still throws for them
+    insert: (item) => records.insert(item),
+
+    // Trashed records can't be edited; the version check catches one trashed
+    // after this looked
+    async updateWithVersion(item, expectedVersion) {
+      const current = await records.get(item.id)
+      if (!current || isTrashed(current)) return { ok: false, reason: 'not_found' }
+      return records.updateWithVersion(item, expectedVersion)
+    },
+
+    delete: async (id) => (await moveToTrash(records, id)) !== null
+  }
+}
+
+// Where the trash routes find each type, and what to tidy up when one is purged
+export type TrashSource<T extends TrashableRecord> = {
+  records: Repository<T>
+  title: (item: T) => string
+  afterPurge?: (id: string) => Promise<void>
+}
+
+export type TrashSources = { [K in TrashType]: TrashSource<any> }
+
+function toTrashItem<T extends TrashableRecord>(type: TrashType, source: TrashSource<T>, item: T): TrashItem {
+  return { type, id: item.id, title: source.title(item), deletedAt: item.deletedAt!, purgeAt: trashPurgeAt(item.deletedAt!) }
+}
+
+// Everything in the trash, most recently deleted first
+export async function listTrash(sources: TrashSources): Promise<TrashItem[]> {
+  const items: TrashItem[] = []
+  for (const [type, source] of Object.entries(sources) as [TrashType, TrashSource<any>][]) {
+    for (const item of await source.records.list()) {
+      if (isTrashed(item)) items.push(toTrashItem(type, source, item))
+    }
+  }
+  return items.sort((a, b) => a.deletedAt < b.deletedAt ? 1 : a.deletedAt > b.deletedAt ? -1 : 0)
+}
+
+export async function restoreTrashItem(sources: TrashSources, type: TrashType, id: string): Promise<TrashItem | null> {
+  const source = sources[type]
+  const trashed = await source.records.get(id)
+  if (!trashed || !isTrashed(trashed)) return null
+  return await restoreFromTrash(source.records, id) ? toTrashItem(type, source, trashed) : null
+}
+
+/** Removes a trashed record for good. Records that aren't in the trash are left alone. */
+export async function purgeTrashItem(sources: TrashSources, type: TrashType, id: string): Promise<TrashItem | null> {
+  const source = sources[type]
+  const trashed = await source.records.get(id)
+  if (!trashed || !isTrashed(trashed)) return null
+
+  if (!(await source.records.delete(id))) return null
+  await source.afterPurge?.(id)
+  return toTrashItem(type, source, trashed)
+}
+
+/**
+ * Purges everything that has been in the trash for longer than the retention
+ * window. Each record has a key of its own, so they're purged side by side.
+ */
+export async function purgeExpiredTrash(sources: TrashSources, now: Date = new Date()): Promise<TrashItem[]> {
+  const expired = (await listTrash(sources)).filter(item => item.purgeAt <= now.toISOString())
+  const purged = await Promise.all(expired.map(item => purgeTrashItem(sources, item.type, item.id)))
+  return purged.filter((item): item is TrashItem => item !== null)
+}
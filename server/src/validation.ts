@@ -0,0 +1,66 @@
+import type { Context, Env, MiddlewareHandler } from 'hono'
+import type { Schema, ValidationIssue } from 'shared/dist'
+import { apiError } from './errors'
+import { addSpanAttributes, recordSpanEvent } from './telemetry'
+
+/**
+ * Request body and query string validation against the schemas in shared/.
+ *
+ * Input that doesn't parse gets 400 VALIDATION_FAILED with the first problem as
+ * the message and all of them, with field paths, in `details.issues`:
+ *
+ *   { "error": { "code": "VALIDATION_FAILED", "message": "Question is required",
+ *                "details": { "issues": [{ "path": "question", "message": "Question is required" }] } } }
+ *
+ * Handlers read the parsed body with `c.req.valid('json')` and the query
+ * string with `c.req.valid('query')`. Handlers defined apart from their route
+ * type their context's input with `JsonInput` or `QueryInput`.
+ */
+
+export type JsonInput<T> = { in: { json: unknown }; out: { json: T } }
+export type QueryInput<T> = { in: { query: Record<string, string> }; out: { query: T } }
+
+function rejectInput(c: Context, issues: ValidationIssue[]) {
+  const paths = issues.map(issue => issue.path).join(',')
+  addSpanAttributes({ 'validation.failed': true, 'validation.paths': paths })
+  recordSpanEvent('validation_failed', { 'validation.paths': paths, 'reason': issues[0]?.message ?? '' })
+  return apiError(c, 'VALIDATION_FAILED', issues[0]?.message ?? 'Invalid request body', { issues })
+}
+
+/**
+ * Parses the JSON body against `schema`. An empty body is read as `{}`, so
+ * routes whose fields are all optional can be called without one.
+ */
+export function validateBody<T>(schema: Schema<T>): MiddlewareHandler<Env, string, JsonInput<T>> {
+  return async (c, next) => {
+    const text = await c.req.text()
+    let input: unknown = {}
+    try {
+      if (text.trim()) input = JSON.parse(text)
+    } catch {
+      addSpanAttributes({ 'validation.failed': true, 'error': 'invalid_json' })
+      return apiError(c, 'INVALID_JSON', 'Request body must be valid JSON')
+    }
+
+    const result = schema.parse(input)
+    if (!result.ok) return rejectInput(c, result.issues)
+
+    c.req.addValidatedData('json', result.value as object)
+    await next()
+  }
+}
+
+/**
+ * Parses the query string against `schema`. Repeated parameters keep their
+ * first value.
+ */
+export function validateQuery<T>(schema: Schema<T>): MiddlewareHandler<Env, string, QueryInput<T>> {
+  return async (c, next) => {
+    const result = schema.parse(c.req.query())
+    if (!result.ok) return rejectInput(c, result.issues)
+
+    c.req.addValidatedData('query', result.value as object)
+    await next()
+  }
+}
+
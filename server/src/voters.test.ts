@@ -0,0 +1,31 @@
+import { describe, test, expect } from 'bun:test'
+import { issueVoterToken, verifyVoterToken, voterIdFor } from './voters'
+
+const secret = 'voter-secret'
+
+describe('Voter tokens', () => {
+  test('should verify a token it issued and return its id', async () => {
+    const token = await issueVoterToken(secret)
+
+    expect(await verifyVoterToken(token, secret)).toBe(token.split('.')[0]!)
+  })
+
+  test('should reject tokens signed with another secret, tampered with or malformed', async () => {
+    const token = await issueVoterToken(secret)
+    const [id, signature] = token.split('.')
+
+    expect(await verifyVoterToken(token, 'other-secret')).toBeNull()
+    expect(await verifyVoterToken(`${id}0.${signature}`, secret)).toBeNull()
+    expect(await verifyVoterToken(id, secret)).toBeNull()
+    expect(await verifyVoterToken(`${token}.extra`, secret)).toBeNull()
+    expect(await verifyVoterToken(undefined, secret)).toBeNull()
+  })
+
+  test('should give the same voter a different id on every ballot', async () => {
+    const first = await voterIdFor('ballot-1', 'voter')
+
+    expect(await voterIdFor('ballot-1', 'voter')).toBe(first)
+    expect(await voterIdFor('ballot-2', 'voter')).not.toBe(first)
+    expect(first).not.toContain('voter')
+  })
+})
@@ -0,0 +1,39 @@
+import { encodeText, fromHex, randomHex, sha256Hex, toHex } from './crypto'
+
+/**
+ * Anonymous voter tokens.
+ *
+ * The server hands out `<id>.<signature>` tokens, where the signature is an
+ * HMAC of a random id under `VOTER_TOKEN_SECRET`. Clients keep the token and
+ * send it with every vote. Votes never store the token itself, only
+ * `voterIdFor(ballotId, id)`. The hash is different on every ballot, so votes
+ * can't be linked across ballots.
+ */
+
+export const VOTER_TOKEN_HEADER = 'X-Voter-Token'
+
+function signingKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', encodeText(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify'])
+}
+
+export async function issueVoterToken(secret: string): Promise<string> {
+  const id = randomHex(16)
+  const signature = await crypto.subtle.sign('HMAC', await signingKey(secret), encodeText(id))
+  return `${id}.${toHex(signature)}`
+}
+
+/**
+ * Returns the token's id if the server signed it, otherwise null.
+ */
+export async function verifyVoterToken(token: string | undefined, secret: string): Promise<string | null> {
+  const [id, signature, ...rest] = token?.split('.') ?? []
+  const signatureBytes = fromHex(signature ?? '')
+  if (!id || !signatureBytes || rest.length > 0) return null
+
+  const valid = await crypto.subtle.verify('HMAC', await signingKey(secret), signatureBytes, encodeText(id))
+  return valid ? id : null
+}
+
+export async function voterIdFor(ballotId: string, tokenId: string): Promise<string> {
+  return sha256Hex(`${ballotId}:${tokenId}`)
+}
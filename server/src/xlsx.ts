@@ -0,0 +1,183 @@
+/**
+ * Minimal XLSX (Office Open XML spreadsheet) writer for the exports.
+ *
+ * A workbook is a zip of a few XML parts. Cells are written as numbers or
+ * inline strings, never formulas, and entries are stored uncompressed - the
+ * files are small and Workers have no zlib without a dependency.
+ */
+
+export type Cell = string | number | null
+export type Sheet = { name: string; rows: Cell[][] }
+
+const MAX_SHEET_NAME_LENGTH = 31
+
+const encoder = new TextEncoder()
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  return c >>> 0
+})
+
+export function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff]! ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// Little-endian header fields
+function header(fields: [size: 2 | 4, value: number][]): Uint8Array {
+  const bytes = new Uint8Array(fields.reduce((total, [size]) => total + size, 0))
+  const view = new DataView(bytes.buffer)
+  let offset = 0
+  for (const [size, value] of fields) {
+    if (size === 2) view.setUint16(offset, value, true)
+    else view.setUint32(offset, value, true)
+    offset += size
+  }
+  return bytes
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    result.set(part, offset)
+    offset += part.length
+  }
+  return result
+}
+
+// A zip archive with every entry stored as is
+export function zip(files: { name: string; content: string }[]): Uint8Array {
+  const DOS_DATE = 0x0021  // 1980-01-01; the contents don't depend on when they were zipped
+  const local: Uint8Array[] = []
+  const central: Uint8Array[] = []
+  let offset = 0
+
+  for (const file of files) {
+    const name = encoder.encode(file.name)
+    const content = encoder.encode(file.content)
+    const crc = crc32(content)
+    const common: [2 | 4, number][] = [
+      [2, 20], [2, 0x0800], [2, 0], [2, 0], [2, DOS_DATE],  // Version, UTF-8 names, stored, time, date
+      [4, crc], [4, content.length], [4, content.length], [2, name.length], [2, 0]
+    ]
+
+    local.push(header([[4, 0x04034b50], ...common]), name, content)
+    central.push(header([[4, 0x02014b50], [2, 20], ...common, [2, 0], [2, 0], [2, 0], [4, 0], [4, offset]]), name)
+    offset += 30 + name.length + content.length
+  }
+
+  const directory = concat(central)
+  const end = header([
+    [4, 0x06054b50], [2, 0], [2, 0], [2, files.length], [2, files.length],
+    [4, directory.length], [4, offset], [2, 0]
+  ])
+  return concat([...local, directory, end])
+}
+
+// Control characters other than tab and newlines aren't allowed in XML
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function columnName(index: number): string {
+  let name = ''
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name
+  }
+  return name
+}
+
+function sheetXml(rows: Cell[][]): string {
+  const body = rows.map((row, r) => {
+    const cells = row.map((cell, c) => {
+      const ref = `${columnName(c)}${r + 1}`
+      if (cell === null || cell === '') return ''
+      if (typeof cell === 'number') return `<c r="${ref}"><v>${cell}</v></c>`
+      return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`
+    }).join('')
+    return `<row r="${r + 1}">${cells}</row>`
+  }).join('')
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    `<sheetData>${body}</sheetData></worksheet>`
+}
+
+/**
+ * Sheet names Excel accepts: no []:*?/\, at most 31 characters, and unique
+ * ignoring case.
+ */
+export function sheetNames(names: string[]): string[] {
+  const taken = new Set<string>()
+  return names.map(name => {
+    const base = name.replace(/[[\]:*?/\\]/g, ' ').trim() || 'Sheet'
+    let candidate = base.slice(0, MAX_SHEET_NAME_LENGTH)
+    for (let n = 2; taken.has(candidate.toLowerCase()); n++) {
+      const suffix = ` (${n})`
+      candidate = base.slice(0, MAX_SHEET_NAME_LENGTH - suffix.length) + suffix
+    }
+    taken.add(candidate.toLowerCase())
+    return candidate
+  })
+}
+
+export function createWorkbook(sheets: Sheet[]): Uint8Array {
+  const names = sheetNames(sheets.map(sheet => sheet.name))
+  const ids = sheets.map((_, i) => i + 1)
+
+  return zip([
+    {
+      name: '[Content_Types].xml',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        ids.map(id => `<Override PartName="/xl/worksheets/sheet${id}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('') +
+        '</Types>'
+    },
+    {
+      name: '_rels/.rels',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>'
+    },
+    {
+      name: 'xl/workbook.xml',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+        `<sheets>${ids.map((id, i) => `<sheet name="${escapeXml(names[i]!)}" sheetId="${id}" r:id="rId${id}"/>`).join('')}</sheets>` +
+        '</workbook>'
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        ids.map(id => `<Relationship Id="rId${id}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${id}.xml"/>`).join('') +
+        `<Relationship Id="rId${ids.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+        '</Relationships>'
+    },
+    {
+      name: 'xl/styles.xml',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        '<fonts count="1"><font><sz val="11"/><name val="Calibri"/></font></fonts>' +
+        '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+        '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+        '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+        '<cellXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/></cellXfs>' +
+        '</styleSheet>'
+    },
+    ...sheets.map((sheet, i) => ({ name: `xl/worksheets/sheet${i + 1}.xml`, content: sheetXml(sheet.rows) }))
+  ])
+}
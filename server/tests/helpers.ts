@@ -0,0 +1,117 @@
+import { Database } from 'bun:sqlite'
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import app from '../src/index'
+
+/**
+ * Minimal in-memory stand-in for a Cloudflare KV namespace.
+ * Only implements the methods the server actually calls.
+ */
+export function createMemoryKV(initial: Record<string, unknown> = {}) {
+  const store = new Map<string, string>(
+    Object.entries(initial).map(([key, value]) => [key, typeof value === 'string' ? value : JSON.stringify(value)])
+  )
+
+  return {
+    store,
+    async get(key: string) {
+      return store.has(key) ? store.get(key)! : null
+    },
+    async put(key: string, value: string) {
+      store.set(key, value)
+    },
+    async delete(key: string) {
+      store.delete(key)
+    },
+    // In key order, `limit` at a time, like KV. The cursor is the last key listed.
+    async list({ prefix = '', limit = 1000, cursor }: { prefix?: string; limit?: number; cursor?: string } = {}) {
+      const names = [...store.keys()].filter(key => key.startsWith(prefix) && (!cursor || key > cursor)).sort()
+      const keys = names.slice(0, limit).map(name => ({ name }))
+      return keys.length < names.length
+        ? { keys, list_complete: false, cursor: keys[keys.length - 1]!.name }
+        : { keys, list_complete: true, cursor: '' }
+    }
+  }
+}
+
+/**
+ * D1 stand-in backed by an in-memory bun:sqlite database with the real
+ * migrations applied. Covers prepare/bind/first/all/run only.
+ */
+export function createMemoryD1() {
+  const sqlite = new Database(':memory:')
+  sqlite.exec(readFileSync(join(import.meta.dir, '../migrations/0001_create_records.sql'), 'utf8'))
+
+  const prepare = (sql: string, params: unknown[] = []) => ({
+    bind: (...values: unknown[]) => prepare(sql, values),
+    async first<R>() {
+      return (sqlite.query(sql).get(...(params as any[])) ?? null) as R | null
+    },
+    async all<R>() {
+      return { results: sqlite.query(sql).all(...(params as any[])) as R[], success: true, meta: {} }
+    },
+    async run() {
+      const { changes } = sqlite.query(sql).run(...(params as any[]))
+      return { results: [], success: true, meta: { changes } }
+    }
+  })
+
+  return { sqlite, prepare: (sql: string) => prepare(sql) }
+}
+
+export const TEST_ADMIN_KEY = 'test-admin-key-123'
+export const TEST_VOTER_TOKEN_SECRET = 'test-voter-secret'
+
+export function createTestEnv(initial: Record<string, unknown> = {}) {
+  return {
+    BALLOTS_KV: createMemoryKV(initial),
+    ADMIN_API_KEY: TEST_ADMIN_KEY,
+    VOTER_TOKEN_SECRET: TEST_VOTER_TOKEN_SECRET
+  }
+}
+
+export function createD1TestEnv() {
+  return {
+    ...createTestEnv(),
+    BALLOTS_DB: createMemoryD1(),
+    STORAGE_BACKEND: 'd1' as const
+  }
+}
+
+type TestEnv = ReturnType<typeof createTestEnv> | ReturnType<typeof createD1TestEnv>
+
+/**
+ * Sends a request through the real worker fetch handler.
+ */
+export async function request(
+  env: TestEnv,
+  method: string,
+  path: string,
+  options: { body?: unknown; headers?: Record<string, string> } = {}
+) {
+  const headers: Record<string, string> = { ...options.headers }
+  if (options.body !== undefined) {
+    headers['Content-Type'] = 'application/json'
+  }
+
+  return app.fetch(
+    new Request(`http://localhost${path}`, {
+      method,
+      headers,
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined
+    }),
+    env as any
+  )
+}
+
+export function adminHeaders(key = TEST_ADMIN_KEY) {
+  return { Authorization: `Bearer ${key}` }
+}
+
+/**
+ * Issues a voter token through the API and returns headers that carry it.
+ */
+export async function voterHeaders(env: TestEnv) {
+  const { token } = await (await request(env, 'POST', '/api/voter-token')).json() as { token: string }
+  return { 'X-Voter-Token': token }
+}
@@ -0,0 +1,8 @@
+import type { AdminScope } from './types'
+
+// Least to most privileged
+export const ADMIN_SCOPES: AdminScope[] = ['read', 'moderate', 'full']
+
+export function hasAdminScope(granted: AdminScope, required: AdminScope): boolean {
+  return ADMIN_SCOPES.indexOf(granted) >= ADMIN_SCOPES.indexOf(required)
+}
@@ -0,0 +1,58 @@
+/**
+ * The audit log of admin and owner actions and failed sign-ins, see
+ * GET /api/admin/audit. Entries are only ever added, never changed, and are
+ * dropped after AUDIT_RETENTION_DAYS or once there are more than
+ * MAX_AUDIT_ENTRIES. Failed sign-ins are recorded once per address and reason
+ * every AUTH_FAILURE_WINDOW_MINUTES.
+ */
+
+export const AUDIT_RETENTION_DAYS = 90
+export const MAX_AUDIT_ENTRIES = 10_000
+export const AUTH_FAILURE_WINDOW_MINUTES = 10
+
+export const AUDIT_ACTIONS = [
+  'auth_failed',
+  'ballot_updated',
+  'ballot_replaced',
+  'ballot_closed',
+  'ballot_reopened',
+  'ballot_deleted',
+  'ballots_migrated',
+  'dashboard_deleted',
+  'dashboard_owner_reset',
+  'attendance_renamed',
+  'attendance_deleted',
+  'attendance_series_updated',
+  'attendance_series_deleted',
+  'trash_restored',
+  'trash_purged',
+  'revision_restored',
+  'backup_restored',
+  'admin_key_created',
+  'admin_key_revoked'
+] as const
+export type AuditAction = typeof AUDIT_ACTIONS[number]
+
+export const AUDIT_ACTOR_KINDS = ['admin', 'owner', 'editor', 'anonymous'] as const
+export type AuditActorKind = typeof AUDIT_ACTOR_KINDS[number]
+
+export type AuditActor = {
+  kind: AuditActorKind
+  keyId?: string   // Admins only: the API key used, directly or through a session
+  name?: string    // Admins: the key's name; dashboard editors: the name the owner gave them
+}
+
+// A few fields of a record, enough to tell what changed
+export type AuditSummary = Record<string, string | number | boolean | null>
+
+export type AuditEntry = {
+  id: string
+  createdAt: string
+  action: AuditAction
+  actor: AuditActor
+  resource?: { type: string; id: string }  // What was acted on; absent for failed sign-ins and restores
+  before?: AuditSummary
+  after?: AuditSummary
+  details?: AuditSummary                   // e.g. why a sign-in failed, or restore counts
+  ip: string
+}
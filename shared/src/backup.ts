@@ -0,0 +1,86 @@
+import type { Attendance, Ballot, Dashboard } from './types'
+
+/**
+ * Snapshots of every ballot, dashboard and attendance poll, see
+ * GET /api/admin/backup and POST /api/admin/restore.
+ *
+ * Snapshots carry the schema version they were written with. Older ones are
+ * upgraded step by step before they're restored:
+ * - 1: the ballots-only body of POST /api/admin/ballots/migrate, or a plain
+ *   list of ballots as GET /api/ballots used to return
+ * - 2: ballots, dashboards and attendance
+ */
+
+export const BACKUP_VERSION = 2
+
+export type Backup = {
+  version: number
+  createdAt: string
+  ballots: Ballot[]
+  dashboards: Dashboard[]
+  attendance: Attendance[]
+}
+
+export const BACKUP_RESOURCES = ['ballots', 'dashboards', 'attendance'] as const
+export type BackupResource = typeof BACKUP_RESOURCES[number]
+
+/**
+ * - 'merge': add records the store doesn't have; leave the rest alone
+ * - 'replace': make the store match the snapshot, deleting what isn't in it
+ */
+export const RESTORE_MODES = ['merge', 'replace'] as const
+export type RestoreMode = typeof RESTORE_MODES[number]
+
+// Record ids by what the restore did, or would do on a dry run, to them
+export type RestoreChanges = {
+  created: string[]
+  updated: string[]
+  deleted: string[]
+  unchanged: number
+  failed: string[]   // Changed by someone else mid-restore; restore again to retry
+}
+
+export type RestoreSummary = {
+  mode: RestoreMode
+  dryRun: boolean
+  upgradedFrom?: number  // The snapshot's version, if it was older than BACKUP_VERSION
+} & Record<BackupResource, RestoreChanges>
+
+type Snapshot = Record<string, unknown>
+
+// UPGRADES[n] turns a version n + 1 snapshot into a version n + 2 one
+const UPGRADES: ((snapshot: Snapshot) => Snapshot)[] = [
+  (snapshot) => ({
+    version: 2,
+    createdAt: new Date().toISOString(),
+    ballots: snapshot.ballots,
+    dashboards: [],
+    attendance: []
+  })
+]
+
+function snapshotVersion(input: unknown): number | null {
+  if (Array.isArray(input)) return 1
+  if (typeof input !== 'object' || input === null) return null
+  const { version } = input as Snapshot
+  if (version === undefined) return 1
+  return typeof version === 'number' && Number.isInteger(version) && version >= 1 ? version : null
+}
+
+/**
+ * Brings a snapshot of any version up to BACKUP_VERSION. Only the shape is
+ * upgraded; the records themselves are checked afterwards.
+ */
+export function upgradeBackup(input: unknown): { ok: true; snapshot: Snapshot; from: number } | { ok: false; message: string } {
+  const from = snapshotVersion(input)
+  if (from === null) return { ok: false, message: 'Backup must be a JSON object with a version' }
+  if (from > BACKUP_VERSION) {
+    return { ok: false, message: `Backup version ${from} is newer than this server understands (${BACKUP_VERSION})` }
+  }
+
+  let snapshot: Snapshot = Array.isArray(input) ? { ballots: input } : input as Snapshot
+  for (let version = from; version < BACKUP_VERSION; version++) {
+    snapshot = UPGRADES[version - 1]!(snapshot)
+  }
+  return { ok: true, snapshot, from }
+}
@@ -0,0 +1,91 @@
+import type { Ballot, BallotKind, BallotOption, Vote, VotePolicy } from './types'
+
+/**
+ * A ballot accepts votes until an admin closes it or its `closesAt` passes.
+ * The scheduled sweep stores `status: 'closed'` for expired ballots, but
+ * callers shouldn't rely on it having run yet.
+ */
+export function isBallotOpen(ballot: Pick<Ballot, 'status' | 'closesAt'>, now: Date = new Date()): boolean {
+  if (ballot.status === 'closed') return false
+  return !ballot.closesAt || new Date(ballot.closesAt).getTime() > now.getTime()
+}
+
+export const BALLOT_KINDS: BallotKind[] = ['traffic-light', 'yes-no', 'scale', 'choice', 'ranked', 'approval']
+
+// Kinds whose options are written by the ballot's creator
+export const CUSTOM_OPTION_KINDS: BallotKind[] = ['choice', 'ranked', 'approval']
+
+export const VOTE_POLICIES: VotePolicy[] = ['once', 'change', 'unlimited']
+
+export const MIN_CHOICE_OPTIONS = 2
+export const MAX_CHOICE_OPTIONS = 10
+
+const FIXED_OPTIONS: Partial<Record<BallotKind, BallotOption[]>> = {
+  'traffic-light': [
+    { value: 'green', label: 'Green' },
+    { value: 'yellow', label: 'Yellow' },
+    { value: 'red', label: 'Red' }
+  ],
+  'yes-no': [
+    { value: 'yes', label: 'Yes' },
+    { value: 'no', label: 'No' }
+  ],
+  // Fist-of-five
+  'scale': ['1', '2', '3', '4', '5'].map(value => ({ value, label: value }))
+}
+
+export function ballotKind(ballot: Pick<Ballot, 'kind'>): BallotKind {
+  return ballot.kind ?? 'traffic-light'
+}
+
+export function votePolicy(ballot: Pick<Ballot, 'votePolicy'>): VotePolicy {
+  return ballot.votePolicy ?? 'unlimited'
+}
+
+/**
+ * The options a vote on this ballot may pick, in display order.
+ */
+export function ballotOptions(ballot: Pick<Ballot, 'kind' | 'options'>): BallotOption[] {
+  return FIXED_OPTIONS[ballotKind(ballot)] ?? ballot.options ?? []
+}
+
+/**
+ * The option a single-choice vote picked. Traffic-light votes store it as `color`.
+ */
+export function voteChoice(vote: Pick<Vote, 'color' | 'choice'>): string | undefined {
+  return vote.choice ?? vote.color
+}
+
+/**
+ * Checks a vote's selection against the ballot's kind and options.
+ * Returns an error message, or null if the vote is acceptable.
+ */
+export function validateVoteSelection(
+  ballot: Pick<Ballot, 'kind' | 'options'>,
+  vote: Pick<Vote, 'color' | 'choice' | 'ranking' | 'approvals'>
+): string | null {
+  const kind = ballotKind(ballot)
+  const values = ballotOptions(ballot).map(option => option.value)
+
+  const checkList = (list: unknown, field: string): string | null => {
+    if (!Array.isArray(list) || list.length === 0) {
+      return `${field} must list at least one option`
+    }
+    if (!list.every(value => typeof value === 'string' && values.includes(value))) {
+      return `${field} may only contain: ${values.join(', ')}`
+    }
+    if (new Set(list).size !== list.length) {
+      return `${field} may not repeat an option`
+    }
+    return null
+  }
+
+  if (kind === 'ranked') return checkList(vote.ranking, 'Ranking')
+  if (kind === 'approval') return checkList(vote.approvals, 'Approvals')
+
+  const choice = voteChoice(vote)
+  if (!choice || !values.includes(choice)) {
+    return `Choice must be one of: ${values.join(', ')}`
+  }
+  return null
+}
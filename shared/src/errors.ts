@@ -0,0 +1,47 @@
+/**
+ * The API's error envelope. Every error response has this body, so clients
+ * can react to `code` rather than matching on `message`, which is written for
+ * people and may change.
+ *
+ *   { "error": { "code": "NOT_FOUND", "message": "Ballot not found" } }
+ */
+
+export type ErrorCode =
+  | 'VALIDATION_FAILED'   // The body or query doesn't fit; `details.issues` lists the problems
+  | 'INVALID_JSON'
+  | 'UNAUTHORIZED'        // Missing or wrong credentials
+  | 'FORBIDDEN'           // Credentials that don't allow this
+  | 'NOT_FOUND'
+  | 'VERSION_CONFLICT'    // Someone else changed the record; `details.currentVersion` when known
+  | 'ALREADY_VOTED'       // `details.vote` is the vote already cast
+  | 'BALLOT_CLOSED'       // `details.closedAt` when known
+  | 'LIMIT_REACHED'       // e.g. too many editors on a dashboard
+  | 'RATE_LIMITED'        // `details.retryAfterSeconds`, also sent as Retry-After
+  | 'INTERNAL_ERROR'
+
+export const ERROR_STATUS: Record<ErrorCode, number> = {
+  VALIDATION_FAILED: 400,
+  INVALID_JSON: 400,
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  VERSION_CONFLICT: 409,
+  ALREADY_VOTED: 409,
+  BALLOT_CLOSED: 423,
+  LIMIT_REACHED: 400,
+  RATE_LIMITED: 429,
+  INTERNAL_ERROR: 500
+}
+
+export type ApiErrorBody = {
+  error: {
+    code: ErrorCode
+    message: string
+    details?: Record<string, unknown>
+  }
+}
+
+export function isApiErrorBody(value: unknown): value is ApiErrorBody {
+  const error = (value as ApiErrorBody | null)?.error
+  return typeof error === 'object' && error !== null && typeof error.code === 'string' && typeof error.message === 'string'
+}
@@ -0,0 +1,9 @@
+/**
+ * Downloads of a ballot, an attendance poll or a whole dashboard, see the
+ * `/export` routes.
+ */
+
+export const EXPORT_FORMATS = ['csv', 'json', 'xlsx'] as const
+export type ExportFormat = typeof EXPORT_FORMATS[number]
+
+export const DEFAULT_EXPORT_FORMAT: ExportFormat = 'csv'
@@ -1 +1,15 @@
 export * from "./types"
+export * from "./ballot"
+export * from "./series"
+export * from "./admin"
+export * from "./tally"
+export * from "./schema"
+export * from "./requests"
+export * from "./pagination"
+export * from "./search"
+export * from "./export"
+export * from "./backup"
+export * from "./trash"
+export * from "./audit"
+export * from "./revisions"
+export * from "./errors"
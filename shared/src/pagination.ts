@@ -0,0 +1,17 @@
+/**
+ * Paged lists. List routes return one page at a time, newest first by
+ * default; send a page's `nextCursor` back as `cursor` to get the one after
+ * it. `nextCursor` is null on the last page.
+ */
+
+export const DEFAULT_PAGE_SIZE = 20
+export const MAX_PAGE_SIZE = 100
+
+// 'name' is A-Z on the question, name or title
+export const LIST_SORTS = ['newest', 'oldest', 'name'] as const
+export type ListSort = typeof LIST_SORTS[number]
+
+export type Page<T> = {
+  items: T[]
+  nextCursor: string | null
+}
@@ -0,0 +1,316 @@
+import type { BallotStatus, VoteColor } from './types'
+import { ADMIN_SCOPES } from './admin'
+import { AUDIT_ACTIONS } from './audit'
+import { BACKUP_VERSION, RESTORE_MODES, upgradeBackup } from './backup'
+import { BALLOT_KINDS, CUSTOM_OPTION_KINDS, MAX_CHOICE_OPTIONS, MIN_CHOICE_OPTIONS, VOTE_POLICIES } from './ballot'
+import { EXPORT_FORMATS } from './export'
+import { LIST_SORTS, MAX_PAGE_SIZE } from './pagination'
+import { MAX_SERIES_EXCEPTIONS, RECURRENCE_FREQUENCIES, isCalendarDate } from './series'
+import { array, boolean, integer, numeric, object, oneOf, optional, refine, string, timestamp, type Infer, type Schema, type ValidationIssue } from './schema'
+
+/**
+ * Schemas for every request body the API accepts, and for the list, search and
+ * export query strings.
+ */
+
+export const MAX_QUESTION_LENGTH = 500
+export const MAX_DASHBOARD_NAME_LENGTH = 100
+export const MAX_ATTENDANCE_TITLE_LENGTH = 200
+export const MAX_SERIES_TITLE_LENGTH = 150  // Leaves room for the date in each poll's title
+export const MAX_COMMENT_LENGTH = 1000
+export const MAX_NAME_LENGTH = 100
+export const MAX_OPTION_LABEL_LENGTH = 100
+
+const VOTE_COLORS: VoteColor[] = ['green', 'yellow', 'red']
+const BALLOT_STATUSES: BallotStatus[] = ['open', 'closed']
+
+const question = string('Question', { max: MAX_QUESTION_LENGTH })
+const comment = optional(string('Comment', { min: 0, max: MAX_COMMENT_LENGTH }))
+const optionValues = (label: string) => optional(array(label, string('Option')))
+const version = optional(integer('Version', { min: 1 }))
+const ids = (label: string) => optional(array(label, string('Id')))
+
+// Custom choices arrive as a list of labels; values are assigned on create
+export const ballotCreateSchema = refine(
+  object({
+    question,
+    isPrivate: optional(boolean('isPrivate')),
+    closesAt: optional(timestamp('closesAt', { future: true })),
+    kind: optional(oneOf('Kind', BALLOT_KINDS)),
+    options: optional(array('Options', string('Option', { max: MAX_OPTION_LABEL_LENGTH }))),
+    votePolicy: optional(oneOf('Vote policy', VOTE_POLICIES))
+  }),
+  ({ kind, options }) => {
+    const issues: ValidationIssue[] = []
+    if (!kind || !CUSTOM_OPTION_KINDS.includes(kind)) {
+      if (options) issues.push({ path: 'options', message: 'Options can only be set on choice, ranked or approval ballots' })
+    } else if (!options || options.length < MIN_CHOICE_OPTIONS || options.length > MAX_CHOICE_OPTIONS) {
+      issues.push({ path: 'options', message: `Choice ballots need between ${MIN_CHOICE_OPTIONS} and ${MAX_CHOICE_OPTIONS} options` })
+    } else if (new Set(options.map(option => option.toLowerCase())).size !== options.length) {
+      issues.push({ path: 'options', message: 'Options must be unique' })
+    }
+    return issues
+  }
+)
+
+// Owner and admin edits; either field may be left out
+export const ballotUpdateSchema = object({
+  question: optional(question),
+  isPrivate: optional(boolean('isPrivate'))
+})
+
+export const ballotReopenSchema = object({
+  closesAt: optional(timestamp('closesAt', { future: true }))
+})
+
+// Traffic-light clients send `color`, ranked ballots `ranking`, approval
+// ballots `approvals`; every other kind sends `choice`. Whether the selection
+// fits the ballot is checked against the ballot itself.
+export const voteSchema = refine(
+  object({
+    color: optional(string('Color')),
+    choice: optional(string('Choice')),
+    ranking: optionValues('Ranking'),
+    approvals: optionValues('Approvals'),
+    comment
+  }),
+  ({ color, choice, ranking, approvals }) =>
+    color || choice || ranking || approvals ? [] : [{ path: 'choice', message: 'A choice is required' }]
+)
+
+// A vote as stored, e.g. in an admin's whole-ballot edit
+const storedVoteSchema = object({
+  color: optional(oneOf('Color', VOTE_COLORS)),
+  choice: optional(string('Choice')),
+  ranking: optionValues('Ranking'),
+  approvals: optionValues('Approvals'),
+  comment,
+  voterId: optional(string('Voter id')),
+  createdAt: timestamp('createdAt')
+})
+
+const ballotFields = {
+  question,
+  votes: array('Votes', storedVoteSchema),
+  createdAt: timestamp('createdAt'),
+  isPrivate: optional(boolean('isPrivate')),
+  kind: optional(oneOf('Kind', BALLOT_KINDS)),
+  options: optional(array('Options', object({
+    value: string('Option value'),
+    label: string('Option label', { max: MAX_OPTION_LABEL_LENGTH })
+  }), { max: MAX_CHOICE_OPTIONS })),
+  status: optional(oneOf('Status', BALLOT_STATUSES)),
+  closesAt: optional(timestamp('closesAt')),
+  closedAt: optional(timestamp('closedAt')),
+  votePolicy: optional(oneOf('Vote policy', VOTE_POLICIES)),
+  version
+}
+
+// An admin's whole-ballot edit; the id always comes from the URL
+export const ballotReplaceSchema = object(ballotFields)
+
+export const ballotMigrationSchema = object({
+  ballots: array('Ballots', object({ id: string('Id'), ...ballotFields }))
+})
+
+export const dashboardCreateSchema = object({
+  name: string('Dashboard name', { max: MAX_DASHBOARD_NAME_LENGTH })
+})
+
+export const dashboardUpdateSchema = object({
+  name: optional(string('Dashboard name', { max: MAX_DASHBOARD_NAME_LENGTH })),
+  ballotIds: ids('Ballot ids'),
+  attendanceIds: ids('Attendance ids'),
+  version
+})
+
+export const dashboardEditorSchema = object({
+  name: string('Editor name', { max: MAX_NAME_LENGTH })
+})
+
+const attendanceTitle = string('Title', { max: MAX_ATTENDANCE_TITLE_LENGTH })
+
+const calendarDate = (label: string) =>
+  refine(string(label), (value) => isCalendarDate(value) ? [] : [{ path: '', message: `${label} must be a YYYY-MM-DD date` }])
+
+export const attendanceCreateSchema = object({
+  title: attendanceTitle,
+  date: calendarDate('Date')
+})
+
+const recurrenceSchema = refine(
+  object({
+    frequency: oneOf('Frequency', RECURRENCE_FREQUENCIES),
+    weekday: integer('Weekday', { min: 0, max: 6 }),
+    weekOfMonth: optional(integer('Week of month', { min: -1, max: 4 })),
+    startDate: calendarDate('Start date'),
+    until: optional(calendarDate('Until')),
+    exceptions: optional(array('Exceptions', calendarDate('Exception'), { max: MAX_SERIES_EXCEPTIONS }))
+  }),
+  ({ frequency, weekOfMonth, startDate, until }) => {
+    const issues: ValidationIssue[] = []
+    if (frequency === 'monthly' && (weekOfMonth === undefined || weekOfMonth === 0)) {
+      issues.push({ path: 'weekOfMonth', message: 'Monthly series need a week of month: 1-4, or -1 for the last' })
+    } else if (frequency !== 'monthly' && weekOfMonth !== undefined) {
+      issues.push({ path: 'weekOfMonth', message: 'Only monthly series have a week of month' })
+    }
+    if (until !== undefined && until < startDate) issues.push({ path: 'until', message: 'Until must not be before the start date' })
+    return issues
+  }
+)
+
+const seriesTitleTemplate = string('Title', { max: MAX_SERIES_TITLE_LENGTH })
+
+export const attendanceSeriesCreateSchema = object({
+  titleTemplate: seriesTitleTemplate,
+  recurrence: recurrenceSchema
+})
+
+// Admin edits; changes apply to the polls created from then on
+export const attendanceSeriesUpdateSchema = object({
+  titleTemplate: optional(seriesTitleTemplate),
+  recurrence: optional(recurrenceSchema),
+  version
+})
+
+// Backups hold records as stored, ids and all, including those in the trash
+const deletedAt = optional(timestamp('deletedAt'))
+
+const storedBallotSchema = object({ id: string('Id'), ...ballotFields, deletedAt })
+
+const storedDashboardSchema = object({
+  id: string('Id'),
+  name: string('Dashboard name', { max: MAX_DASHBOARD_NAME_LENGTH }),
+  ballotIds: array('Ballot ids', string('Id')),
+  attendanceIds: array('Attendance ids', string('Id')),
+  createdAt: timestamp('createdAt'),
+  updatedAt: timestamp('updatedAt'),
+  deletedAt,
+  version
+})
+
+const storedAttendanceSchema = object({
+  id: string('Id'),
+  title: attendanceTitle,
+  date: string('Date'),
+  responses: array('Responses', object({
+    name: string('Name', { max: MAX_NAME_LENGTH }),
+    attending: boolean('Attending'),
+    timestamp: timestamp('timestamp')
+  })),
+  createdAt: timestamp('createdAt'),
+  updatedAt: timestamp('updatedAt'),
+  seriesId: optional(string('Series id')),
+  deletedAt,
+  version
+})
+
+const currentBackupSchema = object({
+  version: integer('Version', { min: BACKUP_VERSION, max: BACKUP_VERSION }),
+  createdAt: timestamp('createdAt'),
+  ballots: array('Ballots', storedBallotSchema),
+  dashboards: array('Dashboards', storedDashboardSchema),
+  attendance: array('Attendance', storedAttendanceSchema)
+})
+
+// A snapshot of any version, upgraded to the current one; `upgradedFrom` says
+// which version it was if it had to be
+const backupSchema: Schema<Infer<typeof currentBackupSchema> & { upgradedFrom?: number }> = {
+  parse(input, path = '') {
+    const upgraded = upgradeBackup(input)
+    if (!upgraded.ok) return { ok: false, issues: [{ path, message: upgraded.message }] }
+
+    const result = currentBackupSchema.parse(upgraded.snapshot, path)
+    if (!result.ok || upgraded.from === BACKUP_VERSION) return result
+    return { ok: true, value: { ...result.value, upgradedFrom: upgraded.from } }
+  }
+}
+
+export const restoreSchema = object({
+  backup: backupSchema,
+  mode: optional(oneOf('Mode', RESTORE_MODES)),
+  dryRun: optional(boolean('dryRun'))
+})
+
+export const attendanceResponseSchema = object({
+  name: string('Name', { max: MAX_NAME_LENGTH }),
+  attending: boolean('Attending'),
+  version
+})
+
+export const attendanceRenameSchema = object({
+  title: attendanceTitle
+})
+
+export const adminLoginSchema = object({
+  key: string('API key')
+})
+
+export const adminKeyCreateSchema = object({
+  name: string('Name', { max: MAX_NAME_LENGTH }),
+  scope: oneOf('Scope', ADMIN_SCOPES)
+})
+
+// Query string of the list routes; see ./pagination
+const listQueryFields = {
+  limit: optional(numeric(integer('Limit', { min: 1, max: MAX_PAGE_SIZE }))),
+  cursor: optional(string('Cursor')),
+  q: optional(string('Search', { min: 0, max: MAX_QUESTION_LENGTH })),
+  createdAfter: optional(timestamp('createdAfter')),
+  createdBefore: optional(timestamp('createdBefore')),
+  sort: optional(oneOf('Sort', LIST_SORTS))
+}
+
+export const listQuerySchema = object(listQueryFields)
+
+// A list query plus the audit log's own filters. The log is always newest
+// first, so there's no `sort`.
+const { sort: _sort, ...auditListQueryFields } = listQueryFields
+
+export const auditQuerySchema = object({
+  ...auditListQueryFields,
+  action: optional(oneOf('Action', AUDIT_ACTIONS)),
+  actor: optional(string('Actor')),
+  resourceType: optional(string('Resource type')),
+  resourceId: optional(string('Resource id'))
+})
+
+// Two versions to compare; `to` defaults to the current one
+export const revisionDiffQuerySchema = object({
+  from: numeric(integer('From', { min: 1 })),
+  to: optional(numeric(integer('To', { min: 1 })))
+})
+
+// A list query, optionally narrowed to one series' polls
+export const attendanceQuerySchema = object({
+  ...listQueryFields,
+  seriesId: optional(string('Series id'))
+})
+
+// The polls GET /api/attendance/feed.ics lists - all of them unless narrowed
+export const calendarFeedQuerySchema = object({
+  dashboardId: optional(string('Dashboard id')),
+  seriesId: optional(string('Series id'))
+})
+
+export const searchQuerySchema = object({
+  q: string('Search', { max: MAX_QUESTION_LENGTH })
+})
+
+export const exportQuerySchema = object({
+  format: optional(oneOf('Format', EXPORT_FORMATS))
+})
+
+export type BallotCreateInput = Infer<typeof ballotCreateSchema>
+export type BallotUpdateInput = Infer<typeof ballotUpdateSchema>
+export type BallotReopenInput = Infer<typeof ballotReopenSchema>
+export type VoteInput = Infer<typeof voteSchema>
+export type DashboardUpdateInput = Infer<typeof dashboardUpdateSchema>
+export type ListQuery = Infer<typeof listQuerySchema>
+export type AuditQuery = Infer<typeof auditQuerySchema>
+export type AttendanceQuery = Infer<typeof attendanceQuerySchema>
+export type CalendarFeedQuery = Infer<typeof calendarFeedQuerySchema>
+export type AttendanceSeriesCreateInput = Infer<typeof attendanceSeriesCreateSchema>
+export type AttendanceSeriesUpdateInput = Infer<typeof attendanceSeriesUpdateSchema>
+export type RevisionDiffQuery = Infer<typeof revisionDiffQuerySchema>
+export type RestoreInput = Infer<typeof restoreSchema>
@@ -0,0 +1,41 @@
+import type { AuditActor } from './audit'
+
+/**
+ * Revision history for ballots, dashboards and attendance polls, see
+ * GET /api/{resource}/:id/revisions.
+ *
+ * Each edit keeps a copy of the record as it was before and after, so any
+ * two kept versions can be compared and an old one brought back. The oldest
+ * revisions go once a record has more than MAX_REVISIONS.
+ */
+
+export const REVISION_TYPES = ['ballot', 'dashboard', 'attendance'] as const
+export type RevisionType = typeof REVISION_TYPES[number]
+
+export const MAX_REVISIONS = 50
+
+export type Revision<T = unknown> = {
+  id: string           // `<type>:<recordId>:<version>`
+  type: RevisionType
+  recordId: string
+  version: number      // The record's version this is a copy of
+  createdAt: string    // When it was kept
+  actor?: AuditActor   // Who made this version; absent for the version an edit started from
+  record: T
+}
+
+// One top-level field that differs between two revisions. Lists show what
+// was added and removed rather than both whole lists.
+export type RevisionChange = {
+  field: string
+  before?: unknown
+  after?: unknown
+  added?: unknown[]
+  removed?: unknown[]
+}
+
+export type RevisionDiff = {
+  from: number
+  to: number
+  changes: RevisionChange[]
+}
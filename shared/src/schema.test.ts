@@ -0,0 +1,120 @@
+import { describe, test, expect } from 'bun:test'
+import { array, object, optional, string, timestamp } from './schema'
+import { attendanceCreateSchema, attendanceResponseSchema, ballotCreateSchema, ballotReplaceSchema, listQuerySchema, restoreSchema, voteSchema } from './requests'
+
+const hourFromNow = () => new Date(Date.now() + 60 * 60 * 1000).toISOString()
+
+describe('Schemas', () => {
+  describe('combinators', () => {
+    test('should trim strings and treat blank ones as missing', () => {
+      const name = string('Name', { max: 5 })
+
+      expect(name.parse('  Sam ')).toEqual({ ok: true, value: 'Sam' })
+      expect(name.parse('   ')).toEqual({ ok: false, issues: [{ path: '', message: 'Name is required' }] })
+      expect(name.parse(42)).toEqual({ ok: false, issues: [{ path: '', message: 'Name must be text' }] })
+      expect(name.parse('Samantha')).toEqual({ ok: false, issues: [{ path: '', message: 'Name must be 5 characters or less' }] })
+      expect(string('Comment', { min: 0 }).parse(' ')).toEqual({ ok: true, value: '' })
+    })
+
+    test('should drop undeclared fields and report every bad one with its path', () => {
+      const schema = object({ name: string('Name'), tags: array('Tags', string('Tag')), note: optional(string('Note')) })
+
+      expect(schema.parse({ name: 'Sam', tags: [], note: null, admin: true })).toEqual({ ok: true, value: { name: 'Sam', tags: [] } })
+      expect(schema.parse({ tags: ['a', ''] })).toEqual({
+        ok: false,
+        issues: [
+          { path: 'name', message: 'Name is required' },
+          { path: 'tags.1', message: 'Tag is required' }
+        ]
+      })
+      expect(schema.parse([])).toEqual({ ok: false, issues: [{ path: '', message: 'Request body must be a JSON object' }] })
+    })
+
+    test('should normalise timestamps and reject junk and past ones', () => {
+      const closesAt = timestamp('closesAt', { future: true })
+
+      expect(timestamp('createdAt').parse('2024-01-01T10:00:00Z')).toEqual({ ok: true, value: '2024-01-01T10:00:00.000Z' })
+      expect(closesAt.parse(hourFromNow()).ok).toBe(true)
+      expect(closesAt.parse('next tuesday')).toEqual({ ok: false, issues: [{ path: '', message: 'closesAt must be an ISO 8601 timestamp' }] })
+      expect(closesAt.parse(42)).toEqual({ ok: false, issues: [{ path: '', message: 'closesAt must be an ISO 8601 timestamp' }] })
+      expect(closesAt.parse('2020-01-01T00:00:00Z')).toEqual({ ok: false, issues: [{ path: '', message: 'closesAt must be in the future' }] })
+    })
+  })
+
+  describe('requests', () => {
+    test('should need options only on custom option kinds', () => {
+      expect(ballotCreateSchema.parse({ question: 'Lunch?', kind: 'choice', options: ['Pizza', ' Tacos '] })).toEqual({
+        ok: true,
+        value: { question: 'Lunch?', kind: 'choice', options: ['Pizza', 'Tacos'] }
+      })
+      expect(ballotCreateSchema.parse({ question: 'Lunch?', kind: 'choice', options: ['Pizza'] })).toMatchObject({
+        issues: [{ path: 'options', message: 'Choice ballots need between 2 and 10 options' }]
+      })
+      expect(ballotCreateSchema.parse({ question: 'Lunch?', kind: 'ranked', options: ['Pizza', 'pizza'] })).toMatchObject({
+        issues: [{ path: 'options', message: 'Options must be unique' }]
+      })
+      expect(ballotCreateSchema.parse({ question: 'Ship it?', options: ['Yes', 'No'] })).toMatchObject({
+        issues: [{ path: 'options', message: 'Options can only be set on choice, ranked or approval ballots' }]
+      })
+    })
+
+    test('should need some selection in a vote', () => {
+      expect(voteSchema.parse({ color: 'green', comment: '  ' })).toEqual({ ok: true, value: { color: 'green', comment: '' } })
+      expect(voteSchema.parse({ comment: 'Hmm' })).toMatchObject({ issues: [{ path: 'choice', message: 'A choice is required' }] })
+    })
+
+    test('should check stored votes in whole-ballot edits', () => {
+      const result = ballotReplaceSchema.parse({
+        question: 'Ship it?',
+        createdAt: '2024-01-01T09:00:00Z',
+        votes: [{ color: 'green', createdAt: '2024-01-01T10:00:00Z' }, { color: 'blue', comment: 'x'.repeat(1001), createdAt: 'soon' }]
+      })
+
+      expect(result).toMatchObject({
+        issues: [
+          { path: 'votes.1.color', message: 'Color must be one of: green, yellow, red' },
+          { path: 'votes.1.comment', message: 'Comment must be 1000 characters or less' },
+          { path: 'votes.1.createdAt', message: 'createdAt must be an ISO 8601 timestamp' }
+        ]
+      })
+    })
+
+    test('should read list query strings', () => {
+      expect(listQuerySchema.parse({ limit: '25', q: ' lunch ', sort: 'oldest' })).toEqual({
+        ok: true,
+        value: { limit: 25, q: 'lunch', sort: 'oldest' }
+      })
+      expect(listQuerySchema.parse({ limit: 'lots' })).toMatchObject({ issues: [{ path: 'limit', message: 'Limit must be a whole number' }] })
+      expect(listQuerySchema.parse({ limit: '500' })).toMatchObject({ issues: [{ path: 'limit', message: 'Limit must be at most 100' }] })
+    })
+
+    test('should need a boolean attending', () => {
+      expect(attendanceResponseSchema.parse({ name: 'Sam', attending: 'yes' })).toMatchObject({
+        issues: [{ path: 'attending', message: 'Attending must be true or false' }]
+      })
+    })
+
+    test('should need a calendar date for a new poll', () => {
+      expect(attendanceCreateSchema.parse({ title: 'Offsite', date: 'next Friday' })).toMatchObject({
+        issues: [{ path: 'date', message: 'Date must be a YYYY-MM-DD date' }]
+      })
+      expect(attendanceCreateSchema.parse({ title: 'Offsite', date: '2025-02-07' })).toEqual({ ok: true, value: { title: 'Offsite', date: '2025-02-07' } })
+    })
+
+    test('should upgrade old backups and refuse newer ones', () => {
+      const ballot = { id: 'b1', question: 'Ship it?', votes: [], createdAt: '2024-01-01T09:00:00.000Z' }
+
+      expect(restoreSchema.parse({ backup: [ballot] })).toMatchObject({
+        ok: true,
+        value: { backup: { version: 2, ballots: [ballot], dashboards: [], attendance: [], upgradedFrom: 1 } }
+      })
+      expect(restoreSchema.parse({ backup: { ballots: [ballot] }, mode: 'replace' })).toMatchObject({ ok: true, value: { mode: 'replace' } })
+      expect(restoreSchema.parse({ backup: { version: 3 } })).toMatchObject({
+        issues: [{ path: 'backup', message: 'Backup version 3 is newer than this server understands (2)' }]
+      })
+      expect(restoreSchema.parse({ backup: { version: 2, createdAt: '2024-01-01T09:00:00Z', ballots: [], dashboards: [{ id: 'd1', ballotIds: [], attendanceIds: [], createdAt: ballot.createdAt, updatedAt: ballot.createdAt }], attendance: [] } })).toMatchObject({
+        issues: [{ path: 'backup.dashboards.0.name', message: 'Dashboard name is required' }]
+      })
+    })
+  })
+})
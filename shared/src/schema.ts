@@ -0,0 +1,165 @@
+/**
+ * A small schema library for request bodies. The server rejects bodies that
+ * don't parse; the client checks its forms against the same schemas before
+ * sending them.
+ *
+ * Parsing turns unknown input into a typed, tidied value - strings trimmed,
+ * undeclared fields dropped - or lists every problem with the path of the
+ * field it concerns.
+ */
+
+export type ValidationIssue = {
+  path: string      // Dotted, e.g. 'options.2'; '' for the body itself
+  message: string
+}
+
+export type ParseResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; issues: ValidationIssue[] }
+
+export type Schema<T> = {
+  parse: (input: unknown, path?: string) => ParseResult<T>
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never
+
+type Shape = Record<string, Schema<unknown>>
+
+// Fields that may parse to undefined are optional in the result
+type ObjectOf<S extends Shape> =
+  { [K in keyof S as undefined extends Infer<S[K]> ? never : K]: Infer<S[K]> } &
+  { [K in keyof S as undefined extends Infer<S[K]> ? K : never]?: Infer<S[K]> }
+
+const valid = <T>(value: T): ParseResult<T> => ({ ok: true, value })
+const invalid = (path: string, message: string): ParseResult<never> => ({ ok: false, issues: [{ path, message }] })
+const childPath = (path: string, key: string | number) => path ? `${path}.${key}` : String(key)
+
+/**
+ * A trimmed string. Blank strings count as missing unless `min` is 0.
+ */
+export function string(label: string, { min = 1, max }: { min?: number; max?: number } = {}): Schema<string> {
+  return {
+    parse(input, path = '') {
+      if (input === undefined || input === null || (typeof input === 'string' && !input.trim() && min > 0)) {
+        return invalid(path, `${label} is required`)
+      }
+      if (typeof input !== 'string') return invalid(path, `${label} must be text`)
+
+      const value = input.trim()
+      if (value.length < min) return invalid(path, `${label} must be at least ${min} characters`)
+      if (max !== undefined && value.length > max) return invalid(path, `${label} must be ${max} characters or less`)
+      return valid(value)
+    }
+  }
+}
+
+export function boolean(label: string): Schema<boolean> {
+  return {
+    parse: (input, path = '') => typeof input === 'boolean' ? valid(input) : invalid(path, `${label} must be true or false`)
+  }
+}
+
+export function integer(label: string, { min, max }: { min?: number; max?: number } = {}): Schema<number> {
+  return {
+    parse(input, path = '') {
+      if (typeof input !== 'number' || !Number.isInteger(input)) return invalid(path, `${label} must be a whole number`)
+      if (min !== undefined && input < min) return invalid(path, `${label} must be at least ${min}`)
+      if (max !== undefined && input > max) return invalid(path, `${label} must be at most ${max}`)
+      return valid(input)
+    }
+  }
+}
+
+// Query string values are always text; this reads a number out of them first
+export function numeric(schema: Schema<number>): Schema<number> {
+  return {
+    parse: (input, path = '') => schema.parse(typeof input === 'string' && input.trim() ? Number(input) : input, path)
+  }
+}
+
+export function oneOf<T extends string>(label: string, values: readonly T[]): Schema<T> {
+  return {
+    parse: (input, path = '') => values.includes(input as T)
+      ? valid(input as T)
+      : invalid(path, `${label} must be one of: ${values.join(', ')}`)
+  }
+}
+
+/**
+ * An ISO 8601 timestamp, normalised to `Date.toISOString()` form.
+ */
+export function timestamp(label: string, { future = false }: { future?: boolean } = {}): Schema<string> {
+  return {
+    parse(input, path = '') {
+      const time = typeof input === 'string' ? Date.parse(input) : NaN
+      if (Number.isNaN(time)) return invalid(path, `${label} must be an ISO 8601 timestamp`)
+      if (future && time <= Date.now()) return invalid(path, `${label} must be in the future`)
+      return valid(new Date(time).toISOString())
+    }
+  }
+}
+
+export function array<T>(label: string, item: Schema<T>, { min, max }: { min?: number; max?: number } = {}): Schema<T[]> {
+  return {
+    parse(input, path = '') {
+      if (!Array.isArray(input)) return invalid(path, `${label} must be a list`)
+      if (min !== undefined && input.length < min) return invalid(path, `${label} needs at least ${min} items`)
+      if (max !== undefined && input.length > max) return invalid(path, `${label} can have at most ${max} items`)
+
+      const value: T[] = []
+      const issues: ValidationIssue[] = []
+      input.forEach((element, index) => {
+        const result = item.parse(element, childPath(path, index))
+        if (result.ok) value.push(result.value)
+        else issues.push(...result.issues)
+      })
+      return issues.length ? { ok: false, issues } : valid(value)
+    }
+  }
+}
+
+/**
+ * An object with the given fields. Fields that aren't declared are dropped,
+ * so nothing the schema doesn't know about reaches storage.
+ */
+export function object<S extends Shape>(shape: S): Schema<ObjectOf<S>> {
+  return {
+    parse(input, path = '') {
+      if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+        return invalid(path, path ? `${path} must be an object` : 'Request body must be a JSON object')
+      }
+
+      const value: Record<string, unknown> = {}
+      const issues: ValidationIssue[] = []
+      for (const [key, field] of Object.entries(shape)) {
+        const result = field.parse((input as Record<string, unknown>)[key], childPath(path, key))
+        if (!result.ok) issues.push(...result.issues)
+        else if (result.value !== undefined) value[key] = result.value
+      }
+      return issues.length ? { ok: false, issues } : valid(value as ObjectOf<S>)
+    }
+  }
+}
+
+// Missing and null both parse to undefined
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    parse: (input, path = '') => input === undefined || input === null ? valid(undefined) : schema.parse(input, path)
+  }
+}
+
+/**
+ * Adds checks that need the whole parsed value, e.g. one field that depends on
+ * another. `check` returns issues with paths relative to the schema's own.
+ */
+export function refine<T>(schema: Schema<T>, check: (value: T) => ValidationIssue[]): Schema<T> {
+  return {
+    parse(input, path = '') {
+      const result = schema.parse(input, path)
+      if (!result.ok) return result
+
+      const issues = check(result.value).map(issue => ({ ...issue, path: issue.path ? childPath(path, issue.path) : path }))
+      return issues.length ? { ok: false, issues } : result
+    }
+  }
+}
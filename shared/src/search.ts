@@ -0,0 +1,26 @@
+/**
+ * Site-wide search over ballot questions and comments, attendance titles and
+ * dashboard names, see GET /api/search. Results are grouped by type, best
+ * match first.
+ */
+
+export const SEARCH_TYPES = ['ballot', 'attendance', 'dashboard'] as const
+export type SearchType = typeof SEARCH_TYPES[number]
+
+// Per type
+export const MAX_SEARCH_RESULTS = 10
+
+export type SearchHit = {
+  type: SearchType
+  id: string
+  title: string    // The question, title or name
+  date: string     // When it was created; the event date for attendance
+  score: number
+}
+
+export type SearchResults = {
+  query: string
+  ballots: SearchHit[]
+  attendance: SearchHit[]
+  dashboards: SearchHit[]
+}
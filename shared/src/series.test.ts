@@ -0,0 +1,42 @@
+import { describe, test, expect } from 'bun:test'
+import { describeRecurrence, isCalendarDate, seriesDates, seriesTitle } from './series'
+import type { Recurrence } from './types'
+
+// 2025-01-06 is a Monday
+const weekly: Recurrence = { frequency: 'weekly', weekday: 1, startDate: '2025-01-01' }
+
+describe('Series', () => {
+  test('weekly series should fall on the weekday from the start date on', () => {
+    expect(seriesDates(weekly, '2024-12-01', '2025-01-31')).toEqual(['2025-01-06', '2025-01-13', '2025-01-20', '2025-01-27'])
+  })
+
+  test('biweekly series should keep their rhythm whatever range is asked for', () => {
+    const biweekly: Recurrence = { ...weekly, frequency: 'biweekly' }
+
+    expect(seriesDates(biweekly, '2025-01-01', '2025-02-28')).toEqual(['2025-01-06', '2025-01-20', '2025-02-03', '2025-02-17'])
+    expect(seriesDates(biweekly, '2025-01-14', '2025-02-05')).toEqual(['2025-01-20', '2025-02-03'])
+  })
+
+  test('monthly series should fall on the Nth or last weekday', () => {
+    const second: Recurrence = { frequency: 'monthly', weekday: 2, weekOfMonth: 2, startDate: '2025-01-01' }
+    const last: Recurrence = { frequency: 'monthly', weekday: 5, weekOfMonth: -1, startDate: '2025-01-01' }
+
+    expect(seriesDates(second, '2025-11-01', '2026-01-31')).toEqual(['2025-11-11', '2025-12-09', '2026-01-13'])
+    expect(seriesDates(last, '2025-01-01', '2025-03-31')).toEqual(['2025-01-31', '2025-02-28', '2025-03-28'])
+  })
+
+  test('should skip exceptions and stop at until', () => {
+    const recurrence: Recurrence = { ...weekly, until: '2025-01-20', exceptions: ['2025-01-13'] }
+
+    expect(seriesDates(recurrence, '2025-01-01', '2025-12-31')).toEqual(['2025-01-06', '2025-01-20'])
+    expect(seriesDates(recurrence, '2025-02-01', '2025-12-31')).toEqual([])
+  })
+
+  test('should describe and title the dates', () => {
+    expect(seriesTitle('Standup {date}', '2025-01-06')).toBe('Standup January 6, 2025')
+    expect(describeRecurrence({ frequency: 'monthly', weekday: 5, weekOfMonth: -1, startDate: '2025-01-01' })).toBe('Monthly on the last Friday')
+    expect(describeRecurrence({ ...weekly, frequency: 'biweekly' })).toBe('Every other Monday')
+    expect(isCalendarDate('2025-02-29')).toBe(false)
+    expect(isCalendarDate('2024-02-29')).toBe(true)
+  })
+})
@@ -0,0 +1,89 @@
+import type { Recurrence, RecurrenceFrequency } from './types'
+
+/**
+ * Attendance series: standing meetings that get an attendance poll for each
+ * date they fall on. The server creates the polls SERIES_HORIZON_DAYS ahead;
+ * clients use `seriesDates` to show the dates further out.
+ *
+ * Dates are calendar dates with no time zone, so the arithmetic is in UTC.
+ */
+
+export const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = ['weekly', 'biweekly', 'monthly']
+
+export const SERIES_HORIZON_DAYS = 28
+export const MAX_SERIES_EXCEPTIONS = 100
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+const ORDINALS = ['first', 'second', 'third', 'fourth']
+
+const parseDay = (date: string) => Date.parse(`${date}T00:00:00Z`)
+const formatDay = (time: number) => new Date(time).toISOString().slice(0, 10)
+
+// A real YYYY-MM-DD date, so not 2025-02-30
+export function isCalendarDate(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(parseDay(value)) && formatDay(parseDay(value)) === value
+}
+
+export function addDays(date: string, days: number): string {
+  return formatDay(parseDay(date) + days * DAY_MS)
+}
+
+// Counted from the first meeting on or after the start date, so biweekly
+// series keep their rhythm whatever range is asked for
+function weeklyDates({ frequency, weekday, startDate }: Recurrence, first: string, last: string): string[] {
+  const step = (frequency === 'biweekly' ? 14 : 7) * DAY_MS
+  const start = parseDay(startDate)
+  const anchor = start + ((weekday - new Date(start).getUTCDay() + 7) % 7) * DAY_MS
+  const end = parseDay(last)
+
+  const dates: string[] = []
+  for (let time = anchor + Math.max(0, Math.ceil((parseDay(first) - anchor) / step)) * step; time <= end; time += step) {
+    dates.push(formatDay(time))
+  }
+  return dates
+}
+
+function nthWeekday(year: number, month: number, weekday: number, weekOfMonth: number): string {
+  if (weekOfMonth === -1) {
+    const lastDay = Date.UTC(year, month + 1, 0)
+    return formatDay(lastDay - ((new Date(lastDay).getUTCDay() - weekday + 7) % 7) * DAY_MS)
+  }
+  const firstDay = Date.UTC(year, month, 1)
+  return formatDay(firstDay + (((weekday - new Date(firstDay).getUTCDay() + 7) % 7) + (weekOfMonth - 1) * 7) * DAY_MS)
+}
+
+function monthlyDates({ weekday, weekOfMonth = 1 }: Recurrence, first: string, last: string): string[] {
+  const from = new Date(parseDay(first))
+  const dates: string[] = []
+  // Date.UTC carries months past December into the next year
+  for (let month = from.getUTCMonth(); ; month++) {
+    const date = nthWeekday(from.getUTCFullYear(), month, weekday, weekOfMonth)
+    if (date > last) return dates
+    if (date >= first) dates.push(date)
+  }
+}
+
+/** Every date the series falls on from `from` to `to`, inclusive, in order. */
+export function seriesDates(recurrence: Recurrence, from: string, to: string): string[] {
+  const first = recurrence.startDate > from ? recurrence.startDate : from
+  const last = recurrence.until && recurrence.until < to ? recurrence.until : to
+  if (first > last) return []
+
+  const skipped = new Set(recurrence.exceptions ?? [])
+  const dates = recurrence.frequency === 'monthly' ? monthlyDates(recurrence, first, last) : weeklyDates(recurrence, first, last)
+  return dates.filter(date => !skipped.has(date))
+}
+
+export function seriesTitle(titleTemplate: string, date: string): string {
+  const formatted = new Date(parseDay(date)).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric', timeZone: 'UTC' })
+  return titleTemplate.replace(/\{date\}/g, formatted)
+}
+
+// e.g. "Every other Tuesday", "Monthly on the last Friday"
+export function describeRecurrence({ frequency, weekday, weekOfMonth }: Recurrence): string {
+  const day = WEEKDAYS[weekday] ?? 'day'
+  if (frequency === 'weekly') return `Every ${day}`
+  if (frequency === 'biweekly') return `Every other ${day}`
+  return `Monthly on the ${weekOfMonth === -1 ? 'last' : ORDINALS[(weekOfMonth ?? 1) - 1]} ${day}`
+}
@@ -0,0 +1,185 @@
+import { describe, test, expect } from 'bun:test'
+import { tallyApproval, tallyBallot, tallyInstantRunoff, tallyPlurality } from './tally'
+
+const options = ['a', 'b', 'c', 'd']
+
+describe('Tally', () => {
+  describe('tallyPlurality', () => {
+    test('should count choices and ignore unknown ones', () => {
+      const results = tallyPlurality(['yes', 'no'], ['yes', 'no', 'yes', 'maybe', undefined])
+
+      expect(results.totals).toEqual({ yes: 2, no: 1 })
+      expect(results.winners).toEqual(['yes'])
+      expect(results.ballotsCast).toBe(5)
+    })
+
+    test('should report every option tied for first', () => {
+      expect(tallyPlurality(['yes', 'no'], ['yes', 'no']).winners).toEqual(['yes', 'no'])
+    })
+
+    test('should have no winner without votes', () => {
+      expect(tallyPlurality(['yes', 'no'], []).winners).toEqual([])
+    })
+  })
+
+  describe('tallyApproval', () => {
+    test('should give each approved option one point per ballot', () => {
+      const results = tallyApproval(options, [['a', 'b'], ['b'], ['b', 'c'], ['a', 'a']])
+
+      expect(results.totals).toEqual({ a: 2, b: 3, c: 1, d: 0 })
+      expect(results.winners).toEqual(['b'])
+    })
+
+    test('should report ties for the most approvals', () => {
+      expect(tallyApproval(options, [['a', 'c'], ['c', 'a']]).winners).toEqual(['a', 'c'])
+    })
+  })
+
+  describe('tallyInstantRunoff', () => {
+    test('should finish in one round when an option has a majority', () => {
+      const results = tallyInstantRunoff(options, [['a'], ['a', 'b'], ['b']])
+
+      expect(results.rounds).toHaveLength(1)
+      expect(results.winners).toEqual(['a'])
+    })
+
+    test('should transfer eliminated ballots to their next preference', () => {
+      const results = tallyInstantRunoff(['a', 'b', 'c'], [
+        ['a'], ['a'], ['a'],
+        ['b'], ['b'],
+        ['c', 'b'], ['c', 'b']
+      ])
+
+      expect(results.rounds.map(round => round.counts)).toEqual([
+        { a: 3, b: 2, c: 2 },
+        { a: 3, b: 4 }
+      ])
+      expect(results.winners).toEqual(['b'])
+    })
+
+    test('should count ballots with no remaining preferences as exhausted', () => {
+      const results = tallyInstantRunoff(['a', 'b', 'c'], [['a'], ['a'], ['b'], ['b'], ['c']])
+
+      expect(results.rounds[0]!.eliminated).toEqual(['c'])
+      expect(results.rounds[1]).toMatchObject({ counts: { a: 2, b: 2 }, exhausted: 1 })
+      // Two options left and level: a tie, not a coin flip
+      expect(results.winners).toEqual(['a', 'b'])
+    })
+
+    test('should need a majority of continuing ballots, not of all ballots', () => {
+      const results = tallyInstantRunoff(['a', 'b', 'c'], [['a'], ['a'], ['a'], ['b'], ['b'], ['c']])
+
+      // 3 of 6 is not a majority, but 3 of the 5 ballots still in play is
+      expect(results.rounds[1]).toMatchObject({ counts: { a: 3, b: 2 }, exhausted: 1 })
+      expect(results.winners).toEqual(['a'])
+    })
+
+    describe('tie-breaking for last place', () => {
+      test('should eliminate the option that had fewer votes in the previous round', () => {
+        const results = tallyInstantRunoff(options, [
+          ['a'], ['a'], ['a'], ['a'],
+          ['b'], ['b'], ['b'],
+          ['c', 'b'], ['c', 'b'],
+          ['d', 'c', 'b']
+        ])
+
+        expect(results.rounds[0]).toMatchObject({ counts: { a: 4, b: 3, c: 2, d: 1 }, eliminated: ['d'] })
+        // b and c are level on 3, but c had fewer in round 1
+        expect(results.rounds[1]).toMatchObject({
+          counts: { a: 4, b: 3, c: 3 },
+          eliminated: ['c'],
+          tieBreak: 'previous_rounds'
+        })
+        expect(results.rounds[2]!.counts).toEqual({ a: 4, b: 6 })
+        expect(results.winners).toEqual(['b'])
+      })
+
+      test('should look further back when the previous round was also tied', () => {
+        const results = tallyInstantRunoff(['a', 'b', 'c', 'd', 'e'], [
+          ['a'], ['a'], ['a'], ['a'], ['a'],
+          ['b'], ['b'], ['b'],
+          ['c'], ['c'],
+          ['d', 'b'], ['d', 'c'],
+          ['e', 'c']
+        ])
+
+        expect(results.rounds.map(round => round.counts)).toEqual([
+          { a: 5, b: 3, c: 2, d: 2, e: 1 },
+          { a: 5, b: 3, c: 3, d: 2 },
+          { a: 5, b: 4, c: 4 },
+          { a: 5, b: 4 }
+        ])
+        // Round 3 tie: level in round 2 too, so round 1 decides - c had fewer
+        expect(results.rounds[2]).toMatchObject({ eliminated: ['c'], tieBreak: 'previous_rounds' })
+        expect(results.winners).toEqual(['a'])
+      })
+
+      test('should prefer earlier-round counts over option order', () => {
+        // Option order alone would knock out c, but b had fewer votes in round 1
+        const results = tallyInstantRunoff(options, [
+          ['a'], ['a'], ['a'], ['a'], ['a'],
+          ['b'], ['b'],
+          ['c'], ['c'], ['c'],
+          ['d', 'b']
+        ])
+
+        expect(results.rounds[1]).toMatchObject({
+          counts: { a: 5, b: 3, c: 3 },
+          eliminated: ['b'],
+          tieBreak: 'previous_rounds'
+        })
+      })
+
+      test('should drop the option listed last when tied in the first round', () => {
+        const results = tallyInstantRunoff(['a', 'b', 'c'], [['a'], ['a'], ['a'], ['b'], ['b'], ['c'], ['c']])
+
+        expect(results.rounds[0]).toMatchObject({
+          counts: { a: 3, b: 2, c: 2 },
+          eliminated: ['c'],
+          tieBreak: 'option_order'
+        })
+        expect(results.winners).toEqual(['a'])
+      })
+
+      test('should drop the option listed last when tied in every round', () => {
+        const results = tallyInstantRunoff(options, [
+          ['a'], ['a'], ['a'], ['a'],
+          ['b'], ['b'],
+          ['c'], ['c'],
+          ['d']
+        ])
+
+        expect(results.rounds[0]).toMatchObject({ eliminated: ['d'] })
+        expect(results.rounds[0]!.tieBreak).toBeUndefined()
+        expect(results.rounds[1]).toMatchObject({ counts: { a: 4, b: 2, c: 2 }, eliminated: ['c'], tieBreak: 'option_order' })
+      })
+    })
+
+    test('should return no rounds and no winner without votes', () => {
+      expect(tallyInstantRunoff(options, [])).toEqual({ method: 'instant-runoff', rounds: [], winners: [], ballotsCast: 0 })
+    })
+  })
+
+  describe('tallyBallot', () => {
+    const createdAt = '2024-01-01T00:00:00Z'
+    const custom = [{ value: '1', label: 'One' }, { value: '2', label: 'Two' }]
+
+    test('should use plurality for traffic-light ballots', () => {
+      const results = tallyBallot({ votes: [{ color: 'green', createdAt }, { color: 'red', createdAt }, { color: 'green', createdAt }] })
+
+      expect(results).toEqual({ method: 'plurality', totals: { green: 2, yellow: 0, red: 1 }, winners: ['green'], ballotsCast: 3 })
+    })
+
+    test('should use approval voting for approval ballots', () => {
+      const results = tallyBallot({ kind: 'approval', options: custom, votes: [{ approvals: ['1', '2'], createdAt }, { approvals: ['2'], createdAt }] })
+
+      expect(results).toMatchObject({ method: 'approval', winners: ['2'] })
+    })
+
+    test('should use instant runoff for ranked ballots', () => {
+      const results = tallyBallot({ kind: 'ranked', options: custom, votes: [{ ranking: ['2', '1'], createdAt }] })
+
+      expect(results).toMatchObject({ method: 'instant-runoff', winners: ['2'] })
+    })
+  })
+})
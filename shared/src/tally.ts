@@ -0,0 +1,165 @@
+import type { Ballot } from './types'
+import { ballotKind, ballotOptions, voteChoice } from './ballot'
+
+/**
+ * Vote tallying shared by the server's results endpoint and the client's
+ * results view.
+ *
+ * - Single-choice kinds: plurality - most votes wins
+ * - Approval: every approved option gets a point - most points wins
+ * - Ranked: instant runoff - the option with the fewest first preferences is
+ *   eliminated each round and its ballots move to their next preference,
+ *   until one option holds a majority of the ballots still in play
+ *
+ * Ties for the win are reported, not broken: `winners` lists every tied option.
+ */
+
+export type OptionTotals = Record<string, number>
+
+export type PluralityResults = {
+  method: 'plurality'
+  totals: OptionTotals
+  winners: string[]
+  ballotsCast: number
+}
+
+export type ApprovalResults = {
+  method: 'approval'
+  totals: OptionTotals
+  winners: string[]
+  ballotsCast: number
+}
+
+/**
+ * How a tie for last place was settled:
+ * - 'previous_rounds': the option with fewer votes in the latest earlier round where they differed
+ * - 'option_order': still tied in every round, so the option listed last goes
+ */
+export type TieBreak = 'previous_rounds' | 'option_order'
+
+export type RunoffRound = {
+  round: number
+  counts: OptionTotals   // First preferences among the options still in the race
+  exhausted: number      // Ballots whose ranked options have all been eliminated
+  eliminated: string[]   // Options knocked out at the end of this round
+  tieBreak?: TieBreak
+}
+
+export type InstantRunoffResults = {
+  method: 'instant-runoff'
+  rounds: RunoffRound[]
+  winners: string[]
+  ballotsCast: number
+}
+
+export type BallotResults = PluralityResults | ApprovalResults | InstantRunoffResults
+
+function emptyTotals(options: string[]): OptionTotals {
+  return Object.fromEntries(options.map(option => [option, 0]))
+}
+
+// Every option with the highest total; none if nobody scored
+function leaders(totals: OptionTotals): string[] {
+  const top = Math.max(0, ...Object.values(totals))
+  return top === 0 ? [] : Object.keys(totals).filter(option => totals[option] === top)
+}
+
+export function tallyPlurality(options: string[], choices: (string | undefined)[]): PluralityResults {
+  const totals = emptyTotals(options)
+  for (const choice of choices) {
+    if (choice !== undefined && choice in totals) totals[choice]! += 1
+  }
+  return { method: 'plurality', totals, winners: leaders(totals), ballotsCast: choices.length }
+}
+
+export function tallyApproval(options: string[], approvals: string[][]): ApprovalResults {
+  const totals = emptyTotals(options)
+  for (const approved of approvals) {
+    for (const option of new Set(approved)) {
+      if (option in totals) totals[option]! += 1
+    }
+  }
+  return { method: 'approval', totals, winners: leaders(totals), ballotsCast: approvals.length }
+}
+
+/**
+ * Picks the option to eliminate from those tied for last place. Looks back
+ * through earlier rounds, latest first, for one where the tied options had
+ * different counts; otherwise drops the one listed last on the ballot.
+ */
+function breakLastPlaceTie(
+  tied: string[],
+  rounds: RunoffRound[],
+  options: string[]
+): { loser: string; tieBreak: TieBreak } {
+  let candidates = tied
+  for (let index = rounds.length - 2; index >= 0 && candidates.length > 1; index--) {
+    const counts = rounds[index]!.counts
+    const fewest = Math.min(...candidates.map(option => counts[option] ?? 0))
+    candidates = candidates.filter(option => (counts[option] ?? 0) === fewest)
+  }
+
+  if (candidates.length === 1) {
+    return { loser: candidates[0]!, tieBreak: 'previous_rounds' }
+  }
+  const loser = candidates.reduce((last, option) => options.indexOf(option) > options.indexOf(last) ? option : last)
+  return { loser, tieBreak: 'option_order' }
+}
+
+export function tallyInstantRunoff(options: string[], rankings: string[][]): InstantRunoffResults {
+  const rounds: RunoffRound[] = []
+  let remaining = [...options]
+  let winners: string[] = []
+
+  while (rankings.length > 0 && remaining.length > 0) {
+    const counts = emptyTotals(remaining)
+    let exhausted = 0
+    for (const ranking of rankings) {
+      const preference = ranking.find(option => remaining.includes(option))
+      if (preference === undefined) exhausted += 1
+      else counts[preference]! += 1
+    }
+
+    const round: RunoffRound = { round: rounds.length + 1, counts, exhausted, eliminated: [] }
+    rounds.push(round)
+
+    const continuing = rankings.length - exhausted
+    const [leader] = leaders(counts)
+    if (leader !== undefined && counts[leader]! * 2 > continuing) {
+      winners = [leader]
+      break
+    }
+
+    const fewest = Math.min(...remaining.map(option => counts[option]!))
+    const lastPlace = remaining.filter(option => counts[option] === fewest)
+    if (lastPlace.length === remaining.length) {
+      // Everyone left is level, so eliminating any of them would be arbitrary
+      winners = continuing > 0 ? remaining : []
+      break
+    }
+
+    if (lastPlace.length === 1) {
+      round.eliminated = lastPlace
+    } else {
+      const { loser, tieBreak } = breakLastPlaceTie(lastPlace, rounds, options)
+      round.eliminated = [loser]
+      round.tieBreak = tieBreak
+    }
+    remaining = remaining.filter(option => !round.eliminated.includes(option))
+  }
+
+  return { method: 'instant-runoff', rounds, winners, ballotsCast: rankings.length }
+}
+
+export function tallyBallot(ballot: Pick<Ballot, 'kind' | 'options' | 'votes'>): BallotResults {
+  const options = ballotOptions(ballot).map(option => option.value)
+
+  switch (ballotKind(ballot)) {
+    case 'ranked':
+      return tallyInstantRunoff(options, ballot.votes.map(vote => vote.ranking ?? []))
+    case 'approval':
+      return tallyApproval(options, ballot.votes.map(vote => vote.approvals ?? []))
+    default:
+      return tallyPlurality(options, ballot.votes.map(voteChoice))
+  }
+}
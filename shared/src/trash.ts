@@ -0,0 +1,29 @@
+/**
+ * The trash, see /api/admin/trash.
+ *
+ * Deleting a ballot, dashboard or attendance poll stamps it with `deletedAt`
+ * rather than removing it. Trashed records are hidden everywhere else and can
+ * be restored until the scheduled purge removes them for good,
+ * TRASH_RETENTION_DAYS after they were deleted.
+ */
+
+export const TRASH_TYPES = ['ballot', 'dashboard', 'attendance'] as const
+export type TrashType = typeof TRASH_TYPES[number]
+
+export const TRASH_RETENTION_DAYS = 30
+
+export type TrashItem = {
+  type: TrashType
+  id: string
+  title: string      // Ballot question, dashboard name or attendance title
+  deletedAt: string
+  purgeAt: string    // When the scheduled purge will remove it
+}
+
+export function isTrashed(record: { deletedAt?: string }): boolean {
+  return record.deletedAt !== undefined
+}
+
+export function trashPurgeAt(deletedAt: string): string {
+  return new Date(new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString()
+}
@@ -5,21 +5,78 @@ export type ApiResponse = {
 
 export type VoteColor = 'green' | 'yellow' | 'red'
 
+export type BallotKind = 'traffic-light' | 'yes-no' | 'scale' | 'choice' | 'ranked' | 'approval'
+
+export type BallotOption = {
+  value: string   // What a vote stores
+  label: string   // What voters see
+}
+
 export type Vote = {
-  color: VoteColor
+  color?: VoteColor    // Traffic-light ballots
+  choice?: string      // Other single-choice kinds - one of the ballot's option values
+  ranking?: string[]   // Ranked ballots - option values, most preferred first; may be partial
+  approvals?: string[] // Approval ballots - every option value the voter approves of
   comment?: string
+  voterId?: string     // Hash of the voter's token and the ballot id - unique per voter per ballot
   createdAt: string
 }
 
+export type BallotStatus = 'open' | 'closed'
+
+/**
+ * How many votes one voter may cast:
+ * - 'once': a second vote is rejected
+ * - 'change': a second vote replaces the first
+ * - 'unlimited': every vote counts
+ */
+export type VotePolicy = 'once' | 'change' | 'unlimited'
+
 export type Ballot = {
   id: string
   question: string
   votes: Vote[]
   createdAt: string
   isPrivate?: boolean
+  kind?: BallotKind          // Defaults to 'traffic-light' if not present
+  options?: BallotOption[]   // Only stored for 'choice', 'ranked' and 'approval' ballots; other kinds have fixed options
+  status?: BallotStatus  // Defaults to 'open' if not present
+  closesAt?: string      // ISO timestamp after which no more votes are accepted
+  closedAt?: string      // When the ballot was closed, by an admin or the scheduled sweep
+  votePolicy?: VotePolicy  // Defaults to 'unlimited' if not present
+  deletedAt?: string     // Set while the ballot is in the trash, see ../trash
   version?: number  // For optimistic locking - defaults to 1 if not present
 }
 
+/**
+ * What an admin key may do. Each scope includes the ones before it:
+ * - 'read': view the admin lists
+ * - 'moderate': edit, hide, close and reopen ballots; rename attendance polls
+ * - 'full': delete records, run migrations and manage admin keys
+ */
+export type AdminScope = 'read' | 'moderate' | 'full'
+
+// An admin API key as the API returns it - the secret is never stored or shown again
+export type AdminKeySummary = {
+  id: string
+  name: string
+  scope: AdminScope
+  createdAt: string
+  lastLoginAt?: string
+  revokedAt?: string
+}
+
+export type AdminIdentity = {
+  name: string
+  scope: AdminScope
+}
+
+export type AdminSession = {
+  token: string      // Sent as `Authorization: Bearer <token>`
+  expiresAt: string
+  admin: AdminIdentity
+}
+
 export type AdminBallot = Ballot & {
   voteCount: number
   commentCount: number
@@ -33,9 +90,21 @@ export type Dashboard = {
   attendanceIds: string[]
   createdAt: string
   updatedAt: string
+  deletedAt?: string  // Set while it's in the trash, see ../trash
   version?: number  // For optimistic locking - defaults to 1 if not present
 }
 
+// What someone's dashboard token lets them do. Owners also manage editors and
+// can delete the dashboard; viewers (no token) can only look.
+export type DashboardRole = 'owner' | 'editor' | 'viewer'
+
+// A dashboard editor as the API returns it - their token is only shown on creation
+export type DashboardEditorSummary = {
+  id: string
+  name: string
+  createdAt: string
+}
+
 export type AttendanceResponse = {
   name: string
   attending: boolean
@@ -49,5 +118,30 @@ export type Attendance = {
   responses: AttendanceResponse[]
   createdAt: string
   updatedAt: string
+  seriesId?: string   // Set on polls created by an AttendanceSeries
+  deletedAt?: string  // Set while it's in the trash, see ../trash
   version?: number  // For optimistic locking - defaults to 1 if not present
 }
+
+export type RecurrenceFrequency = 'weekly' | 'biweekly' | 'monthly'
+
+// Which dates a series falls on, after iCalendar's RRULE. Dates are
+// YYYY-MM-DD, like Attendance.date.
+export type Recurrence = {
+  frequency: RecurrenceFrequency
+  weekday: number          // 0 (Sunday) to 6 (Saturday)
+  weekOfMonth?: number     // Monthly only: 1-4 for the Nth weekday, -1 for the last
+  startDate: string        // The first date it can fall on
+  until?: string           // The last date it can fall on; open-ended if absent
+  exceptions?: string[]    // Dates it skips
+}
+
+// A standing meeting that gets an attendance poll per date, see ../series
+export type AttendanceSeries = {
+  id: string
+  titleTemplate: string    // Each poll's title; `{date}` becomes the poll's date
+  recurrence: Recurrence
+  createdAt: string
+  updatedAt: string
+  version?: number
+}